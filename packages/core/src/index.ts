@@ -7,6 +7,7 @@ export type {
   DxfHeader,
   DxfEntity,
   DxfEntityBase,
+  XDataValue,
   DxfLineEntity,
   DxfCircleEntity,
   DxfArcEntity,
@@ -22,12 +23,45 @@ export type {
   DxfHatchEntity,
   DxfHatchBoundaryPath,
   DxfHatchEdge,
+  DxfHatchPatternLine,
+  DxfHatchGradient,
+  DxfHatchGradientColor,
   DxfPointEntity,
+  DxfSolidEntity,
+  DxfTraceEntity,
+  Dxf3DFaceEntity,
+  DxfQuadPoints,
+  DxfLeaderEntity,
+  DxfMLeaderEntity,
+  DxfMLeaderBranch,
+  DxfMLeaderBlockContent,
+  DxfXLineEntity,
+  DxfRayEntity,
+  DxfImageEntity,
+  DxfImageDef,
+  DxfImageGeometry,
+  DxfWipeoutEntity,
+  DxfTableEntity,
+  DxfTableCell,
+  DxfMLineEntity,
+  DxfMLineVertex,
+  DxfMLineStyle,
+  DxfMLineStyleElement,
+  DxfViewportEntity,
+  DxfLayout,
   DxfAttrib,
+  DxfAttdef,
   DxfLayer,
   DxfLineType,
   DxfBlock,
   DxfStyle,
+  DxfDimStyle,
+  DxfDimStyleSettings,
+  DxfVPort,
+  DxfView,
+  DxfUcs,
+  DxfAppId,
+  DxfBlockRecord,
   Point2D,
   Point3D,
 } from './parser/types.js';
@@ -36,12 +70,15 @@ export type {
 export { aciToHex, aciToDisplayColor, trueColorToHex } from './parser/colors.js';
 
 // Renderer
-export type { ViewTransform, Theme, ThemeConfig, RenderStats } from './renderer/index.js';
-export { CanvasRenderer, resolveEntityColor } from './renderer/index.js';
-export { Camera, fitToView, worldToScreen, screenToWorld, zoomAtPoint, applyTransform } from './renderer/index.js';
+export type { ViewTransform, Theme, ThemeConfig, RenderStats, DrawOptions, BlockContext } from './renderer/index.js';
+export type { ShxFontType, ShxGlyph, FontMappings } from './renderer/index.js';
+export { CanvasRenderer, resolveEntityColor, resolveEntityLineType } from './renderer/index.js';
+export { Camera, fitToView, fitViewWindow, worldToScreen, screenToWorld, zoomAtPoint, applyTransform } from './renderer/index.js';
 export { drawEntity } from './renderer/index.js';
 export { THEMES } from './renderer/index.js';
 export { renderDebugOverlay } from './renderer/index.js';
+export { createFontMappings, mapCADFont } from './renderer/index.js';
+export { ShxFont, parseShxFont } from './renderer/index.js';
 
 // Viewer
 export { CadViewer } from './viewer/index.js';
@@ -54,6 +91,7 @@ export type {
   FormatConverter,
   SelectEvent,
   MeasureEvent,
+  LayerChangeEvent,
   CadViewerEventMap,
   Tool,
   SnapType,
@@ -61,8 +99,14 @@ export type {
   MeasureState,
   DebugOptions,
   DebugStats,
+  LineWeightMode,
 } from './viewer/index.js';
 
 // Utils
 export { computeEntitiesBounds, computeEntityBBox } from './utils/bbox.js';
 export type { BBox } from './utils/bbox.js';
+export { getEntityText, getTableCells } from './utils/entity-text.js';
+export { getBlockAttributes } from './utils/attributes.js';
+export type { BlockAttribute } from './utils/attributes.js';
+export { getXData, xdataContains } from './utils/xdata.js';
+export { resolveDimStyle, formatLinearMeasurement, formatAngularMeasurement } from './utils/dim-style.js';
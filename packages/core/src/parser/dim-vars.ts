@@ -0,0 +1,53 @@
+import type { DxfDimStyleSettings } from './types.js';
+
+/**
+ * Store one dimension variable by its DIMSTYLE group code. Shared by the
+ * DIMSTYLE table and the XDATA `DSTYLE` overrides of DIMENSION entities,
+ * which use the same codes. Unknown codes are ignored.
+ */
+export function setDimStyleValue(settings: Partial<DxfDimStyleSettings>, code: number, value: string): void {
+  const real = (): number => parseFloat(value);
+  const int = (): number => parseInt(value, 10);
+  const flag = (): boolean => parseInt(value, 10) !== 0;
+
+  switch (code) {
+    case 3:   settings.textPost = value; break;
+    case 5:   settings.arrowBlock = value.trim(); break;
+    case 6:   settings.arrowBlock1 = value.trim(); break;
+    case 7:   settings.arrowBlock2 = value.trim(); break;
+    case 40:  settings.scale = real(); break;
+    case 41:  settings.arrowSize = real(); break;
+    case 42:  settings.extensionOffset = real(); break;
+    case 44:  settings.extensionExtension = real(); break;
+    case 45:  settings.rounding = real(); break;
+    case 46:  settings.dimLineExtension = real(); break;
+    case 140: settings.textHeight = real(); break;
+    case 141: settings.centerMark = real(); break;
+    case 142: settings.tickSize = real(); break;
+    case 144: settings.linearFactor = real(); break;
+    case 147: settings.textGap = real(); break;
+    case 73:  settings.textInsideHorizontal = flag(); break;
+    case 74:  settings.textOutsideHorizontal = flag(); break;
+    case 75:  settings.suppressExtension1 = flag(); break;
+    case 76:  settings.suppressExtension2 = flag(); break;
+    case 77:  settings.textAbove = int(); break;
+    case 78:  settings.zeroSuppression = int(); break;
+    case 173: settings.separateArrows = flag(); break;
+    case 176: settings.dimLineColor = int(); break;
+    case 177: settings.extLineColor = int(); break;
+    case 178: settings.textColor = int(); break;
+    case 179: settings.angularDecimalPlaces = int(); break;
+    case 271: settings.decimalPlaces = int(); break;
+    case 275: settings.angularUnit = int(); break;
+    case 277: settings.linearUnit = int(); break;
+    case 278: settings.decimalSeparator = String.fromCharCode(int()); break;
+    case 281: settings.suppressDimLine1 = flag(); break;
+    case 282: settings.suppressDimLine2 = flag(); break;
+    case 340: settings.textStyleHandle = value.trim(); break;
+    case 342: settings.arrowBlockHandle = value.trim(); break;
+    case 343: settings.arrowBlock1Handle = value.trim(); break;
+    case 344: settings.arrowBlock2Handle = value.trim(); break;
+    case 371: settings.dimLineWeight = int(); break;
+    case 372: settings.extLineWeight = int(); break;
+  }
+}
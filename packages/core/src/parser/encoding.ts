@@ -0,0 +1,25 @@
+/** TextDecoder labels for `$DWGCODEPAGE` values. */
+const CODEPAGE_MAP: Record<string, string> = {
+  'ANSI_874':  'windows-874',
+  'ANSI_932':  'shift_jis',
+  'ANSI_936':  'gbk',
+  'ANSI_949':  'euc-kr',
+  'ANSI_950':  'big5',
+  'ANSI_1250': 'windows-1250',
+  'ANSI_1251': 'windows-1251',
+  'ANSI_1252': 'windows-1252',
+  'ANSI_1253': 'windows-1253',
+  'ANSI_1254': 'windows-1254',
+  'ANSI_1255': 'windows-1255',
+  'ANSI_1256': 'windows-1256',
+  'ANSI_1257': 'windows-1257',
+  'ANSI_1258': 'windows-1258',
+};
+
+/**
+ * TextDecoder label for a `$DWGCODEPAGE` value (e.g. `ANSI_936` → `gbk`),
+ * or undefined when the code page is unknown.
+ */
+export function getCodePageEncoding(codepage: string | undefined): string | undefined {
+  return codepage ? CODEPAGE_MAP[codepage.trim().toUpperCase()] : undefined;
+}
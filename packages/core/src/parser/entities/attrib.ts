@@ -0,0 +1,77 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfAttdef, DxfAttrib } from '../types.js';
+
+/**
+ * Parse the text and attribute tags shared by ATTRIB and ATTDEF. Multiline
+ * attributes embed an MTEXT after code 101 that repeats codes 10, 40, etc.,
+ * so parsing stops there.
+ */
+function parseAttributeTags(tags: DxfToken[], attrib: DxfAttrib): void {
+  for (const tag of tags) {
+    if (tag.code === 101) return;
+    switch (tag.code) {
+      case 1:   attrib.text = tag.value; break;
+      case 2:   attrib.tag = tag.value; break;
+      case 7:   attrib.style = tag.value; break;
+      case 8:   attrib.layer = tag.value; break;
+      case 10:  attrib.insertionPoint.x = parseFloat(tag.value); break;
+      case 20:  attrib.insertionPoint.y = parseFloat(tag.value); break;
+      case 30:  attrib.insertionPoint.z = parseFloat(tag.value); break;
+      case 11:
+        if (!attrib.alignmentPoint) attrib.alignmentPoint = { x: 0, y: 0, z: 0 };
+        attrib.alignmentPoint.x = parseFloat(tag.value);
+        break;
+      case 21:
+        if (!attrib.alignmentPoint) attrib.alignmentPoint = { x: 0, y: 0, z: 0 };
+        attrib.alignmentPoint.y = parseFloat(tag.value);
+        break;
+      case 31:
+        if (!attrib.alignmentPoint) attrib.alignmentPoint = { x: 0, y: 0, z: 0 };
+        attrib.alignmentPoint.z = parseFloat(tag.value);
+        break;
+      case 40:  attrib.height = parseFloat(tag.value); break;
+      case 41:  attrib.widthFactor = parseFloat(tag.value); break;
+      case 50:  attrib.rotation = parseFloat(tag.value); break;
+      case 51:  attrib.obliqueAngle = parseFloat(tag.value); break;
+      case 62:  attrib.color = parseInt(tag.value, 10); break;
+      case 70:  attrib.flags = parseInt(tag.value, 10); break;
+      case 71:  attrib.generationFlags = parseInt(tag.value, 10); break;
+      case 72:  attrib.hAlign = parseInt(tag.value, 10); break;
+      case 74:  attrib.vAlign = parseInt(tag.value, 10); break;
+      case 420: attrib.trueColor = parseInt(tag.value, 10); break;
+    }
+  }
+}
+
+function createAttrib(): DxfAttrib {
+  return {
+    tag: '',
+    text: '',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    height: 1,
+    rotation: 0,
+    widthFactor: 1,
+    obliqueAngle: 0,
+    style: 'STANDARD',
+    hAlign: 0,
+    vAlign: 0,
+    generationFlags: 0,
+    flags: 0,
+    layer: '0',
+    color: 256,
+  };
+}
+
+export function parseAttrib(tags: DxfToken[]): DxfAttrib {
+  const attrib = createAttrib();
+  parseAttributeTags(tags, attrib);
+  return attrib;
+}
+
+/** Parse an ATTDEF: the ATTRIB tags, with code 1 as the default value and code 3 as the prompt. */
+export function parseAttdef(tags: DxfToken[]): DxfAttdef {
+  // The prompt comes before any embedded MTEXT, whose text chunks also use code 3
+  const attdef: DxfAttdef = { ...createAttrib(), prompt: tags.find(t => t.code === 3)?.value ?? '' };
+  parseAttributeTags(tags, attdef);
+  return attdef;
+}
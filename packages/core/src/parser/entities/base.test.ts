@@ -95,6 +95,103 @@ describe('parseBaseEntity', () => {
   });
 });
 
+describe('parseBaseEntity owner, dictionaries and XDATA', () => {
+  it('reads the owner, extension dictionary and reactors from 102 groups', () => {
+    const tags: DxfToken[] = [
+      { code: 5, value: '2F' },
+      { code: 102, value: '{ACAD_REACTORS' },
+      { code: 330, value: '1A' },
+      { code: 330, value: '1B' },
+      { code: 102, value: '}' },
+      { code: 102, value: '{ACAD_XDICTIONARY' },
+      { code: 360, value: '2E' },
+      { code: 102, value: '}' },
+      { code: 330, value: '1F' },
+      { code: 100, value: 'AcDbEntity' },
+      { code: 8, value: 'Walls' },
+      { code: 330, value: '40' }, // entity data, e.g. a hatch's source boundary
+    ];
+    const base = parseBaseEntity(tags);
+    expect(base.ownerHandle).toBe('1F');
+    expect(base.extensionDictionary).toBe('2E');
+    expect(base.reactors).toEqual(['1A', '1B']);
+    expect(base.layer).toBe('Walls');
+  });
+
+  it('leaves them undefined without the groups', () => {
+    const base = parseBaseEntity([{ code: 8, value: '0' }]);
+    expect(base.ownerHandle).toBeUndefined();
+    expect(base.extensionDictionary).toBeUndefined();
+    expect(base.reactors).toBeUndefined();
+    expect(base.xdata).toBeUndefined();
+  });
+
+  it('parses typed XDATA values by application', () => {
+    const tags: DxfToken[] = [
+      { code: 8, value: '0' },
+      { code: 1001, value: 'ACME_BIM' },
+      { code: 1000, value: 'Pump P-101' },
+      { code: 1003, value: 'Equipment' },
+      { code: 1005, value: '3A' },
+      { code: 1010, value: '1' },
+      { code: 1020, value: '2' },
+      { code: 1030, value: '3' },
+      { code: 1011, value: '4' },
+      { code: 1021, value: '5' },
+      { code: 1040, value: '2.5' },
+      { code: 1070, value: '7' },
+      { code: 1071, value: '100000' },
+      { code: 1001, value: 'OTHER' },
+      { code: 1000, value: 'x' },
+    ];
+    const { xdata } = parseBaseEntity(tags);
+    expect(xdata).toEqual({
+      ACME_BIM: [
+        { type: 'string', code: 1000, value: 'Pump P-101' },
+        { type: 'string', code: 1003, value: 'Equipment' },
+        { type: 'handle', code: 1005, value: '3A' },
+        { type: 'point', code: 1010, value: { x: 1, y: 2, z: 3 } },
+        { type: 'point', code: 1011, value: { x: 4, y: 5, z: 0 } },
+        { type: 'real', code: 1040, value: 2.5 },
+        { type: 'int', code: 1070, value: 7 },
+        { type: 'int', code: 1071, value: 100000 },
+      ],
+      OTHER: [{ type: 'string', code: 1000, value: 'x' }],
+    });
+  });
+
+  it('nests 1002 lists and ignores values before the first application', () => {
+    const tags: DxfToken[] = [
+      { code: 1000, value: 'orphan' },
+      { code: 1001, value: 'ACAD' },
+      { code: 1000, value: 'DSTYLE' },
+      { code: 1002, value: '{' },
+      { code: 1070, value: '41' },
+      { code: 1002, value: '{' },
+      { code: 1040, value: '0.25' },
+      { code: 1002, value: '}' },
+      { code: 1002, value: '}' },
+      { code: 1002, value: '}' }, // unbalanced close stays at the top level
+      { code: 1000, value: 'after' },
+    ];
+    const { xdata } = parseBaseEntity(tags);
+    expect(xdata).toEqual({
+      ACAD: [
+        { type: 'string', code: 1000, value: 'DSTYLE' },
+        {
+          type: 'list',
+          code: 1002,
+          value: [
+            { type: 'int', code: 1070, value: 41 },
+            { type: 'list', code: 1002, value: [{ type: 'real', code: 1040, value: 0.25 }] },
+          ],
+        },
+        { type: 'string', code: 1000, value: 'after' },
+      ],
+    });
+  });
+});
+
 describe('readPoint3D', () => {
   it('reads x/y/z from sequential codes 10/20/30', () => {
     const tags: DxfToken[] = [
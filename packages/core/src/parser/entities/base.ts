@@ -1,10 +1,11 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfEntityBase, Point3D } from '../types.js';
+import type { DxfEntityBase, Point3D, XDataValue } from '../types.js';
 
 /**
  * Parse common entity properties shared by all entity types.
  * Handles: handle, layer, color, trueColor, lineType, lineTypeScale,
- * lineWeight, visibility, and extrusion direction.
+ * lineWeight, visibility, extrusion direction, paper space flag, owner,
+ * extension dictionary, reactors and extended data.
  */
 export function parseBaseEntity(tags: DxfToken[]): DxfEntityBase {
   const base: DxfEntityBase = {
@@ -18,7 +19,21 @@ export function parseBaseEntity(tags: DxfToken[]): DxfEntityBase {
     extrusion: { x: 0, y: 0, z: 1 },
   };
 
+  // Name of the open `102 {NAME` … `102 }` group
+  let group: string | null = null;
+
   for (const tag of tags) {
+    if (tag.code === 102) {
+      const value = tag.value.trim();
+      group = value.startsWith('{') ? value.slice(1).toUpperCase() : null;
+      continue;
+    }
+    if (group !== null) {
+      if (group === 'ACAD_XDICTIONARY' && tag.code === 360) base.extensionDictionary ??= tag.value.trim();
+      else if (group === 'ACAD_REACTORS' && tag.code === 330) (base.reactors ??= []).push(tag.value.trim());
+      continue;
+    }
+
     switch (tag.code) {
       case 5:   base.handle = tag.value; break;
       case 8:   base.layer = tag.value; break;
@@ -31,12 +46,64 @@ export function parseBaseEntity(tags: DxfToken[]): DxfEntityBase {
       case 210: base.extrusion.x = parseFloat(tag.value); break;
       case 220: base.extrusion.y = parseFloat(tag.value); break;
       case 230: base.extrusion.z = parseFloat(tag.value); break;
+      case 67:  if (tag.value.trim() === '1') base.paperSpace = true; break;
+      case 330: base.ownerHandle ??= tag.value.trim(); break; // owner; later 330s are entity data
     }
   }
 
+  const xdata = parseXData(tags);
+  if (xdata) base.xdata = xdata;
+
   return base;
 }
 
+/**
+ * Extended data by application: each `1001` name takes the values that
+ * follow it, `1002 {` and `1002 }` open and close nested lists, and points
+ * read their Y and Z from the next codes (1010 → 1020, 1030).
+ */
+function parseXData(tags: DxfToken[]): Record<string, XDataValue[]> | undefined {
+  let xdata: Record<string, XDataValue[]> | undefined;
+  // Open lists, innermost last; the first is the application's values
+  let lists: XDataValue[][] = [];
+
+  for (let i = 0; i < tags.length; i++) {
+    const { code, value } = tags[i]!;
+    if (code === 1001) {
+      xdata ??= {};
+      lists = [xdata[value.trim()] ??= []];
+      continue;
+    }
+    const values = lists[lists.length - 1];
+    if (!values || code < 1000 || code > 1071) continue;
+
+    if (code === 1002) {
+      if (value.trim() === '{') {
+        const list: XDataValue[] = [];
+        values.push({ type: 'list', code, value: list });
+        lists.push(list);
+      } else if (lists.length > 1) {
+        lists.pop();
+      }
+    } else if (code >= 1010 && code <= 1013) {
+      const point: Point3D = { x: parseFloat(value), y: 0, z: 0 };
+      if (tags[i + 1]?.code === code + 10) point.y = parseFloat(tags[++i]!.value);
+      if (tags[i + 1]?.code === code + 20) point.z = parseFloat(tags[++i]!.value);
+      values.push({ type: 'point', code, value: point });
+    } else if (code === 1005) {
+      values.push({ type: 'handle', code, value: value.trim() });
+    } else if (code >= 1040 && code <= 1042) {
+      values.push({ type: 'real', code, value: parseFloat(value) });
+    } else if (code === 1070 || code === 1071) {
+      values.push({ type: 'int', code, value: parseInt(value, 10) });
+    } else if (code <= 1004) {
+      values.push({ type: 'string', code, value });
+    }
+  }
+
+  return xdata;
+}
+
 /** Read a Point3D from tokens starting at position i (expects codes 10/20/30 or similar) */
 export function readPoint3D(tags: DxfToken[], startIndex: number): { point: Point3D; consumed: number } {
   const point: Point3D = { x: 0, y: 0, z: 0 };
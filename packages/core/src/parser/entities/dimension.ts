@@ -1,6 +1,7 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfDimensionEntity } from '../types.js';
+import type { DxfDimensionEntity, DxfDimStyleSettings } from '../types.js';
 import { parseBaseEntity } from './base.js';
+import { setDimStyleValue } from '../dim-vars.js';
 
 export function parseDimension(tags: DxfToken[]): DxfDimensionEntity {
   const base = parseBaseEntity(tags);
@@ -72,5 +73,36 @@ export function parseDimension(tags: DxfToken[]): DxfDimensionEntity {
     }
   }
 
+  const overrides = parseStyleOverrides(tags);
+  if (overrides) entity.styleOverrides = overrides;
+
   return entity;
 }
+
+/**
+ * Dimension variable overrides from the `ACAD` XDATA: after `1000 DSTYLE`,
+ * a `1002 {`…`1002 }` list of `1070` group codes, each followed by its value.
+ */
+function parseStyleOverrides(tags: DxfToken[]): Partial<DxfDimStyleSettings> | undefined {
+  let app = '';
+  let start = -1;
+  for (let i = 0; i < tags.length; i++) {
+    const tag = tags[i]!;
+    if (tag.code === 1001) app = tag.value.trim();
+    else if (app === 'ACAD' && tag.code === 1000 && tag.value.trim() === 'DSTYLE') start = i + 1;
+    if (start >= 0) break;
+  }
+  if (start < 0) return undefined;
+
+  const overrides: Partial<DxfDimStyleSettings> = {};
+  for (let i = start; i < tags.length; i++) {
+    const tag = tags[i]!;
+    if (tag.code === 1001 || (tag.code === 1002 && tag.value.trim() === '}')) break;
+    if (tag.code !== 1070) continue;
+    const value = tags[i + 1];
+    if (!value) break;
+    setDimStyleValue(overrides, parseInt(tag.value, 10), value.value);
+    i++;
+  }
+  return overrides;
+}
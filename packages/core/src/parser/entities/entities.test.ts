@@ -216,11 +216,17 @@ describe('parseMText', () => {
       { code: 73, value: '2' },
       { code: 44, value: '1.5' },
       { code: 90, value: '1' },
+      { code: 63, value: '5' },
+      { code: 421, value: '16711680' },
+      { code: 45, value: '1.2' },
     ];
     const entity = parseMText(tags);
     expect(entity.lineSpacingStyle).toBe(2);
     expect(entity.lineSpacingFactor).toBe(1.5);
     expect(entity.bgFill).toBe(1);
+    expect(entity.bgFillColor).toBe(5);
+    expect(entity.bgFillTrueColor).toBe(16711680);
+    expect(entity.bgFillScale).toBe(1.2);
   });
 
   it('uses defaults for omitted properties', () => {
@@ -330,6 +336,52 @@ describe('parseHatch', () => {
     expect(entity.patternAngle).toBe(45);
   });
 
+  it('parses elevation and extrusion', () => {
+    const tags: DxfToken[] = [
+      { code: 10, value: '0' }, { code: 20, value: '0' }, { code: 30, value: '5' },
+      { code: 210, value: '0' }, { code: 220, value: '0' }, { code: 230, value: '-1' },
+      { code: 2, value: 'SOLID' },
+      { code: 70, value: '1' },
+    ];
+    const entity = parseHatch(tags);
+    expect(entity.elevation).toBe(5);
+    expect(entity.extrusion).toEqual({ x: 0, y: 0, z: -1 });
+  });
+
+  it('parses pattern definition lines', () => {
+    const tags: DxfToken[] = [
+      { code: 2, value: 'ANSI33' },
+      { code: 70, value: '0' },
+      { code: 75, value: '0' },
+      { code: 76, value: '1' },
+      { code: 52, value: '0' },
+      { code: 41, value: '1' },
+      { code: 77, value: '0' },
+      { code: 78, value: '2' },
+      { code: 53, value: '45' },
+      { code: 43, value: '0' }, { code: 44, value: '0' },
+      { code: 45, value: '-0.1767766953' }, { code: 46, value: '0.1767766953' },
+      { code: 79, value: '0' },
+      { code: 53, value: '45' },
+      { code: 43, value: '0.1767766953' }, { code: 44, value: '0' },
+      { code: 45, value: '-0.1767766953' }, { code: 46, value: '0.1767766953' },
+      { code: 79, value: '2' },
+      { code: 49, value: '0.125' }, { code: 49, value: '-0.0625' },
+      { code: 98, value: '1' },
+      { code: 10, value: '5' }, { code: 20, value: '5' },
+    ];
+    const entity = parseHatch(tags);
+    expect(entity.patternLines).toHaveLength(2);
+    expect(entity.patternLines[0]).toEqual({
+      angle: 45,
+      base: { x: 0, y: 0 },
+      offset: { x: -0.1767766953, y: 0.1767766953 },
+      dashes: [],
+    });
+    expect(entity.patternLines[1]!.base.x).toBeCloseTo(0.1767766953);
+    expect(entity.patternLines[1]!.dashes).toEqual([0.125, -0.0625]);
+  });
+
   it('parses polyline boundary path', () => {
     const tags: DxfToken[] = [
       { code: 2, value: 'SOLID' },
@@ -406,6 +458,103 @@ describe('parseHatch', () => {
     }
   });
 
+  it('parses ellipse and rational spline edges', () => {
+    const tags: DxfToken[] = [
+      { code: 2, value: 'SOLID' },
+      { code: 70, value: '1' },
+      { code: 91, value: '2' },
+      { code: 92, value: '0' },
+      { code: 93, value: '1' },
+      { code: 72, value: '3' },    // ellipse edge
+      { code: 10, value: '0' }, { code: 20, value: '0' },
+      { code: 11, value: '4' }, { code: 21, value: '0' },
+      { code: 40, value: '0.5' },
+      { code: 50, value: '0' },
+      { code: 51, value: '360' },
+      { code: 73, value: '1' },
+      { code: 92, value: '0' },
+      { code: 93, value: '1' },
+      { code: 72, value: '4' },    // spline edge
+      { code: 94, value: '2' },
+      { code: 73, value: '1' },    // rational
+      { code: 74, value: '0' },
+      { code: 95, value: '6' },
+      { code: 96, value: '3' },
+      { code: 40, value: '0' }, { code: 40, value: '0' }, { code: 40, value: '0' },
+      { code: 40, value: '1' }, { code: 40, value: '1' }, { code: 40, value: '1' },
+      { code: 10, value: '0' }, { code: 20, value: '0' }, { code: 42, value: '1' },
+      { code: 10, value: '1' }, { code: 20, value: '1' }, { code: 42, value: '0.5' },
+      { code: 10, value: '2' }, { code: 20, value: '0' }, { code: 42, value: '1' },
+      { code: 97, value: '2' },    // fit data
+      { code: 11, value: '0' }, { code: 21, value: '0' },
+      { code: 11, value: '2' }, { code: 21, value: '0' },
+      { code: 12, value: '1' }, { code: 22, value: '1' },
+      { code: 13, value: '1' }, { code: 23, value: '-1' },
+      { code: 97, value: '0' },    // source boundary objects
+    ];
+    const entity = parseHatch(tags);
+    expect(entity.boundaryPaths).toHaveLength(2);
+    const ellipse = entity.boundaryPaths[0]!.edges![0]!;
+    expect(ellipse).toEqual({
+      type: 'ellipse', center: { x: 0, y: 0 }, majorAxis: { x: 4, y: 0 },
+      minorRatio: 0.5, startAngle: 0, endAngle: 360, ccw: true,
+    });
+    const spline = entity.boundaryPaths[1]!.edges![0]!;
+    expect(spline.type).toBe('spline');
+    if (spline.type === 'spline') {
+      expect(spline.degree).toBe(2);
+      expect(spline.knots).toHaveLength(6);
+      expect(spline.controlPoints).toEqual([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 0 }]);
+      expect(spline.weights).toEqual([1, 0.5, 1]);
+    }
+  });
+
+  it('parses gradient fill definition', () => {
+    const tags: DxfToken[] = [
+      { code: 2, value: 'SOLID' },
+      { code: 70, value: '1' },
+      { code: 91, value: '0' },
+      { code: 75, value: '0' },
+      { code: 76, value: '1' },
+      { code: 98, value: '0' },
+      { code: 450, value: '     1' },
+      { code: 451, value: '     0' },
+      { code: 452, value: '     0' },
+      { code: 453, value: '     2' },
+      { code: 460, value: '1.5707963' },
+      { code: 461, value: '0.0' },
+      { code: 462, value: '1.0' },
+      { code: 463, value: '0.0' },
+      { code: 63, value: '5' },
+      { code: 421, value: '255' },
+      { code: 463, value: '1.0' },
+      { code: 63, value: '2' },
+      { code: 421, value: '16776960' },
+      { code: 470, value: 'INVCYLINDER' },
+    ];
+    const entity = parseHatch(tags);
+    expect(entity.gradient).toEqual({
+      name: 'INVCYLINDER',
+      angle: 1.5707963,
+      shift: 0,
+      singleColor: false,
+      tint: 1,
+      colors: [
+        { color: 5, trueColor: 255 },
+        { color: 2, trueColor: 16776960 },
+      ],
+    });
+  });
+
+  it('leaves gradient undefined for plain solid fills', () => {
+    const entity = parseHatch([
+      { code: 2, value: 'SOLID' },
+      { code: 70, value: '1' },
+      { code: 450, value: '0' },
+    ]);
+    expect(entity.gradient).toBeUndefined();
+  });
+
   it('parses multiple boundary paths', () => {
     const tags: DxfToken[] = [
       { code: 2, value: 'SOLID' },
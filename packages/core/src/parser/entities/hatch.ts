@@ -1,5 +1,5 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfHatchEntity, DxfHatchBoundaryPath, DxfHatchEdge, Point2D } from '../types.js';
+import type { DxfHatchEntity, DxfHatchBoundaryPath, DxfHatchEdge, DxfHatchGradient, DxfHatchPatternLine, Point2D } from '../types.js';
 import { parseBaseEntity } from './base.js';
 
 export function parseHatch(tags: DxfToken[]): DxfHatchEntity {
@@ -14,21 +14,53 @@ export function parseHatch(tags: DxfToken[]): DxfHatchEntity {
     patternType: 1,
     patternAngle: 0,
     patternScale: 1,
+    elevation: 0,
     boundaryPaths: [],
+    patternLines: [],
   };
 
+  // Gradient tags (450–470) follow the boundary and pattern data
+  const gradient: DxfHatchGradient = {
+    name: 'LINEAR',
+    angle: 0,
+    shift: 0,
+    singleColor: false,
+    tint: 0,
+    colors: [],
+  };
+  let isGradient = false;
+
   let i = 0;
   // First pass: get non-boundary properties
   while (i < tags.length) {
     const tag = tags[i]!;
     switch (tag.code) {
       case 2: entity.patternName = tag.value; break;
+      case 30: entity.elevation = parseFloat(tag.value); break;
       case 41: entity.patternScale = parseFloat(tag.value); break;
       case 52: entity.patternAngle = parseFloat(tag.value); break;
       case 70: entity.solidFill = tag.value === '1'; break;
       case 71: entity.associative = tag.value === '1'; break;
       case 75: entity.hatchStyle = parseInt(tag.value, 10); break;
       case 76: entity.patternType = parseInt(tag.value, 10); break;
+      case 450: isGradient = parseInt(tag.value, 10) === 1; break;
+      case 452: gradient.singleColor = parseInt(tag.value, 10) === 1; break;
+      case 460: gradient.angle = parseFloat(tag.value); break;
+      case 461: gradient.shift = parseFloat(tag.value); break;
+      case 462: gradient.tint = parseFloat(tag.value); break;
+      case 463: gradient.colors.push({ color: 256 }); break; // starts each gradient color
+      case 63: {
+        const color = gradient.colors[gradient.colors.length - 1];
+        if (color) color.color = parseInt(tag.value, 10);
+        else gradient.colors.push({ color: parseInt(tag.value, 10) });
+        break;
+      }
+      case 421: {
+        const color = gradient.colors[gradient.colors.length - 1];
+        if (color) color.trueColor = parseInt(tag.value, 10);
+        break;
+      }
+      case 470: gradient.name = tag.value.trim().toUpperCase(); break;
       case 91: {
         // Number of boundary paths — now parse them
         const pathCount = parseInt(tag.value, 10);
@@ -40,13 +72,58 @@ export function parseHatch(tags: DxfToken[]): DxfHatchEntity {
         }
         continue; // skip the i++ at bottom
       }
+      case 78: {
+        // Number of pattern definition lines — parse them
+        const lineCount = parseInt(tag.value, 10);
+        i++;
+        for (let l = 0; l < lineCount && i < tags.length; l++) {
+          const result = parsePatternLine(tags, i);
+          if (!result) break;
+          entity.patternLines.push(result.line);
+          i = result.nextIndex;
+        }
+        continue;
+      }
     }
     i++;
   }
 
+  if (isGradient) entity.gradient = gradient;
+
   return entity;
 }
 
+function parsePatternLine(tags: DxfToken[], i: number): { line: DxfHatchPatternLine; nextIndex: number } | null {
+  // Each line starts with code 53 (line angle)
+  if (tags[i]!.code !== 53) return null;
+
+  const line: DxfHatchPatternLine = {
+    angle: parseFloat(tags[i]!.value),
+    base: { x: 0, y: 0 },
+    offset: { x: 0, y: 0 },
+    dashes: [],
+  };
+  i++;
+
+  if (i < tags.length && tags[i]!.code === 43) { line.base.x = parseFloat(tags[i]!.value); i++; }
+  if (i < tags.length && tags[i]!.code === 44) { line.base.y = parseFloat(tags[i]!.value); i++; }
+  if (i < tags.length && tags[i]!.code === 45) { line.offset.x = parseFloat(tags[i]!.value); i++; }
+  if (i < tags.length && tags[i]!.code === 46) { line.offset.y = parseFloat(tags[i]!.value); i++; }
+
+  // Code 79 = number of dash length items
+  let dashCount = 0;
+  if (i < tags.length && tags[i]!.code === 79) {
+    dashCount = parseInt(tags[i]!.value, 10);
+    i++;
+  }
+  for (let d = 0; d < dashCount && i < tags.length && tags[i]!.code === 49; d++) {
+    line.dashes.push(parseFloat(tags[i]!.value));
+    i++;
+  }
+
+  return { line, nextIndex: i };
+}
+
 function parseBoundaryPath(tags: DxfToken[], i: number): { path: DxfHatchBoundaryPath; nextIndex: number } {
   // First tag should be code 92 (path type flag)
   let flags = 0;
@@ -187,7 +264,7 @@ function parseEdgePath(tags: DxfToken[], i: number, flags: number): { path: DxfH
           majorAxis: { x: 1, y: 0 },
           minorRatio: 1,
           startAngle: 0,
-          endAngle: Math.PI * 2,
+          endAngle: 360,
           ccw: true,
         };
         if (i < tags.length && tags[i]!.code === 10) { edge.center.x = parseFloat(tags[i]!.value); i++; }
@@ -203,12 +280,14 @@ function parseEdgePath(tags: DxfToken[], i: number, flags: number): { path: DxfH
       }
       case 4: { // Spline
         let degree = 3;
+        let rational = false;
         const knots: number[] = [];
         const controlPoints: Point2D[] = [];
+        const weights: number[] = [];
 
         if (i < tags.length && tags[i]!.code === 94) { degree = parseInt(tags[i]!.value, 10); i++; }
-        // Code 73 = rational flag (skip)
-        if (i < tags.length && tags[i]!.code === 73) { i++; }
+        // Code 73 = rational flag
+        if (i < tags.length && tags[i]!.code === 73) { rational = tags[i]!.value === '1'; i++; }
         // Code 74 = periodic flag (skip)
         if (i < tags.length && tags[i]!.code === 74) { i++; }
 
@@ -226,9 +305,29 @@ function parseEdgePath(tags: DxfToken[], i: number, flags: number): { path: DxfH
           if (tags[i]!.code === 10) { pt.x = parseFloat(tags[i]!.value); i++; }
           if (i < tags.length && tags[i]!.code === 20) { pt.y = parseFloat(tags[i]!.value); i++; }
           controlPoints.push(pt);
+          // Weights (code 42) follow each control point of a rational spline
+          if (i < tags.length && tags[i]!.code === 42) { weights.push(parseFloat(tags[i]!.value)); i++; }
+        }
+        // Some writers put all weights after the control points instead
+        while (i < tags.length && tags[i]!.code === 42) {
+          weights.push(parseFloat(tags[i]!.value));
+          i++;
         }
 
-        path.edges!.push({ type: 'spline', degree, knots, controlPoints });
+        // Code 97 = fit data count (R2010+): fit points 11/21, then start/end tangents 12/22, 13/23
+        if (i < tags.length && tags[i]!.code === 97) {
+          const fitCount = parseInt(tags[i]!.value, 10);
+          i++;
+          for (let f = 0; f < fitCount && i < tags.length && tags[i]!.code === 11; f++) {
+            i++;
+            if (i < tags.length && tags[i]!.code === 21) i++;
+          }
+          while (i < tags.length && [12, 22, 13, 23].includes(tags[i]!.code)) i++;
+        }
+
+        const edge: DxfHatchEdge = { type: 'spline', degree, knots, controlPoints };
+        if (rational && weights.length === controlPoints.length) edge.weights = weights;
+        path.edges!.push(edge);
         break;
       }
       default:
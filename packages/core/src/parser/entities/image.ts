@@ -0,0 +1,71 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfImageEntity, DxfImageGeometry, DxfWipeoutEntity } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/** Placement and clip boundary codes shared by IMAGE and WIPEOUT. */
+function parseImageGeometry(tags: DxfToken[]): DxfImageGeometry {
+  const geometry: DxfImageGeometry = {
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    uVector: { x: 1, y: 0, z: 0 },
+    vVector: { x: 0, y: 1, z: 0 },
+    imageSize: { x: 0, y: 0 },
+    displayFlags: 0,
+    clipping: false,
+    clipInverted: false,
+    clipBoundary: [],
+  };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 10: geometry.insertionPoint.x = parseFloat(tag.value); break;
+      case 20: geometry.insertionPoint.y = parseFloat(tag.value); break;
+      case 30: geometry.insertionPoint.z = parseFloat(tag.value); break;
+      case 11: geometry.uVector.x = parseFloat(tag.value); break;
+      case 21: geometry.uVector.y = parseFloat(tag.value); break;
+      case 31: geometry.uVector.z = parseFloat(tag.value); break;
+      case 12: geometry.vVector.x = parseFloat(tag.value); break;
+      case 22: geometry.vVector.y = parseFloat(tag.value); break;
+      case 32: geometry.vVector.z = parseFloat(tag.value); break;
+      case 13: geometry.imageSize.x = parseFloat(tag.value); break;
+      case 23: geometry.imageSize.y = parseFloat(tag.value); break;
+      case 70: geometry.displayFlags = parseInt(tag.value, 10); break;
+      case 280: geometry.clipping = tag.value.trim() === '1'; break;
+      case 290: geometry.clipInverted = tag.value.trim() === '1'; break;
+      case 14: geometry.clipBoundary.push({ x: parseFloat(tag.value), y: 0 }); break;
+      case 24: {
+        const vertex = geometry.clipBoundary[geometry.clipBoundary.length - 1];
+        if (vertex) vertex.y = parseFloat(tag.value);
+        break;
+      }
+    }
+  }
+
+  return geometry;
+}
+
+export function parseImage(tags: DxfToken[]): DxfImageEntity {
+  const entity: DxfImageEntity = {
+    ...parseBaseEntity(tags),
+    type: 'IMAGE',
+    ...parseImageGeometry(tags),
+    imageDefHandle: '',
+    brightness: 50,
+    contrast: 50,
+    fade: 0,
+  };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 340: entity.imageDefHandle = tag.value.trim(); break;
+      case 281: entity.brightness = parseInt(tag.value, 10); break;
+      case 282: entity.contrast = parseInt(tag.value, 10); break;
+      case 283: entity.fade = parseInt(tag.value, 10); break;
+    }
+  }
+
+  return entity;
+}
+
+export function parseWipeout(tags: DxfToken[]): DxfWipeoutEntity {
+  return { ...parseBaseEntity(tags), type: 'WIPEOUT', ...parseImageGeometry(tags) };
+}
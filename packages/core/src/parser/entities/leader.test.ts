@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { parseLeader } from './leader.js';
+import { parseMLeader } from './mleader.js';
+import type { DxfToken } from '../tokenizer.js';
+
+function tags(pairs: [number, string][]): DxfToken[] {
+  return pairs.map(([code, value]) => ({ code, value }));
+}
+
+// ── LEADER ──────────────────────────────────────────────────────────
+
+describe('parseLeader', () => {
+  it('parses vertices, flags and the horizontal direction', () => {
+    const entity = parseLeader(tags([
+      [8, 'Notes'], [3, 'ISO-25'], [71, '1'], [72, '0'], [73, '0'], [74, '0'], [75, '1'],
+      [40, '2.5'], [76, '3'],
+      [10, '0'], [20, '0'], [30, '0'],
+      [10, '5'], [20, '5'], [30, '0'],
+      [10, '8'], [20, '5'], [30, '0'],
+      [211, '1'], [221, '0'], [231, '0'],
+      [340, '2A'],
+    ]));
+    expect(entity.type).toBe('LEADER');
+    expect(entity.layer).toBe('Notes');
+    expect(entity.dimStyle).toBe('ISO-25');
+    expect(entity.vertices).toEqual([
+      { x: 0, y: 0, z: 0 }, { x: 5, y: 5, z: 0 }, { x: 8, y: 5, z: 0 },
+    ]);
+    expect(entity).toMatchObject({
+      hasArrowhead: true,
+      pathType: 0,
+      annotationType: 0,
+      hasHookline: true,
+      hooklineAlongHorizontal: false,
+      textHeight: 2.5,
+      annotationHandle: '2A',
+    });
+  });
+
+  it('reads a disabled arrowhead and spline path', () => {
+    const entity = parseLeader(tags([[71, '0'], [72, '1']]));
+    expect(entity.hasArrowhead).toBe(false);
+    expect(entity.pathType).toBe(1);
+    expect(entity.vertices).toEqual([]);
+  });
+});
+
+// ── MULTILEADER ─────────────────────────────────────────────────────
+
+/** A multileader with one leader of two lines and MTEXT content. */
+const MLEADER: [number, string][] = [
+  [5, '3B'], [8, 'Callouts'], [62, '1'],
+  [270, '2'],
+  [300, 'CONTEXT_DATA{'],
+  [40, '2'], [10, '10'], [20, '5'], [30, '0'], [41, '0.5'], [140, '0.36'], [145, '0.18'],
+  [290, '1'],
+  [304, '{\\fArial;Detail\\P}A-1'],
+  [11, '0'], [21, '0'], [31, '1'],
+  [12, '11'], [22, '5.5'], [32, '0'],
+  [13, '1'], [23, '0'], [33, '0'],
+  [42, '0'], [43, '4'], [45, '1'], [170, '1'], [171, '1'], [172, '1'],
+  [296, '0'],
+  [302, 'LEADER{'],
+  [290, '1'], [291, '1'],
+  [10, '10'], [20, '5'], [30, '0'],
+  [11, '1'], [21, '0'], [31, '0'],
+  [90, '0'], [40, '0.72'],
+  [304, 'LEADER_LINE{'],
+  [10, '0'], [20, '0'], [30, '0'],
+  [10, '4'], [20, '4'], [30, '0'],
+  [91, '0'],
+  [305, '}'],
+  [304, 'LEADER_LINE{'],
+  [10, '0'], [20, '8'], [30, '0'],
+  [91, '1'],
+  [305, '}'],
+  [271, '0'],
+  [303, '}'],
+  [272, '9'], [273, '9'],
+  [301, '}'],
+  [340, '12'], [90, '6816768'], [170, '1'], [91, '-1056964608'], [171, '-2'],
+  [290, '1'], [291, '1'], [41, '8'], [42, '4'], [172, '2'],
+];
+
+describe('parseMLeader', () => {
+  it('parses leaders, lines and landing', () => {
+    const entity = parseMLeader(tags(MLEADER));
+    expect(entity.type).toBe('MULTILEADER');
+    expect(entity.handle).toBe('3B');
+    expect(entity.scale).toBe(2);
+    expect(entity.arrowheadSize).toBe(0.36);
+    expect(entity.leaders).toHaveLength(1);
+    const [leader] = entity.leaders;
+    expect(leader!.lastLeaderPoint).toEqual({ x: 10, y: 5, z: 0 });
+    expect(leader!.doglegVector).toEqual({ x: 1, y: 0, z: 0 });
+    expect(leader!.doglegLength).toBe(0.72);
+    expect(leader!.lines).toEqual([
+      [{ x: 0, y: 0, z: 0 }, { x: 4, y: 4, z: 0 }],
+      [{ x: 0, y: 8, z: 0 }],
+    ]);
+  });
+
+  it('reads entity-level properties after the context data', () => {
+    const entity = parseMLeader(tags(MLEADER));
+    expect(entity).toMatchObject({
+      contentType: 2,
+      leaderLineType: 1,
+      enableLanding: true,
+      enableDogleg: true,
+    });
+  });
+
+  it('builds MTEXT content with the multileader layer and color', () => {
+    const { mtext } = parseMLeader(tags(MLEADER));
+    expect(mtext).toMatchObject({
+      type: 'MTEXT',
+      layer: 'Callouts',
+      color: 1,
+      text: '{\\fArial;Detail\\P}A-1',
+      insertionPoint: { x: 11, y: 5.5, z: 0 },
+      height: 0.5,
+      width: 4,
+      attachmentPoint: 1,
+    });
+  });
+
+  it('parses block content', () => {
+    const entity = parseMLeader(tags([
+      [300, 'CONTEXT_DATA{'],
+      [290, '0'], [296, '1'], [341, '1F'],
+      [15, '3'], [25, '4'], [35, '0'],
+      [16, '2'], [26, '2'], [36, '1'],
+      [46, String(Math.PI / 2)],
+      [301, '}'],
+      [172, '1'],
+    ]));
+    expect(entity.mtext).toBeUndefined();
+    expect(entity.block).toMatchObject({
+      blockHandle: '1F',
+      position: { x: 3, y: 4, z: 0 },
+      scale: { x: 2, y: 2, z: 1 },
+    });
+    expect(entity.block!.rotation).toBeCloseTo(90);
+  });
+
+  it('scales the style arrowhead size when the context has none', () => {
+    const entity = parseMLeader(tags([[300, 'CONTEXT_DATA{'], [40, '2'], [301, '}'], [42, '0.18']]));
+    expect(entity.arrowheadSize).toBeCloseTo(0.36);
+  });
+});
@@ -0,0 +1,42 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfLeaderEntity } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+export function parseLeader(tags: DxfToken[]): DxfLeaderEntity {
+  const base = parseBaseEntity(tags);
+  const entity: DxfLeaderEntity = {
+    ...base,
+    type: 'LEADER',
+    dimStyle: 'STANDARD',
+    vertices: [],
+    hasArrowhead: true,
+    pathType: 0,
+    annotationType: 3,
+    hasHookline: false,
+    hooklineAlongHorizontal: true,
+    textHeight: 0,
+    horizontalDirection: { x: 1, y: 0, z: 0 },
+  };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 3:  entity.dimStyle = tag.value; break;
+      // Each code 10 starts a new vertex
+      case 10: entity.vertices.push({ x: parseFloat(tag.value), y: 0, z: 0 }); break;
+      case 20: if (entity.vertices.length) entity.vertices[entity.vertices.length - 1]!.y = parseFloat(tag.value); break;
+      case 30: if (entity.vertices.length) entity.vertices[entity.vertices.length - 1]!.z = parseFloat(tag.value); break;
+      case 40: entity.textHeight = parseFloat(tag.value); break;
+      case 71: entity.hasArrowhead = parseInt(tag.value, 10) !== 0; break;
+      case 72: entity.pathType = parseInt(tag.value, 10); break;
+      case 73: entity.annotationType = parseInt(tag.value, 10); break;
+      case 74: entity.hooklineAlongHorizontal = parseInt(tag.value, 10) !== 0; break;
+      case 75: entity.hasHookline = parseInt(tag.value, 10) !== 0; break;
+      case 211: entity.horizontalDirection.x = parseFloat(tag.value); break;
+      case 221: entity.horizontalDirection.y = parseFloat(tag.value); break;
+      case 231: entity.horizontalDirection.z = parseFloat(tag.value); break;
+      case 340: entity.annotationHandle = tag.value; break;
+    }
+  }
+
+  return entity;
+}
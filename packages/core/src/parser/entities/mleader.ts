@@ -0,0 +1,150 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfMLeaderBranch, DxfMLeaderEntity, DxfMTextEntity, Point3D } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/**
+ * Parse a MULTILEADER (AcDbMLeader).
+ *
+ * Geometry lives in nested groups that reuse entity-level group codes:
+ * `300 CONTEXT_DATA{` … `301 }`, and inside it `302 LEADER{` … `303 }`
+ * with `304 LEADER_LINE{` … `305 }`. Tags are read according to the group
+ * they appear in. Context angles are in radians.
+ */
+export function parseMLeader(tags: DxfToken[]): DxfMLeaderEntity {
+  const base = parseBaseEntity(tags);
+  const entity: DxfMLeaderEntity = {
+    ...base,
+    type: 'MULTILEADER',
+    contentType: 2,
+    leaderLineType: 1,
+    enableLanding: true,
+    enableDogleg: true,
+    arrowheadSize: 0,
+    scale: 1,
+    leaders: [],
+  };
+
+  const mtext: DxfMTextEntity = {
+    ...base,
+    type: 'MTEXT',
+    text: '',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    height: 1,
+    width: 0,
+    attachmentPoint: 1,
+    drawingDirection: 1,
+    rotation: 0,
+    lineSpacingStyle: 1,
+    lineSpacingFactor: 1,
+    style: 'Standard',
+    bgFill: 0,
+    bgFillScale: 1.5,
+  };
+  const block = {
+    blockHandle: '',
+    position: { x: 0, y: 0, z: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+    rotation: 0,
+  };
+
+  let group: 'entity' | 'context' | 'leader' | 'line' = 'entity';
+  let hasText = false;
+  let hasBlock = false;
+  let contextArrowSize: number | undefined;
+  let arrowSize = 0;
+  let leader: DxfMLeaderBranch | undefined;
+  let line: Point3D[] | undefined;
+
+  for (const tag of tags) {
+    const value = tag.value;
+
+    if (group === 'entity') {
+      switch (tag.code) {
+        case 300: group = 'context'; break;
+        case 42:  arrowSize = parseFloat(value); break;
+        case 170: entity.leaderLineType = parseInt(value, 10); break;
+        case 172: entity.contentType = parseInt(value, 10); break;
+        case 290: entity.enableLanding = parseInt(value, 10) !== 0; break;
+        case 291: entity.enableDogleg = parseInt(value, 10) !== 0; break;
+      }
+      continue;
+    }
+
+    if (group === 'line') {
+      switch (tag.code) {
+        case 10: line!.push({ x: parseFloat(value), y: 0, z: 0 }); break;
+        case 20: if (line!.length) line![line!.length - 1]!.y = parseFloat(value); break;
+        case 30: if (line!.length) line![line!.length - 1]!.z = parseFloat(value); break;
+        case 305: group = 'leader'; break;
+      }
+      continue;
+    }
+
+    if (group === 'leader') {
+      const l = leader!;
+      switch (tag.code) {
+        case 10: l.lastLeaderPoint.x = parseFloat(value); break;
+        case 20: l.lastLeaderPoint.y = parseFloat(value); break;
+        case 30: l.lastLeaderPoint.z = parseFloat(value); break;
+        case 11: l.doglegVector.x = parseFloat(value); break;
+        case 21: l.doglegVector.y = parseFloat(value); break;
+        case 31: l.doglegVector.z = parseFloat(value); break;
+        case 40: l.doglegLength = parseFloat(value); break;
+        case 304:
+          line = [];
+          l.lines.push(line);
+          group = 'line';
+          break;
+        case 303: group = 'context'; break;
+      }
+      continue;
+    }
+
+    // CONTEXT_DATA
+    switch (tag.code) {
+      case 40:  entity.scale = parseFloat(value); break;
+      case 41:  mtext.height = parseFloat(value); break;
+      case 140: contextArrowSize = parseFloat(value); break;
+      case 290: hasText = parseInt(value, 10) !== 0; break;
+      case 304: mtext.text = value; break;
+      case 12:  mtext.insertionPoint.x = parseFloat(value); break;
+      case 22:  mtext.insertionPoint.y = parseFloat(value); break;
+      case 32:  mtext.insertionPoint.z = parseFloat(value); break;
+      case 13:  (mtext.textDirection ??= { x: 0, y: 0, z: 0 }).x = parseFloat(value); break;
+      case 23:  (mtext.textDirection ??= { x: 0, y: 0, z: 0 }).y = parseFloat(value); break;
+      case 33:  (mtext.textDirection ??= { x: 0, y: 0, z: 0 }).z = parseFloat(value); break;
+      case 42:  mtext.rotation = parseFloat(value) * 180 / Math.PI; break;
+      case 43:  mtext.width = parseFloat(value); break;
+      case 45:  mtext.lineSpacingFactor = parseFloat(value); break;
+      case 170: mtext.lineSpacingStyle = parseInt(value, 10); break;
+      case 171: mtext.attachmentPoint = parseInt(value, 10); break;
+      case 172: mtext.drawingDirection = parseInt(value, 10); break;
+      case 296: hasBlock = parseInt(value, 10) !== 0; break;
+      case 341: block.blockHandle = value; break;
+      case 15:  block.position.x = parseFloat(value); break;
+      case 25:  block.position.y = parseFloat(value); break;
+      case 35:  block.position.z = parseFloat(value); break;
+      case 16:  block.scale.x = parseFloat(value); break;
+      case 26:  block.scale.y = parseFloat(value); break;
+      case 36:  block.scale.z = parseFloat(value); break;
+      case 46:  block.rotation = parseFloat(value) * 180 / Math.PI; break;
+      case 302:
+        leader = {
+          lastLeaderPoint: { x: 0, y: 0, z: 0 },
+          doglegVector: { x: 1, y: 0, z: 0 },
+          doglegLength: 0,
+          lines: [],
+        };
+        entity.leaders.push(leader);
+        group = 'leader';
+        break;
+      case 301: group = 'entity'; break;
+    }
+  }
+
+  entity.arrowheadSize = contextArrowSize ?? arrowSize * entity.scale;
+  if (hasText && mtext.text) entity.mtext = mtext;
+  if (hasBlock && block.blockHandle) entity.block = block;
+
+  return entity;
+}
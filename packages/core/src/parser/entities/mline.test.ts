@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseMLine } from './mline.js';
+import { parseMLineStyle } from '../objects/mlinestyle.js';
+import type { DxfToken } from '../tokenizer.js';
+
+function tags(pairs: [number, string][]): DxfToken[] {
+  return pairs.map(([code, value]) => ({ code, value }));
+}
+
+/** One MLINE vertex with two elements at ±0.5 and a fill parameter list each. */
+function vertex(x: number, y: number, direction: [number, number], miter: [number, number]): [number, string][] {
+  return [
+    [11, String(x)], [21, String(y)], [31, '0'],
+    [12, String(direction[0])], [22, String(direction[1])], [32, '0'],
+    [13, String(miter[0])], [23, String(miter[1])], [33, '0'],
+    [74, '2'], [41, '0.5'], [41, '0'], [75, '0'],
+    [74, '2'], [41, '-0.5'], [41, '0'], [75, '0'],
+  ];
+}
+
+describe('parseMLine', () => {
+  it('parses the style, flags and vertices with element parameters', () => {
+    const entity = parseMLine(tags([
+      [5, '2F'], [8, 'Walls'], [2, 'WALL'], [340, '1C'], [40, '2'], [70, '1'], [71, '3'],
+      [72, '2'], [73, '2'], [10, '0'], [20, '0'], [30, '0'], [210, '0'], [220, '0'], [230, '1'],
+      ...vertex(0, 0, [1, 0], [0, 1]),
+      ...vertex(10, 0, [0, 1], [-0.7071, 0.7071]),
+    ]));
+    expect(entity).toMatchObject({
+      type: 'MLINE',
+      handle: '2F',
+      layer: 'Walls',
+      styleName: 'WALL',
+      styleHandle: '1C',
+      scale: 2,
+      justification: 1,
+      flags: 3,
+    });
+    expect(entity.vertices).toHaveLength(2);
+    expect(entity.vertices[1]).toEqual({
+      position: { x: 10, y: 0, z: 0 },
+      direction: { x: 0, y: 1, z: 0 },
+      miter: { x: -0.7071, y: 0.7071, z: 0 },
+      elementParams: [[0.5, 0], [-0.5, 0]],
+    });
+  });
+
+  it('defaults to the STANDARD style without vertices', () => {
+    const entity = parseMLine(tags([[8, '0']]));
+    expect(entity.styleName).toBe('STANDARD');
+    expect(entity.vertices).toEqual([]);
+  });
+});
+
+describe('parseMLineStyle', () => {
+  it('separates the fill color from element colors', () => {
+    const style = parseMLineStyle(tags([
+      [5, '1C'], [100, 'AcDbMlineStyle'], [2, 'WALL'], [70, '273'], [3, ''], [62, '8'],
+      [51, '90'], [52, '90'], [71, '2'],
+      [49, '0.5'], [62, '1'], [6, 'BYLAYER'],
+      [49, '-0.5'], [62, '0'], [6, 'HIDDEN'],
+    ]));
+    expect(style).toEqual({
+      handle: '1C',
+      name: 'WALL',
+      flags: 273,
+      fillColor: 8,
+      elements: [
+        { offset: 0.5, color: 1, lineType: 'BYLAYER' },
+        { offset: -0.5, color: 0, lineType: 'HIDDEN' },
+      ],
+    });
+  });
+});
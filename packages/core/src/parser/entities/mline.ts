@@ -0,0 +1,62 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfMLineEntity, DxfMLineVertex } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/**
+ * Parse an MLINE. Each vertex starts with code 11, followed by its segment
+ * direction (12) and miter (13), then per style element a parameter count
+ * (74) and that many code 41 parameters. Area fill parameters (75/42) are
+ * not used for display.
+ */
+export function parseMLine(tags: DxfToken[]): DxfMLineEntity {
+  const base = parseBaseEntity(tags);
+  const entity: DxfMLineEntity = {
+    ...base,
+    type: 'MLINE',
+    styleName: 'STANDARD',
+    scale: 1,
+    justification: 0,
+    flags: 0,
+    vertices: [],
+  };
+
+  let vertex: DxfMLineVertex | null = null;
+  let params: number[] | null = null;
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 2:   entity.styleName = tag.value.trim(); break;
+      case 340: entity.styleHandle = tag.value.trim(); break;
+      case 40:  entity.scale = parseFloat(tag.value); break;
+      case 70:  entity.justification = parseInt(tag.value, 10); break;
+      case 71:  entity.flags = parseInt(tag.value, 10); break;
+      case 11:
+        vertex = {
+          position: { x: parseFloat(tag.value), y: 0, z: 0 },
+          direction: { x: 1, y: 0, z: 0 },
+          miter: { x: 0, y: 1, z: 0 },
+          elementParams: [],
+        };
+        params = null;
+        entity.vertices.push(vertex);
+        break;
+      case 21: if (vertex) vertex.position.y = parseFloat(tag.value); break;
+      case 31: if (vertex) vertex.position.z = parseFloat(tag.value); break;
+      case 12: if (vertex) vertex.direction.x = parseFloat(tag.value); break;
+      case 22: if (vertex) vertex.direction.y = parseFloat(tag.value); break;
+      case 32: if (vertex) vertex.direction.z = parseFloat(tag.value); break;
+      case 13: if (vertex) vertex.miter.x = parseFloat(tag.value); break;
+      case 23: if (vertex) vertex.miter.y = parseFloat(tag.value); break;
+      case 33: if (vertex) vertex.miter.z = parseFloat(tag.value); break;
+      case 74:
+        if (vertex) {
+          params = [];
+          vertex.elementParams.push(params);
+        }
+        break;
+      case 41: params?.push(parseFloat(tag.value)); break;
+    }
+  }
+
+  return entity;
+}
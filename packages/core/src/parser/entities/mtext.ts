@@ -50,11 +50,14 @@ export function parseMText(tags: DxfToken[]): DxfMTextEntity {
       case 40: entity.height = parseFloat(tag.value); break;
       case 41: entity.width = parseFloat(tag.value); break;
       case 44: entity.lineSpacingFactor = parseFloat(tag.value); break;
+      case 45: entity.bgFillScale = parseFloat(tag.value); break;
       case 50: entity.rotation = parseFloat(tag.value); break;
       case 71: entity.attachmentPoint = parseInt(tag.value, 10); break;
       case 72: entity.drawingDirection = parseInt(tag.value, 10); break;
       case 73: entity.lineSpacingStyle = parseInt(tag.value, 10); break;
+      case 63: entity.bgFillColor = parseInt(tag.value, 10); break;
       case 90: entity.bgFill = parseInt(tag.value, 10); break;
+      case 421: entity.bgFillTrueColor = parseInt(tag.value, 10); break;
     }
   }
 
@@ -20,6 +20,12 @@ export function parsePolyline(tags: DxfToken[]): DxfPolylineEntity {
         entity.is3d = (flags & 8) !== 0;
         break;
       }
+      case 40:
+        entity.startWidth = parseFloat(tag.value);
+        break;
+      case 41:
+        entity.endWidth = parseFloat(tag.value);
+        break;
     }
   }
 
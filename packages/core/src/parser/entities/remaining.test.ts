@@ -7,6 +7,9 @@ import { parseSpline } from './spline.js';
 import { parseDimension } from './dimension.js';
 import { parsePoint } from './point.js';
 import { parsePolyline } from './polyline.js';
+import { parse3DFace, parseSolid, parseTrace } from './solid.js';
+import { parseRay, parseXLine } from './xline.js';
+import { parseImage, parseWipeout } from './image.js';
 import type { DxfToken } from '../tokenizer.js';
 
 // ── LINE ────────────────────────────────────────────────────────────
@@ -262,6 +265,28 @@ describe('parseDimension', () => {
     expect(entity.leaderLength).toBe(12.5);
   });
 
+  it('parses DSTYLE overrides from the ACAD XDATA', () => {
+    const tags: DxfToken[] = [
+      { code: 3, value: 'Standard' },
+      { code: 1001, value: 'OTHER' },
+      { code: 1000, value: 'DSTYLE' },
+      { code: 1001, value: 'ACAD' },
+      { code: 1000, value: 'DSTYLE' },
+      { code: 1002, value: '{' },
+      { code: 1070, value: '140' }, { code: 1040, value: '3.5' },
+      { code: 1070, value: '176' }, { code: 1070, value: '1' },
+      { code: 1070, value: '343' }, { code: 1005, value: '5B' },
+      { code: 1002, value: '}' },
+      { code: 1070, value: '41' }, { code: 1040, value: '9' },
+    ];
+    const entity = parseDimension(tags);
+    expect(entity.styleOverrides).toEqual({ textHeight: 3.5, dimLineColor: 1, arrowBlock1Handle: '5B' });
+  });
+
+  it('leaves styleOverrides undefined without DSTYLE XDATA', () => {
+    expect(parseDimension([]).styleOverrides).toBeUndefined();
+  });
+
   it('uses default dimStyle of STANDARD', () => {
     const entity = parseDimension([]);
     expect(entity.dimStyle).toBe('STANDARD');
@@ -288,6 +313,141 @@ describe('parsePoint', () => {
   });
 });
 
+// ── SOLID / TRACE / 3DFACE ──────────────────────────────────────────
+
+describe('parseSolid', () => {
+  const corners: DxfToken[] = [
+    { code: 10, value: '0' }, { code: 20, value: '0' }, { code: 30, value: '0' },
+    { code: 11, value: '4' }, { code: 21, value: '0' }, { code: 31, value: '0' },
+    { code: 12, value: '0' }, { code: 22, value: '3' }, { code: 32, value: '0' },
+    { code: 13, value: '4' }, { code: 23, value: '3' }, { code: 33, value: '1' },
+  ];
+
+  it('parses four corners in DXF order', () => {
+    const entity = parseSolid(corners);
+    expect(entity.type).toBe('SOLID');
+    expect(entity.points).toEqual([
+      { x: 0, y: 0, z: 0 }, { x: 4, y: 0, z: 0 }, { x: 0, y: 3, z: 0 }, { x: 4, y: 3, z: 1 },
+    ]);
+  });
+
+  it('repeats the third corner when the fourth is omitted', () => {
+    const entity = parseSolid(corners.slice(0, 9));
+    expect(entity.points[3]).toEqual({ x: 0, y: 3, z: 0 });
+    expect(entity.points[3]).not.toBe(entity.points[2]);
+  });
+
+  it('keeps the extrusion for OCS placement', () => {
+    const entity = parseSolid([...corners, { code: 230, value: '-1' }]);
+    expect(entity.extrusion).toEqual({ x: 0, y: 0, z: -1 });
+  });
+
+  it('parses TRACE the same way', () => {
+    const entity = parseTrace(corners);
+    expect(entity.type).toBe('TRACE');
+    expect(entity.points[1]).toEqual({ x: 4, y: 0, z: 0 });
+  });
+});
+
+describe('parse3DFace', () => {
+  it('parses corners and invisible edge flags', () => {
+    const tags: DxfToken[] = [
+      { code: 10, value: '0' }, { code: 20, value: '0' }, { code: 30, value: '5' },
+      { code: 11, value: '1' }, { code: 21, value: '0' }, { code: 31, value: '5' },
+      { code: 12, value: '1' }, { code: 22, value: '1' }, { code: 32, value: '5' },
+      { code: 13, value: '0' }, { code: 23, value: '1' }, { code: 33, value: '5' },
+      { code: 70, value: '5' },
+    ];
+    const entity = parse3DFace(tags);
+    expect(entity.type).toBe('3DFACE');
+    expect(entity.points[2]).toEqual({ x: 1, y: 1, z: 5 });
+    expect(entity.invisibleEdges).toBe(5);
+  });
+
+  it('defaults to all edges visible', () => {
+    expect(parse3DFace([]).invisibleEdges).toBe(0);
+  });
+});
+
+// ── XLINE / RAY ─────────────────────────────────────────────────────
+
+describe('parseXLine', () => {
+  it('parses base point and direction', () => {
+    const tags: DxfToken[] = [
+      { code: 10, value: '1' }, { code: 20, value: '2' }, { code: 30, value: '0' },
+      { code: 11, value: '0' }, { code: 21, value: '1' }, { code: 31, value: '0' },
+    ];
+    const entity = parseXLine(tags);
+    expect(entity.type).toBe('XLINE');
+    expect(entity.basePoint).toEqual({ x: 1, y: 2, z: 0 });
+    expect(entity.direction).toEqual({ x: 0, y: 1, z: 0 });
+  });
+
+  it('parses RAY the same way', () => {
+    const entity = parseRay([{ code: 10, value: '5' }]);
+    expect(entity.type).toBe('RAY');
+    expect(entity.basePoint).toEqual({ x: 5, y: 0, z: 0 });
+    expect(entity.direction).toEqual({ x: 1, y: 0, z: 0 });
+  });
+});
+
+// ── IMAGE ───────────────────────────────────────────────────────────
+
+describe('parseImage', () => {
+  it('parses placement, image definition and display settings', () => {
+    const tags: DxfToken[] = [
+      { code: 10, value: '5' }, { code: 20, value: '6' }, { code: 30, value: '0' },
+      { code: 11, value: '0.5' }, { code: 21, value: '0' }, { code: 31, value: '0' },
+      { code: 12, value: '0' }, { code: 22, value: '0.5' }, { code: 32, value: '0' },
+      { code: 13, value: '640' }, { code: 23, value: '480' },
+      { code: 340, value: '2A' }, { code: 360, value: '2B' },
+      { code: 70, value: '7' }, { code: 280, value: '1' },
+      { code: 281, value: '60' }, { code: 282, value: '40' }, { code: 283, value: '25' },
+      { code: 71, value: '1' }, { code: 91, value: '2' },
+      { code: 14, value: '-0.5' }, { code: 24, value: '-0.5' },
+      { code: 14, value: '639.5' }, { code: 24, value: '479.5' },
+    ];
+    const entity = parseImage(tags);
+    expect(entity.type).toBe('IMAGE');
+    expect(entity.insertionPoint).toEqual({ x: 5, y: 6, z: 0 });
+    expect(entity.uVector).toEqual({ x: 0.5, y: 0, z: 0 });
+    expect(entity.vVector).toEqual({ x: 0, y: 0.5, z: 0 });
+    expect(entity.imageSize).toEqual({ x: 640, y: 480 });
+    expect(entity.imageDefHandle).toBe('2A');
+    expect(entity).toMatchObject({ displayFlags: 7, clipping: true, clipInverted: false, brightness: 60, contrast: 40, fade: 25 });
+    expect(entity.clipBoundary).toEqual([{ x: -0.5, y: -0.5 }, { x: 639.5, y: 479.5 }]);
+  });
+
+  it('defaults to unclipped, unadjusted display', () => {
+    const entity = parseImage([]);
+    expect(entity).toMatchObject({ clipping: false, brightness: 50, contrast: 50, fade: 0, clipBoundary: [] });
+  });
+});
+
+describe('parseWipeout', () => {
+  it('parses the image geometry and clip polygon', () => {
+    const tags: DxfToken[] = [
+      { code: 10, value: '0' }, { code: 20, value: '0' },
+      { code: 11, value: '4' }, { code: 21, value: '0' },
+      { code: 12, value: '0' }, { code: 22, value: '2' },
+      { code: 13, value: '1' }, { code: 23, value: '1' },
+      { code: 70, value: '7' }, { code: 280, value: '1' },
+      { code: 71, value: '2' }, { code: 91, value: '4' },
+      { code: 14, value: '-0.5' }, { code: 24, value: '0.5' },
+      { code: 14, value: '0.5' }, { code: 24, value: '0.5' },
+      { code: 14, value: '0.5' }, { code: 24, value: '-0.5' },
+      { code: 14, value: '-0.5' }, { code: 24, value: '-0.5' },
+    ];
+    const entity = parseWipeout(tags);
+    expect(entity.type).toBe('WIPEOUT');
+    expect(entity.uVector).toEqual({ x: 4, y: 0, z: 0 });
+    expect(entity.imageSize).toEqual({ x: 1, y: 1 });
+    expect(entity.clipping).toBe(true);
+    expect(entity.clipBoundary).toHaveLength(4);
+    expect(entity).not.toHaveProperty('imageDefHandle');
+  });
+});
+
 // ── POLYLINE ────────────────────────────────────────────────────────
 
 describe('parsePolyline', () => {
@@ -0,0 +1,59 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { Dxf3DFaceEntity, DxfQuadPoints, DxfSolidEntity, DxfTraceEntity } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/**
+ * Read the four corners (codes 10–13 / 20–23 / 30–33). When the fourth
+ * corner is omitted it repeats the third, making a triangle.
+ */
+function parseQuadPoints(tags: DxfToken[]): DxfQuadPoints {
+  const points: DxfQuadPoints = [
+    { x: 0, y: 0, z: 0 },
+    { x: 0, y: 0, z: 0 },
+    { x: 0, y: 0, z: 0 },
+    { x: 0, y: 0, z: 0 },
+  ];
+  let hasFourth = false;
+
+  for (const tag of tags) {
+    const value = parseFloat(tag.value);
+    switch (tag.code) {
+      case 10: case 11: case 12: case 13:
+        points[tag.code - 10]!.x = value;
+        if (tag.code === 13) hasFourth = true;
+        break;
+      case 20: case 21: case 22: case 23:
+        points[tag.code - 20]!.y = value;
+        break;
+      case 30: case 31: case 32: case 33:
+        points[tag.code - 30]!.z = value;
+        break;
+    }
+  }
+
+  if (!hasFourth) points[3] = { ...points[2] };
+  return points;
+}
+
+export function parseSolid(tags: DxfToken[]): DxfSolidEntity {
+  return { ...parseBaseEntity(tags), type: 'SOLID', points: parseQuadPoints(tags) };
+}
+
+export function parseTrace(tags: DxfToken[]): DxfTraceEntity {
+  return { ...parseBaseEntity(tags), type: 'TRACE', points: parseQuadPoints(tags) };
+}
+
+export function parse3DFace(tags: DxfToken[]): Dxf3DFaceEntity {
+  const entity: Dxf3DFaceEntity = {
+    ...parseBaseEntity(tags),
+    type: '3DFACE',
+    points: parseQuadPoints(tags),
+    invisibleEdges: 0,
+  };
+
+  for (const tag of tags) {
+    if (tag.code === 70) entity.invisibleEdges = parseInt(tag.value, 10) & 15;
+  }
+
+  return entity;
+}
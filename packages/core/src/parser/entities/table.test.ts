@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseTable } from './table.js';
+import type { DxfToken } from '../tokenizer.js';
+
+function tags(pairs: [number, string][]): DxfToken[] {
+  return pairs.map(([code, value]) => ({ code, value }));
+}
+
+/** A text cell with its value section, as written by AutoCAD 2007+. */
+function textCell(text: string, extra: [number, string][] = []): [number, string][] {
+  return [
+    [171, '1'], [172, '0'], [173, '0'], [174, '0'], [175, '1'], [176, '1'], [91, '0'], [178, '0'],
+    [145, '0.0'], ...extra,
+    [301, 'CELL_VALUE'], [93, '6'], [90, '4'], [1, text], [94, '0'], [300, ''], [302, text], [304, 'ACVALUE_END'],
+  ];
+}
+
+describe('parseTable', () => {
+  it('parses the grid, sizes and cell text', () => {
+    const entity = parseTable(tags([
+      [8, 'Schedules'], [2, '*T12'], [10, '100'], [20, '50'], [30, '0'], [11, '1'], [21, '0'], [31, '0'],
+      [91, '2'], [92, '2'], [141, '1.5'], [141, '1'], [142, '4'], [142, '6'],
+      // Table-level text style and height are not cell properties
+      [7, 'Standard'], [140, '0.25'],
+      ...textCell('Door', [[170, '5'], [140, '0.3'], [7, 'Arial'], [64, '1']]),
+      ...textCell('Size'),
+      ...textCell('D1'),
+      ...textCell('900x2100'),
+    ]));
+    expect(entity.type).toBe('ACAD_TABLE');
+    expect(entity.layer).toBe('Schedules');
+    expect(entity.blockName).toBe('*T12');
+    expect(entity.insertionPoint).toEqual({ x: 100, y: 50, z: 0 });
+    expect(entity.rowHeights).toEqual([1.5, 1]);
+    expect(entity.columnWidths).toEqual([4, 6]);
+    expect(entity.cells.map(row => row.map(cell => cell.text))).toEqual([['Door', 'Size'], ['D1', '900x2100']]);
+    expect(entity.cells[0]![0]).toMatchObject({ alignment: 5, textHeight: 0.3, textStyle: 'Arial', textColor: 1 });
+    expect(entity.cells[0]![1]!.textHeight).toBeUndefined();
+  });
+
+  it('joins long text chunks and falls back to the cell value', () => {
+    const entity = parseTable(tags([
+      [91, '1'], [92, '2'], [141, '1'], [142, '5'], [142, '5'],
+      [171, '1'], [2, 'Long '], [2, 'cell '], [1, 'text'],
+      [171, '1'], [301, 'CELL_VALUE'], [302, 'Value only'], [304, 'ACVALUE_END'],
+    ]));
+    expect(entity.cells[0]!.map(cell => cell.text)).toEqual(['Long cell text', 'Value only']);
+  });
+
+  it('marks cells covered by a merged range', () => {
+    const entity = parseTable(tags([
+      [91, '2'], [92, '3'], [141, '1'], [141, '1'], [142, '2'], [142, '2'], [142, '2'],
+      ...textCell('Title', [[175, '3']]),
+      ...textCell(''), ...textCell(''),
+      ...textCell('a'), ...textCell('b'), ...textCell('c'),
+    ]));
+    // Later 175 wins over the default written by textCell
+    expect(entity.cells[0]![0]!.columnSpan).toBe(3);
+    expect(entity.cells[0]!.map(cell => cell.merged)).toEqual([false, true, true]);
+    expect(entity.cells[1]!.map(cell => cell.merged)).toEqual([false, false, false]);
+  });
+
+  it('reads block cells', () => {
+    const entity = parseTable(tags([
+      [91, '1'], [92, '1'], [141, '2'], [142, '2'],
+      [171, '2'], [340, '1F'], [144, '0.5'],
+    ]));
+    expect(entity.cells[0]![0]).toMatchObject({ type: 2, blockHandle: '1F', blockScale: 0.5 });
+  });
+
+  it('takes the grid size from the size lists when counts are missing', () => {
+    const entity = parseTable(tags([[141, '1'], [142, '2'], [142, '3']]));
+    expect(entity.rowCount).toBe(1);
+    expect(entity.columnCount).toBe(2);
+    expect(entity.cells[0]).toHaveLength(2);
+  });
+});
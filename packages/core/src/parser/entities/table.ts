@@ -0,0 +1,125 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfTableCell, DxfTableEntity } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/** AutoCAD's default cell margin. */
+const DEFAULT_CELL_MARGIN = 0.06;
+
+function createCell(type: number): DxfTableCell {
+  return {
+    type,
+    text: '',
+    columnSpan: 1,
+    rowSpan: 1,
+    merged: false,
+    alignment: 5,
+    blockScale: 1,
+  };
+}
+
+/**
+ * Parse an ACAD_TABLE. Table-level tags come first; each cell then starts
+ * with code 171, in row-major order. Codes 2, 7, 140 and 170 mean different
+ * things before and after the first cell.
+ */
+export function parseTable(tags: DxfToken[]): DxfTableEntity {
+  const base = parseBaseEntity(tags);
+  const entity: DxfTableEntity = {
+    ...base,
+    type: 'ACAD_TABLE',
+    blockName: '',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    horizontalDirection: { x: 1, y: 0, z: 0 },
+    rowCount: 0,
+    columnCount: 0,
+    rowHeights: [],
+    columnWidths: [],
+    horizontalMargin: DEFAULT_CELL_MARGIN,
+    verticalMargin: DEFAULT_CELL_MARGIN,
+    cells: [],
+  };
+
+  const cells: DxfTableCell[] = [];
+  let cell: DxfTableCell | null = null;
+  // Long cell text comes in code 2 chunks before the final code 1
+  let chunks = '';
+  let value = '';
+
+  const finishCell = (): void => {
+    if (cell && !cell.text && value) cell.text = value;
+    chunks = '';
+    value = '';
+  };
+
+  for (const tag of tags) {
+    const { code } = tag;
+
+    if (code === 171) {
+      finishCell();
+      cell = createCell(parseInt(tag.value, 10));
+      cells.push(cell);
+      continue;
+    }
+
+    if (!cell) {
+      switch (code) {
+        case 2:   entity.blockName = tag.value.trim(); break;
+        case 10:  entity.insertionPoint.x = parseFloat(tag.value); break;
+        case 20:  entity.insertionPoint.y = parseFloat(tag.value); break;
+        case 30:  entity.insertionPoint.z = parseFloat(tag.value); break;
+        case 11:  entity.horizontalDirection.x = parseFloat(tag.value); break;
+        case 21:  entity.horizontalDirection.y = parseFloat(tag.value); break;
+        case 31:  entity.horizontalDirection.z = parseFloat(tag.value); break;
+        case 91:  entity.rowCount = parseInt(tag.value, 10); break;
+        case 92:  entity.columnCount = parseInt(tag.value, 10); break;
+        case 141: entity.rowHeights.push(parseFloat(tag.value)); break;
+        case 142: entity.columnWidths.push(parseFloat(tag.value)); break;
+        case 40:  entity.horizontalMargin = parseFloat(tag.value); break;
+        case 41:  entity.verticalMargin = parseFloat(tag.value); break;
+      }
+      continue;
+    }
+
+    switch (code) {
+      case 2:   chunks += tag.value; break;
+      case 1:   cell.text = chunks + tag.value; chunks = ''; break;
+      case 302: value = tag.value; break;
+      case 175: cell.columnSpan = Math.max(1, parseInt(tag.value, 10) || 1); break;
+      case 176: cell.rowSpan = Math.max(1, parseInt(tag.value, 10) || 1); break;
+      case 170: cell.alignment = parseInt(tag.value, 10); break;
+      case 140: cell.textHeight = parseFloat(tag.value); break;
+      case 7:   cell.textStyle = tag.value.trim(); break;
+      case 64:  cell.textColor = parseInt(tag.value, 10); break;
+      case 340: cell.blockHandle = tag.value.trim(); break;
+      case 144: cell.blockScale = parseFloat(tag.value); break;
+    }
+  }
+  finishCell();
+
+  // Older files may omit the counts; fall back to the size lists
+  if (!entity.rowCount) entity.rowCount = entity.rowHeights.length;
+  if (!entity.columnCount) entity.columnCount = entity.columnWidths.length;
+
+  for (let r = 0; r < entity.rowCount; r++) {
+    const row: DxfTableCell[] = [];
+    for (let c = 0; c < entity.columnCount; c++) {
+      row.push(cells[r * entity.columnCount + c] ?? createCell(1));
+    }
+    entity.cells.push(row);
+  }
+
+  // Cells covered by a merged range are drawn as part of its top-left cell
+  for (let r = 0; r < entity.rowCount; r++) {
+    for (let c = 0; c < entity.columnCount; c++) {
+      const { rowSpan, columnSpan, merged } = entity.cells[r]![c]!;
+      if (merged || (rowSpan === 1 && columnSpan === 1)) continue;
+      for (let rr = r; rr < Math.min(r + rowSpan, entity.rowCount); rr++) {
+        for (let cc = c; cc < Math.min(c + columnSpan, entity.columnCount); cc++) {
+          if (rr !== r || cc !== c) entity.cells[rr]![cc]!.merged = true;
+        }
+      }
+    }
+  }
+
+  return entity;
+}
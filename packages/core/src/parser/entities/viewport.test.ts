@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseViewport } from './viewport.js';
+import { parseLayout } from '../objects/layout.js';
+import type { DxfToken } from '../tokenizer.js';
+
+function tags(pairs: [number, string][]): DxfToken[] {
+  return pairs.map(([code, value]) => ({ code, value }));
+}
+
+describe('parseViewport', () => {
+  it('parses the window, view and frozen layers', () => {
+    const entity = parseViewport(tags([
+      [5, '2A'], [67, '1'], [8, 'Viewports'], [10, '150'], [20, '100'], [30, '0'], [40, '200'], [41, '120'],
+      [68, '2'], [69, '3'], [12, '50'], [22, '40'], [13, '0'], [23, '0'], [16, '0'], [26, '0'], [36, '1'],
+      [17, '1'], [27, '2'], [37, '0'], [42, '50'], [45, '60'], [51, '30'], [90, '65568'],
+      [331, '1B'], [331, '1C'], [340, '2B'],
+    ]));
+    expect(entity).toEqual({
+      type: 'VIEWPORT',
+      handle: '2A',
+      layer: 'Viewports',
+      color: 256,
+      lineType: 'BYLAYER',
+      lineTypeScale: 1,
+      lineWeight: -1,
+      visible: true,
+      extrusion: { x: 0, y: 0, z: 1 },
+      paperSpace: true,
+      center: { x: 150, y: 100, z: 0 },
+      width: 200,
+      height: 120,
+      status: 2,
+      id: 3,
+      viewCenter: { x: 50, y: 40 },
+      viewTarget: { x: 1, y: 2, z: 0 },
+      viewHeight: 60,
+      twistAngle: 30,
+      flags: 65568,
+      frozenLayerHandles: ['1B', '1C'],
+      frozenLayers: [],
+      clipBoundaryHandle: '2B',
+    });
+  });
+});
+
+describe('parseLayout', () => {
+  it('reads only the AcDbLayout subclass', () => {
+    const layout = parseLayout(tags([
+      [5, '59'], [330, '1A'], [100, 'AcDbPlotSettings'], [1, 'A3 setup'], [70, '688'], [40, '7.5'],
+      [100, 'AcDbLayout'], [1, 'Sheet 1'], [70, '1'], [71, '2'], [10, '-10'], [20, '-5'], [11, '410'], [21, '292'],
+      [12, '0'], [22, '0'], [32, '0'], [330, '1E'], [331, '2A'],
+    ]));
+    expect(layout).toEqual({
+      name: 'Sheet 1',
+      handle: '59',
+      tabOrder: 2,
+      limitsMin: { x: -10, y: -5 },
+      limitsMax: { x: 410, y: 292 },
+      blockRecordHandle: '1E',
+    });
+  });
+});
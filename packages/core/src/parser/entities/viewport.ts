@@ -0,0 +1,51 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfViewportEntity } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+/**
+ * Parse a VIEWPORT. Only plan views are supported: the view direction
+ * (16/26/36), perspective and UCS settings are not read.
+ */
+export function parseViewport(tags: DxfToken[]): DxfViewportEntity {
+  const base = parseBaseEntity(tags);
+  const entity: DxfViewportEntity = {
+    ...base,
+    type: 'VIEWPORT',
+    center: { x: 0, y: 0, z: 0 },
+    width: 0,
+    height: 0,
+    status: 1,
+    id: 2,
+    viewCenter: { x: 0, y: 0 },
+    viewTarget: { x: 0, y: 0, z: 0 },
+    viewHeight: 0,
+    twistAngle: 0,
+    flags: 0,
+    frozenLayerHandles: [],
+    frozenLayers: [],
+  };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 10:  entity.center.x = parseFloat(tag.value); break;
+      case 20:  entity.center.y = parseFloat(tag.value); break;
+      case 30:  entity.center.z = parseFloat(tag.value); break;
+      case 40:  entity.width = parseFloat(tag.value); break;
+      case 41:  entity.height = parseFloat(tag.value); break;
+      case 68:  entity.status = parseInt(tag.value, 10); break;
+      case 69:  entity.id = parseInt(tag.value, 10); break;
+      case 12:  entity.viewCenter.x = parseFloat(tag.value); break;
+      case 22:  entity.viewCenter.y = parseFloat(tag.value); break;
+      case 17:  entity.viewTarget.x = parseFloat(tag.value); break;
+      case 27:  entity.viewTarget.y = parseFloat(tag.value); break;
+      case 37:  entity.viewTarget.z = parseFloat(tag.value); break;
+      case 45:  entity.viewHeight = parseFloat(tag.value); break;
+      case 51:  entity.twistAngle = parseFloat(tag.value); break;
+      case 90:  entity.flags = parseInt(tag.value, 10); break;
+      case 331: entity.frozenLayerHandles.push(tag.value.trim()); break;
+      case 340: entity.clipBoundaryHandle = tag.value.trim(); break;
+    }
+  }
+
+  return entity;
+}
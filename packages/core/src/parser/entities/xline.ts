@@ -0,0 +1,29 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfRayEntity, DxfXLineEntity, Point3D } from '../types.js';
+import { parseBaseEntity } from './base.js';
+
+function parseBaseAndDirection(tags: DxfToken[]): { basePoint: Point3D; direction: Point3D } {
+  const basePoint: Point3D = { x: 0, y: 0, z: 0 };
+  const direction: Point3D = { x: 1, y: 0, z: 0 };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 10: basePoint.x = parseFloat(tag.value); break;
+      case 20: basePoint.y = parseFloat(tag.value); break;
+      case 30: basePoint.z = parseFloat(tag.value); break;
+      case 11: direction.x = parseFloat(tag.value); break;
+      case 21: direction.y = parseFloat(tag.value); break;
+      case 31: direction.z = parseFloat(tag.value); break;
+    }
+  }
+
+  return { basePoint, direction };
+}
+
+export function parseXLine(tags: DxfToken[]): DxfXLineEntity {
+  return { ...parseBaseEntity(tags), type: 'XLINE', ...parseBaseAndDirection(tags) };
+}
+
+export function parseRay(tags: DxfToken[]): DxfRayEntity {
+  return { ...parseBaseEntity(tags), type: 'RAY', ...parseBaseAndDirection(tags) };
+}
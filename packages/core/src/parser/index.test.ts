@@ -342,5 +342,162 @@ describe('parseDxf', () => {
       expect(doc.entities).toHaveLength(1);
       expect(doc.entities[0]!.type).toBe('POINT');
     });
+
+    it('resolves MULTILEADER block content by BLOCK_RECORD handle', () => {
+      const input = dxf(
+        `  0\nSECTION\n  2\nBLOCKS\n` +
+        `  0\nBLOCK\n  5\n20\n330\n1F\n  2\nTAG\n 70\n0\n 10\n0\n 20\n0\n  0\nENDBLK\n  0\nENDSEC`,
+        entitiesSection(
+          `  0\nMULTILEADER\n  8\n0\n300\nCONTEXT_DATA{\n296\n1\n341\n1F\n 15\n5\n 25\n5\n 35\n0\n301\n}\n172\n1\n`
+        )
+      );
+      const doc = parseDxf(input);
+      expect(doc.blocks.get('TAG')!.recordHandle).toBe('1F');
+      const mleader = doc.entities[0]!;
+      expect(mleader.type === 'MULTILEADER' && mleader.block?.blockName).toBe('TAG');
+    });
+
+    it('collects ATTDEFs into their block definition', () => {
+      const input = dxf(
+        `  0\nSECTION\n  2\nBLOCKS\n` +
+        `  0\nBLOCK\n  2\nTITLE\n 70\n2\n 10\n0\n 20\n0\n` +
+        `  0\nLINE\n 10\n0\n 20\n0\n 11\n10\n 21\n0\n` +
+        `  0\nATTDEF\n 10\n1\n 20\n1\n 40\n0.5\n  1\n1\n  3\nSheet number\n  2\nSHEET\n 70\n0\n` +
+        `  0\nENDBLK\n  0\nENDSEC`
+      );
+      const block = parseDxf(input).blocks.get('TITLE')!;
+      expect(block.entities.map(e => e.type)).toEqual(['LINE']);
+      expect(block.attributeDefinitions).toEqual([
+        expect.objectContaining({ tag: 'SHEET', prompt: 'Sheet number', text: '1', height: 0.5, flags: 0 }),
+      ]);
+    });
+
+    it('parses IMAGEDEF objects from the OBJECTS section', () => {
+      const input = dxf(
+        entitiesSection(`  0\nIMAGE\n  5\n30\n  8\n0\n 13\n100\n 23\n50\n340\n2A\n`),
+        `  0\nSECTION\n  2\nOBJECTS\n` +
+        `  0\nDICTIONARY\n  5\nC\n  3\nACAD_IMAGE_DICT\n350\n2A\n` +
+        `  0\nIMAGEDEF\n  5\n2A\n330\nC\n  1\nC:\\sites\\aerial.jpg\n 10\n100\n 20\n50\n  0\nENDSEC`
+      );
+      const doc = parseDxf(input);
+      expect(doc.imageDefs!.get('2A')).toEqual({
+        handle: '2A',
+        fileName: 'C:\\sites\\aerial.jpg',
+        imageSize: { x: 100, y: 50 },
+      });
+      expect(doc.entities[0]!.type).toBe('IMAGE');
+    });
+
+    it('parses MLINESTYLE objects keyed by handle', () => {
+      const input = dxf(
+        `  0\nSECTION\n  2\nOBJECTS\n` +
+        `  0\nMLINESTYLE\n  5\n1C\n  2\nWALL\n 70\n1\n 62\n8\n 71\n1\n 49\n0\n 62\n256\n  6\nBYLAYER\n  0\nENDSEC`
+      );
+      expect(parseDxf(input).mlineStyles!.get('1C')).toMatchObject({ name: 'WALL', flags: 1, fillColor: 8 });
+    });
+
+    it('reads WIPEOUTFRAME from the WIPEOUTVARIABLES object', () => {
+      const input = dxf(`  0\nSECTION\n  2\nOBJECTS\n  0\nWIPEOUTVARIABLES\n  5\n40\n 70\n0\n  0\nENDSEC`);
+      expect(parseDxf(input).wipeoutFrame).toBe(0);
+      expect(parseDxf(dxf(entitiesSection(''))).wipeoutFrame).toBeUndefined();
+    });
+  });
+
+  // ── Paper space ──────────────────────────────────────────────────
+
+  describe('paper space', () => {
+    function layout(handle: string, name: string, tabOrder: number, record: string): string {
+      return `  0\nLAYOUT\n  5\n${handle}\n330\n1A\n100\nAcDbPlotSettings\n  1\nSetup\n 70\n688\n` +
+        `100\nAcDbLayout\n  1\n${name}\n 70\n1\n 71\n${tabOrder}\n 10\n0\n 20\n0\n 11\n420\n 21\n297\n330\n${record}\n`;
+    }
+
+    const input = dxf(
+      tablesSection(`  0\nTABLE\n  2\nLAYER\n  0\nLAYER\n  5\n10\n  2\nHidden\n 70\n0\n 62\n7\n  0\nENDTAB\n`),
+      `  0\nSECTION\n  2\nBLOCKS\n` +
+      `  0\nBLOCK\n330\n1E\n  2\n*Paper_Space\n 70\n0\n 10\n0\n 20\n0\n  0\nENDBLK\n` +
+      `  0\nBLOCK\n330\n1F\n  2\n*Paper_Space0\n 70\n0\n 10\n0\n 20\n0\n` +
+      `  0\nVIEWPORT\n  5\n30\n 67\n1\n  8\n0\n 10\n100\n 20\n100\n 40\n50\n 41\n50\n 68\n2\n 69\n2\n` +
+      ` 12\n5\n 22\n5\n 45\n10\n 90\n65536\n340\n31\n` +
+      `  0\nLWPOLYLINE\n  5\n31\n 67\n1\n  8\n0\n 90\n3\n 70\n1\n 10\n75\n 20\n75\n 10\n125\n 20\n75\n 10\n100\n 20\n125\n` +
+      `  0\nENDBLK\n  0\nENDSEC`,
+      entitiesSection(
+        `  0\nLINE\n  8\n0\n 10\n0\n 20\n0\n 11\n10\n 21\n10\n` +
+        `  0\nVIEWPORT\n  5\n40\n 67\n1\n  8\n0\n 10\n210\n 20\n148\n 40\n420\n 41\n297\n 68\n1\n 69\n1\n` +
+        `  0\nVIEWPORT\n  5\n41\n 67\n1\n  8\n0\n 10\n100\n 20\n100\n 40\n80\n 41\n60\n 68\n2\n 69\n2\n` +
+        ` 12\n5\n 22\n5\n 17\n0\n 27\n0\n 37\n0\n 45\n12\n 51\n0\n 90\n0\n331\n10\n331\n99\n` +
+        `  0\nTEXT\n 67\n1\n  8\n0\n 10\n10\n 20\n10\n 40\n2.5\n  1\nTitle\n`
+      ),
+      `  0\nSECTION\n  2\nOBJECTS\n` +
+      layout('50', 'Model', 0, '1A') + layout('51', 'Sheet B', 2, '1F') + layout('52', 'Sheet A', 1, '1E') +
+      `  0\nENDSEC`,
+    );
+
+    it('moves paper space entities into the active *Paper_Space block', () => {
+      const doc = parseDxf(input);
+      expect(doc.entities.map(e => e.type)).toEqual(['LINE']);
+      expect(doc.blocks.get('*Paper_Space')!.entities.map(e => e.type)).toEqual(['VIEWPORT', 'VIEWPORT', 'TEXT']);
+      expect(doc.blocks.get('*Paper_Space0')!.entities.map(e => e.type)).toEqual(['VIEWPORT', 'LWPOLYLINE']);
+    });
+
+    it('parses LAYOUT objects and links them to their blocks', () => {
+      const doc = parseDxf(input);
+      expect(doc.layouts!.get('Sheet A')).toEqual({
+        name: 'Sheet A',
+        handle: '52',
+        tabOrder: 1,
+        limitsMin: { x: 0, y: 0 },
+        limitsMax: { x: 420, y: 297 },
+        blockRecordHandle: '1E',
+        blockName: '*Paper_Space',
+      });
+      expect(doc.layouts!.get('Sheet B')!.blockName).toBe('*Paper_Space0');
+      expect(doc.layouts!.get('Model')!.blockName).toBeUndefined();
+    });
+
+    it('resolves viewport frozen layers and clip boundaries', () => {
+      const doc = parseDxf(input);
+      const active = doc.blocks.get('*Paper_Space')!.entities[1]!;
+      expect(active).toMatchObject({ type: 'VIEWPORT', frozenLayerHandles: ['10', '99'], frozenLayers: ['Hidden'] });
+      const clipped = doc.blocks.get('*Paper_Space0')!.entities[0]!;
+      expect(clipped).toMatchObject({
+        type: 'VIEWPORT',
+        clipBoundaryHandle: '31',
+        clipBoundary: [{ x: 75, y: 75 }, { x: 125, y: 75 }, { x: 100, y: 125 }],
+      });
+    });
+
+    it('adds Model and Layout1 when paper space has entities but no layouts', () => {
+      const doc = parseDxf(dxf(entitiesSection(`  0\nCIRCLE\n 67\n1\n  8\n0\n 10\n0\n 20\n0\n 40\n1\n`)));
+      expect([...doc.layouts!.keys()]).toEqual(['Model', 'Layout1']);
+      expect(doc.layouts!.get('Layout1')!.blockName).toBe('*Paper_Space');
+      expect(parseDxf(dxf(entitiesSection(''))).layouts!.size).toBe(0);
+    });
+  });
+
+  describe('dimension styles', () => {
+    const input = dxf(
+      tablesSection(
+        `  0\nTABLE\n  2\nSTYLE\n  0\nSTYLE\n  5\n11\n  2\nRomans\n  3\nromans.shx\n  0\nENDTAB\n` +
+        `  0\nTABLE\n  2\nDIMSTYLE\n  0\nDIMSTYLE\n105\n27\n  2\nArch\n 41\n0.125\n340\n11\n342\n1E\n343\n99\n  0\nENDTAB\n`,
+      ),
+      `  0\nSECTION\n  2\nBLOCKS\n` +
+      `  0\nBLOCK\n330\n1E\n  2\n_ArchTick\n 70\n0\n 10\n0\n 20\n0\n  0\nENDBLK\n  0\nENDSEC`,
+      entitiesSection(
+        `  0\nDIMENSION\n  8\n0\n  3\nArch\n 70\n0\n 10\n0\n 20\n5\n 13\n0\n 23\n0\n 14\n10\n 24\n0\n` +
+        `1001\nACAD\n1000\nDSTYLE\n1002\n{\n1070\n342\n1005\n1E\n1002\n}\n`,
+      ),
+    );
+
+    it('parses DIMSTYLE entries and resolves their block and text style handles', () => {
+      const style = parseDxf(input).dimStyles!.get('Arch')!;
+      expect(style).toMatchObject({ handle: '27', arrowSize: 0.125, textStyle: 'Romans', arrowBlock: '_ArchTick' });
+      // Unknown block record: the default closed filled arrowhead
+      expect(style.arrowBlock1).toBe('');
+    });
+
+    it('resolves handles in DIMENSION style overrides', () => {
+      const entity = parseDxf(input).entities[0]!;
+      expect(entity).toMatchObject({ type: 'DIMENSION', styleOverrides: { arrowBlock: '_ArchTick' } });
+    });
   });
 });
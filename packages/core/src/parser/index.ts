@@ -1,29 +1,14 @@
-import type { DxfDocument, DxfHeader } from './types.js';
+import type { DxfBlock, DxfDimStyleSettings, DxfDocument, DxfEntity, DxfHeader, Point2D } from './types.js';
 import { tokenize } from './tokenizer.js';
 import { parseHeader } from './sections/header.js';
 import { parseTables } from './sections/tables.js';
 import { parseBlocks } from './sections/blocks.js';
 import { parseEntities } from './sections/entities.js';
+import { parseObjects } from './sections/objects.js';
+import { getCodePageEncoding } from './encoding.js';
 
 const BINARY_DXF_SENTINEL = 'AutoCAD Binary DXF';
 
-const CODEPAGE_MAP: Record<string, string> = {
-  'ANSI_874':  'windows-874',
-  'ANSI_932':  'shift_jis',
-  'ANSI_936':  'gbk',
-  'ANSI_949':  'euc-kr',
-  'ANSI_950':  'big5',
-  'ANSI_1250': 'windows-1250',
-  'ANSI_1251': 'windows-1251',
-  'ANSI_1252': 'windows-1252',
-  'ANSI_1253': 'windows-1253',
-  'ANSI_1254': 'windows-1254',
-  'ANSI_1255': 'windows-1255',
-  'ANSI_1256': 'windows-1256',
-  'ANSI_1257': 'windows-1257',
-  'ANSI_1258': 'windows-1258',
-};
-
 // Versions >= AC1021 (R2007) use UTF-8
 const UTF8_MIN_VERSION = 'AC1021';
 
@@ -74,7 +59,7 @@ function decodeInput(input: string | ArrayBuffer): string {
     // Find $DWGCODEPAGE
     const cpMatch = text.match(/\$DWGCODEPAGE[\s\S]*?\n\s*3\s*\n\s*(\S+)/);
     const codepage = cpMatch?.[1] ?? '';
-    const encoding = CODEPAGE_MAP[codepage] ?? 'windows-1252';
+    const encoding = getCodePageEncoding(codepage) ?? 'windows-1252';
 
     if (encoding !== 'utf-8') {
       text = new TextDecoder(encoding).decode(input);
@@ -129,6 +114,134 @@ function computeDerivedLayerFlags(doc: DxfDocument): void {
   }
 }
 
+/**
+ * Resolve MULTILEADER block content and ACAD_TABLE block cells, which
+ * reference their block by BLOCK_RECORD handle, to a block name.
+ */
+function resolveBlockHandles(doc: DxfDocument): void {
+  const names = new Map<string, string>();
+  for (const block of doc.blocks.values()) {
+    if (block.recordHandle) names.set(block.recordHandle, block.name);
+  }
+  if (names.size === 0) return;
+
+  const resolve = (entities: DxfEntity[]): void => {
+    for (const entity of entities) {
+      if (entity.type === 'MULTILEADER' && entity.block) {
+        entity.block.blockName = names.get(entity.block.blockHandle);
+      } else if (entity.type === 'ACAD_TABLE') {
+        for (const cell of entity.cells.flat()) {
+          if (cell.blockHandle) cell.blockName = names.get(cell.blockHandle);
+        }
+      }
+    }
+  };
+  resolve(doc.entities);
+  for (const block of doc.blocks.values()) resolve(block.entities);
+}
+
+/**
+ * Resolve the arrowhead block and text style handles of DIMSTYLE entries and
+ * of DIMENSION style overrides to names.
+ */
+function resolveDimStyleHandles(doc: DxfDocument): void {
+  const blockNames = new Map<string, string>();
+  for (const block of doc.blocks.values()) {
+    if (block.recordHandle) blockNames.set(block.recordHandle, block.name);
+  }
+  const styleNames = new Map<string, string>();
+  for (const style of doc.styles.values()) {
+    if (style.handle) styleNames.set(style.handle, style.name);
+  }
+
+  // A handle that matches no block record means the default closed filled arrowhead
+  const resolve = (settings: Partial<DxfDimStyleSettings>): void => {
+    if (settings.arrowBlockHandle) settings.arrowBlock = blockNames.get(settings.arrowBlockHandle) ?? '';
+    if (settings.arrowBlock1Handle) settings.arrowBlock1 = blockNames.get(settings.arrowBlock1Handle) ?? '';
+    if (settings.arrowBlock2Handle) settings.arrowBlock2 = blockNames.get(settings.arrowBlock2Handle) ?? '';
+    const textStyle = settings.textStyleHandle ? styleNames.get(settings.textStyleHandle) : undefined;
+    if (textStyle) settings.textStyle = textStyle;
+  };
+
+  for (const style of doc.dimStyles?.values() ?? []) resolve(style);
+  const resolveEntities = (entities: DxfEntity[]): void => {
+    for (const entity of entities) {
+      if (entity.type === 'DIMENSION' && entity.styleOverrides) resolve(entity.styleOverrides);
+    }
+  };
+  resolveEntities(doc.entities);
+  for (const block of doc.blocks.values()) resolveEntities(block.entities);
+}
+
+const ACTIVE_PAPER_SPACE = '*Paper_Space';
+
+/**
+ * Move paper space entities (code 67) out of the ENTITIES section into the
+ * active layout's `*Paper_Space` block, where the other layouts keep theirs,
+ * and link layouts to their blocks. Drawings without LAYOUT objects but with
+ * paper space entities get a Model and a Layout1 layout.
+ */
+function resolvePaperSpace(doc: DxfDocument): void {
+  const paperSpace = doc.entities.filter(e => e.paperSpace);
+  if (paperSpace.length > 0) {
+    doc.entities = doc.entities.filter(e => !e.paperSpace);
+    let block = doc.blocks.get(ACTIVE_PAPER_SPACE);
+    if (!block) {
+      block = { name: ACTIVE_PAPER_SPACE, basePoint: { x: 0, y: 0, z: 0 }, entities: [], flags: 0 };
+      doc.blocks.set(ACTIVE_PAPER_SPACE, block);
+    }
+    block.entities.push(...paperSpace);
+  }
+
+  const layouts = (doc.layouts ??= new Map());
+  if (layouts.size === 0 && doc.blocks.get(ACTIVE_PAPER_SPACE)?.entities.length) {
+    const origin = (): Point2D => ({ x: 0, y: 0 });
+    layouts.set('Model', { name: 'Model', tabOrder: 0, limitsMin: origin(), limitsMax: origin() });
+    layouts.set('Layout1', {
+      name: 'Layout1', tabOrder: 1, limitsMin: origin(), limitsMax: origin(), blockName: ACTIVE_PAPER_SPACE,
+    });
+  }
+
+  const names = new Map<string, string>();
+  for (const block of doc.blocks.values()) {
+    if (block.recordHandle) names.set(block.recordHandle, block.name);
+  }
+  for (const layout of layouts.values()) {
+    if (layout.blockRecordHandle) layout.blockName ??= names.get(layout.blockRecordHandle);
+  }
+
+  const layerNames = new Map<string, string>();
+  for (const layer of doc.layers.values()) {
+    if (layer.handle) layerNames.set(layer.handle, layer.name);
+  }
+  for (const block of doc.blocks.values()) {
+    if (block.name.startsWith(ACTIVE_PAPER_SPACE)) resolveViewports(block, layerNames);
+  }
+}
+
+/** Resolve viewport frozen layer handles to names and clip boundary handles to outlines. */
+function resolveViewports(block: DxfBlock, layerNames: Map<string, string>): void {
+  for (const entity of block.entities) {
+    if (entity.type !== 'VIEWPORT') continue;
+    entity.frozenLayers = entity.frozenLayerHandles
+      .map(handle => layerNames.get(handle))
+      .filter((name): name is string => name !== undefined);
+
+    // Flag 0x10000: non-rectangular clipping
+    if (!(entity.flags & 0x10000) || !entity.clipBoundaryHandle) continue;
+    const boundary = block.entities.find(e => e.handle === entity.clipBoundaryHandle);
+    if (boundary?.type === 'LWPOLYLINE' || boundary?.type === 'POLYLINE') {
+      entity.clipBoundary = boundary.vertices.map(v => ({ x: v.x, y: v.y }));
+    } else if (boundary?.type === 'CIRCLE') {
+      const { center, radius } = boundary;
+      entity.clipBoundary = Array.from({ length: 72 }, (_, k) => ({
+        x: center.x + radius * Math.cos(k * Math.PI / 36),
+        y: center.y + radius * Math.sin(k * Math.PI / 36),
+      }));
+    }
+  }
+}
+
 /**
  * Error thrown when DXF parsing fails.
  */
@@ -186,6 +299,15 @@ export function parseDxf(input: string | ArrayBuffer): DxfDocument {
     styles: new Map(),
     blocks: new Map(),
     entities: [],
+    imageDefs: new Map(),
+    mlineStyles: new Map(),
+    layouts: new Map(),
+    dimStyles: new Map(),
+    vports: new Map(),
+    views: new Map(),
+    ucs: new Map(),
+    appIds: new Map(),
+    blockRecords: new Map(),
   };
 
   try {
@@ -212,8 +334,11 @@ export function parseDxf(input: string | ArrayBuffer): DxfDocument {
           case 'ENTITIES':
             i = parseEntities(tokens, i, doc.entities);
             break;
+          case 'OBJECTS':
+            i = parseObjects(tokens, i, doc);
+            break;
           default:
-            // Skip CLASSES, OBJECTS, THUMBNAILIMAGE, etc.
+            // Skip CLASSES, THUMBNAILIMAGE, etc.
             i = skipSection(tokens, i);
             break;
         }
@@ -230,6 +355,9 @@ export function parseDxf(input: string | ArrayBuffer): DxfDocument {
   // Post-processing
   ensureDefaultLayer(doc);
   computeDerivedLayerFlags(doc);
+  resolveBlockHandles(doc);
+  resolveDimStyleHandles(doc);
+  resolvePaperSpace(doc);
 
   return doc;
 }
@@ -0,0 +1,21 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfImageDef } from '../types.js';
+
+export function parseImageDef(tags: DxfToken[]): DxfImageDef {
+  const def: DxfImageDef = {
+    handle: '',
+    fileName: '',
+    imageSize: { x: 0, y: 0 },
+  };
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 5: def.handle = tag.value.trim(); break;
+      case 1: def.fileName = tag.value.trim(); break;
+      case 10: def.imageSize.x = parseFloat(tag.value); break;
+      case 20: def.imageSize.y = parseFloat(tag.value); break;
+    }
+  }
+
+  return def;
+}
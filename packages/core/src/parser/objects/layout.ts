@@ -0,0 +1,41 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfLayout } from '../types.js';
+
+/**
+ * Parse a LAYOUT object. Its plot settings subclass reuses codes 1, 10 and
+ * 70 for other values, so only tags after the AcDbLayout marker are read.
+ */
+export function parseLayout(tags: DxfToken[]): DxfLayout {
+  const layout: DxfLayout = {
+    name: '',
+    tabOrder: 0,
+    limitsMin: { x: 0, y: 0 },
+    limitsMax: { x: 0, y: 0 },
+  };
+
+  let inLayout = false;
+
+  for (const tag of tags) {
+    if (tag.code === 5) {
+      layout.handle = tag.value.trim();
+      continue;
+    }
+    if (tag.code === 100) {
+      inLayout = tag.value.trim() === 'AcDbLayout';
+      continue;
+    }
+    if (!inLayout) continue;
+
+    switch (tag.code) {
+      case 1:   layout.name = tag.value.trim(); break;
+      case 71:  layout.tabOrder = parseInt(tag.value, 10); break;
+      case 10:  layout.limitsMin.x = parseFloat(tag.value); break;
+      case 20:  layout.limitsMin.y = parseFloat(tag.value); break;
+      case 11:  layout.limitsMax.x = parseFloat(tag.value); break;
+      case 21:  layout.limitsMax.y = parseFloat(tag.value); break;
+      case 330: layout.blockRecordHandle = tag.value.trim(); break;
+    }
+  }
+
+  return layout;
+}
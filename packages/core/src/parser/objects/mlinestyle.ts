@@ -0,0 +1,37 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfMLineStyle, DxfMLineStyleElement } from '../types.js';
+
+/**
+ * Parse an MLINESTYLE object. Code 62 is the fill color before the first
+ * element offset (49) and an element color after it.
+ */
+export function parseMLineStyle(tags: DxfToken[]): DxfMLineStyle {
+  const style: DxfMLineStyle = {
+    handle: '',
+    name: '',
+    flags: 0,
+    fillColor: 256,
+    elements: [],
+  };
+
+  let element: DxfMLineStyleElement | null = null;
+
+  for (const tag of tags) {
+    switch (tag.code) {
+      case 5:  style.handle = tag.value.trim(); break;
+      case 2:  style.name = tag.value.trim(); break;
+      case 70: style.flags = parseInt(tag.value, 10); break;
+      case 49:
+        element = { offset: parseFloat(tag.value), color: 256, lineType: 'BYLAYER' };
+        style.elements.push(element);
+        break;
+      case 62:
+        if (element) element.color = parseInt(tag.value, 10);
+        else style.fillColor = parseInt(tag.value, 10);
+        break;
+      case 6:  if (element) element.lineType = tag.value.trim(); break;
+    }
+  }
+
+  return style;
+}
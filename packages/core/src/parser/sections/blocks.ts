@@ -1,5 +1,5 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfBlock, DxfEntity, Point3D } from '../types.js';
+import type { DxfAttdef, DxfBlock, DxfEntity, Point3D } from '../types.js';
 import { parseEntities } from './entities.js';
 
 export function parseBlocks(tokens: DxfToken[], i: number, blocks: Map<string, DxfBlock>): number {
@@ -14,6 +14,7 @@ export function parseBlocks(tokens: DxfToken[], i: number, blocks: Map<string, D
         basePoint: { x: 0, y: 0, z: 0 } as Point3D,
         entities: [] as DxfEntity[],
         flags: 0,
+        attributeDefinitions: [] as DxfAttdef[],
       };
 
       // Parse block header tags until we hit a code 0 (which is either an entity or ENDBLK)
@@ -26,16 +27,18 @@ export function parseBlocks(tokens: DxfToken[], i: number, blocks: Map<string, D
           case 20: block.basePoint.y = parseFloat(tag.value); break;
           case 30: block.basePoint.z = parseFloat(tag.value); break;
           case 70: block.flags = parseInt(tag.value, 10); break;
+          case 330: block.recordHandle ??= tag.value; break; // owner; later 330s are reactors
         }
         i++;
       }
 
       // Parse block entities (between BLOCK header and ENDBLK)
       // parseEntities will stop at ENDBLK and return i+1 past it
-      i = parseEntities(tokens, i, block.entities);
+      i = parseEntities(tokens, i, block.entities, block.attributeDefinitions);
 
-      // Store block (skip model/paper space — their entities are in ENTITIES section)
-      if (block.name && !block.name.startsWith('*Model_Space') && !block.name.startsWith('*Paper_Space')) {
+      // Store block (skip model space — its entities are in the ENTITIES section).
+      // Paper space blocks hold the entities of the inactive layouts.
+      if (block.name && !block.name.startsWith('*Model_Space')) {
         blocks.set(block.name, block);
       }
     } else {
@@ -8,6 +8,7 @@ import type {
   DxfPointEntity,
   DxfInsertEntity,
   DxfPolylineEntity,
+  DxfAttdef,
 } from '../types.js';
 
 describe('parseEntities', () => {
@@ -55,7 +56,7 @@ describe('parseEntities', () => {
 
   it('silently skips unknown entity types', () => {
     const tokens: DxfToken[] = [
-      { code: 0, value: 'XLINE' },
+      { code: 0, value: 'SURFACE' },
       { code: 10, value: '0' }, { code: 20, value: '0' },
       { code: 0, value: 'POINT' },
       { code: 10, value: '1' }, { code: 20, value: '1' }, { code: 30, value: '0' },
@@ -94,6 +95,19 @@ describe('parseEntities', () => {
     expect(next).toBe(8); // past ENDBLK
   });
 
+  it('parses SOLID, TRACE and 3DFACE entities', () => {
+    const pairs: [number, string][] = [
+      [0, 'SOLID'], [8, '0'], [10, '0'], [20, '0'], [11, '1'], [21, '0'], [12, '0'], [22, '1'],
+      [0, 'TRACE'], [8, '0'], [10, '0'], [20, '0'], [11, '1'], [21, '0'], [12, '0'], [22, '1'], [13, '1'], [23, '1'],
+      [0, '3DFACE'], [8, '0'], [10, '0'], [20, '0'], [11, '1'], [21, '0'], [12, '1'], [22, '1'], [70, '2'],
+      [0, 'ENDSEC'],
+    ];
+    const tokens: DxfToken[] = pairs.map(([code, value]) => ({ code, value }));
+    const entities: DxfEntity[] = [];
+    parseEntities(tokens, 0, entities);
+    expect(entities.map(e => e.type)).toEqual(['SOLID', 'TRACE', '3DFACE']);
+  });
+
   it('handles POLYLINE with VERTEX/SEQEND sequence', () => {
     const tokens: DxfToken[] = [
       { code: 0, value: 'POLYLINE' },
@@ -116,6 +130,26 @@ describe('parseEntities', () => {
     expect(poly.vertices[1]!.x).toBe(10);
   });
 
+  it('applies POLYLINE default widths to VERTEX entities without their own', () => {
+    const tokens: DxfToken[] = [
+      { code: 0, value: 'POLYLINE' },
+      { code: 40, value: '2' },
+      { code: 41, value: '1' },
+      { code: 0, value: 'VERTEX' },
+      { code: 10, value: '0' }, { code: 20, value: '0' },
+      { code: 0, value: 'VERTEX' },
+      { code: 10, value: '10' }, { code: 20, value: '0' },
+      { code: 40, value: '0.5' }, { code: 41, value: '0' },
+      { code: 0, value: 'SEQEND' },
+      { code: 0, value: 'ENDSEC' },
+    ];
+    const entities: DxfEntity[] = [];
+    parseEntities(tokens, 0, entities);
+    const poly = entities[0] as DxfPolylineEntity;
+    expect(poly.vertices[0]).toMatchObject({ startWidth: 2, endWidth: 1 });
+    expect(poly.vertices[1]).toMatchObject({ startWidth: 0.5, endWidth: 0 });
+  });
+
   it('handles INSERT with ATTRIBs (code 66=1)', () => {
     const tokens: DxfToken[] = [
       { code: 0, value: 'INSERT' },
@@ -138,4 +172,69 @@ describe('parseEntities', () => {
     expect(insert.attribs[0]!.tag).toBe('TAG1');
     expect(insert.attribs[0]!.text).toBe('Value1');
   });
+
+  it('parses ATTRIB style, alignment and flags', () => {
+    const tokens: DxfToken[] = [
+      { code: 0, value: 'INSERT' },
+      { code: 2, value: 'TITLE' },
+      { code: 66, value: '1' },
+      { code: 0, value: 'ATTRIB' },
+      { code: 8, value: 'TEXT' },
+      { code: 10, value: '1' }, { code: 20, value: '2' },
+      { code: 40, value: '2.5' },
+      { code: 1, value: 'A-101' },
+      { code: 2, value: 'SHEET' },
+      { code: 70, value: '1' },
+      { code: 7, value: 'ROMANS' },
+      { code: 41, value: '0.8' },
+      { code: 72, value: '1' },
+      { code: 11, value: '4' }, { code: 21, value: '2' },
+      { code: 74, value: '2' },
+      // Embedded MTEXT of a multiline attribute repeats geometry codes
+      { code: 101, value: 'Embedded Object' },
+      { code: 10, value: '99' },
+      { code: 0, value: 'SEQEND' },
+      { code: 0, value: 'ENDSEC' },
+    ];
+    const entities: DxfEntity[] = [];
+    parseEntities(tokens, 0, entities);
+    expect((entities[0] as DxfInsertEntity).attribs[0]).toEqual({
+      tag: 'SHEET',
+      text: 'A-101',
+      insertionPoint: { x: 1, y: 2, z: 0 },
+      alignmentPoint: { x: 4, y: 2, z: 0 },
+      height: 2.5,
+      rotation: 0,
+      widthFactor: 0.8,
+      obliqueAngle: 0,
+      style: 'ROMANS',
+      hAlign: 1,
+      vAlign: 2,
+      generationFlags: 0,
+      flags: 1,
+      layer: 'TEXT',
+      color: 256,
+    });
+  });
+
+  it('collects ATTDEFs only when given a definitions list', () => {
+    const tokens: DxfToken[] = [
+      { code: 0, value: 'ATTDEF' },
+      { code: 10, value: '0' }, { code: 20, value: '0' },
+      { code: 1, value: 'A' },
+      { code: 3, value: 'Revision' },
+      { code: 2, value: 'REV' },
+      { code: 70, value: '8' },
+      { code: 0, value: 'ENDBLK' },
+    ];
+    const entities: DxfEntity[] = [];
+    const attdefs: DxfAttdef[] = [];
+    parseEntities(tokens, 0, entities, attdefs);
+    expect(entities).toHaveLength(0);
+    expect(attdefs).toHaveLength(1);
+    expect(attdefs[0]).toMatchObject({ tag: 'REV', prompt: 'Revision', text: 'A', flags: 8 });
+
+    parseEntities(tokens, 0, entities);
+    expect(entities).toHaveLength(0);
+  });
 });
@@ -1,5 +1,5 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfEntity, DxfLwPolylineVertex, DxfAttrib } from '../types.js';
+import type { DxfEntity, DxfLwPolylineVertex, DxfPolylineEntity, DxfAttrib, DxfAttdef } from '../types.js';
 import { parseLine } from '../entities/line.js';
 import { parseCircle } from '../entities/circle.js';
 import { parseArc } from '../entities/arc.js';
@@ -13,8 +13,26 @@ import { parseInsert } from '../entities/insert.js';
 import { parseDimension } from '../entities/dimension.js';
 import { parseHatch } from '../entities/hatch.js';
 import { parsePoint } from '../entities/point.js';
+import { parse3DFace, parseSolid, parseTrace } from '../entities/solid.js';
+import { parseLeader } from '../entities/leader.js';
+import { parseMLeader } from '../entities/mleader.js';
+import { parseRay, parseXLine } from '../entities/xline.js';
+import { parseImage, parseWipeout } from '../entities/image.js';
+import { parseTable } from '../entities/table.js';
+import { parseAttdef, parseAttrib } from '../entities/attrib.js';
+import { parseMLine } from '../entities/mline.js';
+import { parseViewport } from '../entities/viewport.js';
 
-export function parseEntities(tokens: DxfToken[], i: number, entities: DxfEntity[]): number {
+/**
+ * Parse entities until ENDSEC or ENDBLK. ATTDEFs are collected into
+ * `attributeDefinitions` when given (block definitions), else skipped.
+ */
+export function parseEntities(
+  tokens: DxfToken[],
+  i: number,
+  entities: DxfEntity[],
+  attributeDefinitions?: DxfAttdef[],
+): number {
   while (i < tokens.length) {
     const token = tokens[i]!;
     if (token.code !== 0) { i++; continue; }
@@ -75,10 +93,50 @@ export function parseEntities(tokens: DxfToken[], i: number, entities: DxfEntity
       case 'POINT':
         entities.push(parsePoint(entityTags));
         break;
+      case 'SOLID':
+        entities.push(parseSolid(entityTags));
+        break;
+      case 'TRACE':
+        entities.push(parseTrace(entityTags));
+        break;
+      case '3DFACE':
+        entities.push(parse3DFace(entityTags));
+        break;
+      case 'LEADER':
+        entities.push(parseLeader(entityTags));
+        break;
+      case 'MULTILEADER':
+      case 'MLEADER':
+        entities.push(parseMLeader(entityTags));
+        break;
+      case 'XLINE':
+        entities.push(parseXLine(entityTags));
+        break;
+      case 'RAY':
+        entities.push(parseRay(entityTags));
+        break;
+      case 'IMAGE':
+        entities.push(parseImage(entityTags));
+        break;
+      case 'WIPEOUT':
+        entities.push(parseWipeout(entityTags));
+        break;
+      case 'ACAD_TABLE':
+        entities.push(parseTable(entityTags));
+        break;
+      case 'MLINE':
+        entities.push(parseMLine(entityTags));
+        break;
+      case 'VIEWPORT':
+        entities.push(parseViewport(entityTags));
+        break;
+      case 'ATTDEF':
+        attributeDefinitions?.push(parseAttdef(entityTags));
+        break;
       case 'POLYLINE': {
         const polyline = parsePolyline(entityTags);
         // Read VERTEX entities until SEQEND
-        i = parseVertices(tokens, i, polyline.vertices);
+        i = parseVertices(tokens, i, polyline);
         entities.push(polyline);
         break;
       }
@@ -92,8 +150,10 @@ export function parseEntities(tokens: DxfToken[], i: number, entities: DxfEntity
 
 /**
  * Parse VERTEX entities following a POLYLINE until SEQEND.
+ * Vertices without widths take the polyline's default widths.
  */
-function parseVertices(tokens: DxfToken[], i: number, vertices: DxfLwPolylineVertex[]): number {
+function parseVertices(tokens: DxfToken[], i: number, polyline: DxfPolylineEntity): number {
+  const vertices = polyline.vertices;
   while (i < tokens.length) {
     if (tokens[i]!.code !== 0) { i++; continue; }
 
@@ -103,7 +163,13 @@ function parseVertices(tokens: DxfToken[], i: number, vertices: DxfLwPolylineVer
 
     if (type === 'VERTEX') {
       i++;
-      const vertex: DxfLwPolylineVertex = { x: 0, y: 0, bulge: 0, startWidth: 0, endWidth: 0 };
+      const vertex: DxfLwPolylineVertex = {
+        x: 0,
+        y: 0,
+        bulge: 0,
+        startWidth: polyline.startWidth ?? 0,
+        endWidth: polyline.endWidth ?? 0,
+      };
       while (i < tokens.length && tokens[i]!.code !== 0) {
         const tag = tokens[i]!;
         switch (tag.code) {
@@ -138,33 +204,12 @@ function parseAttribs(tokens: DxfToken[], i: number, attribs: DxfAttrib[]): numb
 
     if (type === 'ATTRIB') {
       i++;
-      const attrib: DxfAttrib = {
-        tag: '',
-        text: '',
-        insertionPoint: { x: 0, y: 0, z: 0 },
-        height: 1,
-        rotation: 0,
-        style: 'STANDARD',
-        layer: '0',
-        color: 256,
-      };
+      const attribTags: DxfToken[] = [];
       while (i < tokens.length && tokens[i]!.code !== 0) {
-        const tag = tokens[i]!;
-        switch (tag.code) {
-          case 1:  attrib.text = tag.value; break;
-          case 2:  attrib.tag = tag.value; break;
-          case 7:  attrib.style = tag.value; break;
-          case 8:  attrib.layer = tag.value; break;
-          case 10: attrib.insertionPoint.x = parseFloat(tag.value); break;
-          case 20: attrib.insertionPoint.y = parseFloat(tag.value); break;
-          case 30: attrib.insertionPoint.z = parseFloat(tag.value); break;
-          case 40: attrib.height = parseFloat(tag.value); break;
-          case 50: attrib.rotation = parseFloat(tag.value); break;
-          case 62: attrib.color = parseInt(tag.value, 10); break;
-        }
+        attribTags.push(tokens[i]!);
         i++;
       }
-      attribs.push(attrib);
+      attribs.push(parseAttrib(attribTags));
     } else {
       // Skip unexpected entity type
       i++;
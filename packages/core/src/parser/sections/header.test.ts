@@ -57,6 +57,17 @@ describe('parseHeader', () => {
     expect(header.ltScale).toBe(2.5);
   });
 
+  it('parses $LWDEFAULT', () => {
+    const tokens: DxfToken[] = [
+      { code: 9, value: '$LWDEFAULT' },
+      { code: 370, value: '35' },
+      { code: 0, value: 'ENDSEC' },
+    ];
+    const header = makeHeader();
+    parseHeader(tokens, 0, header);
+    expect(header.lwDefault).toBe(35);
+  });
+
   it('parses $EXTMIN and $EXTMAX as Point3D', () => {
     const tokens: DxfToken[] = [
       { code: 9, value: '$EXTMIN' },
@@ -37,6 +37,9 @@ export function parseHeader(tokens: DxfToken[], i: number, header: DxfHeader): n
         case '$LTSCALE':
           if (i < tokens.length) { header.ltScale = parseFloat(tokens[i]!.value); i++; }
           break;
+        case '$LWDEFAULT':
+          if (i < tokens.length) { header.lwDefault = parseInt(tokens[i]!.value, 10); i++; }
+          break;
         case '$DWGCODEPAGE':
           if (i < tokens.length) { header.dwgCodePage = tokens[i]!.value; i++; }
           break;
@@ -0,0 +1,51 @@
+import type { DxfToken } from '../tokenizer.js';
+import type { DxfDocument } from '../types.js';
+import { parseImageDef } from '../objects/imagedef.js';
+import { parseMLineStyle } from '../objects/mlinestyle.js';
+import { parseLayout } from '../objects/layout.js';
+
+export function parseObjects(tokens: DxfToken[], i: number, doc: DxfDocument): number {
+  while (i < tokens.length) {
+    const token = tokens[i]!;
+    if (token.code !== 0) { i++; continue; }
+
+    const type = token.value;
+    if (type === 'ENDSEC') return i + 1;
+
+    i++; // advance past (0, TYPE)
+
+    // Collect all tags until next code 0
+    const objectTags: DxfToken[] = [];
+    while (i < tokens.length && tokens[i]!.code !== 0) {
+      objectTags.push(tokens[i]!);
+      i++;
+    }
+
+    switch (type) {
+      case 'IMAGEDEF': {
+        const def = parseImageDef(objectTags);
+        if (def.handle) (doc.imageDefs ??= new Map()).set(def.handle, def);
+        break;
+      }
+      case 'MLINESTYLE': {
+        const style = parseMLineStyle(objectTags);
+        if (style.handle) (doc.mlineStyles ??= new Map()).set(style.handle, style);
+        break;
+      }
+      case 'LAYOUT': {
+        const layout = parseLayout(objectTags);
+        if (layout.name) (doc.layouts ??= new Map()).set(layout.name, layout);
+        break;
+      }
+      case 'WIPEOUTVARIABLES': {
+        const frame = objectTags.find(t => t.code === 70);
+        if (frame) doc.wipeoutFrame = parseInt(frame.value, 10);
+        break;
+      }
+      // Other objects are not needed for display
+      default:
+        break;
+    }
+  }
+  return i;
+}
@@ -173,13 +173,139 @@ describe('parseTables', () => {
     });
   });
 
+  describe('DIMSTYLE table', () => {
+    it('parses the listed dimension variables and the handle from code 105', () => {
+      const tokens: DxfToken[] = [
+        { code: 0, value: 'TABLE' },
+        { code: 2, value: 'DIMSTYLE' },
+        { code: 0, value: 'DIMSTYLE' },
+        { code: 105, value: '27' },
+        { code: 100, value: 'AcDbDimStyleTableRecord' },
+        { code: 2, value: 'ISO-25' },
+        { code: 70, value: '0' },
+        { code: 3, value: ' mm' },
+        { code: 41, value: '2.5' },
+        { code: 77, value: '1' },
+        { code: 144, value: '10' },
+        { code: 173, value: '1' },
+        { code: 271, value: '2' },
+        { code: 278, value: '44' },
+        { code: 340, value: '11' },
+        { code: 343, value: '5A' },
+        { code: 0, value: 'ENDTAB' },
+        { code: 0, value: 'ENDSEC' },
+      ];
+      const doc = makeDoc();
+      parseTables(tokens, 0, doc);
+      expect(doc.dimStyles!.get('ISO-25')).toEqual({
+        name: 'ISO-25',
+        handle: '27',
+        textPost: ' mm',
+        arrowSize: 2.5,
+        textAbove: 1,
+        linearFactor: 10,
+        separateArrows: true,
+        decimalPlaces: 2,
+        decimalSeparator: ',',
+        textStyleHandle: '11',
+        arrowBlock1Handle: '5A',
+      });
+    });
+
+    it('lets a later DIMSTYLE entry of the same name replace an earlier one', () => {
+      const doc = makeDoc();
+      parseTables([
+        { code: 0, value: 'TABLE' },
+        { code: 2, value: 'DIMSTYLE' },
+        { code: 0, value: 'DIMSTYLE' },
+        { code: 2, value: 'Arch' },
+        { code: 41, value: '0.1' },
+        { code: 0, value: 'DIMSTYLE' },
+        { code: 2, value: 'Arch' },
+        { code: 41, value: '0.25' },
+        { code: 0, value: 'ENDTAB' },
+        { code: 0, value: 'ENDSEC' },
+      ], 0, doc);
+      expect(doc.dimStyles!.get('Arch')).toEqual({ name: 'Arch', arrowSize: 0.25 });
+    });
+  });
+
+  describe('VPORT, VIEW, UCS, APPID and BLOCK_RECORD tables', () => {
+    function table(type: string, ...entries: [number, string][][]): DxfToken[] {
+      return [
+        { code: 0, value: 'TABLE' },
+        { code: 2, value: type },
+        ...entries.flatMap(entry => [{ code: 0, value: type }, ...entry.map(([code, value]) => ({ code, value }))]),
+        { code: 0, value: 'ENDTAB' },
+      ];
+    }
+
+    it('keeps the first *ACTIVE viewport and reads its view', () => {
+      const doc = makeDoc();
+      parseTables([
+        ...table('VPORT',
+          [[5, '29'], [2, '*ACTIVE'], [70, '0'], [10, '0'], [20, '0'], [11, '0.5'], [21, '1'], [12, '50'], [22, '25'],
+            [17, '1'], [27, '2'], [37, '0'], [40, '80'], [41, '1.6'], [51, '15']],
+          [[5, '2A'], [2, '*ACTIVE'], [10, '0.5'], [20, '0'], [40, '10']],
+        ),
+        { code: 0, value: 'ENDSEC' },
+      ], 0, doc);
+      expect(doc.vports!.size).toBe(1);
+      expect(doc.vports!.get('*ACTIVE')).toMatchObject({
+        handle: '29',
+        lowerLeft: { x: 0, y: 0 },
+        upperRight: { x: 0.5, y: 1 },
+        center: { x: 50, y: 25 },
+        viewTarget: { x: 1, y: 2, z: 0 },
+        viewDirection: { x: 0, y: 0, z: 1 },
+        height: 80,
+        aspectRatio: 1.6,
+        twistAngle: 15,
+      });
+    });
+
+    it('parses named views, coordinate systems and application ids', () => {
+      const doc = makeDoc();
+      parseTables([
+        ...table('VIEW', [[5, '30'], [2, 'Detail A'], [70, '0'], [40, '12'], [10, '100'], [20, '40'], [41, '20'], [50, '90']]),
+        ...table('UCS', [[2, 'Rotated'], [10, '5'], [20, '5'], [30, '0'], [11, '0'], [21, '1'], [31, '0'], [12, '-1'], [22, '0'], [32, '0']]),
+        ...table('APPID', [[5, '12'], [2, 'ACAD'], [70, '0']], [[2, 'ASSETS'], [70, '0']]),
+        { code: 0, value: 'ENDSEC' },
+      ], 0, doc);
+      expect(doc.views!.get('Detail A')).toMatchObject({
+        handle: '30', center: { x: 100, y: 40 }, height: 12, width: 20, twistAngle: 90,
+      });
+      expect(doc.ucs!.get('Rotated')).toMatchObject({
+        origin: { x: 5, y: 5, z: 0 }, xAxis: { x: 0, y: 1, z: 0 }, yAxis: { x: -1, y: 0, z: 0 },
+      });
+      expect([...doc.appIds!.keys()]).toEqual(['ACAD', 'ASSETS']);
+    });
+
+    it('parses block records with their layout links, units and flags', () => {
+      const doc = makeDoc();
+      parseTables([
+        ...table('BLOCK_RECORD',
+          [[5, '1F'], [330, '1'], [2, '*Paper_Space'], [340, '22'], [70, '0'], [280, '1'], [281, '0']],
+          [[5, '40'], [2, 'Door'], [70, '4'], [280, '0'], [281, '1']],
+        ),
+        { code: 0, value: 'ENDSEC' },
+      ], 0, doc);
+      expect(doc.blockRecords!.get('*Paper_Space')).toEqual({
+        name: '*Paper_Space', handle: '1F', layoutHandle: '22', insertUnits: 0, explodable: true, uniformScaling: false,
+      });
+      expect(doc.blockRecords!.get('Door')).toEqual({
+        name: 'Door', handle: '40', insertUnits: 4, explodable: false, uniformScaling: true,
+      });
+    });
+  });
+
   describe('unknown tables', () => {
     it('skips unknown table types', () => {
       const tokens: DxfToken[] = [
         { code: 0, value: 'TABLE' },
-        { code: 2, value: 'VPORT' },
-        { code: 0, value: 'VPORT' },
-        { code: 2, value: '*Active' },
+        { code: 2, value: 'ACME_TABLE' },
+        { code: 0, value: 'ACME_TABLE' },
+        { code: 2, value: 'Entry' },
         { code: 0, value: 'ENDTAB' },
         { code: 0, value: 'TABLE' },
         { code: 2, value: 'LAYER' },
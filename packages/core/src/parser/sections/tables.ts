@@ -1,5 +1,17 @@
 import type { DxfToken } from '../tokenizer.js';
-import type { DxfDocument, DxfLayer, DxfLineType, DxfStyle } from '../types.js';
+import type {
+  DxfAppId,
+  DxfBlockRecord,
+  DxfDimStyle,
+  DxfDocument,
+  DxfLayer,
+  DxfLineType,
+  DxfStyle,
+  DxfUcs,
+  DxfView,
+  DxfVPort,
+} from '../types.js';
+import { setDimStyleValue } from '../dim-vars.js';
 
 export function parseTables(tokens: DxfToken[], i: number, doc: DxfDocument): number {
   while (i < tokens.length) {
@@ -23,6 +35,24 @@ export function parseTables(tokens: DxfToken[], i: number, doc: DxfDocument): nu
         case 'STYLE':
           i = parseStyleTable(tokens, i, doc.styles);
           break;
+        case 'DIMSTYLE':
+          i = parseDimStyleTable(tokens, i, (doc.dimStyles ??= new Map()));
+          break;
+        case 'VPORT':
+          i = parseVPortTable(tokens, i, (doc.vports ??= new Map()));
+          break;
+        case 'VIEW':
+          i = parseViewTable(tokens, i, (doc.views ??= new Map()));
+          break;
+        case 'UCS':
+          i = parseUcsTable(tokens, i, (doc.ucs ??= new Map()));
+          break;
+        case 'APPID':
+          i = parseAppIdTable(tokens, i, (doc.appIds ??= new Map()));
+          break;
+        case 'BLOCK_RECORD':
+          i = parseBlockRecordTable(tokens, i, (doc.blockRecords ??= new Map()));
+          break;
         default:
           // Skip unknown tables
           i = skipTable(tokens, i);
@@ -65,6 +95,7 @@ function parseLayerTable(tokens: DxfToken[], i: number, layers: Map<string, DxfL
         const tag = tokens[i]!;
         switch (tag.code) {
           case 2:   layer.name = tag.value; break;
+          case 5:   layer.handle = tag.value.trim(); break;
           case 6:   layer.lineType = tag.value; break;
           case 62:  layer.color = parseInt(tag.value, 10); break;
           case 70:  layer.flags = parseInt(tag.value, 10); break;
@@ -135,6 +166,7 @@ function parseStyleTable(tokens: DxfToken[], i: number, styles: Map<string, DxfS
         const tag = tokens[i]!;
         switch (tag.code) {
           case 2:  style.name = tag.value; break;
+          case 5:  style.handle = tag.value.trim(); break;
           case 3:  style.fontName = tag.value; break;
           case 4:  style.bigFontName = tag.value; break;
           case 40: style.height = parseFloat(tag.value); break;
@@ -151,3 +183,191 @@ function parseStyleTable(tokens: DxfToken[], i: number, styles: Map<string, DxfS
   }
   return i;
 }
+
+/**
+ * Parse the `0 <entryType>` records of a table into `entries`, keyed by
+ * name. `apply` stores each tag of a record; records without a name are
+ * dropped. A later record of the same name replaces an earlier one, unless
+ * `keepFirst` is set.
+ */
+function parseTableEntries<T extends { name: string }>(
+  tokens: DxfToken[],
+  i: number,
+  entryType: string,
+  entries: Map<string, T>,
+  create: () => T,
+  apply: (entry: T, tag: DxfToken) => void,
+  keepFirst: boolean = false,
+): number {
+  while (i < tokens.length) {
+    const token = tokens[i]!;
+    if (token.code === 0 && token.value === 'ENDTAB') return i + 1;
+
+    if (token.code === 0 && token.value === entryType) {
+      i++;
+      const entry = create();
+      while (i < tokens.length && tokens[i]!.code !== 0) {
+        apply(entry, tokens[i]!);
+        i++;
+      }
+      if (entry.name && !(keepFirst && entries.has(entry.name))) entries.set(entry.name, entry);
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * DIMSTYLE entries keep their handle in code 105, since code 5 is DIMBLK.
+ * Only the variables an entry lists are stored.
+ */
+function parseDimStyleTable(tokens: DxfToken[], i: number, dimStyles: Map<string, DxfDimStyle>): number {
+  return parseTableEntries(tokens, i, 'DIMSTYLE', dimStyles, (): DxfDimStyle => ({ name: '' }), (style, tag) => {
+    switch (tag.code) {
+      case 2:   style.name = tag.value; break;
+      case 105: style.handle = tag.value.trim(); break;
+      case 70:  break; // standard flags
+      default:  setDimStyleValue(style, tag.code, tag.value); break;
+    }
+  });
+}
+
+function parseVPortTable(tokens: DxfToken[], i: number, vports: Map<string, DxfVPort>): number {
+  const create = (): DxfVPort => ({
+    name: '',
+    flags: 0,
+    lowerLeft: { x: 0, y: 0 },
+    upperRight: { x: 1, y: 1 },
+    center: { x: 0, y: 0 },
+    snapBase: { x: 0, y: 0 },
+    snapSpacing: { x: 0, y: 0 },
+    gridSpacing: { x: 0, y: 0 },
+    viewDirection: { x: 0, y: 0, z: 1 },
+    viewTarget: { x: 0, y: 0, z: 0 },
+    height: 0,
+    aspectRatio: 1,
+    lensLength: 50,
+    snapRotation: 0,
+    twistAngle: 0,
+  });
+  return parseTableEntries(tokens, i, 'VPORT', vports, create, (vport, tag) => {
+    const value = parseFloat(tag.value);
+    switch (tag.code) {
+      case 2:  vport.name = tag.value; break;
+      case 5:  vport.handle = tag.value.trim(); break;
+      case 70: vport.flags = parseInt(tag.value, 10); break;
+      case 10: vport.lowerLeft.x = value; break;
+      case 20: vport.lowerLeft.y = value; break;
+      case 11: vport.upperRight.x = value; break;
+      case 21: vport.upperRight.y = value; break;
+      case 12: vport.center.x = value; break;
+      case 22: vport.center.y = value; break;
+      case 13: vport.snapBase.x = value; break;
+      case 23: vport.snapBase.y = value; break;
+      case 14: vport.snapSpacing.x = value; break;
+      case 24: vport.snapSpacing.y = value; break;
+      case 15: vport.gridSpacing.x = value; break;
+      case 25: vport.gridSpacing.y = value; break;
+      case 16: vport.viewDirection.x = value; break;
+      case 26: vport.viewDirection.y = value; break;
+      case 36: vport.viewDirection.z = value; break;
+      case 17: vport.viewTarget.x = value; break;
+      case 27: vport.viewTarget.y = value; break;
+      case 37: vport.viewTarget.z = value; break;
+      case 40:
+      case 45: vport.height = value; break;
+      case 41: vport.aspectRatio = value; break;
+      case 42: vport.lensLength = value; break;
+      case 50: vport.snapRotation = value; break;
+      case 51: vport.twistAngle = value; break;
+    }
+  }, true); // Multi-viewport configurations repeat *ACTIVE; the first is the current one
+}
+
+function parseViewTable(tokens: DxfToken[], i: number, views: Map<string, DxfView>): number {
+  const create = (): DxfView => ({
+    name: '',
+    flags: 0,
+    center: { x: 0, y: 0 },
+    height: 0,
+    width: 0,
+    viewDirection: { x: 0, y: 0, z: 1 },
+    viewTarget: { x: 0, y: 0, z: 0 },
+    lensLength: 50,
+    twistAngle: 0,
+  });
+  return parseTableEntries(tokens, i, 'VIEW', views, create, (view, tag) => {
+    const value = parseFloat(tag.value);
+    switch (tag.code) {
+      case 2:  view.name = tag.value; break;
+      case 5:  view.handle = tag.value.trim(); break;
+      case 70: view.flags = parseInt(tag.value, 10); break;
+      case 10: view.center.x = value; break;
+      case 20: view.center.y = value; break;
+      case 40: view.height = value; break;
+      case 41: view.width = value; break;
+      case 11: view.viewDirection.x = value; break;
+      case 21: view.viewDirection.y = value; break;
+      case 31: view.viewDirection.z = value; break;
+      case 12: view.viewTarget.x = value; break;
+      case 22: view.viewTarget.y = value; break;
+      case 32: view.viewTarget.z = value; break;
+      case 42: view.lensLength = value; break;
+      case 50: view.twistAngle = value; break;
+    }
+  });
+}
+
+function parseUcsTable(tokens: DxfToken[], i: number, ucs: Map<string, DxfUcs>): number {
+  const create = (): DxfUcs => ({
+    name: '',
+    flags: 0,
+    origin: { x: 0, y: 0, z: 0 },
+    xAxis: { x: 1, y: 0, z: 0 },
+    yAxis: { x: 0, y: 1, z: 0 },
+    elevation: 0,
+  });
+  return parseTableEntries(tokens, i, 'UCS', ucs, create, (entry, tag) => {
+    const value = parseFloat(tag.value);
+    switch (tag.code) {
+      case 2:   entry.name = tag.value; break;
+      case 5:   entry.handle = tag.value.trim(); break;
+      case 70:  entry.flags = parseInt(tag.value, 10); break;
+      case 10:  entry.origin.x = value; break;
+      case 20:  entry.origin.y = value; break;
+      case 30:  entry.origin.z = value; break;
+      case 11:  entry.xAxis.x = value; break;
+      case 21:  entry.xAxis.y = value; break;
+      case 31:  entry.xAxis.z = value; break;
+      case 12:  entry.yAxis.x = value; break;
+      case 22:  entry.yAxis.y = value; break;
+      case 32:  entry.yAxis.z = value; break;
+      case 146: entry.elevation = value; break;
+    }
+  });
+}
+
+function parseAppIdTable(tokens: DxfToken[], i: number, appIds: Map<string, DxfAppId>): number {
+  return parseTableEntries(tokens, i, 'APPID', appIds, (): DxfAppId => ({ name: '', flags: 0 }), (appId, tag) => {
+    switch (tag.code) {
+      case 2:  appId.name = tag.value; break;
+      case 5:  appId.handle = tag.value.trim(); break;
+      case 70: appId.flags = parseInt(tag.value, 10); break;
+    }
+  });
+}
+
+function parseBlockRecordTable(tokens: DxfToken[], i: number, records: Map<string, DxfBlockRecord>): number {
+  const create = (): DxfBlockRecord => ({ name: '', insertUnits: 0, explodable: true, uniformScaling: false });
+  return parseTableEntries(tokens, i, 'BLOCK_RECORD', records, create, (record, tag) => {
+    switch (tag.code) {
+      case 2:   record.name = tag.value; break;
+      case 5:   record.handle = tag.value.trim(); break;
+      case 340: record.layoutHandle = tag.value.trim(); break;
+      case 70:  record.insertUnits = parseInt(tag.value, 10); break;
+      case 280: record.explodable = parseInt(tag.value, 10) !== 0; break;
+      case 281: record.uniformScaling = parseInt(tag.value, 10) !== 0; break;
+    }
+  });
+}
@@ -16,6 +16,32 @@ export interface DxfDocument {
   styles: Map<string, DxfStyle>;
   blocks: Map<string, DxfBlock>;
   entities: DxfEntity[];
+  /** IMAGEDEF objects from the OBJECTS section, keyed by handle. */
+  imageDefs?: Map<string, DxfImageDef>;
+  /**
+   * WIPEOUTFRAME from the WIPEOUTVARIABLES object: 0 hides wipeout frames,
+   * 1 and 2 show them. Frames are shown when absent.
+   */
+  wipeoutFrame?: number;
+  /** MLINESTYLE objects from the OBJECTS section, keyed by handle. */
+  mlineStyles?: Map<string, DxfMLineStyle>;
+  /** LAYOUT objects from the OBJECTS section (including Model), keyed by name. */
+  layouts?: Map<string, DxfLayout>;
+  /** DIMSTYLE table entries, keyed by name. */
+  dimStyles?: Map<string, DxfDimStyle>;
+  /**
+   * VPORT table entries, keyed by name. Of several tiled `*ACTIVE` entries
+   * only the first, the current viewport, is kept.
+   */
+  vports?: Map<string, DxfVPort>;
+  /** Named views (VIEW table), keyed by name. */
+  views?: Map<string, DxfView>;
+  /** Named user coordinate systems (UCS table), keyed by name. */
+  ucs?: Map<string, DxfUcs>;
+  /** Registered XDATA application names (APPID table), keyed by name. */
+  appIds?: Map<string, DxfAppId>;
+  /** BLOCK_RECORD table entries, keyed by block name. */
+  blockRecords?: Map<string, DxfBlockRecord>;
 }
 
 export interface DxfHeader {
@@ -25,6 +51,7 @@ export interface DxfHeader {
   insUnits: number;
   measurement: number;
   ltScale: number;
+  lwDefault?: number;
   dwgCodePage?: string;
   handleSeed?: string;
   [key: string]: unknown;
@@ -32,6 +59,8 @@ export interface DxfHeader {
 
 export interface DxfLayer {
   name: string;
+  /** Layer handle (code 5), referenced by VIEWPORT frozen layer lists. */
+  handle?: string;
   color: number;
   lineType: string;
   flags: number;
@@ -51,6 +80,8 @@ export interface DxfLineType {
 
 export interface DxfStyle {
   name: string;
+  /** Style handle (code 5), referenced by DIMSTYLE text styles. */
+  handle?: string;
   fontName: string;
   bigFontName: string;
   height: number;
@@ -63,6 +94,221 @@ export interface DxfBlock {
   basePoint: Point3D;
   entities: DxfEntity[];
   flags: number;
+  /** Handle of the owning BLOCK_RECORD (code 330), used by handle references such as MULTILEADER block content. */
+  recordHandle?: string;
+  /** ATTDEF entities of the block, in definition order. Only constant definitions are drawn with the block. */
+  attributeDefinitions?: DxfAttdef[];
+}
+
+/**
+ * Dimension variables, named after their DIM* system variable. Group codes
+ * are those of the DIMSTYLE table, which XDATA overrides reuse.
+ */
+export interface DxfDimStyleSettings {
+  /** DIMSCALE (40): overall scale of sizes, gaps and text. */
+  scale: number;
+  /** DIMASZ (41): arrowhead size. */
+  arrowSize: number;
+  /** DIMEXO (42): gap between the measured point and an extension line. */
+  extensionOffset: number;
+  /** DIMEXE (44): extension line overshoot beyond the dimension line. */
+  extensionExtension: number;
+  /** DIMRND (45): rounding of linear measurements (0 = none). */
+  rounding: number;
+  /** DIMDLE (46): dimension line overshoot past the extension lines when ticks are drawn. */
+  dimLineExtension: number;
+  /** DIMTXT (140): text height. */
+  textHeight: number;
+  /** DIMCEN (141): center mark size of radius and diameter dimensions (0 = none; negative adds center lines). */
+  centerMark: number;
+  /** DIMTSZ (142): oblique tick size drawn instead of arrowheads (0 = arrowheads). */
+  tickSize: number;
+  /** DIMLFAC (144): factor applied to linear measurements. */
+  linearFactor: number;
+  /** DIMGAP (147): gap between the text and the dimension line. */
+  textGap: number;
+  /** DIMTIH (73): text inside the extension lines is horizontal. */
+  textInsideHorizontal: boolean;
+  /** DIMTOH (74): text outside the extension lines is horizontal. */
+  textOutsideHorizontal: boolean;
+  /** DIMSE1/DIMSE2 (75/76): suppress the first/second extension line. */
+  suppressExtension1: boolean;
+  suppressExtension2: boolean;
+  /** DIMTAD (77): vertical text position; 0 = centered on the dimension line, else above it. */
+  textAbove: number;
+  /** DIMZIN (78): zero suppression; 4 = leading zeros, 8 = trailing zeros. */
+  zeroSuppression: number;
+  /** DIMSAH (173): use arrowBlock1/arrowBlock2 instead of arrowBlock. */
+  separateArrows: boolean;
+  /** DIMCLRD/DIMCLRE/DIMCLRT (176/177/178): ACI colors of dimension lines, extension lines and text. */
+  dimLineColor: number;
+  extLineColor: number;
+  textColor: number;
+  /** DIMADEC (179): decimal places of angular measurements (-1 = decimalPlaces). */
+  angularDecimalPlaces: number;
+  /** DIMDEC (271): decimal places (or fraction precision) of linear measurements. */
+  decimalPlaces: number;
+  /** DIMAUNIT (275): 0 = decimal degrees, 1 = degrees/minutes/seconds, 2 = gradians, 3 = radians. */
+  angularUnit: number;
+  /**
+   * DIMLUNIT (277): 1 = scientific, 2 = decimal, 3 = engineering,
+   * 4 = architectural, 5 = fractional, 6 = Windows desktop (decimal).
+   */
+  linearUnit: number;
+  /** DIMDSEP (278): decimal separator. */
+  decimalSeparator: string;
+  /** DIMSD1/DIMSD2 (281/282): suppress the first/second half of the dimension line. */
+  suppressDimLine1: boolean;
+  suppressDimLine2: boolean;
+  /** DIMPOST (3): measurement text template; `<>` stands for the measurement, else it is a suffix. */
+  textPost: string;
+  /** DIMBLK, DIMBLK1, DIMBLK2: arrowhead block names ('' = closed filled). */
+  arrowBlock: string;
+  arrowBlock1: string;
+  arrowBlock2: string;
+  /** DIMBLK, DIMBLK1, DIMBLK2 as BLOCK_RECORD handles (codes 342/343/344), resolved to names after parsing. */
+  arrowBlockHandle?: string;
+  arrowBlock1Handle?: string;
+  arrowBlock2Handle?: string;
+  /** DIMTXSTY: text style name, resolved after parsing from its handle (code 340). */
+  textStyle: string;
+  textStyleHandle?: string;
+  /** DIMLWD/DIMLWE (371/372): lineweights of dimension and extension lines. */
+  dimLineWeight: number;
+  extLineWeight: number;
+}
+
+/** DIMSTYLE table entry: the settings it lists; the rest take the drawing's defaults. */
+export interface DxfDimStyle extends Partial<DxfDimStyleSettings> {
+  name: string;
+  handle?: string;
+}
+
+/** A model space viewport configuration entry (VPORT table). */
+export interface DxfVPort {
+  name: string;
+  handle?: string;
+  flags: number;
+  /** Lower-left and upper-right corners in the drawing window, 0–1 (codes 10/20 and 11/21). */
+  lowerLeft: Point2D;
+  upperRight: Point2D;
+  /** View center in display coordinates (codes 12/22). */
+  center: Point2D;
+  snapBase: Point2D;
+  snapSpacing: Point2D;
+  gridSpacing: Point2D;
+  /** View direction from the target (codes 16/26/36). */
+  viewDirection: Point3D;
+  viewTarget: Point3D;
+  /** View height in drawing units (code 40, or 45 in older files). */
+  height: number;
+  /** Width to height ratio of the view (code 41). */
+  aspectRatio: number;
+  lensLength: number;
+  /** Snap rotation angle in degrees (code 50). */
+  snapRotation: number;
+  /** View twist angle in degrees (code 51). */
+  twistAngle: number;
+}
+
+/** A named view (VIEW table). */
+export interface DxfView {
+  name: string;
+  handle?: string;
+  /** Standard flags (code 70); bit 1 marks a paper space view. */
+  flags: number;
+  /** View center in display coordinates (codes 10/20). */
+  center: Point2D;
+  /** View height and width in drawing units (codes 40 and 41). */
+  height: number;
+  width: number;
+  viewDirection: Point3D;
+  viewTarget: Point3D;
+  lensLength: number;
+  /** View twist angle in degrees (code 50). */
+  twistAngle: number;
+}
+
+/** A named user coordinate system (UCS table). */
+export interface DxfUcs {
+  name: string;
+  handle?: string;
+  flags: number;
+  origin: Point3D;
+  xAxis: Point3D;
+  yAxis: Point3D;
+  elevation: number;
+}
+
+/** A registered XDATA application name (APPID table). */
+export interface DxfAppId {
+  name: string;
+  handle?: string;
+  flags: number;
+}
+
+/** The table entry behind a block definition (BLOCK_RECORD table). */
+export interface DxfBlockRecord {
+  name: string;
+  /** Record handle (code 5), which BLOCK, LAYOUT and INSERT references point to. */
+  handle?: string;
+  /** Handle of the record's LAYOUT object (code 340); set for model and paper space records. */
+  layoutHandle?: string;
+  /** Block insertion units (code 70, INSUNITS values). */
+  insertUnits: number;
+  /** Whether references may be exploded (code 280). */
+  explodable: boolean;
+  /** Whether references may only be scaled uniformly (code 281). */
+  uniformScaling: boolean;
+}
+
+/** A model or paper space tab of the drawing (LAYOUT object). */
+export interface DxfLayout {
+  name: string;
+  handle?: string;
+  /** Tab order (code 71); Model is 0. */
+  tabOrder: number;
+  /** Paper limits (codes 10/20 and 11/21) in paper units. */
+  limitsMin: Point2D;
+  limitsMax: Point2D;
+  /** Handle of the layout's BLOCK_RECORD (code 330 after the AcDbLayout marker). */
+  blockRecordHandle?: string;
+  /**
+   * Paper space block holding the layout's entities (`*Paper_Space…`),
+   * resolved from blockRecordHandle after parsing; undefined for Model.
+   */
+  blockName?: string;
+}
+
+/** Raster image file referenced by IMAGE entities (IMAGEDEF object). */
+export interface DxfImageDef {
+  handle: string;
+  /** Image file path as saved in the drawing (code 1). */
+  fileName: string;
+  /** Image size in pixels (codes 10/20). */
+  imageSize: Point2D;
+}
+
+/** One line of a multiline style (codes 49, 62 and 6, repeated per element). */
+export interface DxfMLineStyleElement {
+  offset: number;
+  color: number;
+  lineType: string;
+}
+
+/** Multiline style (MLINESTYLE object) referenced by MLINE entities. */
+export interface DxfMLineStyle {
+  handle: string;
+  name: string;
+  /**
+   * Style flags (code 70): 1 = fill on, 2 = display joints, 16/256 = square
+   * start/end caps, 32/512 = inner arcs at the start/end, 64/1024 = round
+   * start/end caps.
+   */
+  flags: number;
+  /** Fill color (code 62 before the elements, ACI). */
+  fillColor: number;
+  elements: DxfMLineStyleElement[];
 }
 
 // Entity base
@@ -77,9 +323,34 @@ export interface DxfEntityBase {
   lineWeight: number;
   visible: boolean;
   extrusion: Point3D;
+  /** True for paper space entities (code 67 = 1). */
+  paperSpace?: boolean;
+  /** Handle of the owning block record (code 330). */
+  ownerHandle?: string;
+  /** Handle of the entity's extension dictionary (code 360 in the `{ACAD_XDICTIONARY` group). */
+  extensionDictionary?: string;
+  /** Handles of the entity's persistent reactors (code 330 in the `{ACAD_REACTORS` group). */
+  reactors?: string[];
+  /** Extended data (codes 1000–1071) by registered application name (code 1001). */
+  xdata?: Record<string, XDataValue[]>;
 }
 
-// All 13 entity types
+/**
+ * A value in an entity's extended data. `code` is the XDATA group code,
+ * which tells apart values of the same type: a layer name (1003) or binary
+ * chunk in hex (1004) from a string (1000), a world position (1011) from a
+ * point (1010), or a distance (1041) or scale factor (1042) from a real (1040).
+ * Lists (1002 `{` … `}`) nest.
+ */
+export type XDataValue =
+  | { type: 'string'; code: number; value: string }
+  | { type: 'real'; code: number; value: number }
+  | { type: 'int'; code: number; value: number }
+  | { type: 'point'; code: number; value: Point3D }
+  | { type: 'handle'; code: number; value: string }
+  | { type: 'list'; code: number; value: XDataValue[] };
+
+// All 25 entity types
 export interface DxfLineEntity extends DxfEntityBase {
   type: 'LINE';
   start: Point3D;
@@ -121,6 +392,10 @@ export interface DxfPolylineEntity extends DxfEntityBase {
   vertices: DxfLwPolylineVertex[];
   closed: boolean;
   is3d: boolean;
+  /** Default start width (code 40) for vertices without their own. */
+  startWidth?: number;
+  /** Default end width (code 41) for vertices without their own. */
+  endWidth?: number;
 }
 
 export interface DxfEllipseEntity extends DxfEntityBase {
@@ -172,9 +447,11 @@ export interface DxfMTextEntity extends DxfEntityBase {
   lineSpacingFactor: number;
   style: string;
   textDirection?: Point3D;
+  /** Background mask flags (code 90): 1 = fill with bgFillColor, 2 = use the drawing background, 16 = text frame. */
   bgFill: number;
   bgFillColor?: number;
   bgFillTrueColor?: number;
+  /** Mask border as a multiple of text height (1.5 = half a character beyond the text). */
   bgFillScale: number;
 }
 
@@ -193,15 +470,33 @@ export interface DxfInsertEntity extends DxfEntityBase {
   attribs: DxfAttrib[];
 }
 
+/** Attribute value attached to an INSERT (ATTRIB), positioned like TEXT in the INSERT's space. */
 export interface DxfAttrib {
   tag: string;
   text: string;
   insertionPoint: Point3D;
+  /** Second alignment point (codes 11/21/31), used when hAlign or vAlign is non-zero. */
+  alignmentPoint?: Point3D;
   height: number;
   rotation: number;
+  widthFactor: number;
+  obliqueAngle: number;
   style: string;
+  /** Horizontal justification (code 72), as for TEXT. */
+  hAlign: number;
+  /** Vertical justification (code 74; TEXT uses code 73). */
+  vAlign: number;
+  generationFlags: number;
+  /** Attribute flags (code 70): 1 = invisible, 2 = constant, 4 = verify, 8 = preset. */
+  flags: number;
   layer: string;
   color: number;
+  trueColor?: number;
+}
+
+/** Attribute definition (ATTDEF) in a block; `text` holds the default value. */
+export interface DxfAttdef extends DxfAttrib {
+  prompt: string;
 }
 
 export interface DxfDimensionEntity extends DxfEntityBase {
@@ -219,6 +514,8 @@ export interface DxfDimensionEntity extends DxfEntityBase {
   rotation: number;
   textRotation: number;
   leaderLength: number;
+  /** Per-entity dimension variable overrides (XDATA `ACAD` / `DSTYLE` list). */
+  styleOverrides?: Partial<DxfDimStyleSettings>;
 }
 
 export interface DxfHatchBoundaryPath {
@@ -236,6 +533,42 @@ export type DxfHatchEdge =
   | { type: 'ellipse'; center: Point2D; majorAxis: Point2D; minorRatio: number; startAngle: number; endAngle: number; ccw: boolean }
   | { type: 'spline'; degree: number; knots: number[]; controlPoints: Point2D[]; weights?: number[] };
 
+/**
+ * One line family of a hatch pattern (codes 53/43/44/45/46/79/49), in the
+ * hatch's OCS with pattern angle and scale already applied.
+ */
+export interface DxfHatchPatternLine {
+  /** Line direction in degrees. */
+  angle: number;
+  /** A point on the first line of the family. */
+  base: Point2D;
+  /** Vector from one line of the family to the next. */
+  offset: Point2D;
+  /** Dash lengths: positive = dash, negative = gap, 0 = dot. Empty = continuous. */
+  dashes: number[];
+}
+
+/** One color of a gradient hatch (463 marker, then ACI code 63 and true color code 421). */
+export interface DxfHatchGradientColor {
+  color: number;
+  trueColor?: number;
+}
+
+/** Gradient fill definition of a HATCH (codes 450–470). */
+export interface DxfHatchGradient {
+  /** Gradient type (code 470): LINEAR, CYLINDER, INVCYLINDER, SPHERICAL, INVSPHERICAL, HEMISPHERICAL, INVHEMISPHERICAL, CURVED or INVCURVED. */
+  name: string;
+  /** Rotation in radians (code 460). */
+  angle: number;
+  /** Blend between the centered (0) and shifted (1) gradient definition (code 461). */
+  shift: number;
+  /** One-color gradient: the second color is a shade or tint of the first (code 452). */
+  singleColor: boolean;
+  /** Shade (0) to tint (1) amount for one-color gradients (code 462). */
+  tint: number;
+  colors: DxfHatchGradientColor[];
+}
+
 export interface DxfHatchEntity extends DxfEntityBase {
   type: 'HATCH';
   patternName: string;
@@ -245,7 +578,13 @@ export interface DxfHatchEntity extends DxfEntityBase {
   patternType: number;
   patternAngle: number;
   patternScale: number;
+  /** Z of the hatch plane in OCS (elevation point, code 30). */
+  elevation: number;
   boundaryPaths: DxfHatchBoundaryPath[];
+  /** Pattern definition lines; empty for solid fills and files that omit them. */
+  patternLines: DxfHatchPatternLine[];
+  /** Gradient definition, present when the hatch is a gradient fill (code 450 = 1). */
+  gradient?: DxfHatchGradient;
 }
 
 export interface DxfPointEntity extends DxfEntityBase {
@@ -253,6 +592,262 @@ export interface DxfPointEntity extends DxfEntityBase {
   position: Point3D;
 }
 
+/** Corners of a SOLID, TRACE or 3DFACE, in DXF order. A triangle repeats its third corner. */
+export type DxfQuadPoints = [Point3D, Point3D, Point3D, Point3D];
+
+/** Filled triangle or quadrilateral (OCS). Corners are filled in the order 1-2-4-3. */
+export interface DxfSolidEntity extends DxfEntityBase {
+  type: 'SOLID';
+  points: DxfQuadPoints;
+}
+
+/** Legacy wide line segment; stored and filled like a SOLID. */
+export interface DxfTraceEntity extends DxfEntityBase {
+  type: 'TRACE';
+  points: DxfQuadPoints;
+}
+
+/** Three- or four-sided face in WCS, drawn as its visible edges. */
+export interface Dxf3DFaceEntity extends DxfEntityBase {
+  type: '3DFACE';
+  points: DxfQuadPoints;
+  /** Invisible edge flags (code 70): 1 = edge 1–2, 2 = 2–3, 4 = 3–4, 8 = 4–1. */
+  invisibleEdges: number;
+}
+
+/** Leader line with an optional arrowhead (WCS). */
+export interface DxfLeaderEntity extends DxfEntityBase {
+  type: 'LEADER';
+  dimStyle: string;
+  /** Vertices from the arrow tip to the end of the leader. */
+  vertices: Point3D[];
+  /** Arrowhead flag (code 71): draw an arrowhead at the first vertex. */
+  hasArrowhead: boolean;
+  /** Path type (code 72): 0 = straight segments, 1 = spline. */
+  pathType: number;
+  /** Annotation type (code 73): 0 = MTEXT, 1 = tolerance, 2 = block reference, 3 = none. */
+  annotationType: number;
+  /** Hookline flag (code 75): the leader ends in a horizontal landing toward its annotation. */
+  hasHookline: boolean;
+  /** Hookline direction (code 74): true when the hookline runs along `horizontalDirection`, false when opposite. */
+  hooklineAlongHorizontal: boolean;
+  /** Annotation text height (code 40). */
+  textHeight: number;
+  /** Direction of the annotation's baseline (code 211). */
+  horizontalDirection: Point3D;
+  /** Handle of the associated annotation entity (code 340). */
+  annotationHandle?: string;
+}
+
+/** One leader of a MULTILEADER: its lines and the landing (dogleg) they meet at. */
+export interface DxfMLeaderBranch {
+  /** Point where the leader lines end and the landing starts (code 10). */
+  lastLeaderPoint: Point3D;
+  /** Unit direction of the landing (code 11). */
+  doglegVector: Point3D;
+  /** Landing length (code 40). */
+  doglegLength: number;
+  /** Leader line vertices, from the arrow tip toward `lastLeaderPoint`. */
+  lines: Point3D[][];
+}
+
+/** Block content of a MULTILEADER. */
+export interface DxfMLeaderBlockContent {
+  /** Handle of the block's BLOCK_RECORD (code 341). */
+  blockHandle: string;
+  /** Block name, resolved from `blockHandle` after parsing. */
+  blockName?: string;
+  position: Point3D;
+  scale: Point3D;
+  /** Rotation in degrees. */
+  rotation: number;
+}
+
+/** Multileader: one or more leaders pointing at MTEXT or block content (WCS). */
+export interface DxfMLeaderEntity extends DxfEntityBase {
+  type: 'MULTILEADER';
+  /** Content type (code 172): 0 = none, 1 = block, 2 = MTEXT, 3 = tolerance. */
+  contentType: number;
+  /** Leader line type (code 170): 0 = invisible, 1 = straight, 2 = spline. */
+  leaderLineType: number;
+  /** Landing flag (code 290). */
+  enableLanding: boolean;
+  /** Dogleg flag (code 291). */
+  enableDogleg: boolean;
+  /** Arrowhead size in drawing units, already multiplied by the overall scale. */
+  arrowheadSize: number;
+  /** Overall scale of the context data (code 40). */
+  scale: number;
+  leaders: DxfMLeaderBranch[];
+  /** MTEXT content, carrying the multileader's layer and color. */
+  mtext?: DxfMTextEntity;
+  block?: DxfMLeaderBlockContent;
+}
+
+/** Construction line, infinite in both directions (WCS). */
+export interface DxfXLineEntity extends DxfEntityBase {
+  type: 'XLINE';
+  basePoint: Point3D;
+  /** Unit direction vector (code 11). */
+  direction: Point3D;
+}
+
+/** Construction line starting at `basePoint`, infinite in `direction` (WCS). */
+export interface DxfRayEntity extends DxfEntityBase {
+  type: 'RAY';
+  basePoint: Point3D;
+  /** Unit direction vector (code 11). */
+  direction: Point3D;
+}
+
+/** Placement and clip boundary shared by IMAGE and WIPEOUT. */
+export interface DxfImageGeometry {
+  /** Lower-left corner of the image. */
+  insertionPoint: Point3D;
+  /** Size of one pixel along the image's x axis (code 11). */
+  uVector: Point3D;
+  /** Size of one pixel along the image's y axis (code 12). */
+  vVector: Point3D;
+  /** Image size in pixels (codes 13/23); 1×1 for WIPEOUT. */
+  imageSize: Point2D;
+  /** Display flags (code 70): 1 = show image, 4 = use clipping boundary, 8 = transparency. */
+  displayFlags: number;
+  /** Clipping enabled (code 280). */
+  clipping: boolean;
+  /** Clip away the inside of the boundary instead of the outside (code 290). */
+  clipInverted: boolean;
+  /**
+   * Clip boundary in pixel coordinates, origin at the top-left corner of the
+   * image at (-0.5, -0.5): two opposite corners for a rectangle, else a polygon.
+   */
+  clipBoundary: Point2D[];
+}
+
+export interface DxfImageEntity extends DxfEntityBase, DxfImageGeometry {
+  type: 'IMAGE';
+  /** Handle of the IMAGEDEF object (code 340). */
+  imageDefHandle: string;
+  /** Brightness 0–100 (code 281), default 50. */
+  brightness: number;
+  /** Contrast 0–100 (code 282), default 50. */
+  contrast: number;
+  /** Fade 0–100 (code 283), default 0. */
+  fade: number;
+}
+
+/** Polygon that masks the entities drawn before it with the background color. */
+export interface DxfWipeoutEntity extends DxfEntityBase, DxfImageGeometry {
+  type: 'WIPEOUT';
+}
+
+export interface DxfTableCell {
+  /** Cell type (code 171): 1 = text, 2 = block. */
+  type: number;
+  /** Cell text with MTEXT formatting codes (codes 2 and 1, or the 302 value). */
+  text: string;
+  /** Columns spanned by a merged cell (code 175); 1 for an unmerged cell. */
+  columnSpan: number;
+  /** Rows spanned by a merged cell (code 176); 1 for an unmerged cell. */
+  rowSpan: number;
+  /** True when the cell lies inside another cell's merged range and is not drawn. */
+  merged: boolean;
+  /** Alignment (code 170), numbered like MTEXT attachment points (1 = top left … 9 = bottom right). */
+  alignment: number;
+  /** Text height override (code 140). */
+  textHeight?: number;
+  /** Text style override (code 7). */
+  textStyle?: string;
+  /** Content color override (code 64, ACI). */
+  textColor?: number;
+  /** BLOCK_RECORD handle of a block cell (code 340). */
+  blockHandle?: string;
+  /** Block name of a block cell, resolved from blockHandle after parsing. */
+  blockName?: string;
+  /** Block scale of a block cell (code 144). */
+  blockScale: number;
+}
+
+export interface DxfTableEntity extends DxfEntityBase {
+  type: 'ACAD_TABLE';
+  /** Anonymous `*T` block holding the table's graphics (code 2), if the file has one. */
+  blockName: string;
+  /** Top-left corner of the table. */
+  insertionPoint: Point3D;
+  /** Direction of the table's rows (code 11). */
+  horizontalDirection: Point3D;
+  rowCount: number;
+  columnCount: number;
+  /** Row heights from top to bottom (code 141). */
+  rowHeights: number[];
+  /** Column widths from left to right (code 142). */
+  columnWidths: number[];
+  /** Horizontal and vertical cell margins (codes 40/41). */
+  horizontalMargin: number;
+  verticalMargin: number;
+  /** Cells by row, then column. */
+  cells: DxfTableCell[][];
+}
+
+/** A vertex of an MLINE with the element offsets for the segment starting at it. */
+export interface DxfMLineVertex {
+  position: Point3D;
+  /** Direction of the segment starting at this vertex (codes 12/22/32). */
+  direction: Point3D;
+  /** Miter direction at this vertex (codes 13/23/33). */
+  miter: Point3D;
+  /**
+   * Parameters per style element (code 41, counted by code 74): the first is
+   * the distance along the miter to the element; the rest are distances
+   * along the direction where drawn pieces of the element start and end.
+   */
+  elementParams: number[][];
+}
+
+export interface DxfMLineEntity extends DxfEntityBase {
+  type: 'MLINE';
+  /** MLINESTYLE name (code 2) and handle (code 340). */
+  styleName: string;
+  styleHandle?: string;
+  scale: number;
+  /** 0 = top, 1 = zero, 2 = bottom. */
+  justification: number;
+  /** Flags (code 71): 2 = closed, 4 = suppress start caps, 8 = suppress end caps. */
+  flags: number;
+  vertices: DxfMLineVertex[];
+}
+
+/** A window in a paper space layout showing a scaled, clipped view of model space. */
+export interface DxfViewportEntity extends DxfEntityBase {
+  type: 'VIEWPORT';
+  /** Center of the window in paper space (codes 10/20/30). */
+  center: Point3D;
+  /** Window size in paper units (codes 40/41). */
+  width: number;
+  height: number;
+  /** Stacking status (code 68): 0 = off, -1 = on but not active; higher values are on. */
+  status: number;
+  /** Viewport ID (code 69); ID 1 is the overall paper space view, not a window. */
+  id: number;
+  /** View center in display coordinates (codes 12/22). */
+  viewCenter: Point2D;
+  /** View target point in model space (codes 17/27/37). */
+  viewTarget: Point3D;
+  /** Height of the model space area shown (code 45); paper units per model unit is height / viewHeight. */
+  viewHeight: number;
+  /** View twist angle in degrees (code 51). */
+  twistAngle: number;
+  /** Status flags (code 90). */
+  flags: number;
+  /** Handles of layers frozen in this viewport (code 331). */
+  frozenLayerHandles: string[];
+  /** Names of layers frozen in this viewport, resolved from frozenLayerHandles after parsing. */
+  frozenLayers: string[];
+  /** Handle of the clip boundary entity (code 340). */
+  clipBoundaryHandle?: string;
+  /** Clip outline in paper space, resolved from clipBoundaryHandle after parsing when clipping is on. */
+  clipBoundary?: Point2D[];
+}
+
 export type DxfEntity =
   | DxfLineEntity
   | DxfCircleEntity
@@ -266,4 +861,16 @@ export type DxfEntity =
   | DxfInsertEntity
   | DxfDimensionEntity
   | DxfHatchEntity
-  | DxfPointEntity;
+  | DxfPointEntity
+  | DxfSolidEntity
+  | DxfTraceEntity
+  | Dxf3DFaceEntity
+  | DxfLeaderEntity
+  | DxfMLeaderEntity
+  | DxfXLineEntity
+  | DxfRayEntity
+  | DxfImageEntity
+  | DxfWipeoutEntity
+  | DxfTableEntity
+  | DxfMLineEntity
+  | DxfViewportEntity;
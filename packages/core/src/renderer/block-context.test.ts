@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfLayer } from '../parser/types.js';
+import { resolveBlockContext, effectiveLayer } from './block-context.js';
+import { resolveEntityColor } from './resolve-color.js';
+import { resolveEntityLineType } from './resolve-linetype.js';
+import { resolveEntityLineWeight } from './resolve-lineweight.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeLayer(name: string, color: number, lineType: string, lineWeight: number): DxfLayer {
+  return { name, color, lineType, flags: 0, lineWeight, isOff: false, isFrozen: false, isLocked: false };
+}
+
+function makeDoc(): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1027', insUnits: 4, measurement: 1, ltScale: 1 },
+    layers: new Map([
+      ['0', makeLayer('0', 7, 'Continuous', -3)],
+      ['Doors', makeLayer('Doors', 3, 'HIDDEN', 50)],
+    ]),
+    lineTypes: new Map([
+      ['HIDDEN', { name: 'HIDDEN', description: '', pattern: [0.25, -0.125], totalLength: 0.375 }],
+      ['CENTER', { name: 'CENTER', description: '', pattern: [1.25, -0.25, 0.25, -0.25], totalLength: 2 }],
+    ]),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+  };
+}
+
+function makeEntity(overrides?: Partial<DxfEntityBase>): DxfEntityBase {
+  return {
+    type: 'LINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    ...overrides,
+  };
+}
+
+// ─── resolveBlockContext ────────────────────────────────────────────
+
+describe('resolveBlockContext', () => {
+  it('resolves the INSERT layer properties', () => {
+    const insert = makeEntity({ type: 'INSERT', layer: 'Doors' });
+    expect(resolveBlockContext(insert, makeDoc(), 'dark')).toEqual({
+      layer: 'Doors',
+      color: '#00FF00',
+      lineType: 'HIDDEN',
+      lineWeight: 50,
+    });
+  });
+
+  it('uses explicit INSERT properties over the layer', () => {
+    const insert = makeEntity({ type: 'INSERT', layer: 'Doors', color: 1, lineType: 'CENTER', lineWeight: 35 });
+    expect(resolveBlockContext(insert, makeDoc(), 'dark')).toEqual({
+      layer: 'Doors',
+      color: '#FF0000',
+      lineType: 'CENTER',
+      lineWeight: 35,
+    });
+  });
+
+  it('passes BYBLOCK and layer "0" through nested INSERTs', () => {
+    const doc = makeDoc();
+    const outer = resolveBlockContext(
+      makeEntity({ type: 'INSERT', layer: 'Doors', color: 5, lineWeight: 70 }), doc, 'dark',
+    );
+    // Nested INSERT on layer 0, everything BYBLOCK
+    const inner = resolveBlockContext(
+      makeEntity({ type: 'INSERT', color: 0, lineType: 'BYBLOCK', lineWeight: -2 }), doc, 'dark', outer,
+    );
+    expect(inner).toEqual({ layer: 'Doors', color: '#0000FF', lineType: 'HIDDEN', lineWeight: 70 });
+  });
+});
+
+// ─── Block content resolution ───────────────────────────────────────
+
+describe('block content inheritance', () => {
+  const doc = makeDoc();
+  const parent = resolveBlockContext(
+    makeEntity({ type: 'INSERT', layer: 'Doors', color: 1, lineType: 'CENTER', lineWeight: 35 }), doc, 'dark',
+  );
+
+  it('layer "0" entities inherit the INSERT layer', () => {
+    const entity = makeEntity();
+    expect(effectiveLayer(entity, parent)).toBe('Doors');
+    expect(resolveEntityColor(entity, doc.layers, 'dark', parent)).toBe('#00FF00');
+    expect(resolveEntityLineType(entity, doc, parent)?.name).toBe('HIDDEN');
+    expect(resolveEntityLineWeight(entity, doc, parent)).toBe(50);
+  });
+
+  it('entities on other layers keep their own layer', () => {
+    expect(effectiveLayer(makeEntity({ layer: 'Walls' }), parent)).toBe('Walls');
+  });
+
+  it('BYBLOCK entities inherit the INSERT properties', () => {
+    const entity = makeEntity({ layer: 'Doors', color: 0, lineType: 'BYBLOCK', lineWeight: -2 });
+    expect(resolveEntityColor(entity, doc.layers, 'dark', parent)).toBe('#FF0000');
+    expect(resolveEntityLineType(entity, doc, parent)?.name).toBe('CENTER');
+    expect(resolveEntityLineWeight(entity, doc, parent)).toBe(35);
+  });
+
+  it('BYBLOCK entities accept a plain parent color string', () => {
+    const entity = makeEntity({ color: 0 });
+    expect(resolveEntityColor(entity, doc.layers, 'dark', '#123456')).toBe('#123456');
+    expect(resolveEntityColor(makeEntity(), doc.layers, 'dark', '#123456')).toBe('#ffffff');
+  });
+
+  it('layer color overrides follow the inherited layer', () => {
+    const overrides = new Map([['Doors', '#abcdef']]);
+    expect(resolveEntityColor(makeEntity(), doc.layers, 'dark', parent, overrides)).toBe('#abcdef');
+  });
+});
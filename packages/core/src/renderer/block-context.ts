@@ -0,0 +1,46 @@
+import type { DxfDocument, DxfEntityBase } from '../parser/types.js';
+import type { Theme } from './theme.js';
+import { resolveEntityColor } from './resolve-color.js';
+import { resolveEntityLineType } from './resolve-linetype.js';
+import { resolveEntityLineWeight } from './resolve-lineweight.js';
+
+/**
+ * Resolved properties of the INSERT (or DIMENSION) that encloses block
+ * contents. BYBLOCK entities take their color, line type and lineweight from
+ * it, and entities on layer "0" behave as if they were on its layer.
+ */
+export interface BlockContext {
+  /** Effective layer of the enclosing entity. */
+  layer: string;
+  /** Resolved display color of the enclosing entity. */
+  color: string;
+  /** Resolved line type name of the enclosing entity (`'CONTINUOUS'` when solid). */
+  lineType: string;
+  /** Resolved lineweight of the enclosing entity, in hundredths of a millimetre. */
+  lineWeight: number;
+}
+
+/** Layer an entity's BYLAYER properties come from: layer "0" inherits the block's layer. */
+export function effectiveLayer(entity: DxfEntityBase, parent?: BlockContext): string {
+  return parent && entity.layer === '0' ? parent.layer : entity.layer;
+}
+
+/**
+ * Resolve the context an INSERT or DIMENSION hands down to its block contents.
+ * Pass the caller's own context as `parent` for nested blocks, so BYBLOCK and
+ * layer "0" resolve through every level.
+ */
+export function resolveBlockContext(
+  entity: DxfEntityBase,
+  doc: DxfDocument,
+  theme: Theme,
+  parent?: BlockContext,
+  layerColors?: ReadonlyMap<string, string>,
+): BlockContext {
+  return {
+    layer: effectiveLayer(entity, parent),
+    color: resolveEntityColor(entity, doc.layers, theme, parent, layerColors),
+    lineType: resolveEntityLineType(entity, doc, parent)?.name ?? 'CONTINUOUS',
+    lineWeight: resolveEntityLineWeight(entity, doc, parent),
+  };
+}
@@ -2,9 +2,19 @@ export interface ViewTransform {
   scale: number;
   offsetX: number;
   offsetY: number;
+  /**
+   * View twist in radians: the drawing appears rotated counter-clockwise by
+   * this angle. Absent or 0 for an unrotated view.
+   */
+  rotation?: number;
 }
 
 export function worldToScreen(vt: ViewTransform, wx: number, wy: number): [number, number] {
+  if (vt.rotation) {
+    const cos = Math.cos(vt.rotation);
+    const sin = Math.sin(vt.rotation);
+    [wx, wy] = [wx * cos - wy * sin, wx * sin + wy * cos];
+  }
   return [
     wx * vt.scale + vt.offsetX,
     -wy * vt.scale + vt.offsetY,
@@ -12,14 +22,22 @@ export function worldToScreen(vt: ViewTransform, wx: number, wy: number): [numbe
 }
 
 export function screenToWorld(vt: ViewTransform, sx: number, sy: number): [number, number] {
-  return [
-    (sx - vt.offsetX) / vt.scale,
-    -(sy - vt.offsetY) / vt.scale,
-  ];
+  const x = (sx - vt.offsetX) / vt.scale;
+  const y = -(sy - vt.offsetY) / vt.scale;
+  if (!vt.rotation) return [x, y];
+  const cos = Math.cos(vt.rotation);
+  const sin = Math.sin(vt.rotation);
+  return [x * cos + y * sin, -x * sin + y * cos];
 }
 
 export function applyTransform(ctx: CanvasRenderingContext2D, vt: ViewTransform): void {
   const dpr = window.devicePixelRatio || 1;
+  if (vt.rotation) {
+    const cos = vt.scale * Math.cos(vt.rotation) * dpr;
+    const sin = vt.scale * Math.sin(vt.rotation) * dpr;
+    ctx.setTransform(cos, -sin, -sin, -cos, vt.offsetX * dpr, vt.offsetY * dpr);
+    return;
+  }
   ctx.setTransform(vt.scale * dpr, 0, 0, -vt.scale * dpr, vt.offsetX * dpr, vt.offsetY * dpr);
 }
 
@@ -49,6 +67,31 @@ export function fitToView(
   return { scale, offsetX, offsetY };
 }
 
+/**
+ * Fit a view window of `width` × `height` drawing units centered on
+ * (`centerX`, `centerY`), rotated by `rotation` radians, into the canvas
+ * without padding.
+ */
+export function fitViewWindow(
+  canvasWidth: number,
+  canvasHeight: number,
+  centerX: number,
+  centerY: number,
+  width: number,
+  height: number,
+  rotation: number = 0,
+): ViewTransform {
+  const scale = width > 0 && height > 0
+    ? Math.min(canvasWidth / width, canvasHeight / height)
+    : height > 0 ? canvasHeight / height : 1;
+  const vt: ViewTransform = { scale, offsetX: 0, offsetY: 0 };
+  if (rotation) vt.rotation = rotation;
+  const [sx, sy] = worldToScreen(vt, centerX, centerY);
+  vt.offsetX = canvasWidth / 2 - sx;
+  vt.offsetY = canvasHeight / 2 - sy;
+  return vt;
+}
+
 export function zoomAtPoint(
   vt: ViewTransform,
   screenX: number,
@@ -61,6 +104,7 @@ export function zoomAtPoint(
   const actualFactor = newScale / vt.scale;
 
   return {
+    ...vt,
     scale: newScale,
     offsetX: screenX - (screenX - vt.offsetX) * actualFactor,
     offsetY: screenY - (screenY - vt.offsetY) * actualFactor,
@@ -1,16 +1,25 @@
-import type { DxfDocument } from '../parser/types.js';
+import type { DxfDocument, DxfEntity, DxfLayout } from '../parser/types.js';
 import type { ViewTransform } from './camera.js';
 import type { Theme } from './theme.js';
 import type { RenderStats } from './debug-overlay.js';
 import type { BBox } from '../utils/bbox.js';
+import type { DrawOptions } from './draw-options.js';
 import { THEMES } from './theme.js';
 import { applyTransform } from './camera.js';
 import { resolveEntityColor } from './resolve-color.js';
+import { resolveEntityLineDash } from './resolve-linetype.js';
+import { resolveEntityLineWidth } from './resolve-lineweight.js';
+import { DEFAULT_DRAW_OPTIONS } from './draw-options.js';
 import { drawEntity } from './entities/index.js';
 import { isBatchableStroke, appendStrokePath } from './entities/batch-path.js';
+import { isWidePolyline } from '../utils/polyline-width.js';
+import {
+  getLayoutEntities, isViewportWindow, viewportMatrix, viewportModelBounds, viewportOutline, viewportScale,
+} from '../utils/layout.js';
 
 // Re-export for convenience
 export { resolveEntityColor } from './resolve-color.js';
+export { resolveEntityLineType } from './resolve-linetype.js';
 
 /** Minimum screen-space extent (in pixels) for an entity to be rendered. */
 const MIN_SCREEN_EXTENT = 0.5;
@@ -62,16 +71,109 @@ export class CanvasRenderer {
     selectedEntityIndex: number,
     visibleEntityIndices?: Set<number>,
     entityBBoxes?: (BBox | null)[],
+    options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  ): RenderStats {
+    const stats = createStats();
+    const pixelSize = this.beginFrame(vt, theme);
+
+    const isCulled = (entity: DxfEntity, i: number): boolean => {
+      // Skip invisible entities
+      if (!entity.visible) return true;
+
+      // Skip entities on hidden/frozen/off layers
+      if (!visibleLayers.has(entity.layer)) return true;
+
+      // Viewport frustum culling: skip entities not in the visible set
+      if (visibleEntityIndices && !visibleEntityIndices.has(i)) return true;
+
+      // Sub-pixel culling: skip entities smaller than MIN_SCREEN_EXTENT pixels
+      return isSubPixel(entityBBoxes?.[i], vt.scale);
+    };
+
+    this.drawEntities(doc, doc.entities, vt, theme, pixelSize, isCulled, stats, options);
+    this.drawSelection(doc, doc.entities[selectedEntityIndex], vt, theme, pixelSize, options);
+    return stats;
+  }
+
+  /**
+   * Render a paper space layout: the sheet outline, then each viewport
+   * window showing model space clipped to its outline at the viewport's
+   * scale, then the layout's own entities on top. `selectedEntityIndex`,
+   * `visibleEntityIndices` and `entityBBoxes` refer to the layout's
+   * entities; `modelBBoxes` parallels `doc.entities`.
+   */
+  renderLayout(
+    doc: DxfDocument,
+    layout: DxfLayout,
+    vt: ViewTransform,
+    theme: Theme,
+    visibleLayers: Set<string>,
+    selectedEntityIndex: number,
+    visibleEntityIndices?: Set<number>,
+    entityBBoxes?: (BBox | null)[],
+    modelBBoxes?: (BBox | null)[],
+    options: DrawOptions = DEFAULT_DRAW_OPTIONS,
   ): RenderStats {
     const ctx = this.ctx;
-    const dpr = window.devicePixelRatio || 1;
+    const stats = createStats();
+    const pixelSize = this.beginFrame(vt, theme);
+    const entities = getLayoutEntities(doc, layout);
 
-    const stats: RenderStats = {
-      entitiesDrawn: 0,
-      entitiesSkipped: 0,
-      drawCalls: 0,
-      byType: {},
+    // Sheet outline
+    const { limitsMin: min, limitsMax: max } = layout;
+    if (max.x > min.x && max.y > min.y) {
+      ctx.strokeStyle = THEMES[theme].gridColor;
+      ctx.lineWidth = pixelSize;
+      ctx.strokeRect(min.x, min.y, max.x - min.x, max.y - min.y);
+    }
+
+    // Model space through each viewport window
+    for (const viewport of entities) {
+      if (viewport.type !== 'VIEWPORT' || !viewport.visible || !isViewportWindow(viewport)) continue;
+      const scale = viewportScale(viewport);
+      const modelVt = { ...vt, scale: vt.scale * scale };
+      const bounds = viewportModelBounds(viewport);
+      const frozen = new Set(viewport.frozenLayers);
+
+      const isCulled = (entity: DxfEntity, i: number): boolean => {
+        if (!entity.visible || !visibleLayers.has(entity.layer) || frozen.has(entity.layer)) return true;
+        const bbox = modelBBoxes?.[i];
+        if (!bbox) return false;
+        if (bbox.maxX < bounds.minX || bbox.minX > bounds.maxX || bbox.maxY < bounds.minY || bbox.minY > bounds.maxY) {
+          return true;
+        }
+        return isSubPixel(bbox, modelVt.scale);
+      };
+
+      ctx.save();
+      ctx.beginPath();
+      const outline = viewportOutline(viewport);
+      ctx.moveTo(outline[0]!.x, outline[0]!.y);
+      for (let i = 1; i < outline.length; i++) ctx.lineTo(outline[i]!.x, outline[i]!.y);
+      ctx.closePath();
+      ctx.clip();
+      ctx.transform(...viewportMatrix(viewport));
+      this.drawEntities(
+        doc, doc.entities, modelVt, theme, pixelSize / scale, isCulled, stats, { ...options, viewBounds: bounds },
+      );
+      ctx.restore();
+    }
+
+    // Paper space entities, including the viewport frames
+    const isCulled = (entity: DxfEntity, i: number): boolean => {
+      if (!entity.visible || !visibleLayers.has(entity.layer)) return true;
+      if (visibleEntityIndices && !visibleEntityIndices.has(i)) return true;
+      return isSubPixel(entityBBoxes?.[i], vt.scale);
     };
+    this.drawEntities(doc, entities, vt, theme, pixelSize, isCulled, stats, options);
+    this.drawSelection(doc, entities[selectedEntityIndex], vt, theme, pixelSize, options);
+    return stats;
+  }
+
+  /** Clear the canvas and apply the world transform. Returns the pixel size in world units. */
+  private beginFrame(vt: ViewTransform, theme: Theme): number {
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
 
     // 1. Clear in screen space (reset transform then apply DPR scale)
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
@@ -81,106 +183,130 @@ export class CanvasRenderer {
     // 2. Apply world transform
     applyTransform(ctx, vt);
 
-    // 3. Compute pixel size in world space for constant-screen-width lines
-    const pixelSize = 1 / vt.scale;
-
-    // 4. Set common rendering state
+    // 3. Set common rendering state
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
 
-    // 5. Render entities with path batching
-    // Consecutive stroke-only entities sharing the same color are batched into
-    // a single beginPath()/stroke() pair, reducing GPU rasterization calls.
-    let batchColor: string | null = null;
+    // Pixel size in world space for constant-screen-width lines
+    return 1 / vt.scale;
+  }
 
-    for (let i = 0; i < doc.entities.length; i++) {
-      const entity = doc.entities[i]!;
+  /**
+   * Draw `entities` in the current transform, raster images first, batching
+   * stroke-only entities. `vt` and `pixelSize` describe the scale of that
+   * transform.
+   */
+  private drawEntities(
+    doc: DxfDocument,
+    entities: DxfEntity[],
+    vt: ViewTransform,
+    theme: Theme,
+    pixelSize: number,
+    isCulled: (entity: DxfEntity, index: number) => boolean,
+    stats: RenderStats,
+    options: DrawOptions,
+  ): void {
+    const ctx = this.ctx;
+    const lineWeightMode = options.lineWeightMode;
 
-      // Skip invisible entities
-      if (!entity.visible) {
+    // Render raster images first, underneath the vector content
+    for (let i = 0; i < entities.length; i++) {
+      const entity = entities[i]!;
+      if (entity.type !== 'IMAGE') continue;
+      if (isCulled(entity, i)) {
         stats.entitiesSkipped++;
         continue;
       }
+      ctx.strokeStyle = resolveEntityColor(entity, doc.layers, theme, undefined, options.layerColors);
+      ctx.lineWidth = resolveEntityLineWidth(entity, doc, lineWeightMode, vt.scale, pixelSize);
+      ctx.setLineDash([]);
+      stats.entitiesDrawn++;
+      drawEntity(ctx, entity, doc, vt, theme, pixelSize, stats, options);
+    }
 
-      // Skip entities on hidden/frozen/off layers
-      if (!visibleLayers.has(entity.layer)) {
-        stats.entitiesSkipped++;
-        continue;
-      }
+    // Render entities with path batching
+    // Consecutive stroke-only entities sharing the same color, dash pattern and
+    // line width are batched into a single beginPath()/stroke() pair, reducing
+    // GPU rasterization calls.
+    let batchKey: string | null = null;
 
-      // Viewport frustum culling: skip entities not in the visible set
-      if (visibleEntityIndices && !visibleEntityIndices.has(i)) {
+    for (let i = 0; i < entities.length; i++) {
+      const entity = entities[i]!;
+      if (entity.type === 'IMAGE') continue;
+
+      if (isCulled(entity, i)) {
         stats.entitiesSkipped++;
         continue;
       }
 
-      // Sub-pixel culling: skip entities smaller than MIN_SCREEN_EXTENT pixels
-      if (entityBBoxes) {
-        const bbox = entityBBoxes[i];
-        if (bbox) {
-          const screenW = (bbox.maxX - bbox.minX) * vt.scale;
-          const screenH = (bbox.maxY - bbox.minY) * vt.scale;
-          if (Math.max(screenW, screenH) < MIN_SCREEN_EXTENT) {
-            stats.entitiesSkipped++;
-            continue;
-          }
-        }
-      }
+      // Resolve color and line width
+      const color = resolveEntityColor(entity, doc.layers, theme, undefined, options.layerColors);
+      const lineWidth = resolveEntityLineWidth(entity, doc, lineWeightMode, vt.scale, pixelSize);
 
-      // Resolve color
-      const color = resolveEntityColor(entity, doc.layers, theme);
-
-      if (isBatchableStroke(entity.type)) {
+      if (isBatchableStroke(entity.type) && !isWidePolyline(entity)) {
         // Batchable stroke-only entity: append to current batch or start new one
-        if (color !== batchColor) {
+        const dash = resolveEntityLineDash(entity, doc, pixelSize);
+        const key = `${color}|${lineWidth}|${dash.join(',')}`;
+        if (key !== batchKey) {
           // Flush previous batch
-          if (batchColor !== null) {
+          if (batchKey !== null) {
             ctx.stroke();
             stats.drawCalls++;
           }
           // Start new batch
-          batchColor = color;
+          batchKey = key;
           ctx.beginPath();
           ctx.strokeStyle = color;
-          ctx.lineWidth = pixelSize;
+          ctx.lineWidth = lineWidth;
+          ctx.setLineDash(dash);
         }
         appendStrokePath(ctx, entity, pixelSize);
         stats.entitiesDrawn++;
         stats.byType[entity.type] = (stats.byType[entity.type] ?? 0) + 1;
       } else {
         // Non-batchable entity: flush any open batch first
-        if (batchColor !== null) {
+        if (batchKey !== null) {
           ctx.stroke();
           stats.drawCalls++;
-          batchColor = null;
+          batchKey = null;
         }
         // Set color and draw normally
         ctx.strokeStyle = color;
         ctx.fillStyle = color;
-        ctx.lineWidth = pixelSize;
+        ctx.lineWidth = lineWidth;
+        ctx.setLineDash([]);
         stats.entitiesDrawn++;
-        drawEntity(ctx, entity, doc, vt, theme, pixelSize, stats);
+        drawEntity(ctx, entity, doc, vt, theme, pixelSize, stats, options);
       }
     }
 
     // Flush final batch
-    if (batchColor !== null) {
+    if (batchKey !== null) {
       ctx.stroke();
       stats.drawCalls++;
     }
+    ctx.setLineDash([]);
+  }
 
-    // 6. Draw selection highlight (not counted in stats)
-    if (selectedEntityIndex >= 0 && selectedEntityIndex < doc.entities.length) {
-      const selEntity = doc.entities[selectedEntityIndex]!;
-      // Re-apply transform (in case last entity changed it)
-      applyTransform(ctx, vt);
-      ctx.strokeStyle = THEMES[theme].selectionColor;
-      ctx.fillStyle = THEMES[theme].selectionColor;
-      ctx.lineWidth = pixelSize * 3; // 3px highlight
-      drawEntity(ctx, selEntity, doc, vt, theme, pixelSize);
-    }
-
-    return stats;
+  /** Draw the selection highlight over `entity`, if any (not counted in stats). */
+  private drawSelection(
+    doc: DxfDocument,
+    entity: DxfEntity | undefined,
+    vt: ViewTransform,
+    theme: Theme,
+    pixelSize: number,
+    options: DrawOptions,
+  ): void {
+    if (!entity) return;
+    const ctx = this.ctx;
+    // Re-apply transform (in case last entity changed it)
+    applyTransform(ctx, vt);
+    ctx.strokeStyle = THEMES[theme].selectionColor;
+    ctx.fillStyle = THEMES[theme].selectionColor;
+    // 3px highlight, widened for heavy lineweights so the entity stays covered
+    const selWidth = resolveEntityLineWidth(entity, doc, options.lineWeightMode, vt.scale, pixelSize);
+    ctx.lineWidth = selWidth + pixelSize * 2;
+    drawEntity(ctx, entity, doc, vt, theme, pixelSize, undefined, { ...options, highlight: true });
   }
 
   renderEmpty(theme: Theme): void {
@@ -195,3 +321,15 @@ export class CanvasRenderer {
     // no-op — lifecycle cleanup hook for future use
   }
 }
+
+function createStats(): RenderStats {
+  return { entitiesDrawn: 0, entitiesSkipped: 0, drawCalls: 0, byType: {} };
+}
+
+/** True when a bbox spans less than MIN_SCREEN_EXTENT pixels at `scale`. */
+function isSubPixel(bbox: BBox | null | undefined, scale: number): boolean {
+  if (!bbox) return false;
+  const screenW = (bbox.maxX - bbox.minX) * scale;
+  const screenH = (bbox.maxY - bbox.minY) * scale;
+  return Math.max(screenW, screenH) < MIN_SCREEN_EXTENT;
+}
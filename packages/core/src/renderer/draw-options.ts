@@ -0,0 +1,30 @@
+import type { LineWeightMode } from './resolve-lineweight.js';
+import type { FontMappings, ShxFontMap } from './fonts.js';
+import type { BBox } from '../utils/bbox.js';
+
+/**
+ * Display settings threaded from the render loop into entity drawing,
+ * including nested block and dimension rendering.
+ */
+export interface DrawOptions {
+  lineWeightMode: LineWeightMode;
+  /** Layer color overrides (layer name → CSS color) applied to BYLAYER entities. */
+  layerColors?: ReadonlyMap<string, string>;
+  /** SHX fonts to draw TEXT and MTEXT with, instead of mapped CSS fonts. */
+  shxFonts?: ShxFontMap;
+  /** CSS font families for CAD fonts, checked before the built-in table. */
+  fontMappings?: FontMappings;
+  /**
+   * Visible area in the current drawing space (world space at the top level,
+   * block space inside INSERTs). XLINE and RAY are clipped to it.
+   */
+  viewBounds?: BBox;
+  /** Resolved raster images for IMAGE entities, keyed by IMAGEDEF handle. */
+  images?: ReadonlyMap<string, CanvasImageSource>;
+  /** Set while drawing the selection highlight; WIPEOUT masks are outlined instead of filled. */
+  highlight?: boolean;
+}
+
+export const DEFAULT_DRAW_OPTIONS: DrawOptions = {
+  lineWeightMode: 'screen',
+};
@@ -7,6 +7,7 @@ import type {
   DxfPolylineEntity,
   DxfEllipseEntity,
   DxfSplineEntity,
+  DxfQuadPoints,
 } from '../../parser/types.js';
 import {
   isBatchableStroke,
@@ -48,14 +49,14 @@ function mockCtx() {
 // ─── isBatchableStroke ──────────────────────────────────────────────
 
 describe('isBatchableStroke', () => {
-  it('returns true for all 7 batchable stroke-only types', () => {
-    for (const type of ['LINE', 'ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'ELLIPSE', 'SPLINE']) {
+  it('returns true for all 8 batchable stroke-only types', () => {
+    for (const type of ['LINE', 'ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'ELLIPSE', 'SPLINE', '3DFACE']) {
       expect(isBatchableStroke(type)).toBe(true);
     }
   });
 
   it('returns false for non-batchable types', () => {
-    for (const type of ['TEXT', 'MTEXT', 'INSERT', 'DIMENSION', 'HATCH', 'POINT']) {
+    for (const type of ['TEXT', 'MTEXT', 'INSERT', 'DIMENSION', 'HATCH', 'POINT', 'SOLID', 'TRACE']) {
       expect(isBatchableStroke(type)).toBe(false);
     }
   });
@@ -492,6 +493,24 @@ describe('appendStrokePath', () => {
     expect(ctx.ellipse).toHaveBeenCalled();
   });
 
+  it('dispatches 3DFACE to its visible edges', () => {
+    const ctx = mockCtx();
+    const entity = {
+      ...BASE_ENTITY,
+      type: '3DFACE' as const,
+      points: [
+        { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 0 }, { x: 0, y: 1, z: 0 },
+      ] as DxfQuadPoints,
+      // Edge 2-3 hidden: two sub-paths, 1-2 and 3-4-1
+      invisibleEdges: 2,
+    };
+
+    appendStrokePath(ctx, entity, 1);
+
+    expect(vi.mocked(ctx.moveTo).mock.calls).toEqual([[0, 0], [1, 1]]);
+    expect(vi.mocked(ctx.lineTo).mock.calls).toEqual([[1, 0], [0, 1], [0, 0]]);
+  });
+
   it('does nothing for non-batchable types', () => {
     const ctx = mockCtx();
     // TEXT is not batchable — appendStrokePath should be a no-op
@@ -8,6 +8,9 @@
  *
  * Each function starts with an explicit moveTo() so that entities are
  * rendered as disconnected sub-paths within the same batch.
+ *
+ * Polylines with segment widths are filled rather than stroked, so callers
+ * draw them through drawEntity instead (see isWidePolyline).
  */
 
 import type {
@@ -20,8 +23,10 @@ import type {
   DxfSplineEntity,
   DxfEntity,
 } from '../../parser/types.js';
+import { appendFaceEdges } from './draw-solid.js';
 import { drawBulgeArc } from '../../utils/math.js';
 import { evaluateSpline } from '../../utils/spline.js';
+import { getEntityOcsMatrix } from '../../utils/ocs.js';
 
 /**
  * Set of entity types that can be batched as stroke-only paths.
@@ -29,7 +34,7 @@ import { evaluateSpline } from '../../utils/spline.js';
  * no canvas state changes (no save/restore, no font, no globalAlpha).
  */
 const BATCHABLE_TYPES = new Set([
-  'LINE', 'ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'ELLIPSE', 'SPLINE',
+  'LINE', 'ARC', 'CIRCLE', 'LWPOLYLINE', 'POLYLINE', 'ELLIPSE', 'SPLINE', '3DFACE',
 ]);
 
 /** Returns true if the entity type can be batched into a shared stroke path. */
@@ -166,12 +171,23 @@ export function appendSplinePath(
 /**
  * Append the appropriate stroke path for a batchable entity.
  * Dispatches to the correct append function based on entity type.
+ *
+ * Entities with a non-default extrusion are appended under their OCS → WCS
+ * transform. Path points are transformed as they are added and the current
+ * path is not part of the saved state, so the save/restore pair here does not
+ * affect the batch — it is stroked later under the normal world transform.
  */
 export function appendStrokePath(
   ctx: CanvasRenderingContext2D,
   entity: DxfEntity,
   pixelSize: number,
 ): void {
+  const ocs = getEntityOcsMatrix(entity);
+  if (ocs) {
+    ctx.save();
+    ctx.transform(...ocs);
+  }
+
   switch (entity.type) {
     case 'LINE':       appendLinePath(ctx, entity); break;
     case 'ARC':        appendArcPath(ctx, entity); break;
@@ -180,5 +196,8 @@ export function appendStrokePath(
     case 'POLYLINE':   appendPolylinePath(ctx, entity); break;
     case 'ELLIPSE':    appendEllipsePath(ctx, entity); break;
     case 'SPLINE':     appendSplinePath(ctx, entity, pixelSize); break;
+    case '3DFACE':     appendFaceEdges(ctx, entity); break;
   }
+
+  if (ocs) ctx.restore();
 }
@@ -2,7 +2,14 @@ import type { DxfDimensionEntity, DxfDocument, DxfEntity } from '../../parser/ty
 import type { ViewTransform } from '../camera.js';
 import type { Theme } from '../theme.js';
 import type { RenderStats } from '../debug-overlay.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
 import { resolveEntityColor } from '../resolve-color.js';
+import { resolveEntityLineDash } from '../resolve-linetype.js';
+import { resolveEntityLineWidth } from '../resolve-lineweight.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { resolveBlockContext } from '../block-context.js';
+import { dimensionEntities } from '../../utils/dimension.js';
 import { drawEntity } from './draw-entity.js';
 
 export function drawDimension(
@@ -13,32 +20,22 @@ export function drawDimension(
   theme: Theme,
   pixelSize: number,
   stats?: RenderStats,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  parent?: BlockContext,
 ): void {
-  // Prefer rendering from the geometry block
-  if (entity.blockName) {
-    const block = doc.blocks.get(entity.blockName);
-    if (block) {
-      for (const blockEntity of block.entities) {
-        const color = resolveEntityColor(blockEntity, doc.layers, theme);
-        ctx.strokeStyle = color;
-        ctx.fillStyle = color;
-        ctx.lineWidth = pixelSize;
-        drawEntity(ctx, blockEntity as DxfEntity, doc, vt, theme, pixelSize, stats);
-      }
-      return;
-    }
-  }
-
-  // Fallback: render from definition points (simplified)
-  if (entity.defPoint2 && entity.defPoint3) {
-    ctx.beginPath();
-    ctx.moveTo(entity.defPoint2.x, entity.defPoint2.y);
-    ctx.lineTo(entity.defPoint.x, entity.defPoint.y);
-    ctx.stroke();
+  // Draw the geometry block, or regenerate its contents from the dimension style
+  const block = entity.blockName ? doc.blocks.get(entity.blockName) : undefined;
+  const entities = block ? block.entities : dimensionEntities(entity, doc);
 
-    ctx.beginPath();
-    ctx.moveTo(entity.defPoint3.x, entity.defPoint3.y);
-    ctx.lineTo(entity.defPoint.x, entity.defPoint.y);
-    ctx.stroke();
+  // Dimension blocks are mostly BYBLOCK: they inherit from the DIMENSION entity
+  const context = resolveBlockContext(entity, doc, theme, parent, options.layerColors);
+  for (const blockEntity of entities) {
+    const color = resolveEntityColor(blockEntity, doc.layers, theme, context, options.layerColors);
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = resolveEntityLineWidth(blockEntity, doc, options.lineWeightMode, vt.scale, pixelSize, context);
+    ctx.setLineDash(resolveEntityLineDash(blockEntity, doc, pixelSize, context));
+    drawEntity(ctx, blockEntity as DxfEntity, doc, vt, theme, pixelSize, stats, options, context);
   }
+  ctx.setLineDash([]);
 }
@@ -2,6 +2,8 @@ import type { DxfEntity, DxfDocument } from '../../parser/types.js';
 import type { ViewTransform } from '../camera.js';
 import type { Theme } from '../theme.js';
 import type { RenderStats } from '../debug-overlay.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
 import { drawLine } from './draw-line.js';
 import { drawCircle } from './draw-circle.js';
 import { drawArc } from './draw-arc.js';
@@ -13,6 +15,15 @@ import { drawInsert } from './draw-insert.js';
 import { drawDimension } from './draw-dimension.js';
 import { drawHatch } from './draw-hatch.js';
 import { drawPoint } from './draw-point.js';
+import { drawSolid, draw3DFace } from './draw-solid.js';
+import { drawLeader, drawMLeader } from './draw-leader.js';
+import { drawConstructionLine } from './draw-xline.js';
+import { drawImage, drawWipeout } from './draw-image.js';
+import { drawTable } from './draw-table.js';
+import { drawMLine } from './draw-mline.js';
+import { drawViewport } from './draw-viewport.js';
+import { getEntityOcsMatrix } from '../../utils/ocs.js';
+import { getCodePageEncoding } from '../../parser/encoding.js';
 
 export function drawEntity(
   ctx: CanvasRenderingContext2D,
@@ -22,12 +33,22 @@ export function drawEntity(
   theme: Theme,
   pixelSize: number,
   stats?: RenderStats,
+  options?: DrawOptions,
+  parent?: BlockContext,
 ): void {
   if (stats) {
     stats.drawCalls++;
     stats.byType[entity.type] = (stats.byType[entity.type] ?? 0) + 1;
   }
 
+  // Planar entities with a non-default extrusion are drawn in their OCS.
+  // INSERT applies its own OCS inside drawInsert (which also handles nesting).
+  const ocs = entity.type === 'INSERT' ? null : getEntityOcsMatrix(entity);
+  if (ocs) {
+    ctx.save();
+    ctx.transform(...ocs);
+  }
+
   switch (entity.type) {
     case 'LINE':       drawLine(ctx, entity); break;
     case 'CIRCLE':     drawCircle(ctx, entity); break;
@@ -36,11 +57,39 @@ export function drawEntity(
     case 'POLYLINE':   drawPolyline(ctx, entity); break;
     case 'ELLIPSE':    drawEllipse(ctx, entity); break;
     case 'SPLINE':     drawSpline(ctx, entity, pixelSize); break;
-    case 'TEXT':       drawText(ctx, entity, pixelSize); break;
-    case 'MTEXT':      drawMText(ctx, entity, pixelSize); break;
-    case 'INSERT':     drawInsert(ctx, entity, doc, vt, theme, pixelSize, 0, stats); break;
-    case 'DIMENSION':  drawDimension(ctx, entity, doc, vt, theme, pixelSize, stats); break;
-    case 'HATCH':      drawHatch(ctx, entity); break;
+    case 'TEXT':
+      drawText(
+        ctx, entity, doc.styles, pixelSize,
+        options?.shxFonts, getCodePageEncoding(doc.header.dwgCodePage), options?.fontMappings,
+      );
+      break;
+    case 'MTEXT':
+      drawMText(
+        ctx, entity, doc.styles, pixelSize, theme,
+        options?.shxFonts, getCodePageEncoding(doc.header.dwgCodePage), options?.fontMappings,
+      );
+      break;
+    case 'INSERT':     drawInsert(ctx, entity, doc, vt, theme, pixelSize, 0, stats, options, parent); break;
+    case 'DIMENSION':  drawDimension(ctx, entity, doc, vt, theme, pixelSize, stats, options, parent); break;
+    case 'HATCH':      drawHatch(ctx, entity, doc.header, pixelSize, theme); break;
     case 'POINT':      drawPoint(ctx, entity, pixelSize); break;
+    case 'SOLID':
+    case 'TRACE':      drawSolid(ctx, entity); break;
+    case '3DFACE':     draw3DFace(ctx, entity); break;
+    case 'LEADER':     drawLeader(ctx, entity, doc); break;
+    case 'MULTILEADER':
+      drawMLeader(ctx, entity, doc, vt, theme, pixelSize, stats, options, parent);
+      break;
+    case 'XLINE':
+    case 'RAY':        drawConstructionLine(ctx, entity, options?.viewBounds); break;
+    case 'IMAGE':      drawImage(ctx, entity, options); break;
+    case 'WIPEOUT':    drawWipeout(ctx, entity, theme, doc.wipeoutFrame !== 0, options); break;
+    case 'ACAD_TABLE':
+      drawTable(ctx, entity, doc, vt, theme, pixelSize, stats, options, parent);
+      break;
+    case 'MLINE':      drawMLine(ctx, entity, doc, theme, pixelSize, options, parent); break;
+    case 'VIEWPORT':   drawViewport(ctx, entity); break;
   }
+
+  if (ocs) ctx.restore();
 }
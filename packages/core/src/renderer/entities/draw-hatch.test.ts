@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfHatchPatternLine } from '../../parser/types.js';
+import { appendPatternLines } from './draw-hatch.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockCtx() {
+  return {
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+  } as unknown as CanvasRenderingContext2D & {
+    moveTo: ReturnType<typeof vi.fn>;
+    lineTo: ReturnType<typeof vi.fn>;
+  };
+}
+
+const UNIT_SQUARE = { minX: 0, minY: 0, maxX: 1, maxY: 1 };
+
+function horizontal(spacing: number, dashes: number[] = []): DxfHatchPatternLine {
+  return { angle: 0, base: { x: 0, y: 0 }, offset: { x: 0, y: spacing }, dashes };
+}
+
+// ─── appendPatternLines ─────────────────────────────────────────────
+
+describe('appendPatternLines', () => {
+  it('draws one segment per line across the bounds', () => {
+    const ctx = mockCtx();
+    expect(appendPatternLines(ctx, [horizontal(0.25)], UNIT_SQUARE, 0.01)).toBe(true);
+    // y = 0, 0.25, 0.5, 0.75, 1
+    expect(ctx.moveTo).toHaveBeenCalledTimes(5);
+    expect(ctx.moveTo.mock.calls[1]![0]).toBeCloseTo(0);
+    expect(ctx.moveTo.mock.calls[1]![1]).toBeCloseTo(0.25);
+    expect(ctx.lineTo.mock.calls[1]![0]).toBeCloseTo(1);
+  });
+
+  it('splits lines into dashes and skips gaps', () => {
+    const ctx = mockCtx();
+    appendPatternLines(ctx, [horizontal(2, [0.25, -0.25])], UNIT_SQUARE, 0.01);
+    // Single line at y = 0: dashes [0,0.25] and [0.5,0.75]
+    const starts = ctx.moveTo.mock.calls.map(c => c[0] as number);
+    expect(starts).toEqual([0, 0.5]);
+  });
+
+  it('refuses patterns denser than a couple of pixels', () => {
+    const ctx = mockCtx();
+    expect(appendPatternLines(ctx, [horizontal(0.01)], UNIT_SQUARE, 0.01)).toBe(false);
+    expect(ctx.moveTo).not.toHaveBeenCalled();
+  });
+
+  it('handles diagonal families', () => {
+    const ctx = mockCtx();
+    const ansi31: DxfHatchPatternLine = {
+      angle: 45, base: { x: 0, y: 0 }, offset: { x: -Math.SQRT1_2, y: Math.SQRT1_2 }, dashes: [],
+    };
+    appendPatternLines(ctx, [ansi31], { minX: 0, minY: 0, maxX: 2, maxY: 2 }, 0.01);
+    // Normal coordinate spans [-√2, √2] with spacing 1 → 3 lines
+    expect(ctx.moveTo).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,11 +1,58 @@
-import type { DxfHatchEntity } from '../../parser/types.js';
+import type { DxfHatchEntity, DxfHatchGradient, DxfHatchPatternLine, DxfHeader } from '../../parser/types.js';
+import type { BBox } from '../../utils/bbox.js';
+import type { Theme } from '../theme.js';
+import { computeHatchBBox } from '../../utils/bbox.js';
+import { ellipseEdgeParams, tessellateSplineEdge } from '../../utils/hatch-boundary.js';
 import { drawBulgeArc } from '../../utils/math.js';
+import { invertMatrix, transformBBox } from '../../utils/ocs.js';
+import { createHatchGradient } from '../hatch-gradient.js';
+import { getHatchPatternLines } from '../hatch-patterns.js';
 
-export function drawHatch(ctx: CanvasRenderingContext2D, entity: DxfHatchEntity): void {
+/** Pattern lines closer than this (screen pixels) are drawn as a translucent fill. */
+const MIN_PATTERN_SPACING_PX = 2;
+
+/** Dash patterns shorter than this on screen are drawn as continuous lines. */
+const MIN_DASH_PERIOD_PX = 3;
+
+/** Upper bound on pattern segments per hatch before falling back to a fill. */
+const MAX_PATTERN_SEGMENTS = 50000;
+
+export function drawHatch(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfHatchEntity,
+  header: DxfHeader,
+  pixelSize: number,
+  theme: Theme,
+): void {
   if (entity.boundaryPaths.length === 0) return;
 
   ctx.beginPath();
+  traceHatchBoundary(ctx, entity, pixelSize);
+
+  // Gradient fills: opaque gradient inside the boundary, outlined like solid fills
+  if (entity.gradient) {
+    drawHatchGradient(ctx, entity, entity.gradient, theme);
+    ctx.stroke();
+    return;
+  }
+
+  // Pattern hatches: line families clipped to the boundary, no outline
+  const patternLines = getHatchPatternLines(entity, header);
+  if (patternLines.length > 0) {
+    drawHatchPattern(ctx, entity, patternLines, pixelSize);
+    return;
+  }
+
+  if (entity.solidFill) {
+    ctx.globalAlpha = 0.3;
+    ctx.fill('evenodd');
+    ctx.globalAlpha = 1.0;
+  }
+  ctx.stroke();
+}
 
+/** Add the hatch boundary paths to the current path. */
+function traceHatchBoundary(ctx: CanvasRenderingContext2D, entity: DxfHatchEntity, pixelSize: number): void {
   for (const path of entity.boundaryPaths) {
     if (path.type === 'polyline' && path.vertices && path.vertices.length > 0) {
       const firstVert = path.vertices[0]!;
@@ -40,16 +87,177 @@ export function drawHatch(ctx: CanvasRenderingContext2D, entity: DxfHatchEntity)
             edge.endAngle * Math.PI / 180,
             !edge.ccw,
           );
+        } else if (edge.type === 'ellipse') {
+          const a = Math.hypot(edge.majorAxis.x, edge.majorAxis.y);
+          if (a < 1e-10) continue;
+          const b = a * edge.minorRatio;
+          const rotation = Math.atan2(edge.majorAxis.y, edge.majorAxis.x);
+          const { start, end } = ellipseEdgeParams(edge);
+          if (i === 0) {
+            const lx = a * Math.cos(start), ly = b * Math.sin(start);
+            const cos = Math.cos(rotation), sin = Math.sin(rotation);
+            ctx.moveTo(edge.center.x + lx * cos - ly * sin, edge.center.y + lx * sin + ly * cos);
+          }
+          ctx.ellipse(edge.center.x, edge.center.y, a, b, rotation, start, end, !edge.ccw);
+        } else {
+          const points = tessellateSplineEdge(edge, pixelSize);
+          for (let j = 0; j < points.length; j++) {
+            const p = points[j]!;
+            if (i === 0 && j === 0) ctx.moveTo(p.x, p.y);
+            else ctx.lineTo(p.x, p.y);
+          }
         }
-        // ellipse and spline edges: skipped in v1
       }
     }
   }
+}
 
-  if (entity.solidFill) {
+/** Fill the boundary (the current path) with the hatch's gradient. */
+function drawHatchGradient(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfHatchEntity,
+  gradient: DxfHatchGradient,
+  theme: Theme,
+): void {
+  const bounds = computeHatchBBox(entity);
+  if (!bounds) return;
+  const fallback = typeof ctx.fillStyle === 'string' ? ctx.fillStyle : '#808080';
+
+  ctx.save();
+  ctx.fillStyle = createHatchGradient(ctx, gradient, bounds, theme, fallback);
+  ctx.fill('evenodd');
+  ctx.restore();
+}
+
+/**
+ * Stroke the pattern line families inside the boundary (the current path).
+ * Patterns too dense to resolve on screen are drawn as a translucent fill.
+ */
+function drawHatchPattern(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfHatchEntity,
+  patternLines: DxfHatchPatternLine[],
+  pixelSize: number,
+): void {
+  const hatchBounds = computeHatchBBox(entity);
+  if (!hatchBounds) return;
+  const bounds = intersectBounds(hatchBounds, visibleBounds(ctx));
+  if (!bounds) return;
+
+  ctx.save();
+  ctx.clip('evenodd');
+  ctx.beginPath();
+  if (appendPatternLines(ctx, patternLines, bounds, pixelSize)) {
+    ctx.stroke();
+  } else {
+    ctx.beginPath();
+    traceHatchBoundary(ctx, entity, pixelSize);
     ctx.globalAlpha = 0.3;
     ctx.fill('evenodd');
-    ctx.globalAlpha = 1.0;
   }
-  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Append pattern line segments covering `bounds` to the current path.
+ * Returns false (appending nothing) when the pattern is too dense to draw
+ * line by line at the current zoom.
+ */
+export function appendPatternLines(
+  ctx: CanvasRenderingContext2D,
+  patternLines: DxfHatchPatternLine[],
+  bounds: BBox,
+  pixelSize: number,
+): boolean {
+  const families = [];
+  let segmentCount = 0;
+
+  for (const line of patternLines) {
+    const rad = line.angle * Math.PI / 180;
+    const dx = Math.cos(rad), dy = Math.sin(rad);
+    // Perpendicular distance and along-line shift between successive lines
+    const spacing = line.offset.y * dx - line.offset.x * dy;
+    const shift = line.offset.x * dx + line.offset.y * dy;
+    if (Math.abs(spacing) < 1e-12) continue;
+    if (Math.abs(spacing) / pixelSize < MIN_PATTERN_SPACING_PX) return false;
+
+    // Project the bounds onto the line normal (n) and direction (d)
+    let nMin = Infinity, nMax = -Infinity, dMin = Infinity, dMax = -Infinity;
+    for (const [x, y] of [
+      [bounds.minX, bounds.minY], [bounds.maxX, bounds.minY],
+      [bounds.maxX, bounds.maxY], [bounds.minX, bounds.maxY],
+    ] as const) {
+      const n = y * dx - x * dy;
+      const d = x * dx + y * dy;
+      nMin = Math.min(nMin, n); nMax = Math.max(nMax, n);
+      dMin = Math.min(dMin, d); dMax = Math.max(dMax, d);
+    }
+
+    const baseN = line.base.y * dx - line.base.x * dy;
+    const baseD = line.base.x * dx + line.base.y * dy;
+    const k0 = (nMin - baseN) / spacing;
+    const k1 = (nMax - baseN) / spacing;
+    const kStart = Math.ceil(Math.min(k0, k1));
+    const kEnd = Math.floor(Math.max(k0, k1));
+    if (kEnd < kStart) continue;
+
+    let period = 0;
+    for (const len of line.dashes) period += Math.abs(len);
+    const dashed = line.dashes.length > 0 && period / pixelSize >= MIN_DASH_PERIOD_PX;
+
+    const perLine = dashed ? Math.ceil((dMax - dMin) / period + 1) * line.dashes.length : 1;
+    segmentCount += (kEnd - kStart + 1) * perLine;
+    if (segmentCount > MAX_PATTERN_SEGMENTS) return false;
+
+    families.push({ line, dx, dy, spacing, shift, baseN, baseD, kStart, kEnd, dMin, dMax, period, dashed });
+  }
+
+  for (const f of families) {
+    for (let k = f.kStart; k <= f.kEnd; k++) {
+      const n = f.baseN + k * f.spacing;
+      // Point on this line at along-line coordinate t: t·d + n·(-dy, dx)
+      const px = -n * f.dy, py = n * f.dx;
+
+      if (!f.dashed) {
+        ctx.moveTo(px + f.dMin * f.dx, py + f.dMin * f.dy);
+        ctx.lineTo(px + f.dMax * f.dx, py + f.dMax * f.dy);
+        continue;
+      }
+
+      // Dash pattern starts at the line's origin; begin one period before dMin
+      const origin = f.baseD + k * f.shift;
+      let t = origin + Math.floor((f.dMin - origin) / f.period) * f.period;
+      while (t < f.dMax) {
+        for (const len of f.line.dashes) {
+          const end = t + Math.abs(len);
+          if (len >= 0 && end >= f.dMin && t <= f.dMax) {
+            const a = Math.max(t, f.dMin);
+            const b = Math.min(end, f.dMax);
+            ctx.moveTo(px + a * f.dx, py + a * f.dy);
+            ctx.lineTo(px + b * f.dx, py + b * f.dy);
+          }
+          t = end;
+        }
+      }
+    }
+  }
+
+  return true;
+}
+
+/** Visible canvas area in the current coordinate space, or null if unknown. */
+function visibleBounds(ctx: CanvasRenderingContext2D): BBox | null {
+  const m = ctx.getTransform();
+  const inverse = invertMatrix([m.a, m.b, m.c, m.d, m.e, m.f]);
+  if (!inverse) return null;
+  return transformBBox({ minX: 0, minY: 0, maxX: ctx.canvas.width, maxY: ctx.canvas.height }, inverse);
+}
+
+function intersectBounds(a: BBox, b: BBox | null): BBox | null {
+  if (!b) return a;
+  const minX = Math.max(a.minX, b.minX);
+  const minY = Math.max(a.minY, b.minY);
+  const maxX = Math.min(a.maxX, b.maxX);
+  const maxY = Math.min(a.maxY, b.maxY);
+  return minX <= maxX && minY <= maxY ? { minX, minY, maxX, maxY } : null;
 }
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfEntityBase, DxfImageEntity, DxfWipeoutEntity } from '../../parser/types.js';
+import { drawImage, drawWipeout, imageFilter } from './draw-image.js';
+import { imageMatrix, imageOutline } from '../../utils/image.js';
+import { computeEntityBBox } from '../../utils/bbox.js';
+import { distanceToEntity } from '../../viewer/selection.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+/** A 100×50 pixel image at (10, 20), 0.1 units per pixel. */
+function makeImage(overrides?: Partial<DxfImageEntity>): DxfImageEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'IMAGE',
+    insertionPoint: { x: 10, y: 20, z: 0 },
+    uVector: { x: 0.1, y: 0, z: 0 },
+    vVector: { x: 0, y: 0.1, z: 0 },
+    imageSize: { x: 100, y: 50 },
+    imageDefHandle: '2A',
+    displayFlags: 7,
+    clipping: false,
+    clipInverted: false,
+    brightness: 50,
+    contrast: 50,
+    fade: 0,
+    clipBoundary: [],
+    ...overrides,
+  };
+}
+
+/** A 4×2 wipeout at the origin with a square-cornered polygon boundary. */
+function makeWipeout(overrides?: Partial<DxfWipeoutEntity>): DxfWipeoutEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'WIPEOUT',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    uVector: { x: 4, y: 0, z: 0 },
+    vVector: { x: 0, y: 2, z: 0 },
+    imageSize: { x: 1, y: 1 },
+    displayFlags: 7,
+    clipping: true,
+    clipInverted: false,
+    clipBoundary: [{ x: -0.5, y: 0.5 }, { x: 0.5, y: 0.5 }, { x: 0.5, y: -0.5 }, { x: -0.5, y: -0.5 }],
+    ...overrides,
+  };
+}
+
+function mockCtx() {
+  return {
+    save: vi.fn(),
+    restore: vi.fn(),
+    transform: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    clip: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    drawImage: vi.fn(),
+    fillStyle: '',
+    filter: 'none',
+    globalAlpha: 1,
+  };
+}
+
+const BITMAP = { width: 100, height: 50 } as unknown as CanvasImageSource;
+
+// ─── Geometry ───────────────────────────────────────────────────────
+
+describe('image geometry', () => {
+  it('maps the image top-left corner to the insertion point plus its height', () => {
+    const [a, b, c, d, e, f] = imageMatrix(makeImage());
+    // Image space (0, 50) is the bottom-left corner
+    expect(a * 0 + c * 50 + e).toBeCloseTo(10);
+    expect(b * 0 + d * 50 + f).toBeCloseTo(20);
+    // Image space (100, 0) is the top-right corner
+    expect(a * 100 + c * 0 + e).toBeCloseTo(20);
+    expect(b * 100 + d * 0 + f).toBeCloseTo(25);
+  });
+
+  it('bounds the whole image without clipping', () => {
+    const bbox = computeEntityBBox(makeImage())!;
+    expect(bbox.minX).toBeCloseTo(10);
+    expect(bbox.minY).toBeCloseTo(20);
+    expect(bbox.maxX).toBeCloseTo(20);
+    expect(bbox.maxY).toBeCloseTo(25);
+  });
+
+  it('bounds a rectangular clip boundary', () => {
+    // Keep pixels 10..59 across and the top 20 rows
+    const image = makeImage({ clipping: true, clipBoundary: [{ x: 9.5, y: -0.5 }, { x: 59.5, y: 19.5 }] });
+    const bbox = computeEntityBBox(image)!;
+    expect(bbox.minX).toBeCloseTo(11);
+    expect(bbox.maxX).toBeCloseTo(16);
+    expect(bbox.minY).toBeCloseTo(23);
+    expect(bbox.maxY).toBeCloseTo(25);
+  });
+
+  it('follows polygonal clip boundaries', () => {
+    const image = makeImage({
+      clipping: true,
+      clipBoundary: [{ x: -0.5, y: -0.5 }, { x: 99.5, y: -0.5 }, { x: -0.5, y: 49.5 }],
+    });
+    expect(imageOutline(image)).toHaveLength(3);
+    // Inside the remaining top-left triangle, outside the clipped-away corner
+    expect(distanceToEntity(11, 24, image)).toBe(0);
+    expect(distanceToEntity(19.5, 20.5, image)).toBeGreaterThan(0);
+  });
+});
+
+// ─── drawImage ──────────────────────────────────────────────────────
+
+describe('drawImage', () => {
+  it('draws only the frame while the image is unresolved', () => {
+    const ctx = mockCtx();
+    drawImage(ctx as unknown as CanvasRenderingContext2D, makeImage());
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    // Outline starts at the top-left corner
+    expect(ctx.moveTo).toHaveBeenCalledWith(10, 25);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+
+  it('draws the resolved bitmap in image space', () => {
+    const ctx = mockCtx();
+    const image = makeImage();
+    drawImage(ctx as unknown as CanvasRenderingContext2D, image, {
+      lineWeightMode: 'screen',
+      images: new Map([['2A', BITMAP]]),
+    });
+    expect(ctx.transform).toHaveBeenCalledWith(...imageMatrix(image));
+    expect(ctx.drawImage).toHaveBeenCalledWith(BITMAP, 0, 0, 100, 50);
+    expect(ctx.clip).not.toHaveBeenCalled();
+    expect(ctx.restore).toHaveBeenCalledOnce();
+  });
+
+  it('clips to the boundary, inverted clips with even-odd', () => {
+    const options = { lineWeightMode: 'screen' as const, images: new Map([['2A', BITMAP]]) };
+    const clipBoundary = [{ x: 9.5, y: 9.5 }, { x: 19.5, y: 19.5 }];
+
+    const ctx = mockCtx();
+    drawImage(ctx as unknown as CanvasRenderingContext2D, makeImage({ clipping: true, clipBoundary }), options);
+    expect(ctx.clip).toHaveBeenCalledWith('nonzero');
+    expect(ctx.moveTo).toHaveBeenCalledWith(10, 10);
+
+    const inverted = mockCtx();
+    drawImage(
+      inverted as unknown as CanvasRenderingContext2D,
+      makeImage({ clipping: true, clipInverted: true, clipBoundary }),
+      options,
+    );
+    expect(inverted.clip).toHaveBeenCalledWith('evenodd');
+  });
+
+  it('skips the bitmap when the image is hidden', () => {
+    const ctx = mockCtx();
+    drawImage(ctx as unknown as CanvasRenderingContext2D, makeImage({ displayFlags: 0 }), {
+      lineWeightMode: 'screen',
+      images: new Map([['2A', BITMAP]]),
+    });
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+
+  it('applies fade as transparency', () => {
+    const ctx = mockCtx();
+    ctx.drawImage.mockImplementation(() => expect(ctx.globalAlpha).toBeCloseTo(0.75));
+    drawImage(ctx as unknown as CanvasRenderingContext2D, makeImage({ fade: 25 }), {
+      lineWeightMode: 'screen',
+      images: new Map([['2A', BITMAP]]),
+    });
+    expect(ctx.drawImage).toHaveBeenCalledOnce();
+  });
+});
+
+// ─── drawWipeout ────────────────────────────────────────────────────
+
+describe('drawWipeout', () => {
+  it('maps the normalized boundary onto the U/V vectors', () => {
+    expect(imageOutline(makeWipeout())).toEqual([
+      { x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 2 }, { x: 0, y: 2 },
+    ]);
+  });
+
+  it('fills with the theme background and strokes the frame', () => {
+    const ctx = mockCtx();
+    ctx.fill.mockImplementation(() => expect(ctx.fillStyle).toBe('#ffffff'));
+    drawWipeout(ctx as unknown as CanvasRenderingContext2D, makeWipeout(), 'light', true);
+    expect(ctx.fill).toHaveBeenCalledOnce();
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+
+  it('hides the frame when WIPEOUTFRAME is off', () => {
+    const ctx = mockCtx();
+    drawWipeout(ctx as unknown as CanvasRenderingContext2D, makeWipeout(), 'dark', false);
+    expect(ctx.fill).toHaveBeenCalledOnce();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+
+  it('only outlines the mask when highlighted', () => {
+    const ctx = mockCtx();
+    drawWipeout(ctx as unknown as CanvasRenderingContext2D, makeWipeout(), 'dark', false, {
+      lineWeightMode: 'screen',
+      highlight: true,
+    });
+    expect(ctx.fill).not.toHaveBeenCalled();
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+});
+
+describe('imageFilter', () => {
+  it('maps brightness and contrast around the default of 50', () => {
+    expect(imageFilter(makeImage())).toBe('');
+    expect(imageFilter(makeImage({ brightness: 75, contrast: 25 }))).toBe('brightness(1.5) contrast(0.5)');
+  });
+});
@@ -0,0 +1,81 @@
+import type { DxfImageEntity, DxfWipeoutEntity, Point2D } from '../../parser/types.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { Theme } from '../theme.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { THEMES } from '../theme.js';
+import { imageClipPolygon, imageMatrix, imageOutline, imageRect } from '../../utils/image.js';
+
+/**
+ * Draw an IMAGE: the resolved bitmap mapped onto the image's U/V vectors and
+ * clipped to its boundary, then its frame. Images whose file is not (yet)
+ * resolved are drawn as a frame only.
+ */
+export function drawImage(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfImageEntity,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+): void {
+  const { x: width, y: height } = entity.imageSize;
+  const source = entity.displayFlags & 1 ? options.images?.get(entity.imageDefHandle) : undefined;
+
+  if (source && width > 0 && height > 0) {
+    ctx.save();
+    ctx.transform(...imageMatrix(entity));
+    if (entity.clipping) {
+      ctx.beginPath();
+      // Inverted clips keep the area between the image edge and the boundary
+      if (entity.clipInverted) appendLoop(ctx, imageRect(entity));
+      appendLoop(ctx, imageClipPolygon(entity));
+      ctx.clip(entity.clipInverted ? 'evenodd' : 'nonzero');
+    }
+    const filter = imageFilter(entity);
+    if (filter) ctx.filter = filter;
+    ctx.globalAlpha *= 1 - Math.min(Math.max(entity.fade, 0), 100) / 100;
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.restore();
+  }
+
+  ctx.beginPath();
+  appendLoop(ctx, imageOutline(entity));
+  ctx.stroke();
+}
+
+/**
+ * Draw a WIPEOUT: its outline filled with the background color, masking
+ * whatever was drawn before it, then its frame when `showFrame` is set.
+ */
+export function drawWipeout(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfWipeoutEntity,
+  theme: Theme,
+  showFrame: boolean,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+): void {
+  ctx.beginPath();
+  appendLoop(ctx, imageOutline(entity));
+
+  // Highlighting only outlines the mask, so content drawn over it stays visible
+  if (options.highlight) {
+    ctx.stroke();
+    return;
+  }
+
+  ctx.save();
+  ctx.fillStyle = THEMES[theme].backgroundColor;
+  ctx.fill();
+  ctx.restore();
+  if (showFrame) ctx.stroke();
+}
+
+/** CSS filter for non-default brightness and contrast (50 is unchanged). */
+export function imageFilter(entity: DxfImageEntity): string {
+  const filters: string[] = [];
+  if (entity.brightness !== 50) filters.push(`brightness(${entity.brightness / 50})`);
+  if (entity.contrast !== 50) filters.push(`contrast(${entity.contrast / 50})`);
+  return filters.join(' ');
+}
+
+function appendLoop(ctx: CanvasRenderingContext2D, points: Point2D[]): void {
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfAttdef, DxfAttrib, DxfDocument, DxfInsertEntity } from '../../parser/types.js';
+import { drawInsert } from './draw-insert.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockCtx() {
+  return {
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    scale: vi.fn(),
+    rotate: vi.fn(),
+    transform: vi.fn(),
+    fillText: vi.fn(),
+    measureText: vi.fn((text: string) => ({ width: text.length })),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    setLineDash: vi.fn(),
+    font: '',
+    fillStyle: '#fff',
+    strokeStyle: '#000',
+    lineWidth: 1,
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+  };
+}
+
+function makeAttrib(overrides?: Partial<DxfAttrib>): DxfAttrib {
+  return {
+    tag: 'TAG',
+    text: 'VALUE',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    height: 1,
+    rotation: 0,
+    widthFactor: 1,
+    obliqueAngle: 0,
+    style: 'STANDARD',
+    hAlign: 0,
+    vAlign: 0,
+    generationFlags: 0,
+    flags: 0,
+    layer: '0',
+    color: 256,
+    ...overrides,
+  };
+}
+
+function makeDoc(attributeDefinitions: DxfAttdef[] = []): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map([['TITLE', {
+      name: 'TITLE', basePoint: { x: 0, y: 0, z: 0 }, flags: 2, entities: [], attributeDefinitions,
+    }]]),
+    entities: [],
+  };
+}
+
+function makeInsert(overrides?: Partial<DxfInsertEntity>): DxfInsertEntity {
+  return {
+    type: 'INSERT',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    blockName: 'TITLE',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    scaleX: 1, scaleY: 1, scaleZ: 1, rotation: 0,
+    columnCount: 1, rowCount: 1, columnSpacing: 0, rowSpacing: 0,
+    attribs: [],
+    ...overrides,
+  };
+}
+
+function draw(insert: DxfInsertEntity, doc: DxfDocument) {
+  const ctx = mockCtx();
+  drawInsert(
+    ctx as unknown as CanvasRenderingContext2D, insert, doc, { scale: 100, offsetX: 0, offsetY: 0 },
+    'dark', 0.01, 0, undefined, { lineWeightMode: 'screen' },
+  );
+  return ctx;
+}
+
+// ─── Attributes ─────────────────────────────────────────────────────
+
+describe('drawInsert attributes', () => {
+  it('draws visible ATTRIBs once and skips invisible ones', () => {
+    const insert = makeInsert({
+      columnCount: 3,
+      columnSpacing: 10,
+      attribs: [makeAttrib({ text: 'SHEET 1' }), makeAttrib({ text: 'SECRET', flags: 1 })],
+    });
+    const ctx = draw(insert, makeDoc());
+    const texts = ctx.fillText.mock.calls.map(call => call[0]);
+    expect(texts).toEqual(['SHEET 1']);
+  });
+
+  it('resolves BYBLOCK attribute color through the INSERT', () => {
+    const insert = makeInsert({ color: 1, attribs: [makeAttrib({ color: 0 })] });
+    const ctx = draw(insert, makeDoc());
+    expect(ctx.fillText).toHaveBeenCalledOnce();
+    expect(ctx.fillStyle).toBe('#FF0000');
+  });
+
+  it('draws constant ATTDEFs with the block contents', () => {
+    const doc = makeDoc([
+      { ...makeAttrib({ text: 'ACME', flags: 2 }), prompt: '' },
+      { ...makeAttrib({ text: 'DEFAULT' }), prompt: 'Value' },
+    ]);
+    const ctx = draw(makeInsert({ insertionPoint: { x: 5, y: 5, z: 0 } }), doc);
+    expect(ctx.fillText.mock.calls.map(call => call[0])).toEqual(['ACME']);
+    expect(ctx.translate).toHaveBeenCalledWith(5, 5);
+  });
+});
@@ -1,11 +1,22 @@
-import type { DxfInsertEntity, DxfDocument, DxfEntity } from '../../parser/types.js';
+import type { DxfInsertEntity, DxfDocument, DxfEntity, DxfAttrib } from '../../parser/types.js';
 import type { ViewTransform } from '../camera.js';
 import type { Theme } from '../theme.js';
 import type { RenderStats } from '../debug-overlay.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
+import type { BBox } from '../../utils/bbox.js';
+import type { Matrix2D } from '../../utils/ocs.js';
 import { computeEntityBBox, getBlockEntityBBox } from '../../utils/bbox.js';
 import { resolveEntityColor } from '../resolve-color.js';
+import { resolveEntityLineDash } from '../resolve-linetype.js';
+import { resolveEntityLineWidth } from '../resolve-lineweight.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { resolveBlockContext } from '../block-context.js';
 import { drawEntity } from './draw-entity.js';
 import { isBatchableStroke, appendStrokePath } from './batch-path.js';
+import { getEntityOcsMatrix, invertMatrix, multiplyMatrix, transformBBox } from '../../utils/ocs.js';
+import { isWidePolyline } from '../../utils/polyline-width.js';
+import { attributeTextEntity, constantAttributeDefinitions, isAttributeVisible } from '../../utils/attributes.js';
 
 const MAX_INSERT_DEPTH = 100;
 
@@ -21,19 +32,29 @@ export function drawInsert(
   pixelSize: number,
   depth: number = 0,
   stats?: RenderStats,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  parent?: BlockContext,
 ): void {
   if (depth > MAX_INSERT_DEPTH) return;
 
   const block = doc.blocks.get(entity.blockName);
   if (!block) return;
 
+  // Properties handed down to BYBLOCK and layer "0" block contents
+  const context = resolveBlockContext(entity, doc, theme, parent, options.layerColors);
+
   // Handle MINSERT (grid of blocks)
   const cols = Math.max(1, entity.columnCount);
   const rows = Math.max(1, entity.rowCount);
 
+  // Insertion point, rotation and grid are in the INSERT's OCS
+  const ocs = getEntityOcsMatrix(entity);
+  const constantAttdefs = constantAttributeDefinitions(block.attributeDefinitions);
+
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
       ctx.save();
+      if (ocs) ctx.transform(...ocs);
 
       // Insertion point + grid offset
       const ox = entity.insertionPoint.x + col * entity.columnSpacing;
@@ -55,8 +76,13 @@ export function drawInsert(
       const scaleCompensation = Math.max(Math.abs(entity.scaleX), Math.abs(entity.scaleY));
       const adjustedPixelSize = pixelSize / (scaleCompensation || 1);
 
-      // Render block entities with path batching
-      let batchColor: string | null = null;
+      // View bounds in block space, for clipping XLINE and RAY
+      const cellOptions = options.viewBounds
+        ? { ...options, viewBounds: blockViewBounds(options.viewBounds, ocs, ox, oy, entity, block.basePoint) }
+        : options;
+
+      // Render block entities with path batching (keyed by color + width + dash pattern)
+      let batchKey: string | null = null;
       const blockEntities = block.entities;
 
       for (let ei = 0; ei < blockEntities.length; ei++) {
@@ -76,19 +102,23 @@ export function drawInsert(
           }
         }
 
-        const color = resolveEntityColor(blockEntity, doc.layers, theme);
+        const color = resolveEntityColor(blockEntity, doc.layers, theme, context, options.layerColors);
+        const lineWidth = resolveEntityLineWidth(blockEntity, doc, options.lineWeightMode, vt.scale, adjustedPixelSize, context);
 
-        if (blockEntity.type !== 'INSERT' && isBatchableStroke(blockEntity.type)) {
+        if (blockEntity.type !== 'INSERT' && isBatchableStroke(blockEntity.type) && !isWidePolyline(blockEntity)) {
           // Batchable stroke-only block entity
-          if (color !== batchColor) {
-            if (batchColor !== null) {
+          const dash = resolveEntityLineDash(blockEntity, doc, adjustedPixelSize, context);
+          const key = `${color}|${lineWidth}|${dash.join(',')}`;
+          if (key !== batchKey) {
+            if (batchKey !== null) {
               ctx.stroke();
               if (stats) stats.drawCalls++;
             }
-            batchColor = color;
+            batchKey = key;
             ctx.beginPath();
             ctx.strokeStyle = color;
-            ctx.lineWidth = adjustedPixelSize;
+            ctx.lineWidth = lineWidth;
+            ctx.setLineDash(dash);
           }
           appendStrokePath(ctx, blockEntity as DxfEntity, adjustedPixelSize);
           if (stats) {
@@ -96,30 +126,92 @@ export function drawInsert(
           }
         } else {
           // Non-batchable: flush any open batch first
-          if (batchColor !== null) {
+          if (batchKey !== null) {
             ctx.stroke();
             if (stats) stats.drawCalls++;
-            batchColor = null;
+            batchKey = null;
           }
           ctx.strokeStyle = color;
           ctx.fillStyle = color;
-          ctx.lineWidth = adjustedPixelSize;
+          ctx.lineWidth = lineWidth;
+          ctx.setLineDash([]);
 
           if (blockEntity.type === 'INSERT') {
-            drawInsert(ctx, blockEntity as DxfInsertEntity, doc, vt, theme, adjustedPixelSize, depth + 1, stats);
+            drawInsert(ctx, blockEntity as DxfInsertEntity, doc, vt, theme, adjustedPixelSize, depth + 1, stats, cellOptions, context);
           } else {
-            drawEntity(ctx, blockEntity as DxfEntity, doc, vt, theme, adjustedPixelSize, stats);
+            drawEntity(ctx, blockEntity as DxfEntity, doc, vt, theme, adjustedPixelSize, stats, cellOptions, context);
           }
         }
       }
 
       // Flush final batch for this grid cell
-      if (batchColor !== null) {
+      if (batchKey !== null) {
         ctx.stroke();
         if (stats) stats.drawCalls++;
       }
+      ctx.setLineDash([]);
+
+      for (const attdef of constantAttdefs) {
+        drawAttribute(ctx, attdef, doc, vt, theme, adjustedPixelSize, stats, cellOptions, context);
+      }
 
       ctx.restore();
     }
   }
+
+  // ATTRIBs are placed in the INSERT's own (parent) space, once rather than per MINSERT cell
+  for (const attrib of entity.attribs) {
+    if (isAttributeVisible(attrib)) {
+      drawAttribute(ctx, attrib, doc, vt, theme, pixelSize, stats, options, context);
+    }
+  }
+}
+
+/** Draw an ATTRIB or constant ATTDEF as TEXT; BYBLOCK and layer "0" resolve through the INSERT. */
+function drawAttribute(
+  ctx: CanvasRenderingContext2D,
+  attrib: DxfAttrib,
+  doc: DxfDocument,
+  vt: ViewTransform,
+  theme: Theme,
+  pixelSize: number,
+  stats: RenderStats | undefined,
+  options: DrawOptions,
+  context: BlockContext,
+): void {
+  const text = attributeTextEntity(attrib);
+  const color = resolveEntityColor(text, doc.layers, theme, context, options.layerColors);
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = resolveEntityLineWidth(text, doc, options.lineWeightMode, vt.scale, pixelSize, context);
+  drawEntity(ctx, text, doc, vt, theme, pixelSize, stats, options, context);
+}
+
+/**
+ * Map world-space view bounds into the block space of one INSERT cell by
+ * undoing its transform (OCS, insertion point, rotation, scale, base point).
+ * Returns undefined for a degenerate (zero-scale) INSERT.
+ */
+function blockViewBounds(
+  bounds: BBox,
+  ocs: Matrix2D | null,
+  ox: number,
+  oy: number,
+  entity: DxfInsertEntity,
+  basePoint: { x: number; y: number },
+): BBox | undefined {
+  const rad = (entity.rotation || 0) * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const sx = entity.scaleX;
+  const sy = entity.scaleY;
+  // translate(ox, oy) · rotate · scale · translate(-basePoint)
+  const local: Matrix2D = [
+    cos * sx, sin * sx,
+    -sin * sy, cos * sy,
+    ox - cos * sx * basePoint.x + sin * sy * basePoint.y,
+    oy - sin * sx * basePoint.x - cos * sy * basePoint.y,
+  ];
+  const inverse = invertMatrix(ocs ? multiplyMatrix(ocs, local) : local);
+  return inverse ? transformBBox(bounds, inverse) : undefined;
 }
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfLeaderEntity, DxfMLeaderEntity } from '../../parser/types.js';
+import { drawArrowhead, drawLeader, drawMLeader } from './draw-leader.js';
+import { THEMES } from '../theme.js';
+import { computeEntityBBox, computeEntityBBoxWithDoc } from '../../utils/bbox.js';
+import { distanceToEntity, SpatialIndex } from '../../viewer/selection.js';
+import { findSnaps } from '../../viewer/measure.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+function mockCtx() {
+  return {
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    quadraticCurveTo: vi.fn(),
+    closePath: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+  };
+}
+
+function makeDoc(header: Record<string, unknown> = {}): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1, ...header },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+  };
+}
+
+function makeLeader(overrides?: Partial<DxfLeaderEntity>): DxfLeaderEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'LEADER',
+    dimStyle: 'STANDARD',
+    vertices: [{ x: 0, y: 0, z: 0 }, { x: 10, y: 10, z: 0 }, { x: 15, y: 10, z: 0 }],
+    hasArrowhead: true,
+    pathType: 0,
+    annotationType: 3,
+    hasHookline: true,
+    hooklineAlongHorizontal: true,
+    textHeight: 0,
+    horizontalDirection: { x: 1, y: 0, z: 0 },
+    ...overrides,
+  };
+}
+
+/** One leader from (0, 0) via (4, 4) to (10, 5), landing to (12, 5). */
+function makeMLeader(overrides?: Partial<DxfMLeaderEntity>): DxfMLeaderEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'MULTILEADER',
+    contentType: 0,
+    leaderLineType: 1,
+    enableLanding: true,
+    enableDogleg: true,
+    arrowheadSize: 1,
+    scale: 1,
+    leaders: [{
+      lastLeaderPoint: { x: 10, y: 5, z: 0 },
+      doglegVector: { x: 1, y: 0, z: 0 },
+      doglegLength: 2,
+      lines: [[{ x: 0, y: 0, z: 0 }, { x: 4, y: 4, z: 0 }]],
+    }],
+    ...overrides,
+  };
+}
+
+// ─── drawArrowhead ──────────────────────────────────────────────────
+
+describe('drawArrowhead', () => {
+  it('fills a triangle pointing at the tip', () => {
+    const ctx = mockCtx();
+    drawArrowhead(ctx as unknown as CanvasRenderingContext2D, { x: 0, y: 0 }, { x: 10, y: 0 }, 3);
+    expect(ctx.moveTo).toHaveBeenCalledWith(0, 0);
+    const [[x1, y1], [x2, y2]] = ctx.lineTo.mock.calls as [number, number][];
+    expect([x1, x2]).toEqual([3, 3]);
+    expect(Math.abs(y1! - y2!)).toBeCloseTo(1);
+    expect(ctx.fill).toHaveBeenCalledOnce();
+  });
+
+  it('skips zero-length leaders', () => {
+    const ctx = mockCtx();
+    drawArrowhead(ctx as unknown as CanvasRenderingContext2D, { x: 1, y: 1 }, { x: 1, y: 1 }, 3);
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+});
+
+// ─── drawLeader ─────────────────────────────────────────────────────
+
+describe('drawLeader', () => {
+  it('strokes the vertices and sizes the arrowhead from DIMASZ × DIMSCALE', () => {
+    const ctx = mockCtx();
+    drawLeader(ctx as unknown as CanvasRenderingContext2D, makeLeader({
+      vertices: [{ x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }],
+    }), makeDoc({ $DIMASZ: '2.5', $DIMSCALE: '2' }));
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.fill).toHaveBeenCalledOnce();
+    // Arrow base 5 units back from the tip
+    expect(ctx.lineTo).toHaveBeenCalledWith(5, expect.any(Number));
+  });
+
+  it('omits the arrowhead when the flag is off', () => {
+    const ctx = mockCtx();
+    drawLeader(ctx as unknown as CanvasRenderingContext2D, makeLeader({ hasArrowhead: false }), makeDoc());
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+
+  it('smooths spline leaders', () => {
+    const ctx = mockCtx();
+    drawLeader(ctx as unknown as CanvasRenderingContext2D, makeLeader({ pathType: 1 }), makeDoc());
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledWith(10, 10, 15, 10);
+  });
+});
+
+// ─── drawMLeader ────────────────────────────────────────────────────
+
+describe('drawMLeader', () => {
+  it('draws leader lines to the landing, the landing and one arrowhead per line', () => {
+    const ctx = mockCtx();
+    drawMLeader(
+      ctx as unknown as CanvasRenderingContext2D, makeMLeader(), makeDoc(),
+      { scale: 1, offsetX: 0, offsetY: 0 }, THEMES.dark, 0.01,
+    );
+    expect(ctx.lineTo).toHaveBeenCalledWith(4, 4);
+    expect(ctx.lineTo).toHaveBeenCalledWith(10, 5);
+    expect(ctx.lineTo).toHaveBeenCalledWith(12, 5);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.fill).toHaveBeenCalledOnce();
+  });
+
+  it('hides invisible leader lines but keeps the landing', () => {
+    const ctx = mockCtx();
+    drawMLeader(
+      ctx as unknown as CanvasRenderingContext2D, makeMLeader({ leaderLineType: 0 }), makeDoc(),
+      { scale: 1, offsetX: 0, offsetY: 0 }, THEMES.dark, 0.01,
+    );
+    expect(ctx.lineTo.mock.calls).toEqual([[12, 5]]);
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Bounds, hit-testing and snapping ───────────────────────────────
+
+describe('LEADER and MULTILEADER geometry', () => {
+  it('bounds leader vertices', () => {
+    expect(computeEntityBBox(makeLeader())).toEqual({ minX: 0, minY: 0, maxX: 15, maxY: 10 });
+  });
+
+  it('bounds multileader lines and landing', () => {
+    expect(computeEntityBBox(makeMLeader())).toEqual({ minX: 0, minY: 0, maxX: 12, maxY: 5 });
+  });
+
+  it('includes block content extents when the document is available', () => {
+    const doc = makeDoc();
+    doc.blocks.set('TAG', {
+      name: 'TAG',
+      basePoint: { x: 0, y: 0, z: 0 },
+      flags: 0,
+      entities: [{ ...BASE_ENTITY, type: 'CIRCLE', center: { x: 0, y: 0, z: 0 }, radius: 1 }],
+    });
+    const mleader = makeMLeader({
+      block: {
+        blockHandle: '1F', blockName: 'TAG',
+        position: { x: 14, y: 5, z: 0 }, scale: { x: 2, y: 2, z: 1 }, rotation: 0,
+      },
+    });
+    expect(computeEntityBBoxWithDoc(mleader, doc, new Map())).toEqual({ minX: 0, minY: 0, maxX: 16, maxY: 7 });
+  });
+
+  it('hits leader lines, landings and text', () => {
+    const mleader = makeMLeader({
+      mtext: {
+        ...BASE_ENTITY, type: 'MTEXT', text: 'A-1',
+        insertionPoint: { x: 13, y: 6, z: 0 }, height: 1, width: 4,
+        attachmentPoint: 1, drawingDirection: 1, rotation: 0,
+        lineSpacingStyle: 1, lineSpacingFactor: 1, style: 'Standard', bgFill: 0, bgFillScale: 1.5,
+      },
+    });
+    expect(distanceToEntity(2, 2, mleader)).toBeCloseTo(0);
+    expect(distanceToEntity(11, 5.5, mleader)).toBeCloseTo(0.5);
+    expect(distanceToEntity(15, 6, mleader)).toBe(0);
+    expect(distanceToEntity(5, 0, makeLeader())).toBeCloseTo(5 / Math.SQRT2);
+  });
+
+  it('snaps to arrow tips and landing ends', () => {
+    const entities = [makeMLeader()];
+    const index = new SpatialIndex();
+    index.build(entities);
+    expect(findSnaps(0.5, 0.5, entities, index, 1)[0]).toMatchObject({ type: 'endpoint', point: { x: 0, y: 0 } });
+    expect(findSnaps(11.5, 5, entities, index, 1)[0]).toMatchObject({ type: 'endpoint', point: { x: 12, y: 5 } });
+  });
+});
@@ -0,0 +1,105 @@
+import type { DxfDocument, DxfLeaderEntity, DxfMLeaderEntity, Point2D } from '../../parser/types.js';
+import type { ViewTransform } from '../camera.js';
+import type { Theme } from '../theme.js';
+import type { RenderStats } from '../debug-overlay.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { arrowheadCorners, leaderArrowSize, mleaderBlockInsert, mleaderLandings, mleaderLines } from '../../utils/leader.js';
+import { getCodePageEncoding } from '../../parser/encoding.js';
+import { drawMText } from './draw-text.js';
+import { drawInsert } from './draw-insert.js';
+
+export function drawLeader(ctx: CanvasRenderingContext2D, entity: DxfLeaderEntity, doc: DxfDocument): void {
+  const vertices = entity.vertices;
+  if (vertices.length < 2) return;
+
+  ctx.beginPath();
+  appendLeaderPath(ctx, vertices, entity.pathType === 1);
+  ctx.stroke();
+
+  if (entity.hasArrowhead) {
+    drawArrowhead(ctx, vertices[0]!, vertices[1]!, leaderArrowSize(doc.header));
+  }
+}
+
+/**
+ * Draw a MULTILEADER: leader lines with arrowheads, landings, then the MTEXT
+ * or block content.
+ */
+export function drawMLeader(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfMLeaderEntity,
+  doc: DxfDocument,
+  vt: ViewTransform,
+  theme: Theme,
+  pixelSize: number,
+  stats?: RenderStats,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  parent?: BlockContext,
+): void {
+  const lines = mleaderLines(entity);
+  const landings = mleaderLandings(entity);
+
+  if (lines.length > 0 || landings.length > 0) {
+    ctx.beginPath();
+    for (const line of lines) appendLeaderPath(ctx, line, entity.leaderLineType === 2);
+    for (const [a, b] of landings) {
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+    }
+    ctx.stroke();
+  }
+
+  if (entity.arrowheadSize > 0) {
+    for (const line of lines) drawArrowhead(ctx, line[0]!, line[1]!, entity.arrowheadSize);
+  }
+
+  if (entity.mtext) {
+    drawMText(
+      ctx, entity.mtext, doc.styles, pixelSize, theme,
+      options.shxFonts, getCodePageEncoding(doc.header.dwgCodePage), options.fontMappings,
+    );
+  }
+
+  const insert = mleaderBlockInsert(entity);
+  if (insert) drawInsert(ctx, insert, doc, vt, theme, pixelSize, 0, stats, options, parent);
+}
+
+/**
+ * Fill a closed arrowhead with its tip at `tip`, pointing away from `from`.
+ * Uses the current fill style.
+ */
+export function drawArrowhead(ctx: CanvasRenderingContext2D, tip: Point2D, from: Point2D, size: number): void {
+  const dx = tip.x - from.x;
+  const dy = tip.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length < 1e-10 || size <= 0) return;
+
+  const [left, right] = arrowheadCorners(tip, { x: dx / length, y: dy / length }, size);
+
+  ctx.beginPath();
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Append a leader path. Spline leaders are smoothed with quadratic curves
+ * through the segment midpoints, keeping both end points.
+ */
+function appendLeaderPath(ctx: CanvasRenderingContext2D, points: Point2D[], spline: boolean): void {
+  ctx.moveTo(points[0]!.x, points[0]!.y);
+  if (!spline || points.length < 3) {
+    for (let i = 1; i < points.length; i++) ctx.lineTo(points[i]!.x, points[i]!.y);
+    return;
+  }
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i]!;
+    const q = points[i + 1]!;
+    const last = i === points.length - 2;
+    ctx.quadraticCurveTo(p.x, p.y, last ? q.x : (p.x + q.x) / 2, last ? q.y : (p.y + q.y) / 2);
+  }
+}
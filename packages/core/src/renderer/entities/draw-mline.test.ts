@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfMLineEntity, DxfMLineStyle, DxfMLineVertex } from '../../parser/types.js';
+import { drawMLine } from './draw-mline.js';
+import { findMLineStyle, mlineCaps, mlineGeometry } from '../../utils/mline.js';
+import { computeEntityBBox } from '../../utils/bbox.js';
+import { distanceToEntity } from '../../viewer/selection.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+function vertex(x: number, y: number, miter: [number, number], params = [[0.5, 0], [-0.5, 0]]): DxfMLineVertex {
+  return {
+    position: { x, y, z: 0 },
+    direction: { x: 1, y: 0, z: 0 },
+    miter: { x: miter[0], y: miter[1], z: 0 },
+    elementParams: params,
+  };
+}
+
+/** Wall from (0, 0) to (10, 0), one unit thick, centered on the line. */
+function makeMLine(overrides?: Partial<DxfMLineEntity>): DxfMLineEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'MLINE',
+    styleName: 'WALL',
+    styleHandle: '1C',
+    scale: 1,
+    justification: 1,
+    flags: 1,
+    vertices: [vertex(0, 0, [0, 1]), vertex(10, 0, [0, 1])],
+    ...overrides,
+  };
+}
+
+function makeStyle(overrides?: Partial<DxfMLineStyle>): DxfMLineStyle {
+  return {
+    handle: '1C',
+    name: 'WALL',
+    flags: 0,
+    fillColor: 8,
+    elements: [
+      { offset: 0.5, color: 1, lineType: 'BYLAYER' },
+      { offset: -0.5, color: 5, lineType: 'BYLAYER' },
+    ],
+    ...overrides,
+  };
+}
+
+function makeDoc(style = makeStyle()): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+    mlineStyles: new Map([[style.handle, style]]),
+  };
+}
+
+function mockCtx() {
+  const strokes: string[] = [];
+  const ctx = {
+    save: vi.fn(),
+    restore: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    fill: vi.fn(),
+    stroke: vi.fn(() => strokes.push(ctx.strokeStyle)),
+    setLineDash: vi.fn(),
+    fillStyle: '#fff',
+    strokeStyle: '#000',
+  };
+  return { ctx, strokes };
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────
+
+describe('mlineGeometry', () => {
+  it('offsets each element along the vertex miters', () => {
+    const geometry = mlineGeometry(makeMLine());
+    expect(geometry.elements).toEqual([
+      [[{ x: 0, y: 0.5 }, { x: 10, y: 0.5 }]],
+      [[{ x: 0, y: -0.5 }, { x: 10, y: -0.5 }]],
+    ]);
+    expect(geometry.fill).toEqual([[{ x: 0, y: 0.5 }, { x: 10, y: 0.5 }, { x: 10, y: -0.5 }, { x: 0, y: -0.5 }]]);
+  });
+
+  it('draws only the pieces between segment parameters', () => {
+    const mline = makeMLine({
+      vertices: [vertex(0, 0, [0, 1], [[0.5, 2, 4, 6], [-0.5]]), vertex(10, 0, [0, 1])],
+    });
+    const [top, bottom] = mlineGeometry(mline).elements;
+    expect(top).toEqual([[{ x: 2, y: 0.5 }, { x: 4, y: 0.5 }], [{ x: 6, y: 0.5 }, { x: 10, y: 0.5 }]]);
+    expect(bottom).toEqual([[{ x: 0, y: -0.5 }, { x: 10, y: -0.5 }]]);
+  });
+
+  it('closes back to the first vertex with separate fill rings', () => {
+    const s = Math.SQRT2;
+    const mline = makeMLine({
+      flags: 3,
+      vertices: [
+        vertex(0, 0, [s / 2, s / 2], [[s, 0], [-s, 0]]),
+        vertex(10, 0, [-s / 2, s / 2], [[s, 0], [-s, 0]]),
+        vertex(10, 10, [-s / 2, -s / 2], [[s, 0], [-s, 0]]),
+        vertex(0, 10, [s / 2, -s / 2], [[s, 0], [-s, 0]]),
+      ],
+    });
+    const { elements, fill } = mlineGeometry(mline);
+    // One continuous run per element, ending where it started
+    expect(elements[0]).toHaveLength(1);
+    expect(elements[0]![0]).toHaveLength(5);
+    expect(elements[0]![0]![4]!.x).toBeCloseTo(1);
+    expect(elements[0]![0]![4]!.y).toBeCloseTo(1);
+    expect(fill).toHaveLength(2);
+  });
+
+  it('caps the ends and marks joints per the style flags', () => {
+    const mline = makeMLine({
+      vertices: [vertex(0, 0, [0, 1]), vertex(5, 0, [0, 1]), vertex(10, 0, [0, 1])],
+    });
+    const caps = mlineCaps(mline, makeStyle({ flags: 2 | 16 | 1024 }));
+    expect(caps[0]).toEqual([{ x: 5, y: 0.5 }, { x: 5, y: -0.5 }]);
+    expect(caps[1]).toEqual([{ x: 0, y: 0.5 }, { x: 0, y: -0.5 }]);
+    // Round end cap bulges past the last vertex
+    const arc = caps[2]!;
+    expect(arc[0]).toEqual({ x: 10, y: 0.5 });
+    expect(Math.max(...arc.map(p => p.x))).toBeCloseTo(10.5);
+    expect(mlineCaps({ ...mline, flags: 1 | 4 | 8 }, makeStyle({ flags: 16 | 256 }))).toEqual([]);
+  });
+
+  it('finds the style by handle, then name, else STANDARD', () => {
+    const doc = makeDoc();
+    expect(findMLineStyle(doc, makeMLine()).name).toBe('WALL');
+    expect(findMLineStyle(doc, makeMLine({ styleHandle: undefined, styleName: 'wall' })).name).toBe('WALL');
+    expect(findMLineStyle(doc, makeMLine({ styleHandle: undefined, styleName: 'OTHER' })).name).toBe('STANDARD');
+  });
+});
+
+// ─── Drawing ────────────────────────────────────────────────────────
+
+describe('drawMLine', () => {
+  it('strokes each element in its own color over the fill', () => {
+    const { ctx, strokes } = mockCtx();
+    drawMLine(ctx as unknown as CanvasRenderingContext2D, makeMLine(), makeDoc(makeStyle({ flags: 1 })), 'dark', 0.01);
+    expect(ctx.fill).toHaveBeenCalledWith('evenodd');
+    expect(strokes).toEqual(['#FF0000', '#0000FF']);
+    expect(ctx.restore).toHaveBeenCalled();
+  });
+
+  it('draws caps in the MLINE color and skips fill when highlighted', () => {
+    const { ctx, strokes } = mockCtx();
+    ctx.strokeStyle = '#abcdef';
+    drawMLine(
+      ctx as unknown as CanvasRenderingContext2D, makeMLine(), makeDoc(makeStyle({ flags: 1 | 16 })),
+      'dark', 0.01, { lineWeightMode: 'screen', highlight: true },
+    );
+    expect(ctx.fill).not.toHaveBeenCalled();
+    expect(strokes).toEqual(['#abcdef', '#abcdef', '#abcdef']);
+  });
+});
+
+// ─── Extents and selection ──────────────────────────────────────────
+
+describe('MLINE extents and selection', () => {
+  it('bounds the element lines', () => {
+    expect(computeEntityBBox(makeMLine())).toEqual({ minX: 0, minY: -0.5, maxX: 10, maxY: 0.5 });
+  });
+
+  it('hits between the outermost elements', () => {
+    expect(distanceToEntity(5, 0, makeMLine())).toBe(0);
+    expect(distanceToEntity(5, 2, makeMLine())).toBeCloseTo(1.5);
+  });
+});
@@ -0,0 +1,84 @@
+import type { DxfDocument, DxfEntityBase, DxfMLineEntity, Point2D } from '../../parser/types.js';
+import type { Theme } from '../theme.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { resolveEntityColor } from '../resolve-color.js';
+import { resolveEntityLineDash } from '../resolve-linetype.js';
+import { MLINE_STYLE_FILL, findMLineStyle, mlineCaps, mlineGeometry } from '../../utils/mline.js';
+
+/**
+ * Draw an MLINE as its style's parallel element lines, each with the
+ * element's color and line type, over the optional fill between the
+ * outermost elements. Caps and joints use the MLINE's own color. When
+ * highlighted, everything is stroked in the current color without fill.
+ */
+export function drawMLine(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfMLineEntity,
+  doc: DxfDocument,
+  theme: Theme,
+  pixelSize: number,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  parent?: BlockContext,
+): void {
+  const style = findMLineStyle(doc, entity);
+  const geometry = mlineGeometry(entity);
+  const entityColor = ctx.strokeStyle;
+
+  ctx.save();
+
+  if (!options.highlight && (style.flags & MLINE_STYLE_FILL) && geometry.fill.length > 0) {
+    const fill = elementProperties(entity, style.fillColor, entity.lineType);
+    ctx.fillStyle = resolveEntityColor(fill, doc.layers, theme, parent, options.layerColors);
+    ctx.beginPath();
+    for (const ring of geometry.fill) appendPath(ctx, ring, true);
+    ctx.fill('evenodd');
+  }
+
+  geometry.elements.forEach((pieces, j) => {
+    if (pieces.length === 0) return;
+    if (!options.highlight) {
+      const element = style.elements[j];
+      const props = elementProperties(entity, element?.color ?? 256, element?.lineType ?? 'BYLAYER');
+      ctx.strokeStyle = resolveEntityColor(props, doc.layers, theme, parent, options.layerColors);
+      ctx.setLineDash(resolveEntityLineDash(props, doc, pixelSize, parent));
+    }
+    ctx.beginPath();
+    for (const piece of pieces) appendPath(ctx, piece, false);
+    ctx.stroke();
+  });
+
+  const caps = mlineCaps(entity, style);
+  if (caps.length > 0) {
+    ctx.strokeStyle = entityColor;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    for (const cap of caps) appendPath(ctx, cap, false);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
+
+/**
+ * The MLINE's properties with an element's color and line type. BYBLOCK
+ * element properties take the MLINE's own.
+ */
+function elementProperties(entity: DxfMLineEntity, color: number, lineType: string): DxfEntityBase {
+  const byBlock = color === 0;
+  return {
+    ...entity,
+    color: byBlock ? entity.color : color,
+    trueColor: byBlock ? entity.trueColor : undefined,
+    lineType: lineType.toUpperCase() === 'BYBLOCK' ? entity.lineType : lineType,
+  };
+}
+
+function appendPath(ctx: CanvasRenderingContext2D, points: Point2D[], close: boolean): void {
+  const first = points[0];
+  if (!first) return;
+  ctx.moveTo(first.x, first.y);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i]!.x, points[i]!.y);
+  if (close) ctx.closePath();
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfLwPolylineEntity } from '../../parser/types.js';
+import { drawLwPolyline } from './draw-polyline.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockCtx() {
+  return {
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    arc: vi.fn(),
+    closePath: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+  };
+}
+
+function makeLwPolyline(overrides?: Partial<DxfLwPolylineEntity>): DxfLwPolylineEntity {
+  return {
+    type: 'LWPOLYLINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    vertices: [
+      { x: 0, y: 0, bulge: 0, startWidth: 0, endWidth: 0 },
+      { x: 10, y: 0, bulge: 0, startWidth: 0, endWidth: 0 },
+      { x: 10, y: 10, bulge: 0, startWidth: 0, endWidth: 0 },
+    ],
+    closed: false,
+    constantWidth: 0,
+    elevation: 0,
+    ...overrides,
+  };
+}
+
+// ─── drawLwPolyline ─────────────────────────────────────────────────
+
+describe('drawLwPolyline', () => {
+  it('strokes hairline polylines', () => {
+    const ctx = mockCtx();
+    drawLwPolyline(ctx as unknown as CanvasRenderingContext2D, makeLwPolyline());
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+
+  it('fills constant-width polylines', () => {
+    const ctx = mockCtx();
+    drawLwPolyline(ctx as unknown as CanvasRenderingContext2D, makeLwPolyline({ constantWidth: 1 }));
+    expect(ctx.fill).toHaveBeenCalledOnce();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+    expect(ctx.closePath).toHaveBeenCalledTimes(2);
+  });
+
+  it('fills wide segments and strokes zero-width ones', () => {
+    const ctx = mockCtx();
+    const entity = makeLwPolyline();
+    entity.vertices[0]!.startWidth = 2;
+    entity.vertices[0]!.endWidth = 2;
+    drawLwPolyline(ctx as unknown as CanvasRenderingContext2D, entity);
+    expect(ctx.fill).toHaveBeenCalledOnce();
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(10, 10);
+  });
+});
@@ -1,10 +1,16 @@
 import type { DxfLwPolylineEntity, DxfPolylineEntity } from '../../parser/types.js';
 import { drawBulgeArc } from '../../utils/math.js';
+import { buildWidePolyline, isWidePolyline } from '../../utils/polyline-width.js';
 
 export function drawLwPolyline(ctx: CanvasRenderingContext2D, entity: DxfLwPolylineEntity): void {
   const verts = entity.vertices;
   if (verts.length < 2) return;
 
+  if (isWidePolyline(entity)) {
+    drawWidePolyline(ctx, entity);
+    return;
+  }
+
   ctx.beginPath();
   ctx.moveTo(verts[0]!.x, verts[0]!.y);
 
@@ -28,6 +34,11 @@ export function drawPolyline(ctx: CanvasRenderingContext2D, entity: DxfPolylineE
   const verts = entity.vertices;
   if (verts.length < 2) return;
 
+  if (isWidePolyline(entity)) {
+    drawWidePolyline(ctx, entity);
+    return;
+  }
+
   ctx.beginPath();
   ctx.moveTo(verts[0]!.x, verts[0]!.y);
 
@@ -47,3 +58,34 @@ export function drawPolyline(ctx: CanvasRenderingContext2D, entity: DxfPolylineE
 
   ctx.stroke();
 }
+
+/**
+ * Fill the outlines of wide segments in the current fill style, then stroke
+ * any zero-width segments as hairlines.
+ */
+function drawWidePolyline(ctx: CanvasRenderingContext2D, entity: DxfLwPolylineEntity | DxfPolylineEntity): void {
+  const { outlines, thinSegments } = buildWidePolyline(entity);
+
+  ctx.beginPath();
+  for (const outline of outlines) {
+    ctx.moveTo(outline[0]!.x, outline[0]!.y);
+    for (let i = 1; i < outline.length; i++) ctx.lineTo(outline[i]!.x, outline[i]!.y);
+    ctx.closePath();
+  }
+  ctx.fill();
+
+  if (thinSegments.length === 0) return;
+  const verts = entity.vertices;
+  ctx.beginPath();
+  for (const i of thinSegments) {
+    const current = verts[i]!;
+    const next = verts[(i + 1) % verts.length]!;
+    ctx.moveTo(current.x, current.y);
+    if (Math.abs(current.bulge) < 1e-10) {
+      ctx.lineTo(next.x, next.y);
+    } else {
+      drawBulgeArc(ctx, current.x, current.y, next.x, next.y, current.bulge);
+    }
+  }
+  ctx.stroke();
+}
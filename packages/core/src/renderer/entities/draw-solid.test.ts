@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Dxf3DFaceEntity, DxfEntityBase, DxfSolidEntity } from '../../parser/types.js';
+import { drawSolid, draw3DFace } from './draw-solid.js';
+import { computeEntityBBox } from '../../utils/bbox.js';
+import { distanceToEntity, SpatialIndex } from '../../viewer/selection.js';
+import { findSnaps } from '../../viewer/measure.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+function mockCtx() {
+  return {
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+  };
+}
+
+/** 10×10 square, corners in DXF "Z" order. */
+function makeSolid(overrides?: Partial<DxfSolidEntity>): DxfSolidEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'SOLID',
+    points: [
+      { x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }, { x: 0, y: 10, z: 0 }, { x: 10, y: 10, z: 0 },
+    ],
+    ...overrides,
+  };
+}
+
+/** 10×10 square, corners in drawing order. */
+function makeFace(overrides?: Partial<Dxf3DFaceEntity>): Dxf3DFaceEntity {
+  return {
+    ...BASE_ENTITY,
+    type: '3DFACE',
+    points: [
+      { x: 0, y: 0, z: 0 }, { x: 10, y: 0, z: 0 }, { x: 10, y: 10, z: 0 }, { x: 0, y: 10, z: 0 },
+    ],
+    invisibleEdges: 0,
+    ...overrides,
+  };
+}
+
+// ─── drawSolid / draw3DFace ─────────────────────────────────────────
+
+describe('drawSolid', () => {
+  it('fills the corners in 1-2-4-3 order', () => {
+    const ctx = mockCtx();
+    drawSolid(ctx as unknown as CanvasRenderingContext2D, makeSolid());
+    expect(ctx.moveTo).toHaveBeenCalledWith(0, 0);
+    expect(ctx.lineTo.mock.calls).toEqual([[10, 0], [10, 10], [0, 10]]);
+    expect(ctx.fill).toHaveBeenCalledOnce();
+  });
+});
+
+describe('draw3DFace', () => {
+  it('strokes all four edges by default', () => {
+    const ctx = mockCtx();
+    draw3DFace(ctx as unknown as CanvasRenderingContext2D, makeFace());
+    expect(ctx.moveTo).toHaveBeenCalledOnce();
+    expect(ctx.lineTo).toHaveBeenCalledTimes(4);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.fill).not.toHaveBeenCalled();
+  });
+
+  it('skips invisible edges', () => {
+    const ctx = mockCtx();
+    // Edges 1-2 and 3-4 hidden
+    draw3DFace(ctx as unknown as CanvasRenderingContext2D, makeFace({ invisibleEdges: 1 | 4 }));
+    expect(ctx.moveTo.mock.calls).toEqual([[10, 0], [0, 10]]);
+    expect(ctx.lineTo.mock.calls).toEqual([[10, 10], [0, 0]]);
+  });
+});
+
+// ─── Bounds, hit-testing and snapping ───────────────────────────────
+
+describe('SOLID and 3DFACE geometry', () => {
+  it('bounds all corners', () => {
+    const tri = makeSolid({
+      points: [{ x: -1, y: 0, z: 0 }, { x: 5, y: 2, z: 0 }, { x: 0, y: 7, z: 0 }, { x: 0, y: 7, z: 0 }],
+    });
+    expect(computeEntityBBox(tri)).toEqual({ minX: -1, minY: 0, maxX: 5, maxY: 7 });
+  });
+
+  it('hits solids anywhere inside the fill', () => {
+    expect(distanceToEntity(5, 5, makeSolid())).toBe(0);
+    expect(distanceToEntity(13, 5, makeSolid())).toBeCloseTo(3);
+  });
+
+  it('hits mirrored solids where they are drawn', () => {
+    const mirrored = makeSolid({ extrusion: { x: 0, y: 0, z: -1 } });
+    expect(distanceToEntity(-5, 5, mirrored)).toBe(0);
+    expect(distanceToEntity(5, 5, mirrored)).toBeGreaterThan(0);
+  });
+
+  it('hits 3DFACE only on its visible edges', () => {
+    const face = makeFace({ invisibleEdges: 1 });
+    expect(distanceToEntity(5, 5, face)).toBeCloseTo(5);
+    // Near the hidden edge 1-2 (y = 0), the closest visible edge is further away
+    expect(distanceToEntity(5, 0.5, face)).toBeCloseTo(5);
+  });
+
+  it('snaps to corners and edge midpoints', () => {
+    const entities = [makeSolid(), makeFace({ invisibleEdges: 2 })];
+    const index = new SpatialIndex();
+    index.build(entities);
+
+    const solidSnaps = findSnaps(10, 5, [entities[0]!], index, 1);
+    expect(solidSnaps[0]).toMatchObject({ type: 'midpoint', point: { x: 10, y: 5 } });
+
+    // Edge 2-3 of the face is hidden, so it has no midpoint snap
+    const faceSnaps = findSnaps(10, 5, entities, index, 1).filter(s => s.entityIndex === 1);
+    expect(faceSnaps.some(s => s.point.x === 10 && s.point.y === 5)).toBe(false);
+    expect(faceSnaps[0]).toMatchObject({ type: 'endpoint' });
+  });
+});
@@ -0,0 +1,45 @@
+import type { Dxf3DFaceEntity, DxfSolidEntity, DxfTraceEntity } from '../../parser/types.js';
+
+/**
+ * Fill a SOLID or TRACE. DXF stores the corners in "Z" order, so the outline
+ * runs 1-2-4-3. The outline is also stroked so zero-area solids stay visible.
+ */
+export function drawSolid(ctx: CanvasRenderingContext2D, entity: DxfSolidEntity | DxfTraceEntity): void {
+  const [p1, p2, p3, p4] = entity.points;
+  ctx.beginPath();
+  ctx.moveTo(p1.x, p1.y);
+  ctx.lineTo(p2.x, p2.y);
+  ctx.lineTo(p4.x, p4.y);
+  ctx.lineTo(p3.x, p3.y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+}
+
+/** Stroke the visible edges of a 3DFACE, projected onto the XY plane. */
+export function draw3DFace(ctx: CanvasRenderingContext2D, entity: Dxf3DFaceEntity): void {
+  ctx.beginPath();
+  appendFaceEdges(ctx, entity);
+  ctx.stroke();
+}
+
+/**
+ * Append the visible edges of a 3DFACE (1-2, 2-3, 3-4, 4-1) as sub-paths.
+ * Edges whose bit is set in `invisibleEdges` are skipped.
+ */
+export function appendFaceEdges(ctx: CanvasRenderingContext2D, entity: Dxf3DFaceEntity): void {
+  const points = entity.points;
+  let penDown = false;
+
+  for (let i = 0; i < 4; i++) {
+    if (entity.invisibleEdges & (1 << i)) {
+      penDown = false;
+      continue;
+    }
+    const a = points[i]!;
+    const b = points[(i + 1) % 4]!;
+    if (!penDown) ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    penDown = true;
+  }
+}
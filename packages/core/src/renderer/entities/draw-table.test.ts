@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfTableCell, DxfTableEntity } from '../../parser/types.js';
+import { drawTable } from './draw-table.js';
+import { tableCellLayout, tableGridPoints } from '../../utils/table.js';
+import { computeEntityBBox } from '../../utils/bbox.js';
+import { distanceToEntity } from '../../viewer/selection.js';
+import { getEntityText, getTableCells } from '../../utils/entity-text.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+function cell(text: string, overrides?: Partial<DxfTableCell>): DxfTableCell {
+  return { type: 1, text, columnSpan: 1, rowSpan: 1, merged: false, alignment: 5, blockScale: 1, ...overrides };
+}
+
+/** 2×2 schedule at (0, 10) with a merged title row: rows 2 and 1 high, columns 4 and 6 wide. */
+function makeTable(overrides?: Partial<DxfTableEntity>): DxfTableEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'ACAD_TABLE',
+    blockName: '',
+    insertionPoint: { x: 0, y: 10, z: 0 },
+    horizontalDirection: { x: 1, y: 0, z: 0 },
+    rowCount: 2,
+    columnCount: 2,
+    rowHeights: [2, 1],
+    columnWidths: [4, 6],
+    horizontalMargin: 0.1,
+    verticalMargin: 0.1,
+    cells: [
+      [cell('{\\fArial|b1;Doors}', { columnSpan: 2 }), cell('', { merged: true })],
+      [cell('D1', { alignment: 1 }), cell('900', { alignment: 9, textHeight: 0.25 })],
+    ],
+    ...overrides,
+  };
+}
+
+function makeDoc(overrides?: Partial<DxfDocument>): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+    ...overrides,
+  };
+}
+
+function mockCtx() {
+  return {
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    scale: vi.fn(),
+    rotate: vi.fn(),
+    transform: vi.fn(),
+    fillText: vi.fn(),
+    measureText: vi.fn((text: string) => ({ width: text.length })),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    stroke: vi.fn(),
+    setLineDash: vi.fn(),
+    font: '',
+    fillStyle: '#fff',
+    strokeStyle: '#000',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+  };
+}
+
+// ─── Layout ─────────────────────────────────────────────────────────
+
+describe('tableCellLayout', () => {
+  it('draws merged ranges as one cell', () => {
+    const layout = tableCellLayout(makeTable());
+    expect(layout.map(c => [c.row, c.column])).toEqual([[0, 0], [1, 0], [1, 1]]);
+    expect(layout[0]!.corners).toEqual([{ x: 0, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 8 }, { x: 0, y: 8 }]);
+  });
+
+  it('anchors text by the cell alignment inside the margins', () => {
+    const [title, d1, size] = tableCellLayout(makeTable());
+    expect(title!.mtext).toMatchObject({ attachmentPoint: 5, insertionPoint: { x: 5, y: 9 }, width: 9.8 });
+    expect(d1!.mtext).toMatchObject({ attachmentPoint: 1, insertionPoint: { x: 0.1, y: 7.9 } });
+    expect(size!.mtext).toMatchObject({ attachmentPoint: 9, insertionPoint: { x: 9.9, y: 7.1 }, height: 0.25 });
+  });
+
+  it('follows the table direction', () => {
+    const table = makeTable({ horizontalDirection: { x: 0, y: 2, z: 0 } });
+    const [title] = tableCellLayout(table);
+    // Rows run up the y axis; the table extends to the right of it
+    expect(title!.corners[1].x).toBeCloseTo(0);
+    expect(title!.corners[1].y).toBeCloseTo(20);
+    expect(title!.corners[3].x).toBeCloseTo(2);
+    expect(title!.mtext!.rotation).toBeCloseTo(90);
+  });
+
+  it('returns the same layout for the same entity', () => {
+    const table = makeTable();
+    expect(tableCellLayout(table)).toBe(tableCellLayout(table));
+  });
+
+  it('places block cells at the cell center', () => {
+    const table = makeTable();
+    table.cells[1]![0] = cell('', { type: 2, blockName: 'DOOR', blockScale: 0.5 });
+    const [, block] = tableCellLayout(table);
+    expect(block!.insert).toMatchObject({ blockName: 'DOOR', insertionPoint: { x: 2, y: 7.5 }, scaleX: 0.5 });
+  });
+});
+
+// ─── drawTable ──────────────────────────────────────────────────────
+
+describe('drawTable', () => {
+  it('draws the cell grid and text without a table block', () => {
+    const ctx = mockCtx();
+    drawTable(ctx as unknown as CanvasRenderingContext2D, makeTable(), makeDoc(), { scale: 100, offsetX: 0, offsetY: 0 }, 'dark', 0.01);
+    expect(ctx.closePath).toHaveBeenCalledTimes(3);
+    expect(ctx.fillText.mock.calls.map(call => call[0])).toEqual(['Doors', 'D1', '900']);
+  });
+
+  it('draws the anonymous block instead of the grid when present', () => {
+    const ctx = mockCtx();
+    const doc = makeDoc({
+      blocks: new Map([['*T1', {
+        name: '*T1', basePoint: { x: 0, y: 0, z: 0 }, flags: 1,
+        entities: [{ ...BASE_ENTITY, type: 'LINE', start: { x: 0, y: 0, z: 0 }, end: { x: 10, y: 0, z: 0 } }],
+      }]]),
+    });
+    drawTable(ctx as unknown as CanvasRenderingContext2D, makeTable({ blockName: '*T1' }), doc, { scale: 1, offsetX: 0, offsetY: 0 }, 'dark', 1);
+    expect(ctx.translate).toHaveBeenCalledWith(0, 10);
+    expect(ctx.closePath).not.toHaveBeenCalled();
+    expect(ctx.fillText).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Extents, selection and text ────────────────────────────────────
+
+describe('table geometry and text', () => {
+  it('bounds the grid', () => {
+    expect(computeEntityBBox(makeTable())).toEqual({ minX: 0, minY: 7, maxX: 10, maxY: 10 });
+  });
+
+  it('picks anywhere inside the table', () => {
+    expect(distanceToEntity(5, 8, makeTable())).toBe(0);
+    expect(distanceToEntity(12, 8, makeTable())).toBeCloseTo(2);
+  });
+
+  it('snaps to grid crossings', () => {
+    expect(tableGridPoints(makeTable())).toContainEqual({ x: 4, y: 8 });
+    expect(tableGridPoints(makeTable())).toHaveLength(9);
+  });
+
+  it('exposes plain cell text by row and column', () => {
+    expect(getTableCells(makeTable())).toEqual([['Doors', ''], ['D1', '900']]);
+    expect(getEntityText(makeTable())).toBe('Doors\t\nD1\t900');
+  });
+});
@@ -0,0 +1,49 @@
+import type { DxfDocument, DxfTableEntity } from '../../parser/types.js';
+import type { ViewTransform } from '../camera.js';
+import type { Theme } from '../theme.js';
+import type { RenderStats } from '../debug-overlay.js';
+import type { DrawOptions } from '../draw-options.js';
+import type { BlockContext } from '../block-context.js';
+import { DEFAULT_DRAW_OPTIONS } from '../draw-options.js';
+import { tableBlockInsert, tableCellLayout } from '../../utils/table.js';
+import { getCodePageEncoding } from '../../parser/encoding.js';
+import { drawMText } from './draw-text.js';
+import { drawInsert } from './draw-insert.js';
+
+/**
+ * Draw an ACAD_TABLE through its anonymous `*T` block when the file has
+ * one, else directly from the cell grid: cell borders, cell text and block
+ * cells.
+ */
+export function drawTable(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfTableEntity,
+  doc: DxfDocument,
+  vt: ViewTransform,
+  theme: Theme,
+  pixelSize: number,
+  stats?: RenderStats,
+  options: DrawOptions = DEFAULT_DRAW_OPTIONS,
+  parent?: BlockContext,
+): void {
+  if (entity.blockName && doc.blocks.get(entity.blockName)?.entities.length) {
+    drawInsert(ctx, tableBlockInsert(entity), doc, vt, theme, pixelSize, 0, stats, options, parent);
+    return;
+  }
+
+  const layout = tableCellLayout(entity);
+
+  ctx.beginPath();
+  for (const { corners } of layout) {
+    ctx.moveTo(corners[0].x, corners[0].y);
+    for (let i = 1; i < 4; i++) ctx.lineTo(corners[i]!.x, corners[i]!.y);
+    ctx.closePath();
+  }
+  ctx.stroke();
+
+  const encoding = getCodePageEncoding(doc.header.dwgCodePage);
+  for (const { mtext, insert } of layout) {
+    if (mtext) drawMText(ctx, mtext, doc.styles, pixelSize, theme, options.shxFonts, encoding, options.fontMappings);
+    if (insert) drawInsert(ctx, insert, doc, vt, theme, pixelSize, 0, stats, options, parent);
+  }
+}
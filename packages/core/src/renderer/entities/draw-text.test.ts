@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfMTextEntity, DxfStyle, DxfTextEntity } from '../../parser/types.js';
+import { ShxFont } from '../shx-font.js';
+import { createFontMappings } from '../fonts.js';
+import { drawMText, drawText } from './draw-text.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function mockCtx() {
+  return {
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    scale: vi.fn(),
+    rotate: vi.fn(),
+    transform: vi.fn(),
+    fillText: vi.fn(),
+    // 1 unit per character at any font size
+    measureText: vi.fn((text: string) => ({ width: text.length })),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    font: '',
+    fillStyle: '#fff',
+    strokeStyle: '#000',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+  };
+}
+
+function makeText(overrides?: Partial<DxfTextEntity>): DxfTextEntity {
+  return {
+    type: 'TEXT',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    text: 'ABCD',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    height: 1,
+    rotation: 0,
+    widthFactor: 1,
+    obliqueAngle: 0,
+    style: 'STANDARD',
+    hAlign: 0,
+    vAlign: 0,
+    generationFlags: 0,
+    ...overrides,
+  };
+}
+
+function draw(entity: DxfTextEntity, styles = new Map<string, DxfStyle>(), shxFonts?: Map<string, ShxFont>) {
+  const ctx = mockCtx();
+  drawText(ctx as unknown as CanvasRenderingContext2D, entity, styles, 0.01, shxFonts);
+  return ctx;
+}
+
+/** SHX font with capital height 10 whose 'A' goes up 4, right 4, then advances 2 more. */
+function makeShxFont(): ShxFont {
+  return new ShxFont('shapes', 'TEST', 10, 2, new Map([[65, new Uint8Array([0x44, 0x40, 2, 0x20, 0])]]));
+}
+
+const SHX_STYLES = new Map([['Simplex', {
+  name: 'Simplex', fontName: 'simplex.shx', bigFontName: '', height: 0, widthFactor: 1, obliqueAngle: 0,
+}]]);
+
+// ─── drawText ───────────────────────────────────────────────────────
+
+describe('drawText', () => {
+  it('stretches FIT text horizontally between its points', () => {
+    const ctx = draw(makeText({ hAlign: 5, alignmentPoint: { x: 8, y: 0, z: 0 } }));
+    // Natural width 4, span 8: stretch x2 in X only
+    expect(ctx.scale).toHaveBeenLastCalledWith(2, 1);
+    expect(ctx.textAlign).toBe('left');
+  });
+
+  it('scales ALIGNED text uniformly', () => {
+    const ctx = draw(makeText({ hAlign: 3, alignmentPoint: { x: 2, y: 0, z: 0 } }));
+    expect(ctx.scale).toHaveBeenLastCalledWith(0.5, 0.5);
+  });
+
+  it('rotates ALIGNED/FIT text along the baseline between the points', () => {
+    const ctx = draw(makeText({ hAlign: 5, alignmentPoint: { x: 0, y: 4, z: 0 } }));
+    expect(ctx.translate).toHaveBeenCalledWith(0, 0);
+    expect(ctx.rotate).toHaveBeenCalledWith(-Math.PI / 2);
+  });
+
+  it('uses the STYLE table font, width factor and oblique angle', () => {
+    const styles = new Map([['Narrow', {
+      name: 'Narrow', fontName: 'times.ttf', bigFontName: '', height: 0, widthFactor: 0.75, obliqueAngle: 15,
+    }]]);
+    const ctx = draw(makeText({ style: 'Narrow' }), styles);
+    expect(ctx.font).toBe('1px "Times New Roman", serif');
+    expect(ctx.scale).toHaveBeenLastCalledWith(0.75, 1);
+    expect(ctx.transform).toHaveBeenCalledWith(1, 0, -Math.tan(15 * Math.PI / 180), 1, 0, 0);
+  });
+
+  it('maps fonts through the given font mappings', () => {
+    const ctx = mockCtx();
+    const mappings = createFontMappings({ 'txt.shx': '"Roboto Mono", monospace' });
+    const styles = new Map([['Txt', {
+      name: 'Txt', fontName: 'TXT.SHX', bigFontName: '', height: 0, widthFactor: 1, obliqueAngle: 0,
+    }]]);
+    drawText(ctx as unknown as CanvasRenderingContext2D, makeText({ style: 'Txt' }), styles, 0.01, undefined, undefined, mappings);
+    expect(ctx.font).toBe('1px "Roboto Mono", monospace');
+  });
+
+  it('keeps explicit entity width factors over the style', () => {
+    const styles = new Map([['Narrow', {
+      name: 'Narrow', fontName: '', bigFontName: '', height: 0, widthFactor: 0.75, obliqueAngle: 0,
+    }]]);
+    const ctx = draw(makeText({ style: 'Narrow', widthFactor: 1.5 }), styles);
+    expect(ctx.scale).toHaveBeenLastCalledWith(1.5, 1);
+  });
+
+  it('centers MIDDLE text vertically', () => {
+    const ctx = draw(makeText({ hAlign: 4, alignmentPoint: { x: 5, y: 5, z: 0 } }));
+    expect(ctx.textAlign).toBe('center');
+    expect(ctx.textBaseline).toBe('middle');
+  });
+});
+
+// ─── SHX fonts ──────────────────────────────────────────────────────
+
+describe('drawText with SHX fonts', () => {
+  const fonts = new Map([['simplex.shx', makeShxFont()]]);
+
+  it('strokes glyphs instead of filling canvas text', () => {
+    const ctx = draw(makeText({ text: 'A', height: 2, style: 'Simplex', insertionPoint: { x: 1, y: 1, z: 0 } }), SHX_STYLES, fonts);
+    expect(ctx.fillText).not.toHaveBeenCalled();
+    expect(ctx.moveTo).toHaveBeenCalledWith(1, 1);
+    // (4, 4) font units at height 2 is (0.8, 0.8)
+    const [x, y] = ctx.lineTo.mock.lastCall!;
+    expect(x).toBeCloseTo(1.8);
+    expect(y).toBeCloseTo(1.8);
+  });
+
+  it('stretches FIT text to the alignment point using glyph advances', () => {
+    const ctx = draw(makeText({
+      text: 'A', height: 2, style: 'Simplex', hAlign: 5, alignmentPoint: { x: 12, y: 0, z: 0 },
+    }), SHX_STYLES, fonts);
+    // Advance 0.6 heights = 1.2 wide, stretched x10 in X only
+    const [x, y] = ctx.lineTo.mock.lastCall!;
+    expect(x).toBeCloseTo(8);
+    expect(y).toBeCloseTo(0.8);
+  });
+
+  it('right-aligns on the advance width', () => {
+    const ctx = draw(makeText({
+      text: 'A', height: 10, style: 'Simplex', hAlign: 2, alignmentPoint: { x: 0, y: 0, z: 0 },
+    }), SHX_STYLES, fonts);
+    const [x, y] = ctx.moveTo.mock.calls[0]!;
+    expect(x).toBeCloseTo(-6);
+    expect(y).toBeCloseTo(0);
+  });
+
+  it('falls back to CSS fonts when the SHX font is not loaded', () => {
+    const ctx = draw(makeText({ style: 'Simplex' }), SHX_STYLES, new Map());
+    expect(ctx.fillText).toHaveBeenCalled();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+});
+
+describe('drawMText with SHX fonts', () => {
+  it('strokes runs in the fragment color', () => {
+    const ctx = mockCtx();
+    const entity: DxfMTextEntity = {
+      type: 'MTEXT',
+      layer: '0',
+      color: 256,
+      lineType: 'BYLAYER',
+      lineTypeScale: 1,
+      lineWeight: -1,
+      visible: true,
+      extrusion: { x: 0, y: 0, z: 1 },
+      text: '{\\C1;A}',
+      insertionPoint: { x: 0, y: 0, z: 0 },
+      height: 10,
+      width: 0,
+      attachmentPoint: 7,
+      drawingDirection: 1,
+      lineSpacingStyle: 1,
+      lineSpacingFactor: 1,
+      rotation: 0,
+      style: 'Simplex',
+      bgFill: 0,
+      bgFillScale: 1,
+    };
+    drawMText(ctx as unknown as CanvasRenderingContext2D, entity, SHX_STYLES, 0.01, 'dark', new Map([['simplex.shx', makeShxFont()]]));
+    expect(ctx.fillText).not.toHaveBeenCalled();
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+    expect(ctx.strokeStyle).toBe(ctx.fillStyle);
+    expect(ctx.strokeStyle).not.toBe('#fff');
+  });
+});
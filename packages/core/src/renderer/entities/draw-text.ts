@@ -1,30 +1,42 @@
-import type { DxfTextEntity, DxfMTextEntity } from '../../parser/types.js';
-
-const CAD_FONT_MAP: Record<string, string> = {
-  'standard':     'Arial, sans-serif',
-  'arial':        'Arial, sans-serif',
-  'arial.ttf':    'Arial, sans-serif',
-  'romans.shx':   '"Courier New", monospace',
-  'simplex.shx':  '"Courier New", monospace',
-  'txt.shx':      'monospace',
-  'monotxt.shx':  'monospace',
-  'isocp.shx':    '"Courier New", monospace',
-  'isocpeur.shx': '"Courier New", monospace',
-  'times.ttf':    '"Times New Roman", serif',
-  'timesnr.ttf':  '"Times New Roman", serif',
-  'gothic.ttf':   '"Century Gothic", sans-serif',
-};
-
-function mapCADFont(styleName: string): string {
-  const key = styleName.toLowerCase().trim();
-  return CAD_FONT_MAP[key] || 'sans-serif';
-}
+import type { DxfTextEntity, DxfMTextEntity, DxfStyle } from '../../parser/types.js';
+import type { Theme } from '../theme.js';
+import type { MTextFragment, MTextLayout, MTextStyle } from '../mtext.js';
+import type { FontMappings, ShxFontMap } from '../fonts.js';
+import type { ShxFont, ShxTextRun } from '../shx-font.js';
+import type { Matrix2D } from '../../utils/ocs.js';
+import { THEMES } from '../theme.js';
+import { getDisplayColor } from '../resolve-color.js';
+import { findShxFont, findTextStyle, mapCADFont, resolveStyleFont } from '../fonts.js';
+import { STACK_SCALE, layoutMText, tokenizeMText } from '../mtext.js';
+import { layoutShxText, strokeShxText } from '../shx-font.js';
+
+/** Horizontal alignment codes (TEXT code 72). */
+const H_ALIGNED = 3;
+const H_MIDDLE = 4;
+const H_FIT = 5;
 
-export function drawText(ctx: CanvasRenderingContext2D, entity: DxfTextEntity, pixelSize: number): void {
+export function drawText(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfTextEntity,
+  styles: Map<string, DxfStyle>,
+  pixelSize: number,
+  shxFonts?: ShxFontMap,
+  encoding?: string,
+  fontMappings?: FontMappings,
+): void {
   if (!entity.text || entity.height < pixelSize * 4) return; // skip unreadable text (< 4px)
 
+  // DXF omits codes 41/51 at their defaults, so defaults fall back to the STYLE table
+  const style = findTextStyle(styles, entity.style || 'Standard');
+  const widthFactor = entity.widthFactor !== 1 ? entity.widthFactor : style?.widthFactor || 1;
+  const obliqueAngle = entity.obliqueAngle || style?.obliqueAngle || 0;
+  const fontName = resolveStyleFont(styles, entity.style);
+
+  // ALIGNED and FIT: the text runs from the insertion point to the alignment point
+  const fitted = (entity.hAlign === H_ALIGNED || entity.hAlign === H_FIT) && entity.alignmentPoint;
+
   // Determine insertion point
-  const useAlignPoint = entity.hAlign !== 0 || entity.vAlign !== 0;
+  const useAlignPoint = !fitted && (entity.hAlign !== 0 || entity.vAlign !== 0);
   const px = useAlignPoint && entity.alignmentPoint
     ? entity.alignmentPoint.x
     : entity.insertionPoint.x;
@@ -32,6 +44,14 @@ export function drawText(ctx: CanvasRenderingContext2D, entity: DxfTextEntity, p
     ? entity.alignmentPoint.y
     : entity.insertionPoint.y;
 
+  const shx = findShxFont(shxFonts, fontName);
+  if (shx) {
+    const bigFont = style?.bigFontName ? findShxFont(shxFonts, style.bigFontName) : undefined;
+    const run = layoutShxText(entity.text, shx, bigFont, encoding);
+    strokeShxText(ctx, run, shxTextMatrix(entity, shx, run, px, py, widthFactor, obliqueAngle));
+    return;
+  }
+
   ctx.save();
 
   // Move to insertion point (in world coords, already flipped)
@@ -40,20 +60,39 @@ export function drawText(ctx: CanvasRenderingContext2D, entity: DxfTextEntity, p
   // Un-flip Y for text rendering
   ctx.scale(1, -1);
 
-  // Apply entity rotation (degrees -> radians, negate because Y was flipped)
-  if (entity.rotation) {
-    ctx.rotate(-entity.rotation * Math.PI / 180);
-  }
+  ctx.font = `${entity.height}px ${mapCADFont(fontName, fontMappings)}`;
 
-  // Apply width factor as horizontal scale
-  if (entity.widthFactor !== 1.0) {
-    ctx.scale(entity.widthFactor, 1);
+  if (fitted) {
+    // Baseline direction and length come from the two points
+    const dx = fitted.x - entity.insertionPoint.x;
+    const dy = fitted.y - entity.insertionPoint.y;
+    const length = Math.hypot(dx, dy);
+    ctx.rotate(-Math.atan2(dy, dx));
+
+    const natural = ctx.measureText(entity.text).width * widthFactor;
+    if (natural > 0 && length > 0) {
+      const stretch = length / natural;
+      // ALIGNED keeps the proportions (height follows width); FIT only stretches
+      ctx.scale(widthFactor * stretch, entity.hAlign === H_ALIGNED ? stretch : 1);
+    } else {
+      ctx.scale(widthFactor, 1);
+    }
+  } else {
+    // Apply entity rotation (degrees -> radians, negate because Y was flipped)
+    if (entity.rotation) {
+      ctx.rotate(-entity.rotation * Math.PI / 180);
+    }
+
+    // Apply width factor as horizontal scale
+    if (widthFactor !== 1.0) {
+      ctx.scale(widthFactor, 1);
+    }
   }
 
-  // Apply oblique angle as skew
-  if (entity.obliqueAngle) {
-    const skew = Math.tan(entity.obliqueAngle * Math.PI / 180);
-    ctx.transform(1, 0, skew, 1, 0, 0);
+  // Apply oblique angle as skew (Y points down here, so lean the tops forward)
+  if (obliqueAngle) {
+    const skew = Math.tan(obliqueAngle * Math.PI / 180);
+    ctx.transform(1, 0, -skew, 1, 0, 0);
   }
 
   // Generation flags
@@ -62,23 +101,19 @@ export function drawText(ctx: CanvasRenderingContext2D, entity: DxfTextEntity, p
   if (backward) ctx.scale(-1, 1);
   if (upsideDown) ctx.scale(1, -1);
 
-  // Font
-  const fontName = mapCADFont(entity.style || 'Standard');
-  ctx.font = `${entity.height}px ${fontName}`;
-
   // Horizontal alignment
   switch (entity.hAlign) {
     case 0: ctx.textAlign = 'left'; break;
     case 1: ctx.textAlign = 'center'; break;
     case 2: ctx.textAlign = 'right'; break;
-    case 3: ctx.textAlign = 'left'; break;   // ALIGNED
-    case 4: ctx.textAlign = 'center'; break;  // MIDDLE
-    case 5: ctx.textAlign = 'left'; break;   // FIT
+    case H_ALIGNED: ctx.textAlign = 'left'; break;
+    case H_MIDDLE: ctx.textAlign = 'center'; break;
+    case H_FIT: ctx.textAlign = 'left'; break;
     default: ctx.textAlign = 'left';
   }
 
-  // Vertical alignment
-  switch (entity.vAlign) {
+  // Vertical alignment (MIDDLE centers vertically as well)
+  switch (entity.hAlign === H_MIDDLE ? 2 : entity.vAlign) {
     case 0: ctx.textBaseline = 'alphabetic'; break;
     case 1: ctx.textBaseline = 'bottom'; break;
     case 2: ctx.textBaseline = 'middle'; break;
@@ -91,23 +126,155 @@ export function drawText(ctx: CanvasRenderingContext2D, entity: DxfTextEntity, p
 }
 
 /**
- * Strip MTEXT formatting codes for basic text rendering.
+ * Matrix from SHX run coordinates (text heights, Y up) to world space,
+ * applying the same alignment, stretching, obliquing and mirroring as the
+ * canvas text path.
+ */
+function shxTextMatrix(
+  entity: DxfTextEntity,
+  font: ShxFont,
+  run: ShxTextRun,
+  px: number,
+  py: number,
+  widthFactor: number,
+  obliqueAngle: number,
+): Matrix2D {
+  const h = entity.height;
+  const fitted = (entity.hAlign === H_ALIGNED || entity.hAlign === H_FIT) && entity.alignmentPoint;
+
+  let rotation: number;
+  let sx = h * widthFactor;
+  let sy = h;
+  let u0 = 0;
+  let v0 = 0;
+
+  if (fitted) {
+    const dx = fitted.x - entity.insertionPoint.x;
+    const dy = fitted.y - entity.insertionPoint.y;
+    const length = Math.hypot(dx, dy);
+    rotation = Math.atan2(dy, dx);
+    const natural = run.width * sx;
+    if (natural > 0 && length > 0) {
+      const stretch = length / natural;
+      sx *= stretch;
+      if (entity.hAlign === H_ALIGNED) sy *= stretch;
+    }
+  } else {
+    rotation = (entity.rotation || 0) * Math.PI / 180;
+    if (entity.hAlign === 1 || entity.hAlign === H_MIDDLE) u0 = -run.width / 2;
+    else if (entity.hAlign === 2) u0 = -run.width;
+
+    switch (entity.hAlign === H_MIDDLE ? 2 : entity.vAlign) {
+      case 1: v0 = font.below / font.above; break;
+      case 2: v0 = -0.5; break;
+      case 3: v0 = -1; break;
+    }
+  }
+
+  // Mirror, then lean the glyph tops forward, then scale
+  const bx = (entity.generationFlags & 2) !== 0 ? -1 : 1;
+  const by = (entity.generationFlags & 4) !== 0 ? -1 : 1;
+  const shear = obliqueAngle ? Math.tan(obliqueAngle * Math.PI / 180) : 0;
+  const a = sx * bx;
+  const c = sx * shear * by;
+  const d = sy * by;
+  const e = a * u0 + c * v0;
+  const f = d * v0;
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return [cos * a, sin * a, cos * c - sin * d, sin * c + cos * d, px + cos * e - sin * f, py + sin * e + cos * f];
+}
+
+/** SHX fonts for an MTEXT entity: the loaded fonts and its style's big font, plus the CSS mappings for other fonts. */
+interface MTextShx {
+  fonts: ShxFontMap | undefined;
+  bigFont: ShxFont | undefined;
+  encoding: string | undefined;
+  mappings: FontMappings | undefined;
+}
+
+/**
+ * Laid-out MTEXT by entity. Text is measured in drawing units, so layouts
+ * don't depend on zoom; they are redone when font mappings change.
  */
-function stripMTextFormatting(text: string): string {
-  return text
-    .replace(/\\P/g, '\n')                        // paragraph break
-    .replace(/\\[fFHWQTCAaLlOoKk][^;]*;/g, '')   // formatting commands with ;
-    .replace(/\\\\/g, '\\')                        // escaped backslash
-    .replace(/\\~/g, '\u00A0')                     // non-breaking space
-    .replace(/\{/g, '')                             // scope open
-    .replace(/\}/g, '')                             // scope close
-    .replace(/\\S[^;]*;/g, '')                      // stacked fractions
-    .trim();
+const mtextLayouts = new WeakMap<DxfMTextEntity, {
+  layout: MTextLayout;
+  shxFonts: ShxFontMap | undefined;
+  fontMappings: FontMappings | undefined;
+}>();
+
+function mtextFont(style: MTextStyle, mappings: FontMappings | undefined): string {
+  const italic = style.italic ? 'italic ' : '';
+  const bold = style.bold ? 'bold ' : '';
+  return `${italic}${bold}${style.height}px ${mapCADFont(style.font, mappings)}`;
+}
+
+/** Natural width of a run at its height, before width factor and tracking. */
+function measureRun(ctx: CanvasRenderingContext2D, text: string, style: MTextStyle, shx: MTextShx): number {
+  const font = findShxFont(shx.fonts, style.font);
+  if (font) return layoutShxText(text, font, shx.bigFont, shx.encoding).width * style.height;
+  ctx.font = mtextFont(style, shx.mappings);
+  return ctx.measureText(text).width;
+}
+
+function getMTextLayout(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfMTextEntity,
+  styles: Map<string, DxfStyle>,
+  shx: MTextShx,
+): MTextLayout {
+  const cached = mtextLayouts.get(entity);
+  if (cached && cached.shxFonts === shx.fonts && cached.fontMappings === shx.mappings) return cached.layout;
+
+  const textStyle = findTextStyle(styles, entity.style || 'Standard');
+  const base: MTextStyle = {
+    font: resolveStyleFont(styles, entity.style),
+    bold: false,
+    italic: false,
+    height: entity.height,
+    color: null,
+    trueColor: null,
+    underline: false,
+    overline: false,
+    strike: false,
+    widthFactor: textStyle?.widthFactor || 1,
+    tracking: 1,
+    oblique: textStyle?.obliqueAngle || 0,
+    valign: 0,
+  };
+  const measure = (text: string, style: MTextStyle): number => measureRun(ctx, text, style, shx);
+  const layout = layoutMText(tokenizeMText(entity.text, base), {
+    width: entity.width,
+    attachmentPoint: entity.attachmentPoint,
+    lineSpacingStyle: entity.lineSpacingStyle,
+    lineSpacingFactor: entity.lineSpacingFactor,
+    height: entity.height,
+  }, measure);
+  mtextLayouts.set(entity, { layout, shxFonts: shx.fonts, fontMappings: shx.mappings });
+  return layout;
 }
 
-export function drawMText(ctx: CanvasRenderingContext2D, entity: DxfMTextEntity, pixelSize: number): void {
+export function drawMText(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfMTextEntity,
+  styles: Map<string, DxfStyle>,
+  pixelSize: number,
+  theme: Theme,
+  shxFonts?: ShxFontMap,
+  encoding?: string,
+  fontMappings?: FontMappings,
+): void {
   if (!entity.text || entity.height < pixelSize * 4) return; // skip unreadable text (< 4px)
 
+  const bigFontName = findTextStyle(styles, entity.style || 'Standard')?.bigFontName;
+  const shx: MTextShx = {
+    fonts: shxFonts,
+    bigFont: bigFontName ? findShxFont(shxFonts, bigFontName) : undefined,
+    encoding,
+    mappings: fontMappings,
+  };
+
   ctx.save();
   ctx.translate(entity.insertionPoint.x, entity.insertionPoint.y);
   ctx.scale(1, -1); // un-flip Y
@@ -118,33 +285,170 @@ export function drawMText(ctx: CanvasRenderingContext2D, entity: DxfMTextEntity,
     : (entity.rotation || 0) * Math.PI / 180;
   if (rotation) ctx.rotate(-rotation);
 
-  // Parse text and strip formatting for v1 (basic implementation)
-  const plainText = stripMTextFormatting(entity.text);
-  const lines = plainText.split('\n');
-
-  const lineHeight = entity.height * (entity.lineSpacingFactor || 1.4);
-  const fontName = mapCADFont(entity.style || 'Standard');
-  ctx.font = `${entity.height}px ${fontName}`;
-
-  // Attachment point alignment
-  // 1=TL, 2=TC, 3=TR, 4=ML, 5=MC, 6=MR, 7=BL, 8=BC, 9=BR
-  const col = ((entity.attachmentPoint - 1) % 3); // 0=left, 1=center, 2=right
-  const row = Math.floor((entity.attachmentPoint - 1) / 3); // 0=top, 1=middle, 2=bottom
-  const alignments: CanvasTextAlign[] = ['left', 'center', 'right'];
-  ctx.textAlign = alignments[col] ?? 'left';
-
-  // Vertical offset based on attachment row
-  let startY = 0;
-  const totalHeight = lines.length * lineHeight;
-  switch (row) {
-    case 0: startY = entity.height; break;  // top: first line baseline
-    case 1: startY = entity.height - totalHeight / 2; break; // middle
-    case 2: startY = entity.height - totalHeight; break; // bottom
+  const layout = getMTextLayout(ctx, entity, styles, shx);
+  const entityColor = ctx.fillStyle;
+
+  if (entity.bgFill & (1 | 2 | 16)) drawMTextBackground(ctx, entity, layout, theme);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  for (const line of layout.lines) {
+    for (const fragment of line.fragments) {
+      const style = fragment.style;
+      if (style.height < pixelSize) continue; // sub-pixel runs
+
+      // \A: align shorter runs to the middle or top of the line
+      const y = line.y - (line.height - style.height) * style.valign / 2;
+      ctx.fillStyle = mtextColor(style, theme, entityColor);
+
+      if (fragment.type === 'text') {
+        drawMTextRun(ctx, fragment.text, fragment.x, y, style, shx);
+        drawDecorations(ctx, fragment.x, y, fragment.width, style, pixelSize);
+      } else {
+        drawStack(ctx, fragment, y, pixelSize, shx);
+      }
+    }
+  }
+
+  ctx.restore();
+}
+
+function mtextColor(style: MTextStyle, theme: Theme, entityColor: string | CanvasGradient | CanvasPattern): string | CanvasGradient | CanvasPattern {
+  if (style.trueColor !== null) {
+    return `rgb(${(style.trueColor >> 16) & 0xFF},${(style.trueColor >> 8) & 0xFF},${style.trueColor & 0xFF})`;
+  }
+  if (style.color !== null) return getDisplayColor(style.color, theme);
+  return entityColor;
+}
+
+/** Draw a run with its width factor, obliquing and tracking. */
+function drawMTextRun(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  style: MTextStyle,
+  shx: MTextShx,
+): void {
+  const font = findShxFont(shx.fonts, style.font);
+  if (font) {
+    const run = layoutShxText(text, font, shx.bigFont, shx.encoding);
+    if (style.tracking !== 1) {
+      for (const g of run.glyphs) g.x *= style.tracking;
+    }
+    // Y points down here; lean the tops of the glyphs forward
+    const sx = style.height * style.widthFactor;
+    const shear = style.oblique ? Math.tan(style.oblique * Math.PI / 180) : 0;
+    ctx.strokeStyle = ctx.fillStyle;
+    strokeShxText(ctx, run, [sx, 0, sx * shear, -style.height, x, y]);
+    return;
   }
 
-  for (let i = 0; i < lines.length; i++) {
-    ctx.fillText(lines[i]!, 0, startY + i * lineHeight);
+  ctx.font = mtextFont(style, shx.mappings);
+  if (style.widthFactor === 1 && style.oblique === 0 && style.tracking === 1) {
+    ctx.fillText(text, x, y);
+    return;
   }
 
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(style.widthFactor, 1);
+  // Y points down here: lean the tops of the glyphs forward
+  if (style.oblique) ctx.transform(1, 0, -Math.tan(style.oblique * Math.PI / 180), 1, 0, 0);
+  if (style.tracking === 1) {
+    ctx.fillText(text, 0, 0);
+  } else {
+    let cx = 0;
+    for (const ch of text) {
+      ctx.fillText(ch, cx, 0);
+      cx += ctx.measureText(ch).width * style.tracking;
+    }
+  }
   ctx.restore();
 }
+
+function drawDecorations(
+  ctx: CanvasRenderingContext2D,
+  x: number, y: number, width: number,
+  style: MTextStyle,
+  pixelSize: number,
+): void {
+  const h = style.height;
+  const thickness = Math.max(h * 0.06, pixelSize);
+  if (style.underline) ctx.fillRect(x, y + h * 0.2 - thickness / 2, width, thickness);
+  if (style.overline) ctx.fillRect(x, y - h * 1.2 - thickness / 2, width, thickness);
+  if (style.strike) ctx.fillRect(x, y - h * 0.5 - thickness / 2, width, thickness);
+}
+
+/** Draw a stacked fraction (`/` horizontal bar, `#` diagonal, `^` tolerance). */
+function drawStack(
+  ctx: CanvasRenderingContext2D,
+  fragment: Extract<MTextFragment, { type: 'stack' }>,
+  y: number,
+  pixelSize: number,
+  shx: MTextShx,
+): void {
+  const h = fragment.style.height;
+  const small: MTextStyle = { ...fragment.style, height: h * STACK_SCALE };
+  const thickness = Math.max(h * 0.06, pixelSize);
+  const topWidth = measureRun(ctx, fragment.top, small, shx) * small.widthFactor * small.tracking;
+  const bottomWidth = measureRun(ctx, fragment.bottom, small, shx) * small.widthFactor * small.tracking;
+
+  if (fragment.kind === '#') {
+    // Diagonal: raised numerator, slash, denominator on the baseline
+    const slashX = fragment.x + topWidth + h * 0.1;
+    drawMTextRun(ctx, fragment.top, fragment.x, y - h * 0.4, small, shx);
+    ctx.save();
+    ctx.lineWidth = thickness;
+    ctx.strokeStyle = ctx.fillStyle;
+    ctx.beginPath();
+    ctx.moveTo(slashX, y);
+    ctx.lineTo(slashX + h * 0.3, y - h);
+    ctx.stroke();
+    ctx.restore();
+    drawMTextRun(ctx, fragment.bottom, slashX + h * 0.4, y, small, shx);
+    return;
+  }
+
+  // Horizontal and tolerance stacks sit around the middle of the line
+  const barY = y - h * 0.5;
+  const center = fragment.kind === '/';
+  const topX = center ? fragment.x + (fragment.width - topWidth) / 2 : fragment.x;
+  const bottomX = center ? fragment.x + (fragment.width - bottomWidth) / 2 : fragment.x;
+  drawMTextRun(ctx, fragment.top, topX, barY - h * 0.1, small, shx);
+  drawMTextRun(ctx, fragment.bottom, bottomX, barY + h * 0.1 + small.height, small, shx);
+  if (center) ctx.fillRect(fragment.x, barY - thickness / 2, fragment.width, thickness);
+}
+
+/** Background mask (`bgFill` 1/2) and text frame (`bgFill` 16) behind the text box. */
+function drawMTextBackground(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfMTextEntity,
+  layout: MTextLayout,
+  theme: Theme,
+): void {
+  const border = Math.max(0, (entity.bgFillScale || 1) - 1) * entity.height;
+  const x = layout.box.minX - border;
+  const y = layout.box.minY - border;
+  const w = layout.box.maxX - layout.box.minX + border * 2;
+  const h = layout.box.maxY - layout.box.minY + border * 2;
+
+  if (entity.bgFill & (1 | 2)) {
+    ctx.save();
+    if (entity.bgFill & 2) {
+      ctx.fillStyle = THEMES[theme].backgroundColor;
+    } else if (entity.bgFillTrueColor !== undefined) {
+      const c = entity.bgFillTrueColor;
+      ctx.fillStyle = `rgb(${(c >> 16) & 0xFF},${(c >> 8) & 0xFF},${c & 0xFF})`;
+    } else if (entity.bgFillColor !== undefined) {
+      ctx.fillStyle = getDisplayColor(entity.bgFillColor, theme);
+    } else {
+      ctx.fillStyle = THEMES[theme].backgroundColor;
+    }
+    ctx.fillRect(x, y, w, h);
+    ctx.restore();
+  }
+
+  if (entity.bgFill & 16) ctx.strokeRect(x, y, w, h);
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfEntityBase, DxfViewportEntity } from '../../parser/types.js';
+import { drawViewport } from './draw-viewport.js';
+import { isViewportWindow, viewportMatrix, viewportModelBounds, viewportScale } from '../../utils/layout.js';
+import { computeEntityBBox } from '../../utils/bbox.js';
+import { distanceToEntity } from '../../viewer/selection.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+  paperSpace: true,
+};
+
+/** 40 × 20 window centered on (100, 50) showing 10 model units of height around (5, 5): scale 2. */
+function makeViewport(overrides?: Partial<DxfViewportEntity>): DxfViewportEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'VIEWPORT',
+    center: { x: 100, y: 50, z: 0 },
+    width: 40,
+    height: 20,
+    status: 1,
+    id: 2,
+    viewCenter: { x: 5, y: 5 },
+    viewTarget: { x: 0, y: 0, z: 0 },
+    viewHeight: 10,
+    twistAngle: 0,
+    flags: 0,
+    frozenLayerHandles: [],
+    frozenLayers: [],
+    ...overrides,
+  };
+}
+
+function apply(matrix: number[], x: number, y: number) {
+  const [a, b, c, d, e, f] = matrix as [number, number, number, number, number, number];
+  return { x: a * x + c * y + e, y: b * x + d * y + f };
+}
+
+function mockCtx() {
+  return {
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    stroke: vi.fn(),
+  };
+}
+
+// ─── View transform ─────────────────────────────────────────────────
+
+describe('viewport transform', () => {
+  it('maps the view center onto the window center at the viewport scale', () => {
+    const viewport = makeViewport();
+    expect(viewportScale(viewport)).toBe(2);
+    const matrix = viewportMatrix(viewport);
+    expect(apply(matrix, 5, 5)).toEqual({ x: 100, y: 50 });
+    expect(apply(matrix, 15, 5)).toEqual({ x: 120, y: 50 });
+    expect(viewportModelBounds(viewport)).toEqual({ minX: -5, minY: 0, maxX: 15, maxY: 10 });
+  });
+
+  it('rotates model space by the twist angle about the view target', () => {
+    const viewport = makeViewport({ viewCenter: { x: 0, y: 0 }, viewTarget: { x: 5, y: 5, z: 0 }, twistAngle: 90 });
+    const matrix = viewportMatrix(viewport);
+    const center = apply(matrix, 5, 5);
+    expect(center.x).toBeCloseTo(100);
+    expect(center.y).toBeCloseTo(50);
+    // One model unit along +X lands two paper units up
+    const p = apply(matrix, 6, 5);
+    expect(p.x).toBeCloseTo(100);
+    expect(p.y).toBeCloseTo(52);
+    const bounds = viewportModelBounds(viewport);
+    expect(bounds.maxX - bounds.minX).toBeCloseTo(10);
+    expect(bounds.maxY - bounds.minY).toBeCloseTo(20);
+  });
+
+  it('treats the paper space view and switched-off viewports as no window', () => {
+    expect(isViewportWindow(makeViewport())).toBe(true);
+    expect(isViewportWindow(makeViewport({ id: 1 }))).toBe(false);
+    expect(isViewportWindow(makeViewport({ status: 0 }))).toBe(false);
+    expect(isViewportWindow(makeViewport({ viewHeight: 0 }))).toBe(false);
+  });
+});
+
+// ─── Frame ──────────────────────────────────────────────────────────
+
+describe('drawViewport', () => {
+  it('strokes the window frame', () => {
+    const ctx = mockCtx();
+    drawViewport(ctx as unknown as CanvasRenderingContext2D, makeViewport());
+    expect(ctx.moveTo).toHaveBeenCalledWith(80, 40);
+    expect(ctx.lineTo).toHaveBeenCalledTimes(3);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+
+  it('leaves the frame of a clipped viewport to its boundary entity', () => {
+    const ctx = mockCtx();
+    const clipBoundary = [{ x: 80, y: 40 }, { x: 120, y: 40 }, { x: 100, y: 60 }];
+    drawViewport(ctx as unknown as CanvasRenderingContext2D, makeViewport({ clipBoundary }));
+    drawViewport(ctx as unknown as CanvasRenderingContext2D, makeViewport({ id: 1 }));
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Extents and selection ──────────────────────────────────────────
+
+describe('VIEWPORT extents and selection', () => {
+  it('bounds the window in paper space', () => {
+    expect(computeEntityBBox(makeViewport())).toEqual({ minX: 80, minY: 40, maxX: 120, maxY: 60 });
+  });
+
+  it('hits the frame but not the window inside', () => {
+    expect(distanceToEntity(100, 40, makeViewport())).toBe(0);
+    expect(distanceToEntity(100, 50, makeViewport())).toBe(10);
+  });
+});
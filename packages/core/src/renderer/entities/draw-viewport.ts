@@ -0,0 +1,17 @@
+import type { DxfViewportEntity } from '../../parser/types.js';
+import { isViewportWindow, viewportRect } from '../../utils/layout.js';
+
+/**
+ * Draw the frame of a VIEWPORT window. Its model space contents are drawn by
+ * the layout pass of the renderer; viewports clipped by another entity use
+ * that entity as their frame and draw nothing here.
+ */
+export function drawViewport(ctx: CanvasRenderingContext2D, entity: DxfViewportEntity): void {
+  if (!isViewportWindow(entity) || entity.clipBoundary) return;
+  const corners = viewportRect(entity);
+  ctx.beginPath();
+  ctx.moveTo(corners[0]!.x, corners[0]!.y);
+  for (let i = 1; i < corners.length; i++) ctx.lineTo(corners[i]!.x, corners[i]!.y);
+  ctx.closePath();
+  ctx.stroke();
+}
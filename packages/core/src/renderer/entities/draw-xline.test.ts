@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfDocument, DxfEntity, DxfEntityBase, DxfRayEntity, DxfXLineEntity } from '../../parser/types.js';
+import { drawConstructionLine } from './draw-xline.js';
+import { drawInsert } from './draw-insert.js';
+import { clipConstructionLine } from '../../utils/construction-line.js';
+import { computeEntitiesBounds } from '../../utils/bbox.js';
+import { distanceToEntity, SpatialIndex } from '../../viewer/selection.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+const VIEW = { minX: -10, minY: -10, maxX: 10, maxY: 10 };
+
+function makeXLine(overrides?: Partial<DxfXLineEntity>): DxfXLineEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'XLINE',
+    basePoint: { x: 0, y: 0, z: 0 },
+    direction: { x: 1, y: 0, z: 0 },
+    ...overrides,
+  };
+}
+
+function makeRay(overrides?: Partial<DxfRayEntity>): DxfRayEntity {
+  return { ...makeXLine(), type: 'RAY', ...overrides } as DxfRayEntity;
+}
+
+function mockCtx() {
+  return {
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    scale: vi.fn(),
+    transform: vi.fn(),
+    setLineDash: vi.fn(),
+  };
+}
+
+// ─── clipConstructionLine ───────────────────────────────────────────
+
+describe('clipConstructionLine', () => {
+  it('clips an XLINE to both sides of the bounds', () => {
+    expect(clipConstructionLine(makeXLine(), VIEW)).toEqual([{ x: -10, y: 0 }, { x: 10, y: 0 }]);
+  });
+
+  it('starts a RAY at its base point', () => {
+    const ray = makeRay({ basePoint: { x: 2, y: 3, z: 0 }, direction: { x: 0, y: -1, z: 0 } });
+    expect(clipConstructionLine(ray, VIEW)).toEqual([{ x: 2, y: 3 }, { x: 2, y: -10 }]);
+  });
+
+  it('clips diagonal lines at the bounds corners', () => {
+    const diagonal = makeXLine({ direction: { x: Math.SQRT1_2, y: Math.SQRT1_2, z: 0 } });
+    const [a, b] = clipConstructionLine(diagonal, VIEW)!;
+    expect(a.x).toBeCloseTo(-10);
+    expect(a.y).toBeCloseTo(-10);
+    expect(b.x).toBeCloseTo(10);
+    expect(b.y).toBeCloseTo(10);
+  });
+
+  it('returns null for lines outside the bounds', () => {
+    expect(clipConstructionLine(makeXLine({ basePoint: { x: 0, y: 20, z: 0 } }), VIEW)).toBeNull();
+    // Ray pointing away from the view
+    expect(clipConstructionLine(makeRay({ basePoint: { x: 20, y: 0, z: 0 } }), VIEW)).toBeNull();
+  });
+});
+
+// ─── drawConstructionLine ───────────────────────────────────────────
+
+describe('drawConstructionLine', () => {
+  it('strokes the visible segment', () => {
+    const ctx = mockCtx();
+    drawConstructionLine(ctx as unknown as CanvasRenderingContext2D, makeXLine(), VIEW);
+    expect(ctx.moveTo).toHaveBeenCalledWith(-10, 0);
+    expect(ctx.lineTo).toHaveBeenCalledWith(10, 0);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+
+  it('draws nothing without view bounds', () => {
+    const ctx = mockCtx();
+    drawConstructionLine(ctx as unknown as CanvasRenderingContext2D, makeXLine());
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+
+  it('clips XLINEs inside blocks to the view mapped into block space', () => {
+    const ctx = mockCtx();
+    const doc: DxfDocument = {
+      header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1 },
+      layers: new Map(),
+      lineTypes: new Map(),
+      styles: new Map(),
+      blocks: new Map([['AXIS', { name: 'AXIS', basePoint: { x: 0, y: 0, z: 0 }, flags: 0, entities: [makeXLine()] }]]),
+      entities: [],
+    };
+    const insert: DxfEntity = {
+      ...BASE_ENTITY, type: 'INSERT', blockName: 'AXIS', insertionPoint: { x: 5, y: 0, z: 0 },
+      scaleX: 2, scaleY: 2, scaleZ: 1, rotation: 0,
+      columnCount: 1, rowCount: 1, columnSpacing: 0, rowSpacing: 0, attribs: [],
+    };
+    drawInsert(
+      ctx as unknown as CanvasRenderingContext2D, insert, doc, { scale: 1, offsetX: 0, offsetY: 0 },
+      'dark', 1, 0, undefined, { lineWeightMode: 'screen', viewBounds: VIEW },
+    );
+    // World x ∈ [-10, 10] is block x ∈ [-7.5, 2.5]
+    expect(ctx.moveTo).toHaveBeenCalledWith(-7.5, 0);
+    expect(ctx.lineTo).toHaveBeenCalledWith(2.5, 0);
+  });
+});
+
+// ─── Extents and spatial index ──────────────────────────────────────
+
+describe('construction lines in extents and selection', () => {
+  const line: DxfEntity = { ...BASE_ENTITY, type: 'LINE', start: { x: 0, y: 0, z: 0 }, end: { x: 1, y: 1, z: 0 } };
+
+  it('are left out of document bounds', () => {
+    expect(computeEntitiesBounds([line, makeXLine({ basePoint: { x: 100, y: 100, z: 0 } })]))
+      .toEqual({ minX: 0, minY: 0, maxX: 1, maxY: 1 });
+  });
+
+  it('match every spatial index search', () => {
+    const index = new SpatialIndex();
+    index.build([line, makeRay({ basePoint: { x: 500, y: 500, z: 0 } })]);
+    expect(index.search(-5, -5, -4, -4).map(item => item.entityIndex)).toEqual([1]);
+    expect(index.search(0, 0, 1, 1).map(item => item.entityIndex).sort()).toEqual([0, 1]);
+    expect(index.getEntityBBox(1)).toBeNull();
+  });
+
+  it('measure distance to the infinite line', () => {
+    expect(distanceToEntity(1000, 3, makeXLine())).toBeCloseTo(3);
+    expect(distanceToEntity(-1000, 3, makeXLine())).toBeCloseTo(3);
+    // Behind a ray's start
+    expect(distanceToEntity(-4, 3, makeRay())).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,22 @@
+import type { DxfRayEntity, DxfXLineEntity } from '../../parser/types.js';
+import type { BBox } from '../../utils/bbox.js';
+import { clipConstructionLine } from '../../utils/construction-line.js';
+
+/**
+ * Draw an XLINE or RAY clipped to the visible area. Nothing is drawn without
+ * view bounds, since the line has no finite extent.
+ */
+export function drawConstructionLine(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfXLineEntity | DxfRayEntity,
+  viewBounds?: BBox,
+): void {
+  if (!viewBounds) return;
+  const segment = clipConstructionLine(entity, viewBounds);
+  if (!segment) return;
+
+  ctx.beginPath();
+  ctx.moveTo(segment[0].x, segment[0].y);
+  ctx.lineTo(segment[1].x, segment[1].y);
+  ctx.stroke();
+}
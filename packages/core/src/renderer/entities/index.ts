@@ -10,4 +10,9 @@ export { drawInsert } from './draw-insert.js';
 export { drawDimension } from './draw-dimension.js';
 export { drawHatch } from './draw-hatch.js';
 export { drawPoint } from './draw-point.js';
+export { drawSolid, draw3DFace } from './draw-solid.js';
+export { drawLeader, drawMLeader } from './draw-leader.js';
+export { drawConstructionLine } from './draw-xline.js';
+export { drawImage, drawWipeout } from './draw-image.js';
+export { drawTable } from './draw-table.js';
 export { isBatchableStroke, appendStrokePath } from './batch-path.js';
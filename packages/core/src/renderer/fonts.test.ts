@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfStyle } from '../parser/types.js';
+import { createFontMappings, findTextStyle, mapCADFont, resolveStyleFont } from './fonts.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeStyle(name: string, fontName: string, overrides?: Partial<DxfStyle>): DxfStyle {
+  return { name, fontName, bigFontName: '', height: 0, widthFactor: 1, obliqueAngle: 0, ...overrides };
+}
+
+// ─── mapCADFont ─────────────────────────────────────────────────────
+
+describe('mapCADFont', () => {
+  it('maps built-in fonts case-insensitively', () => {
+    expect(mapCADFont('ROMANS.SHX')).toBe('"Courier New", monospace');
+    expect(mapCADFont('Standard')).toBe('Arial, sans-serif');
+  });
+
+  it('ignores paths and matches names without extension', () => {
+    expect(mapCADFont('C:\\Fonts\\times.ttf')).toBe('"Times New Roman", serif');
+    expect(mapCADFont('Arial.otf')).toBe('Arial, sans-serif');
+  });
+
+  it('uses unknown TrueType and family names as CSS families', () => {
+    expect(mapCADFont('calibri.ttf')).toBe('"calibri", sans-serif');
+    expect(mapCADFont('Segoe UI')).toBe('"segoe ui", sans-serif');
+  });
+
+  it('falls back to sans-serif for unknown SHX fonts', () => {
+    expect(mapCADFont('gdt.shx')).toBe('sans-serif');
+  });
+});
+
+// ─── Font mappings ──────────────────────────────────────────────────
+
+describe('createFontMappings', () => {
+  const mappings = createFontMappings({ 'romans.shx': '"Roboto Mono", monospace', 'C:\\Fonts\\GDT.SHX': 'GDT' });
+
+  it('overrides the built-in table', () => {
+    expect(mapCADFont('ROMANS.SHX', mappings)).toBe('"Roboto Mono", monospace');
+    expect(mapCADFont('gdt.shx', mappings)).toBe('GDT');
+  });
+
+  it('applies only where the mappings are passed', () => {
+    expect(mapCADFont('romans.shx')).toBe('"Courier New", monospace');
+    expect(mapCADFont('arial.ttf', mappings)).toBe('Arial, sans-serif');
+  });
+});
+
+// ─── Style lookup ───────────────────────────────────────────────────
+
+describe('resolveStyleFont', () => {
+  const styles = new Map([
+    ['Notes', makeStyle('Notes', 'simplex.shx')],
+    ['NoFont', makeStyle('NoFont', '')],
+  ]);
+
+  it('uses the font file from the STYLE table', () => {
+    expect(resolveStyleFont(styles, 'Notes')).toBe('simplex.shx');
+    expect(resolveStyleFont(styles, 'NOTES')).toBe('simplex.shx');
+  });
+
+  it('falls back to the style name', () => {
+    expect(resolveStyleFont(styles, 'NoFont')).toBe('NoFont');
+    expect(resolveStyleFont(styles, 'Missing')).toBe('Missing');
+  });
+
+  it('finds styles case-insensitively', () => {
+    expect(findTextStyle(styles, 'notes')?.name).toBe('Notes');
+    expect(findTextStyle(styles, 'other')).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import type { DxfStyle } from '../parser/types.js';
+import type { ShxFont } from './shx-font.js';
+
+/** Loaded SHX fonts, keyed by `shxFontKey` of their file name. */
+export type ShxFontMap = ReadonlyMap<string, ShxFont>;
+
+/** Built-in CSS font families for common CAD fonts, keyed by lowercase font file or style name. */
+const CAD_FONT_MAP: Record<string, string> = {
+  'standard':     'Arial, sans-serif',
+  'arial':        'Arial, sans-serif',
+  'arial.ttf':    'Arial, sans-serif',
+  'romans.shx':   '"Courier New", monospace',
+  'simplex.shx':  '"Courier New", monospace',
+  'txt.shx':      'monospace',
+  'monotxt.shx':  'monospace',
+  'isocp.shx':    '"Courier New", monospace',
+  'isocpeur.shx': '"Courier New", monospace',
+  'times.ttf':    '"Times New Roman", serif',
+  'timesnr.ttf':  '"Times New Roman", serif',
+  'gothic.ttf':   '"Century Gothic", sans-serif',
+};
+
+/** CSS font families for CAD fonts, keyed by lowercase font file, style or family name without path. */
+export type FontMappings = ReadonlyMap<string, string>;
+
+/**
+ * Font mappings from CSS font families for CAD fonts, e.g.
+ * `{ 'romans.shx': '"Roboto Mono", monospace', 'Arial Narrow': '"Arial Narrow"' }`.
+ *
+ * Keys are font file names (as in the STYLE table), style names, or MTEXT
+ * `\f` family names, matched case-insensitively.
+ */
+export function createFontMappings(mapping: Record<string, string>): FontMappings {
+  const mappings = new Map<string, string>();
+  for (const [name, family] of Object.entries(mapping)) {
+    mappings.set(normalizeFontKey(name), family);
+  }
+  return mappings;
+}
+
+/**
+ * Map a CAD font file, style or family name to a CSS font-family list.
+ *
+ * Looks up `mappings`, then the built-in table, by full name and by
+ * name without extension. Unknown TrueType fonts and family names are tried
+ * as a CSS family of the same name; unknown SHX fonts fall back to sans-serif.
+ */
+export function mapCADFont(name: string, mappings?: FontMappings): string {
+  const key = normalizeFontKey(name);
+  const stem = key.replace(/\.(shx|ttf|ttc|otf)$/, '');
+
+  const mapped = mappings?.get(key) ?? CAD_FONT_MAP[key]
+    ?? mappings?.get(stem) ?? CAD_FONT_MAP[stem];
+  if (mapped) return mapped;
+
+  if (!stem || key.endsWith('.shx')) return 'sans-serif';
+  return `"${stem.replace(/"/g, '')}", sans-serif`;
+}
+
+/** Find a text style by name (exact, then case-insensitive). */
+export function findTextStyle(styles: Map<string, DxfStyle>, name: string): DxfStyle | undefined {
+  const exact = styles.get(name);
+  if (exact) return exact;
+  const lower = name.toLowerCase();
+  for (const style of styles.values()) {
+    if (style.name.toLowerCase() === lower) return style;
+  }
+  return undefined;
+}
+
+/**
+ * Font name to draw a text style with: the STYLE table's font file when the
+ * style defines one, else the style name itself.
+ */
+export function resolveStyleFont(styles: Map<string, DxfStyle>, styleName: string): string {
+  const style = findTextStyle(styles, styleName || 'Standard');
+  return style?.fontName || styleName || 'Standard';
+}
+
+/** Lookup key for an SHX font file name: lowercase, without path, with `.shx`. */
+export function shxFontKey(name: string): string {
+  const key = normalizeFontKey(name);
+  return /\.[a-z0-9]+$/.test(key) ? key : `${key}.shx`;
+}
+
+/** Find a loaded SHX font for a STYLE font file or MTEXT font name. */
+export function findShxFont(fonts: ShxFontMap | undefined, name: string): ShxFont | undefined {
+  if (!fonts || fonts.size === 0 || !name) return undefined;
+  return fonts.get(shxFontKey(name));
+}
+
+function normalizeFontKey(name: string): string {
+  // Font files may be stored with a path
+  const base = name.trim().replace(/^.*[\\/]/, '');
+  return base.toLowerCase();
+}
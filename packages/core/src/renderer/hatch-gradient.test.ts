@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DxfHatchGradient } from '../parser/types.js';
+import { createHatchGradient, resolveGradientColors } from './hatch-gradient.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeGradient(overrides?: Partial<DxfHatchGradient>): DxfHatchGradient {
+  return {
+    name: 'LINEAR',
+    angle: 0,
+    shift: 0,
+    singleColor: false,
+    tint: 0,
+    colors: [{ color: 5, trueColor: 0x0000FF }, { color: 2, trueColor: 0xFFFF00 }],
+    ...overrides,
+  };
+}
+
+function mockCtx() {
+  const stops: [number, string][] = [];
+  const gradient = { addColorStop: vi.fn((offset: number, color: string) => { stops.push([offset, color]); }) };
+  const ctx = {
+    createLinearGradient: vi.fn(() => gradient),
+    createRadialGradient: vi.fn(() => gradient),
+  };
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, raw: ctx, stops };
+}
+
+const BOUNDS = { minX: 0, minY: 0, maxX: 10, maxY: 4 };
+
+// ─── resolveGradientColors ──────────────────────────────────────────
+
+describe('resolveGradientColors', () => {
+  it('prefers true colors over ACI', () => {
+    expect(resolveGradientColors(makeGradient(), 'dark', '#ffffff')).toEqual([[0, 0, 255], [255, 255, 0]]);
+  });
+
+  it('uses the ACI table and theme swap for color 7', () => {
+    const gradient = makeGradient({ colors: [{ color: 1 }, { color: 7 }] });
+    expect(resolveGradientColors(gradient, 'light', '#ffffff')).toEqual([[255, 0, 0], [0, 0, 0]]);
+  });
+
+  it('derives the second color from the tint for one-color gradients', () => {
+    const colors = [{ color: 1 }];
+    expect(resolveGradientColors(makeGradient({ singleColor: true, tint: 1, colors }), 'dark', '#ffffff')[1])
+      .toEqual([255, 255, 255]);
+    expect(resolveGradientColors(makeGradient({ singleColor: true, tint: 0, colors }), 'dark', '#ffffff')[1])
+      .toEqual([0, 0, 0]);
+  });
+
+  it('falls back to the entity color for missing colors', () => {
+    const gradient = makeGradient({ colors: [{ color: 256 }] });
+    expect(resolveGradientColors(gradient, 'dark', '#102030')).toEqual([[16, 32, 48], [16, 32, 48]]);
+  });
+});
+
+// ─── createHatchGradient ────────────────────────────────────────────
+
+describe('createHatchGradient', () => {
+  it('spans LINEAR gradients across the bounds along the angle', () => {
+    const { ctx, raw, stops } = mockCtx();
+    createHatchGradient(ctx, makeGradient(), BOUNDS, 'dark', '#ffffff');
+    expect(raw.createLinearGradient).toHaveBeenCalledWith(0, 2, 10, 2);
+    expect(stops).toEqual([[0, 'rgb(0,0,255)'], [1, 'rgb(255,255,0)']]);
+  });
+
+  it('puts the second color in the middle of CYLINDER and swaps for INVCYLINDER', () => {
+    const cyl = mockCtx();
+    createHatchGradient(cyl.ctx, makeGradient({ name: 'CYLINDER' }), BOUNDS, 'dark', '#ffffff');
+    expect(cyl.stops.map(s => s[1])).toEqual(['rgb(0,0,255)', 'rgb(255,255,0)', 'rgb(0,0,255)']);
+
+    const inv = mockCtx();
+    createHatchGradient(inv.ctx, makeGradient({ name: 'INVCYLINDER' }), BOUNDS, 'dark', '#ffffff');
+    expect(inv.stops.map(s => s[1])).toEqual(['rgb(255,255,0)', 'rgb(0,0,255)', 'rgb(255,255,0)']);
+  });
+
+  it('centers SPHERICAL gradients and moves them up-left when shifted', () => {
+    const centered = mockCtx();
+    createHatchGradient(centered.ctx, makeGradient({ name: 'SPHERICAL' }), BOUNDS, 'dark', '#ffffff');
+    const [cx, cy] = centered.raw.createRadialGradient.mock.calls[0] as unknown as number[];
+    expect([cx, cy]).toEqual([5, 2]);
+
+    const shifted = mockCtx();
+    createHatchGradient(shifted.ctx, makeGradient({ name: 'SPHERICAL', shift: 1 }), BOUNDS, 'dark', '#ffffff');
+    const [sx, sy] = shifted.raw.createRadialGradient.mock.calls[0] as unknown as number[];
+    expect(sx).toBeLessThan(5);
+    expect(sy).toBeGreaterThan(2);
+  });
+
+  it('eases CURVED gradients with intermediate stops', () => {
+    const { ctx, stops } = mockCtx();
+    createHatchGradient(ctx, makeGradient({ name: 'CURVED' }), BOUNDS, 'dark', '#ffffff');
+    expect(stops.length).toBeGreaterThan(2);
+    expect(stops[0]).toEqual([0, 'rgb(0,0,255)']);
+    expect(stops[stops.length - 1]).toEqual([1, 'rgb(255,255,0)']);
+  });
+});
@@ -0,0 +1,148 @@
+import type { DxfHatchGradient, DxfHatchGradientColor } from '../parser/types.js';
+import type { BBox } from '../utils/bbox.js';
+import type { Theme } from './theme.js';
+import { aciToHex } from '../parser/colors.js';
+
+type Rgb = readonly [number, number, number];
+
+/** Color stops (offset, 0 = first gradient color → 1 = second) for CURVED gradients. */
+const CURVED_STOPS = 8;
+
+/**
+ * Create the canvas gradient for a gradient hatch covering `bounds` (OCS).
+ *
+ * AutoCAD's gradient types are approximated with linear and radial canvas
+ * gradients:
+ * - LINEAR: first color → second color along the gradient angle
+ * - CYLINDER: first color at both sides, second color along the middle
+ * - SPHERICAL: second color highlight at the center, fading to the first
+ * - HEMISPHERICAL: like SPHERICAL, with the highlight on the bottom edge
+ * - CURVED: like LINEAR, with an eased falloff
+ *
+ * The INV* variants swap the two colors. A non-zero shift moves the
+ * highlight up and to the left, as AutoCAD does for non-centered gradients.
+ *
+ * `fallback` is used for colors that are missing or BYLAYER/BYBLOCK.
+ */
+export function createHatchGradient(
+  ctx: CanvasRenderingContext2D,
+  gradient: DxfHatchGradient,
+  bounds: BBox,
+  theme: Theme,
+  fallback: string,
+): CanvasGradient {
+  const [first, second] = resolveGradientColors(gradient, theme, fallback);
+
+  const name = gradient.name;
+  const inverted = name.startsWith('INV');
+  const base = inverted ? name.slice(3) : name;
+  const [c1, c2] = inverted ? [second, first] : [first, second];
+
+  // Gradient frame: u along the gradient angle, v across it
+  const cos = Math.cos(gradient.angle);
+  const sin = Math.sin(gradient.angle);
+  const w = bounds.maxX - bounds.minX;
+  const h = bounds.maxY - bounds.minY;
+  const eu = (Math.abs(w * cos) + Math.abs(h * sin)) / 2 || 1;
+  const ev = (Math.abs(w * sin) + Math.abs(h * cos)) / 2 || 1;
+
+  // Center, moved up-left (in the gradient frame) by the shift
+  const su = -eu / 2 * gradient.shift;
+  const sv = ev / 2 * gradient.shift;
+  const cx = (bounds.minX + bounds.maxX) / 2 + su * cos - sv * sin;
+  const cy = (bounds.minY + bounds.maxY) / 2 + su * sin + sv * cos;
+
+  switch (base) {
+    case 'SPHERICAL': {
+      const g = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(eu, ev));
+      g.addColorStop(0, toCss(c2));
+      g.addColorStop(1, toCss(c1));
+      return g;
+    }
+    case 'HEMISPHERICAL': {
+      // Highlight centered on the bottom edge of the frame
+      const hx = cx + ev * sin;
+      const hy = cy - ev * cos;
+      const g = ctx.createRadialGradient(hx, hy, 0, hx, hy, Math.hypot(eu, 2 * ev));
+      g.addColorStop(0, toCss(c2));
+      g.addColorStop(1, toCss(c1));
+      return g;
+    }
+    default: {
+      const g = ctx.createLinearGradient(cx - eu * cos, cy - eu * sin, cx + eu * cos, cy + eu * sin);
+      if (base === 'CYLINDER') {
+        g.addColorStop(0, toCss(c1));
+        g.addColorStop(0.5, toCss(c2));
+        g.addColorStop(1, toCss(c1));
+      } else if (base === 'CURVED') {
+        for (let i = 0; i <= CURVED_STOPS; i++) {
+          const t = i / CURVED_STOPS;
+          g.addColorStop(t, toCss(mixRgb(c1, c2, Math.sin(t * Math.PI / 2))));
+        }
+      } else {
+        // LINEAR and unknown types
+        g.addColorStop(0, toCss(c1));
+        g.addColorStop(1, toCss(c2));
+      }
+      return g;
+    }
+  }
+}
+
+/**
+ * Resolve the two gradient colors. One-color gradients derive the second
+ * color from the tint: 0 shades toward black, 1 tints toward white.
+ */
+export function resolveGradientColors(
+  gradient: DxfHatchGradient,
+  theme: Theme,
+  fallback: string,
+): [Rgb, Rgb] {
+  const fallbackRgb = parseCssColor(fallback) ?? [128, 128, 128];
+  const first = gradientColorToRgb(gradient.colors[0], theme) ?? fallbackRgb;
+
+  if (!gradient.singleColor) {
+    const second = gradientColorToRgb(gradient.colors[1], theme) ?? fallbackRgb;
+    return [first, second];
+  }
+
+  const tint = Math.min(1, Math.max(0, gradient.tint));
+  const second = tint >= 0.5
+    ? mixRgb(first, [255, 255, 255], (tint - 0.5) * 2)
+    : mixRgb(first, [0, 0, 0], (0.5 - tint) * 2);
+  return [first, second];
+}
+
+function gradientColorToRgb(color: DxfHatchGradientColor | undefined, theme: Theme): Rgb | null {
+  if (!color) return null;
+  if (color.trueColor !== undefined) {
+    return [(color.trueColor >> 16) & 0xFF, (color.trueColor >> 8) & 0xFF, color.trueColor & 0xFF];
+  }
+  if (color.color === 7) return theme === 'dark' ? [255, 255, 255] : [0, 0, 0];
+  const hex = aciToHex(color.color);
+  return hex ? parseCssColor(hex) : null;
+}
+
+/** Parse `#rrggbb` and `rgb(r,g,b)` colors, as produced by the color resolvers. */
+function parseCssColor(color: string): Rgb | null {
+  const hex = /^#([0-9a-f]{6})$/i.exec(color);
+  if (hex) {
+    const n = parseInt(hex[1]!, 16);
+    return [(n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF];
+  }
+  const rgb = /^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/.exec(color);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  return null;
+}
+
+function mixRgb(a: Rgb, b: Rgb, t: number): Rgb {
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * t),
+    Math.round(a[1] + (b[1] - a[1]) * t),
+    Math.round(a[2] + (b[2] - a[2]) * t),
+  ];
+}
+
+function toCss(c: Rgb): string {
+  return `rgb(${c[0]},${c[1]},${c[2]})`;
+}
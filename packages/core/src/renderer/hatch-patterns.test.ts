@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfHatchEntity, DxfHeader } from '../parser/types.js';
+import { ACAD_PATTERNS, expandPattern, getHatchPatternLines } from './hatch-patterns.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const IMPERIAL: DxfHeader = { acadVersion: 'AC1027', insUnits: 1, measurement: 0, ltScale: 1 };
+const METRIC: DxfHeader = { acadVersion: 'AC1027', insUnits: 4, measurement: 1, ltScale: 1 };
+
+function makeHatch(overrides?: Partial<DxfHatchEntity>): DxfHatchEntity {
+  return {
+    type: 'HATCH',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    patternName: 'ANSI31',
+    solidFill: false,
+    associative: false,
+    hatchStyle: 0,
+    patternType: 1,
+    patternAngle: 0,
+    patternScale: 1,
+    elevation: 0,
+    boundaryPaths: [],
+    patternLines: [],
+    ...overrides,
+  };
+}
+
+// ─── expandPattern ──────────────────────────────────────────────────
+
+describe('expandPattern', () => {
+  it('rotates the line offset into world space like AutoCAD writes it', () => {
+    // ANSI31 in DXF: 53=45, 45=-0.0883883, 46=0.0883883
+    const [line] = expandPattern(ACAD_PATTERNS.ANSI31!, 0, 1);
+    expect(line!.angle).toBe(45);
+    expect(line!.offset.x).toBeCloseTo(-0.0883883);
+    expect(line!.offset.y).toBeCloseTo(0.0883883);
+    expect(line!.dashes).toEqual([]);
+  });
+
+  it('applies pattern angle and scale to origin, offset and dashes', () => {
+    const [line] = expandPattern([[0, 1, 0, 0, 1, 0.5, -0.25]], 90, 2);
+    expect(line!.angle).toBe(90);
+    expect(line!.base.x).toBeCloseTo(0);
+    expect(line!.base.y).toBeCloseTo(2);
+    expect(line!.offset.x).toBeCloseTo(-2);
+    expect(line!.offset.y).toBeCloseTo(0);
+    expect(line!.dashes).toEqual([1, -0.5]);
+  });
+});
+
+// ─── getHatchPatternLines ───────────────────────────────────────────
+
+describe('getHatchPatternLines', () => {
+  it('prefers pattern lines stored in the file', () => {
+    const stored = [{ angle: 0, base: { x: 0, y: 0 }, offset: { x: 0, y: 3 }, dashes: [] }];
+    expect(getHatchPatternLines(makeHatch({ patternLines: stored }), IMPERIAL)).toBe(stored);
+  });
+
+  it('falls back to the built-in table by name', () => {
+    const lines = getHatchPatternLines(makeHatch({ patternName: 'ansi37' }), IMPERIAL);
+    expect(lines.map(l => l.angle)).toEqual([45, 135]);
+  });
+
+  it('uses millimetre sizes in metric drawings', () => {
+    const [line] = getHatchPatternLines(makeHatch({ patternName: 'LINE' }), METRIC);
+    expect(line!.offset.y).toBeCloseTo(3.175);
+  });
+
+  it('draws AR-CONC from the built-in table', () => {
+    const lines = getHatchPatternLines(makeHatch({ patternName: 'AR-CONC' }), IMPERIAL);
+    expect(lines).toHaveLength(13);
+    expect(lines[0]!.angle).toBe(50);
+    expect(lines[0]!.dashes).toEqual([0.75, -8.25]);
+    // The stone dots are zero-length dashes
+    expect(lines[12]!.dashes).toEqual([0, -3.25, 0, -5.18, 0, -7.35]);
+  });
+
+  it('scales AR-CONC to millimetres but keeps ACAD_ISO patterns as defined', () => {
+    const [conc] = getHatchPatternLines(makeHatch({ patternName: 'AR-CONC' }), METRIC);
+    expect(conc!.dashes[0]).toBeCloseTo(19.05);
+    const [iso] = getHatchPatternLines(makeHatch({ patternName: 'ACAD_ISO02W100' }), METRIC);
+    expect(iso!.dashes).toEqual([12, -3]);
+  });
+
+  it('returns no lines for solid fills and unknown patterns', () => {
+    expect(getHatchPatternLines(makeHatch({ solidFill: true, patternName: 'SOLID' }), IMPERIAL)).toEqual([]);
+    expect(getHatchPatternLines(makeHatch({ patternName: 'NO-SUCH-PATTERN' }), IMPERIAL)).toEqual([]);
+  });
+});
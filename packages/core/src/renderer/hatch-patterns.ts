@@ -0,0 +1,463 @@
+import type { DxfHatchEntity, DxfHatchPatternLine, DxfHeader } from '../parser/types.js';
+
+/**
+ * A line of a `.pat` file: angle, x-origin, y-origin, delta-x, delta-y,
+ * followed by the dash lengths. Delta-x runs along the line, delta-y across it.
+ */
+type PatLine = readonly number[];
+
+/**
+ * AutoCAD's standard acad.pat patterns, in inches; the ACAD_ISO line
+ * patterns are defined in millimetres in both acad.pat and acadiso.pat.
+ *
+ * Used when a HATCH names a predefined pattern but the file carries no
+ * pattern definition lines.
+ */
+export const ACAD_PATTERNS: Readonly<Record<string, readonly PatLine[]>> = {
+  ACAD_ISO02W100: [
+    [0, 0, 0, 0, 5, 12, -3],
+  ],
+  ACAD_ISO03W100: [
+    [0, 0, 0, 0, 5, 12, -18],
+  ],
+  ACAD_ISO04W100: [
+    [0, 0, 0, 0, 5, 24, -3, 0.5, -3],
+  ],
+  ACAD_ISO05W100: [
+    [0, 0, 0, 0, 5, 24, -3, 0.5, -3, 0.5, -3],
+  ],
+  ACAD_ISO06W100: [
+    [0, 0, 0, 0, 5, 24, -3, 0.5, -3, 0.5, -6.5],
+    [0, 0, 0, 0, 5, -34, 0.5, -3],
+  ],
+  ACAD_ISO07W100: [
+    [0, 0, 0, 0, 5, 0.5, -3],
+  ],
+  ACAD_ISO08W100: [
+    [0, 0, 0, 0, 5, 24, -3, 6, -3],
+  ],
+  ACAD_ISO09W100: [
+    [0, 0, 0, 0, 5, 24, -3, 6, -3, 6, -3],
+  ],
+  ACAD_ISO10W100: [
+    [0, 0, 0, 0, 5, 12, -3, 0.5, -3],
+  ],
+  ACAD_ISO11W100: [
+    [0, 0, 0, 0, 5, 12, -3, 12, -3, 0.5, -3],
+  ],
+  ACAD_ISO12W100: [
+    [0, 0, 0, 0, 5, 12, -3, 0.5, -3, 0.5, -3],
+  ],
+  ACAD_ISO13W100: [
+    [0, 0, 0, 0, 5, 12, -3, 12, -3, 0.5, -6.5],
+    [0, 0, 0, 0, 5, -33.5, 0.5, -3],
+  ],
+  ACAD_ISO14W100: [
+    [0, 0, 0, 0, 5, 12, -3, 0.5, -3, 0.5, -6.5],
+    [0, 0, 0, 0, 5, -22, 0.5, -3],
+  ],
+  ACAD_ISO15W100: [
+    [0, 0, 0, 0, 5, 12, -3, 12, -3, 0.5, -10],
+    [0, 0, 0, 0, 5, -33.5, 0.5, -3, 0.5, -3],
+  ],
+  ANGLE: [
+    [0, 0, 0, 0, 0.275, 0.2, -0.075],
+    [90, 0, 0, 0, 0.275, 0.2, -0.075],
+  ],
+  ANSI31: [
+    [45, 0, 0, 0, 0.125],
+  ],
+  ANSI32: [
+    [45, 0, 0, 0, 0.375],
+    [45, 0.176776695, 0, 0, 0.375],
+  ],
+  ANSI33: [
+    [45, 0, 0, 0, 0.25],
+    [45, 0.176776695, 0, 0, 0.25, 0.125, -0.0625],
+  ],
+  ANSI34: [
+    [45, 0, 0, 0, 0.75],
+    [45, 0.176776695, 0, 0, 0.75],
+    [45, 0.353553391, 0, 0, 0.75],
+    [45, 0.530330086, 0, 0, 0.75],
+  ],
+  ANSI35: [
+    [45, 0, 0, 0, 0.25],
+    [45, 0.176776695, 0, 0, 0.25, 0.3125, -0.0625, 0, -0.0625],
+  ],
+  ANSI36: [
+    [45, 0, 0, 0.21875, 0.125, 0.3125, -0.0625, 0, -0.0625],
+  ],
+  ANSI37: [
+    [45, 0, 0, 0, 0.125],
+    [135, 0, 0, 0, 0.125],
+  ],
+  ANSI38: [
+    [45, 0, 0, 0, 0.125],
+    [135, 0, 0, 0.25, 0.125, 0.3125, -0.1875],
+  ],
+  'AR-B816': [
+    [0, 0, 0, 0, 8],
+    [90, 0, 0, 8, 8, 8, -8],
+  ],
+  'AR-B816C': [
+    [0, 0, 0, 8, 8, 15.625, -0.375],
+    [0, -8, 0.375, 8, 8, 15.625, -0.375],
+    [90, 0, 0, 8, 8, -8.375, 7.625],
+    [90, -0.375, 0, 8, 8, -8.375, 7.625],
+  ],
+  'AR-B88': [
+    [0, 0, 0, 0, 8],
+    [90, 0, 0, 8, 4, 8, -8],
+  ],
+  'AR-BRELM': [
+    [0, 0, 0, 0, 5.334, 7.625, -0.375],
+    [0, 0, 2.25, 0, 5.334, 7.625, -0.375],
+    [0, 2, 2.667, 0, 5.334, 3.625, -0.375],
+    [0, 2, 4.917, 0, 5.334, 3.625, -0.375],
+    [90, 0, 0, 0, 8, 2.25, -3.084],
+    [90, -0.375, 0, 0, 8, 2.25, -3.084],
+    [90, 2, 2.667, 0, 4, 2.25, -3.084],
+    [90, 1.625, 2.667, 0, 4, 2.25, -3.084],
+  ],
+  'AR-BRSTD': [
+    [0, 0, 0, 0, 2.667],
+    [90, 0, 0, 2.667, 4, 2.667, -2.667],
+  ],
+  'AR-CONC': [
+    [50, 0, 0, 4.12975034, -5.89789472, 0.75, -8.25],
+    [355, 0, 0, -2.03781207, 7.3723684, 0.6, -6.6],
+    [100.4514, 0.5977168, -0.0522934, 5.7305871, -6.9397673, 0.6374019, -7.01142112],
+    [46.1842, 0, 2, 6.19462551, -8.84684208, 1.125, -12.375],
+    [96.6356, 0.88936745, 1.86206693, 8.59588071, -10.40965104, 0.95610288, -10.51713],
+    [351.1842, 0, 2, 7.74328189, 11.0585526, 0.9, -9.9],
+    [21, 1, 1.5, 4.12975034, -5.89789472, 0.75, -8.25],
+    [326, 1, 1.5, -2.03781207, 7.3723684, 0.6, -6.6],
+    [71.4514, 1.49742233, 1.16448394, 5.7305871, -6.9397673, 0.6374019, -7.01142112],
+    [37.5, 0, 0, 2.123, 2.567, 0, -6.52, 0, -6.7, 0, -6.625],
+    [7.5, 0, 0, 3.123, 3.567, 0, -3.82, 0, -6.37, 0, -2.525],
+    [-32.5, -2.23, 0, 4.6234, 2.678, 0, -2.5, 0, -7.8, 0, -10.35],
+    [-42.5, -3.23, 0, 3.6234, 4.678, 0, -3.25, 0, -5.18, 0, -7.35],
+  ],
+  'AR-HBONE': [
+    [45, 0, 0, 4, 4, 12, -4],
+    [135, 2.828427125, 2.828427125, 4, -4, 12, -4],
+  ],
+  'AR-PARQ1': [
+    [90, 0, 0, 12, 12, 12, -12],
+    [90, 2, 0, 12, 12, 12, -12],
+    [90, 4, 0, 12, 12, 12, -12],
+    [90, 6, 0, 12, 12, 12, -12],
+    [90, 8, 0, 12, 12, 12, -12],
+    [90, 10, 0, 12, 12, 12, -12],
+    [90, 12, 0, 12, 12, 12, -12],
+    [0, 0, 12, 12, -12, 12, -12],
+    [0, 0, 14, 12, -12, 12, -12],
+    [0, 0, 16, 12, -12, 12, -12],
+    [0, 0, 18, 12, -12, 12, -12],
+    [0, 0, 20, 12, -12, 12, -12],
+    [0, 0, 22, 12, -12, 12, -12],
+    [0, 0, 24, 12, -12, 12, -12],
+  ],
+  'AR-RROOF': [
+    [0, 0, 0, 2.2, 1, 15, -2, 5, -1],
+    [0, 1.33, 0.5, -1, 1.33, 3, -0.33, 6, -0.75],
+    [0, 0.5, 0.85, 5.2, 0.67, 8, -1.4, 4, -1],
+  ],
+  'AR-RSHKE': [
+    [0, 0, 0, 25.5, 12, 6, -5, 7, -3, 9, -4],
+    [0, 6, 0.5, 25.5, 12, 5, -19, 4, -6],
+    [0, 18, -0.75, 25.5, 12, 3, -31],
+    [90, 0, 0, 12, 8.5, 11.5, -36.5],
+    [90, 6, 0, 12, 8.5, 11.25, -36.75],
+    [90, 11, 0, 12, 8.5, 10.5, -37.5],
+    [90, 18, -0.75, 12, 8.5, 11.5, -36.5],
+    [90, 21, -0.75, 12, 8.5, 11.5, -36.5],
+    [90, 30, 0, 12, 8.5, 11, -37],
+  ],
+  'AR-SAND': [
+    [37.5, 0, 0, 1.123, 1.567, 0, -1.52, 0, -1.7, 0, -1.625],
+    [7.5, 0, 0, 2.123, 2.567, 0, -0.82, 0, -1.37, 0, -0.525],
+    [-32.5, -1.23, 0, 2.6234, 1.678, 0, -0.5, 0, -1.8, 0, -2.35],
+    [-42.5, -1.23, 0, 1.6234, 2.678, 0, -0.25, 0, -1.18, 0, -1.35],
+  ],
+  BOX: [
+    [90, 0, 0, 0, 1],
+    [90, 0.25, 0, 0, 1],
+    [0, 0, 0, 0, 1, -0.25, 0.25],
+    [0, 0, 0.25, 0, 1, -0.25, 0.25],
+    [0, 0, 0.5, 0, 1, 0.25, -0.25],
+    [0, 0, 0.75, 0, 1, 0.25, -0.25],
+    [90, 0.5, 0, 0, 1, 0.25, -0.25],
+    [90, 0.75, 0, 0, 1, 0.25, -0.25],
+  ],
+  BRASS: [
+    [0, 0, 0, 0, 0.25],
+    [0, 0, 0.125, 0, 0.25, 0.125, -0.0625],
+  ],
+  BRICK: [
+    [0, 0, 0, 0, 0.25],
+    [90, 0, 0, 0, 0.5, 0.25, -0.25],
+    [90, 0.25, 0, 0, 0.5, -0.25, 0.25],
+  ],
+  BRSTONE: [
+    [0, 0, 0, 0, 0.33],
+    [90, 0.9, 0, 0.33, 0.5, 0.33, -0.33],
+    [90, 0.8, 0, 0.33, 0.5, 0.33, -0.33],
+    [0, 0.9, 0.055, 0.5, 0.33, -0.9, 0.1],
+    [0, 0.9, 0.11, 0.5, 0.33, -0.9, 0.1],
+    [0, 0.9, 0.165, 0.5, 0.33, -0.9, 0.1],
+    [0, 0.9, 0.22, 0.5, 0.33, -0.9, 0.1],
+    [0, 0.9, 0.275, 0.5, 0.33, -0.9, 0.1],
+  ],
+  CLAY: [
+    [0, 0, 0, 0, 0.1875],
+    [0, 0, 0.03125, 0, 0.1875],
+    [0, 0, 0.0625, 0, 0.1875],
+    [0, 0, 0.125, 0, 0.1875, 0.1875, -0.125],
+  ],
+  CORK: [
+    [0, 0, 0, 0, 0.125],
+    [135, 0.0625, -0.0625, 0, 0.35355339, 0.176776696, -0.176776696],
+    [135, 0.09375, -0.0625, 0, 0.35355339, 0.176776696, -0.176776696],
+    [135, 0.125, -0.0625, 0, 0.35355339, 0.176776696, -0.176776696],
+  ],
+  CROSS: [
+    [0, 0, 0, 0.25, 0.25, 0.125, -0.375],
+    [90, 0.0625, -0.0625, 0.25, 0.25, 0.125, -0.375],
+  ],
+  DASH: [
+    [0, 0, 0, 0.125, 0.125, 0.125, -0.125],
+  ],
+  DOLMIT: [
+    [0, 0, 0, 0, 0.25],
+    [45, 0, 0, 0.25, 0.25, 0.353553391, -0.707106781],
+  ],
+  DOTS: [
+    [0, 0, 0, 0.03125, 0.0625, 0, -0.0625],
+  ],
+  EARTH: [
+    [0, 0, 0, 0.25, 0.25, 0.25, -0.25],
+    [0, 0, 0.09375, 0.25, 0.25, 0.25, -0.25],
+    [0, 0, 0.1875, 0.25, 0.25, 0.25, -0.25],
+    [90, 0.03125, 0.21875, 0.25, 0.25, 0.25, -0.25],
+    [90, 0.125, 0.21875, 0.25, 0.25, 0.25, -0.25],
+    [90, 0.21875, 0.21875, 0.25, 0.25, 0.25, -0.25],
+  ],
+  ESCHER: [
+    [60, 0, 0, -0.6, 1.03923048, 1.1, -0.1],
+    [180, 0, 0, -0.6, 1.03923048, 1.1, -0.1],
+    [300, 0, 0, 0.6, 1.03923048, 1.1, -0.1],
+    [60, 0.1, 0, -0.6, 1.03923048, 0.2, -1],
+    [300, 0.1, 0, 0.6, 1.03923048, 0.2, -1],
+    [60, -0.05, 0.08660254, -0.6, 1.03923048, 0.2, -1],
+    [180, -0.05, 0.08660254, -0.6, 1.03923048, 0.2, -1],
+    [300, -0.05, -0.08660254, 0.6, 1.03923048, 0.2, -1],
+    [180, -0.05, -0.08660254, -0.6, 1.03923048, 0.2, -1],
+    [60, -0.4, 0, -0.6, 1.03923048, 0.2, -1],
+    [300, -0.4, 0, 0.6, 1.03923048, 0.2, -1],
+    [60, 0.2, -0.34641016, -0.6, 1.03923048, 0.2, -1],
+    [180, 0.2, -0.34641016, -0.6, 1.03923048, 0.2, -1],
+    [300, 0.2, 0.34641016, 0.6, 1.03923048, 0.2, -1],
+    [180, 0.2, 0.34641016, -0.6, 1.03923048, 0.2, -1],
+    [0, 0.2, 0.17320508, -0.6, 1.03923048, 0.7, -0.5],
+    [0, 0.2, -0.17320508, -0.6, 1.03923048, 0.7, -0.5],
+    [120, 0.05, 0.25980762, 0.6, 1.03923048, 0.7, -0.5],
+    [120, -0.25, 0.08660254, 0.6, 1.03923048, 0.7, -0.5],
+    [240, -0.25, -0.08660254, 0.6, 1.03923048, 0.7, -0.5],
+    [240, 0.05, -0.25980762, 0.6, 1.03923048, 0.7, -0.5],
+  ],
+  FLEX: [
+    [0, 0, 0, 0, 0.25, 0.25, -0.25],
+    [45, 0.25, 0, 0.1767767, 0.1767767, 0.0625, -0.22855339, 0.0625, -0.35355339],
+  ],
+  GRASS: [
+    [90, 0, 0, 0.707106781, 0.707106781, 0.1875, -1.226713563],
+    [45, 0, 0, 0, 1, 0.1875, -0.8125],
+    [135, 0, 0, 0, 1, 0.1875, -0.8125],
+  ],
+  GRATE: [
+    [0, 0, 0, 0, 0.03125],
+    [90, 0, 0, 0, 0.125],
+  ],
+  GRAVEL: [
+    [228.0128, 0.72, 1, 12.041365, 0.074329, 0.134536, -13.319088],
+    [184.9697, 0.63, 0.9, -12.041517, 0.043315, 0.230868, -22.855925],
+    [132.5104, 0.4, 0.88, -14.865942, 0.06143, 0.162788, -16.116032],
+    [267.2737, 0.01, 0.63, -20.024928, 0.047565, 0.210238, -20.813558],
+    [292.8337, 0, 0.42, -12.99991, 0.048507, 0.206155, -20.409373],
+    [357.2737, 0.08, 0.23, -20.024928, 0.047565, 0.210238, -20.813558],
+    [37.6942, 0.29, 0.22, -16.40118, 0.035968, 0.278029, -27.524849],
+    [72.2553, 0.51, 0.39, 23.086761, 0.038097, 0.262488, -25.986321],
+    [121.4296, 0.59, 0.64, 15.264264, 0.047405, 0.21095, -20.884073],
+    [175.2364, 0.48, 0.82, -11.045049, 0.083045, 0.240832, -11.800763],
+    [222.3974, 0.24, 0.84, 16.278789, 0.032108, 0.311448, -30.833375],
+    [138.8141, 1, 0.62, 9.219065, 0.094072, 0.106301, -10.523844],
+    [171.4692, 0.92, 0.69, -13.152853, 0.049447, 0.202237, -20.021511],
+    [225, 0.72, 0.72, 0.707107, 0.707107, 0.141421, -1.272792],
+    [203.1986, 0.65, 0.84, -5.383564, 0.131306, 0.076158, -7.539615],
+    [291.8014, 0.58, 0.81, -3.156821, 0.185695, 0.107703, -5.277462],
+    [30.9638, 0.62, 0.71, 3.60147, 0.171499, 0.174929, -5.656023],
+    [161.5651, 0.77, 0.8, -2.213594, 0.316228, 0.126491, -3.035787],
+    [16.3895, 0, 0.81, 10.440154, 0.056433, 0.1772, -17.542845],
+    [70.3462, 0.17, 0.86, -11.704507, 0.067267, 0.148661, -14.717408],
+    [293.1986, 0.77, 1, -5.383564, 0.131306, 0.152315, -7.463458],
+    [343.6105, 0.83, 0.86, -10.440154, 0.056433, 0.1772, -17.542845],
+    [339.444, 0, 0.19, -5.383893, 0.117041, 0.17088, -8.373124],
+    [294.7751, 0.16, 0.13, -12.082844, 0.069843, 0.143178, -14.174643],
+    [66.8014, 0.78, 0, 5.383564, 0.131306, 0.152315, -7.463458],
+    [17.354, 0.84, 0.14, -13.60134, 0.059655, 0.167631, -16.595424],
+    [69.444, 0.29, 0, -5.383893, 0.117041, 0.08544, -8.458564],
+    [101.3099, 0.72, 0, 4.118439, 0.196116, 0.05099, -5.048029],
+    [165.9638, 0.71, 0.05, -3.152963, 0.242536, 0.206155, -3.91695],
+    [186.009, 0.51, 0.1, -10.049739, 0.052342, 0.19105, -18.913923],
+    [303.6901, 0.62, 0.62, -2.218801, 0.27735, 0.144222, -3.461329],
+    [353.1572, 0.7, 0.5, 17.117197, 0.039715, 0.251794, -24.927563],
+    [60.9454, 0.95, 0.47, -8.061673, 0.097129, 0.102956, -10.192674],
+    [90, 1, 0.56, 1, 1, 0.06, -0.94],
+    [120.2564, 0.49, 0.13, -8.061936, 0.071982, 0.138924, -13.75352],
+    [48.0128, 0.42, 0.25, 12.041365, 0.074329, 0.269072, -13.184552],
+    [0, 0.6, 0.45, 1, 1, 0.26, -0.74],
+    [325.3048, 0.86, 0.45, -12.206392, 0.063246, 0.158114, -15.653274],
+    [254.0546, 0.99, 0.36, 4.120817, 0.137361, 0.145602, -7.134508],
+    [207.646, 0.95, 0.22, 21.470869, 0.042182, 0.237065, -23.469474],
+    [175.4261, 0.74, 0.11, 13.038344, 0.039873, 0.250799, -24.829074],
+  ],
+  HEX: [
+    [0, 0, 0, 0, 0.216506351, 0.125, -0.25],
+    [120, 0, 0, 0, 0.216506351, 0.125, -0.25],
+    [60, 0.125, 0, 0, 0.216506351, 0.125, -0.25],
+  ],
+  HONEY: [
+    [0, 0, 0, 0.1875, 0.108253175, 0.125, -0.25],
+    [120, 0, 0, 0.1875, 0.108253175, 0.125, -0.25],
+    [60, 0, 0, 0.1875, 0.108253175, -0.25, 0.125],
+  ],
+  HOUND: [
+    [0, 0, 0, 0.25, 0.0625, 1, -0.5],
+    [90, 0, 0, -0.25, 0.0625, 1, -0.5],
+  ],
+  INSUL: [
+    [0, 0, 0, 0, 0.375],
+    [0, 0, 0.125, 0, 0.375, 0.125, -0.125],
+    [0, 0, 0.25, 0, 0.375, 0.125, -0.125],
+  ],
+  LINE: [
+    [0, 0, 0, 0, 0.125],
+  ],
+  MUDST: [
+    [0, 0, 0, 0.5, 0.25, 0.25, -0.25, 0, -0.25, 0, -0.25],
+  ],
+  NET: [
+    [0, 0, 0, 0, 0.125],
+    [90, 0, 0, 0, 0.125],
+  ],
+  NET3: [
+    [0, 0, 0, 0, 0.125],
+    [60, 0, 0, 0, 0.125],
+    [120, 0, 0, 0, 0.125],
+  ],
+  PLAST: [
+    [0, 0, 0, 0, 0.25],
+    [0, 0, 0.03125, 0, 0.25],
+    [0, 0, 0.0625, 0, 0.25],
+  ],
+  PLASTI: [
+    [0, 0, 0, 0, 0.25],
+    [0, 0, 0.03125, 0, 0.25],
+    [0, 0, 0.0625, 0, 0.25],
+    [0, 0, 0.15625, 0, 0.25],
+  ],
+  SACNCR: [
+    [45, 0, 0, 0, 0.09375],
+    [45, 0.066291261, 0, 0, 0.09375, 0, -0.09375],
+  ],
+  SQUARE: [
+    [0, 0, 0, 0, 0.125, 0.125, -0.125],
+    [90, 0, 0, 0, 0.125, 0.125, -0.125],
+  ],
+  STARS: [
+    [0, 0, 0, 0, 0.216506351, 0.125, -0.125],
+    [60, 0, 0, 0, 0.216506351, 0.125, -0.125],
+    [120, 0.0625, 0.108253175, 0, 0.216506351, 0.125, -0.125],
+  ],
+  STEEL: [
+    [45, 0, 0, 0, 0.125],
+    [45, 0, 0.0625, 0, 0.125],
+  ],
+  SWAMP: [
+    [0, 0, 0, 0.5, 0.8660254, 0.125, -0.875],
+    [90, 0.0625, 0, 0.8660254, 0.5, 0.0625, -1.66955081],
+    [90, 0.078125, 0, 0.8660254, 0.5, 0.05, -1.68205081],
+    [90, 0.046875, 0, 0.8660254, 0.5, 0.05, -1.68205081],
+    [60, 0.09375, 0, 0.5, 0.8660254, 0.04, -0.96],
+    [120, 0.03125, 0, 0.5, 0.8660254, 0.04, -0.96],
+  ],
+  TRANS: [
+    [0, 0, 0, 0, 0.25],
+    [0, 0, 0.125, 0, 0.25, 0.125, -0.125],
+  ],
+  TRIANG: [
+    [60, 0, 0, 0.1875, 0.324759526, 0.1875, -0.1875],
+    [120, 0, 0, 0.1875, 0.324759526, 0.1875, -0.1875],
+    [0, -0.09375, 0.162379763, 0.1875, 0.324759526, 0.1875, -0.1875],
+  ],
+  ZIGZAG: [
+    [0, 0, 0, 0.125, 0.125, 0.125, -0.125],
+    [90, 0.125, 0, 0.125, 0.125, 0.125, -0.125],
+  ],
+};
+
+/**
+ * Convert `.pat` lines to hatch pattern lines, applying the hatch's pattern
+ * angle (degrees) and scale the way AutoCAD does when it writes code 53–49.
+ */
+export function expandPattern(
+  pattern: readonly PatLine[],
+  angle: number,
+  scale: number,
+): DxfHatchPatternLine[] {
+  const rot = angle * Math.PI / 180;
+  const cos = Math.cos(rot);
+  const sin = Math.sin(rot);
+
+  return pattern.map(([lineAngle = 0, x = 0, y = 0, dx = 0, dy = 0, ...dashes]) => {
+    // Delta is relative to the line direction
+    const lineRot = (lineAngle + angle) * Math.PI / 180;
+    const lineCos = Math.cos(lineRot);
+    const lineSin = Math.sin(lineRot);
+    return {
+      angle: lineAngle + angle,
+      base: {
+        x: (x * cos - y * sin) * scale,
+        y: (x * sin + y * cos) * scale,
+      },
+      offset: {
+        x: (dx * lineCos - dy * lineSin) * scale,
+        y: (dx * lineSin + dy * lineCos) * scale,
+      },
+      dashes: dashes.map(len => len * scale),
+    };
+  });
+}
+
+/**
+ * Resolve the pattern lines to draw for a hatch: the definitions stored in
+ * the file, or the built-in acad.pat entry for its pattern name. Metric
+ * drawings (`$MEASUREMENT` = 1) use acadiso.pat sizes, i.e. millimetres,
+ * which leaves the ACAD_ISO patterns as they are.
+ *
+ * Returns an empty array for solid fills and unknown patterns.
+ */
+export function getHatchPatternLines(entity: DxfHatchEntity, header: DxfHeader): DxfHatchPatternLine[] {
+  if (entity.solidFill) return [];
+  if (entity.patternLines.length > 0) return entity.patternLines;
+
+  const name = entity.patternName.toUpperCase();
+  const pattern = ACAD_PATTERNS[name];
+  if (!pattern) return [];
+
+  const unit = header.measurement === 1 && !name.startsWith('ACAD_ISO') ? 25.4 : 1;
+  const scale = entity.patternScale > 0 ? entity.patternScale : 1;
+  return expandPattern(pattern, entity.patternAngle, scale * unit);
+}
@@ -1,8 +1,14 @@
 export type { ViewTransform } from './camera.js';
 export type { Theme, ThemeConfig } from './theme.js';
 export type { RenderStats } from './debug-overlay.js';
-export { CanvasRenderer, resolveEntityColor } from './canvas-renderer.js';
-export { Camera, fitToView, worldToScreen, screenToWorld, zoomAtPoint, applyTransform } from './camera.js';
+export type { DrawOptions } from './draw-options.js';
+export type { BlockContext } from './block-context.js';
+export type { ShxFontType, ShxGlyph } from './shx-font.js';
+export type { FontMappings } from './fonts.js';
+export { CanvasRenderer, resolveEntityColor, resolveEntityLineType } from './canvas-renderer.js';
+export { Camera, fitToView, fitViewWindow, worldToScreen, screenToWorld, zoomAtPoint, applyTransform } from './camera.js';
 export { THEMES } from './theme.js';
 export { drawEntity } from './entities/index.js';
 export { renderDebugOverlay } from './debug-overlay.js';
+export { createFontMappings, mapCADFont } from './fonts.js';
+export { ShxFont, parseShxFont } from './shx-font.js';
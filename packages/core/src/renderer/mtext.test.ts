@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import type { MTextItem, MTextLayoutOptions, MTextStyle } from './mtext.js';
+import { decodeSpecialChars, layoutMText, mtextToPlainText, tokenizeMText } from './mtext.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE: MTextStyle = {
+  font: 'Standard',
+  bold: false,
+  italic: false,
+  height: 2,
+  color: null,
+  trueColor: null,
+  underline: false,
+  overline: false,
+  strike: false,
+  widthFactor: 1,
+  tracking: 1,
+  oblique: 0,
+  valign: 0,
+};
+
+/** Monospace measure: every character is half the text height wide. */
+const measure = (text: string, style: MTextStyle): number => text.length * style.height * 0.5;
+
+function layout(text: string, options?: Partial<MTextLayoutOptions>) {
+  return layoutMText(tokenizeMText(text, BASE), {
+    width: 0,
+    attachmentPoint: 1,
+    lineSpacingStyle: 1,
+    lineSpacingFactor: 1,
+    height: 2,
+    ...options,
+  }, measure);
+}
+
+function texts(items: MTextItem[]): string[] {
+  return items.map(item => item.type === 'text' ? item.text : item.type);
+}
+
+function lineTexts(result: ReturnType<typeof layout>): string[] {
+  return result.lines.map(line => line.fragments.map(f => f.type === 'text' ? f.text : `${f.top}/${f.bottom}`).join('|'));
+}
+
+// ─── tokenizeMText ──────────────────────────────────────────────────
+
+describe('tokenizeMText', () => {
+  it('splits paragraphs and decodes escapes', () => {
+    const paragraphs = tokenizeMText('A\\PB\\~C\\\\D\\{E\\}', BASE);
+    expect(paragraphs.map(p => texts(p.items))).toEqual([['A'], ['B\u00A0C\\D{E}']]);
+  });
+
+  it('scopes formatting to braces', () => {
+    const [para] = tokenizeMText('a{\\H2x;\\C1;\\Lb}c', BASE);
+    const [a, b, c] = para!.items;
+    expect(a!.style.height).toBe(2);
+    expect(b!.style).toMatchObject({ height: 4, color: 1, underline: true });
+    expect(c!.style).toEqual(BASE);
+  });
+
+  it('parses font switches with bold and italic flags', () => {
+    const [para] = tokenizeMText('\\fArial|b1|i1|c0|p34;Bold\\Fromans.shx;Plain', BASE);
+    expect(para!.items[0]!.style).toMatchObject({ font: 'Arial', bold: true, italic: true });
+    expect(para!.items[1]!.style).toMatchObject({ font: 'romans.shx', bold: true });
+  });
+
+  it('parses width, tracking, oblique and true color', () => {
+    const [para] = tokenizeMText('\\W0.8;\\T1.5x;\\Q15;\\c255;x', BASE);
+    expect(para!.items[0]!.style).toMatchObject({
+      widthFactor: 0.8, tracking: 1.5, oblique: 15, trueColor: 0xFF0000,
+    });
+  });
+
+  it('treats BYLAYER and BYBLOCK colors as the entity color', () => {
+    const [para] = tokenizeMText('\\C3;a\\C256;b', BASE);
+    expect(para!.items.map(i => i.style.color)).toEqual([3, null]);
+  });
+
+  it('parses stacked fractions', () => {
+    const [para] = tokenizeMText('1\\S1/2;" \\S+0.1^-0.2; \\S3#4;', BASE);
+    const stacks = para!.items.filter(i => i.type === 'stack');
+    expect(stacks).toMatchObject([
+      { top: '1', bottom: '2', kind: '/' },
+      { top: '+0.1', bottom: '-0.2', kind: '^' },
+      { top: '3', bottom: '4', kind: '#' },
+    ]);
+  });
+
+  it('parses paragraph indents, alignment and tabs in text heights', () => {
+    const [first, second] = tokenizeMText('\\pxi-1,l2,qc,t3,6;a\\Pb', BASE);
+    expect(first).toMatchObject({ indent: -2, left: 4, align: 'center', tabs: [6, 12] });
+    // Paragraph properties carry over
+    expect(second).toMatchObject({ indent: -2, left: 4, align: 'center', tabs: [6, 12] });
+  });
+
+  it('turns ^I into tabs and drops unknown codes', () => {
+    const [para] = tokenizeMText('a^Ib\\Zunknown;c', BASE);
+    expect(texts(para!.items)).toEqual(['a', 'tab', 'bc']);
+  });
+});
+
+describe('decodeSpecialChars', () => {
+  it('decodes %% codes and unicode escapes', () => {
+    expect(decodeSpecialChars('%%c10 %%d %%p0.1 100%%%')).toBe('⌀10 ° ±0.1 100%');
+    expect(decodeSpecialChars('\\U+00B2')).toBe('²');
+  });
+
+  it('leaves unicode escapes after an escaped backslash alone', () => {
+    expect(decodeSpecialChars('\\\\U+0041')).toBe('\\\\U+0041');
+    expect(decodeSpecialChars('\\\\\\U+0041')).toBe('\\\\A');
+    expect(mtextToPlainText('\\\\U+0041')).toBe('\\U+0041');
+  });
+});
+
+// ─── layoutMText ────────────────────────────────────────────────────
+
+describe('layoutMText', () => {
+  it('wraps words to the reference width', () => {
+    // Each character is 1 unit wide; width 10 fits "aaaa bbbb"
+    const result = layout('aaaa bbbb cccc dddd', { width: 10 });
+    expect(lineTexts(result)).toEqual(['aaaa bbbb', 'cccc dddd']);
+  });
+
+  it('keeps long words whole on their own line', () => {
+    expect(lineTexts(layout('a bbbbbbbbbbbb c', { width: 5 }))).toEqual(['a', 'bbbbbbbbbbbb', 'c']);
+  });
+
+  it('does not wrap when the width is 0', () => {
+    expect(layout('aaaa bbbb cccc dddd').lines).toHaveLength(1);
+  });
+
+  it('spaces lines at 5/3 of the text height', () => {
+    const result = layout('a\\Pb\\P\\Pc');
+    const expected = [2, 2 + 10 / 3, 2 + 20 / 3, 2 + 10];
+    result.lines.forEach((line, i) => expect(line.y).toBeCloseTo(expected[i]!));
+  });
+
+  it('grows line spacing with the tallest character', () => {
+    const result = layout('a\\P{\\H4;b}');
+    expect(result.lines[1]!.y).toBeCloseTo(2 + 4 * 5 / 3);
+  });
+
+  it('positions the box by the attachment point', () => {
+    // MC (5): centered on the insertion point
+    const result = layout('abcd\\Pefgh', { attachmentPoint: 5 });
+    const height = 2 + 10 / 3;
+    expect(result.box).toEqual({ minX: -2, minY: -height / 2, maxX: 2, maxY: height / 2 });
+    expect(result.lines[0]!.fragments[0]!.x).toBe(-2);
+  });
+
+  it('aligns lines within the box', () => {
+    const result = layout('\\pqr;ab\\Pabcd');
+    expect(result.lines.map(l => l.fragments[0]!.x)).toEqual([2, 0]);
+  });
+
+  it('applies first-line and left indents', () => {
+    const result = layout('\\pxi-2,l3;aaaa bbbb', { width: 7, height: 1 });
+    // Text height is 2, so the indents are 6 and -4: first line at 2, rest at 6
+    expect(result.lines.map(l => l.fragments[0]!.x)).toEqual([2, 6]);
+  });
+
+  it('advances tabs to the next stop', () => {
+    const result = layout('\\pxt5;a^Ib^Ic', { height: 2 });
+    // Stop at 10 from \p, then default 4-height interval (8) → 18
+    expect(result.lines[0]!.fragments.map(f => f.x)).toEqual([0, 10, 18]);
+  });
+
+  it('justifies all but the last line of a paragraph', () => {
+    const result = layout('\\pqj;aa bb cc dd', { width: 7 });
+    expect(lineTexts(result)).toEqual(['aa|bb', 'cc dd']);
+    expect(result.lines[0]!.fragments.map(f => f.x)).toEqual([0, 5]);
+  });
+
+  it('sizes stacked fractions at 70% height', () => {
+    const result = layout('1\\S1/16;');
+    const stack = result.lines[0]!.fragments[1]!;
+    expect(stack.type).toBe('stack');
+    // "16" at 1.4 height is 1.4 wide, plus a 0.2 margin
+    expect(stack.width).toBeCloseTo(1.6);
+  });
+});
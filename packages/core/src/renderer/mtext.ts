@@ -0,0 +1,590 @@
+/**
+ * MTEXT inline formatting: tokenizer into styled runs, and a layout engine
+ * that wraps them into lines inside the MTEXT reference rectangle.
+ *
+ * Layout coordinates are relative to the insertion point with Y pointing
+ * down (the un-flipped text space used by the text renderers).
+ */
+
+/** Character formatting in effect for a run of MTEXT. */
+export interface MTextStyle {
+  /** Font name from the text style, `\f` (family) or `\F` (font file). */
+  font: string;
+  bold: boolean;
+  italic: boolean;
+  /** Character height in drawing units. */
+  height: number;
+  /** ACI color from `\C`, or null for the entity color. */
+  color: number | null;
+  /** 24-bit RGB color from `\c`, or null. Takes precedence over `color`. */
+  trueColor: number | null;
+  underline: boolean;
+  overline: boolean;
+  strike: boolean;
+  widthFactor: number;
+  /** Character spacing factor (`\T`). */
+  tracking: number;
+  /** Obliquing angle in degrees (`\Q`). */
+  oblique: number;
+  /** Vertical alignment of the run within the line (`\A`): 0 = bottom, 1 = middle, 2 = top. */
+  valign: number;
+}
+
+export type MTextItem =
+  | { type: 'text'; text: string; style: MTextStyle }
+  | { type: 'stack'; top: string; bottom: string; kind: '/' | '#' | '^'; style: MTextStyle }
+  | { type: 'tab'; style: MTextStyle };
+
+export type MTextAlign = 'left' | 'center' | 'right' | 'justify' | 'distributed';
+
+/** One `\P`-separated paragraph. Indents and tab stops are in drawing units. */
+export interface MTextParagraph {
+  items: MTextItem[];
+  /** First-line indent, relative to `left`. */
+  indent: number;
+  left: number;
+  right: number;
+  /** Paragraph alignment (`\pq`), or null to follow the attachment point. */
+  align: MTextAlign | null;
+  tabs: number[];
+}
+
+/** Height of stacked fraction parts relative to the surrounding text. */
+export const STACK_SCALE = 0.7;
+
+/** AutoCAD's line spacing for a factor of 1.0, as a multiple of text height. */
+const LINE_SPACING = 5 / 3;
+
+const PARAGRAPH_ALIGN: Record<string, MTextAlign> = {
+  l: 'left', c: 'center', r: 'right', j: 'justify', d: 'distributed',
+};
+
+/** Tab interval when the paragraph defines no tab stops, in text heights. */
+const DEFAULT_TAB = 4;
+
+const SPECIAL_CHARS: Record<string, string> = {
+  c: '⌀', // diameter
+  d: '°', // degree
+  p: '±', // plus/minus
+  '%': '%',
+};
+
+/**
+ * Replace `%%c`, `%%d`, `%%p`, `%%%` and `\U+XXXX` escapes with characters.
+ * An escaped backslash (`\\`) is kept as it is, so `\\U+0041` stays literal.
+ */
+export function decodeSpecialChars(text: string): string {
+  return text
+    .replace(/%%([cdp%])/gi, (_, c: string) => SPECIAL_CHARS[c.toLowerCase()] ?? '')
+    .replace(/\\\\|\\U\+([0-9a-fA-F]{4})/g, (match, hex?: string) => (
+      hex ? String.fromCharCode(parseInt(hex, 16)) : match
+    ));
+}
+
+/** Neutral style for reducing MTEXT to plain text; only the characters matter. */
+const PLAIN_STYLE: MTextStyle = {
+  font: '',
+  bold: false,
+  italic: false,
+  height: 1,
+  color: null,
+  trueColor: null,
+  underline: false,
+  overline: false,
+  strike: false,
+  widthFactor: 1,
+  tracking: 1,
+  oblique: 0,
+  valign: 0,
+};
+
+/**
+ * MTEXT content without formatting codes: paragraphs joined by newlines,
+ * tabs kept and stacked fractions written as `top/bottom`.
+ */
+export function mtextToPlainText(text: string): string {
+  return tokenizeMText(text, PLAIN_STYLE)
+    .map(para => para.items.map(item => {
+      if (item.type === 'text') return item.text;
+      if (item.type === 'tab') return '\t';
+      return `${item.top}/${item.bottom}`;
+    }).join(''))
+    .join('\n');
+}
+
+/**
+ * Split MTEXT content into paragraphs of styled runs.
+ * Unknown codes are dropped; braces scope character formatting.
+ */
+export function tokenizeMText(text: string, base: MTextStyle): MTextParagraph[] {
+  const src = decodeSpecialChars(text);
+  const paragraphs: MTextParagraph[] = [];
+  let para = newParagraph(null);
+  let style = { ...base };
+  const stack: MTextStyle[] = [];
+  let buffer = '';
+
+  const flush = (): void => {
+    if (buffer) para.items.push({ type: 'text', text: buffer, style });
+    buffer = '';
+  };
+  // Apply a formatting change to a fresh style object so earlier runs keep theirs
+  const restyle = (change: Partial<MTextStyle>): void => {
+    flush();
+    style = { ...style, ...change };
+  };
+  const breakParagraph = (): void => {
+    flush();
+    paragraphs.push(para);
+    para = newParagraph(para);
+  };
+  // Read a code argument up to the terminating ';'
+  const readArg = (from: number): [string, number] => {
+    const end = src.indexOf(';', from);
+    return end === -1 ? [src.slice(from), src.length] : [src.slice(from, end), end + 1];
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i]!;
+
+    if (ch === '{') { flush(); stack.push(style); i++; continue; }
+    if (ch === '}') { flush(); style = stack.pop() ?? style; i++; continue; }
+    if (ch === '\n') { breakParagraph(); i++; continue; }
+    if (ch === '\t') { flush(); para.items.push({ type: 'tab', style }); i++; continue; }
+
+    if (ch === '^' && i + 1 < src.length) {
+      // Caret-encoded control characters
+      const next = src[i + 1]!;
+      if (next === 'I') { flush(); para.items.push({ type: 'tab', style }); i += 2; continue; }
+      if (next === 'J') { breakParagraph(); i += 2; continue; }
+      if (next === 'M') { i += 2; continue; }
+      if (next === ' ') { buffer += '^'; i += 2; continue; }
+    }
+
+    if (ch !== '\\' || i + 1 >= src.length) { buffer += ch; i++; continue; }
+
+    const code = src[i + 1]!;
+    i += 2;
+    switch (code) {
+      case 'P': case 'X': case 'N':
+        breakParagraph();
+        break;
+      case '~':
+        buffer += '\u00A0'; // non-breaking space
+        break;
+      case '\\': case '{': case '}':
+        buffer += code;
+        break;
+      case 'L': restyle({ underline: true }); break;
+      case 'l': restyle({ underline: false }); break;
+      case 'O': restyle({ overline: true }); break;
+      case 'o': restyle({ overline: false }); break;
+      case 'K': restyle({ strike: true }); break;
+      case 'k': restyle({ strike: false }); break;
+      case 'f': case 'F': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const [name = '', ...flags] = arg.split('|');
+        const change: Partial<MTextStyle> = {};
+        if (name) change.font = name;
+        for (const flag of flags) {
+          if (flag.startsWith('b')) change.bold = flag === 'b1';
+          else if (flag.startsWith('i')) change.italic = flag === 'i1';
+        }
+        restyle(change);
+        break;
+      }
+      case 'H': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const height = parseFactor(arg, style.height);
+        if (height > 0) restyle({ height });
+        break;
+      }
+      case 'W': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const widthFactor = parseFactor(arg, style.widthFactor);
+        if (widthFactor > 0) restyle({ widthFactor });
+        break;
+      }
+      case 'T': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const tracking = parseFactor(arg, style.tracking);
+        if (tracking > 0) restyle({ tracking });
+        break;
+      }
+      case 'Q': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const oblique = parseFloat(arg);
+        if (isFinite(oblique)) restyle({ oblique });
+        break;
+      }
+      case 'A': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const valign = parseInt(arg, 10);
+        if (valign >= 0 && valign <= 2) restyle({ valign });
+        break;
+      }
+      case 'C': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const aci = parseInt(arg, 10);
+        // BYBLOCK (0) and BYLAYER (256) fall back to the entity color
+        if (isFinite(aci)) restyle({ color: aci > 0 && aci < 256 ? aci : null, trueColor: null });
+        break;
+      }
+      case 'c': {
+        const [arg, next] = readArg(i);
+        i = next;
+        const value = parseInt(arg, 10);
+        // Stored as a Windows COLORREF (0xBBGGRR)
+        if (isFinite(value)) {
+          const rgb = ((value & 0xFF) << 16) | (value & 0xFF00) | ((value >> 16) & 0xFF);
+          restyle({ trueColor: rgb });
+        }
+        break;
+      }
+      case 'S': {
+        const [arg, next] = readArg(i);
+        i = next;
+        flush();
+        para.items.push({ ...parseStack(arg), type: 'stack', style });
+        break;
+      }
+      case 'p': {
+        const [arg, next] = readArg(i);
+        i = next;
+        applyParagraphProps(para, arg, base.height);
+        break;
+      }
+      default: {
+        // Unknown code: drop it, and its argument if one runs to a ';' within the word
+        const end = src.indexOf(';', i);
+        if (/[a-zA-Z]/.test(code) && end !== -1 && !/[\s\\{}]/.test(src.slice(i, end))) i = end + 1;
+        break;
+      }
+    }
+  }
+
+  flush();
+  paragraphs.push(para);
+  return paragraphs;
+}
+
+function newParagraph(previous: MTextParagraph | null): MTextParagraph {
+  // Paragraph properties carry over to following paragraphs until changed
+  return previous
+    ? { items: [], indent: previous.indent, left: previous.left, right: previous.right, align: previous.align, tabs: previous.tabs }
+    : { items: [], indent: 0, left: 0, right: 0, align: null, tabs: [] };
+}
+
+/** Parse a `\H`/`\W`/`\T` value: absolute, or relative to `current` with an `x` suffix. */
+function parseFactor(arg: string, current: number): number {
+  const trimmed = arg.trim();
+  if (trimmed.toLowerCase().endsWith('x')) return current * parseFloat(trimmed.slice(0, -1));
+  return parseFloat(trimmed);
+}
+
+/** Split `\S` content at the first unescaped `/`, `#` or `^`. */
+function parseStack(arg: string): { top: string; bottom: string; kind: '/' | '#' | '^' } {
+  let top = '';
+  for (let i = 0; i < arg.length; i++) {
+    const ch = arg[i]!;
+    if (ch === '\\' && i + 1 < arg.length) { top += arg[i + 1]; i++; continue; }
+    if (ch === '/' || ch === '#' || ch === '^') {
+      const bottom = arg.slice(i + 1).replace(/\\(.)/g, '$1');
+      // "^ " marks a tolerance stack; the space is not part of the text
+      return { top, bottom: ch === '^' ? bottom.replace(/^ /, '') : bottom, kind: ch };
+    }
+    top += ch;
+  }
+  return { top, bottom: '', kind: '^' };
+}
+
+/**
+ * Apply `\p` paragraph properties: `i` first-line indent, `l` left indent,
+ * `r` right indent, `q` alignment, `t` tab stops (`z` resets). Distances are
+ * in multiples of the MTEXT character height.
+ */
+function applyParagraphProps(para: MTextParagraph, arg: string, height: number): void {
+  const parts = arg.replace(/^x/, '').split(',');
+  for (let p = 0; p < parts.length; p++) {
+    const part = parts[p]!.trim();
+    const key = part[0];
+    const value = part.slice(1);
+    switch (key) {
+      case 'i': para.indent = parseFloat(value) * height || 0; break;
+      case 'l': para.left = parseFloat(value) * height || 0; break;
+      case 'r': para.right = parseFloat(value) * height || 0; break;
+      case 'q':
+        para.align = PARAGRAPH_ALIGN[value[0] ?? ''] ?? null;
+        break;
+      case 't': {
+        // Tab stops run to the end of the list: t4,8,12
+        if (value === 'z') { para.tabs = []; break; }
+        const tabs = [parseFloat(value)];
+        while (p + 1 < parts.length && /^[\d.]/.test(parts[p + 1]!.trim())) {
+          tabs.push(parseFloat(parts[++p]!));
+        }
+        para.tabs = tabs.filter(t => isFinite(t)).map(t => t * height);
+        break;
+      }
+      case 'z':
+        // Reset to defaults
+        para.indent = 0; para.left = 0; para.right = 0; para.align = null; para.tabs = [];
+        break;
+    }
+  }
+}
+
+// ─── Layout ─────────────────────────────────────────────────────────
+
+/** A run or stack placed on a line. `x` is relative to the insertion point. */
+export type MTextFragment =
+  | { type: 'text'; x: number; width: number; text: string; style: MTextStyle }
+  | { type: 'stack'; x: number; width: number; top: string; bottom: string; kind: '/' | '#' | '^'; style: MTextStyle };
+
+export interface MTextLine {
+  /** Baseline, relative to the insertion point (Y down). */
+  y: number;
+  /** Height of the tallest character on the line. */
+  height: number;
+  fragments: MTextFragment[];
+}
+
+export interface MTextLayout {
+  lines: MTextLine[];
+  /** Reference rectangle of the laid-out text, relative to the insertion point (Y down). */
+  box: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+export interface MTextLayoutOptions {
+  /** Reference rectangle width; 0 disables wrapping. */
+  width: number;
+  /** Attachment point 1–9 (TL, TC, TR, ML, MC, MR, BL, BC, BR). */
+  attachmentPoint: number;
+  /** 1 = at least (grow with tallest character), 2 = exact. */
+  lineSpacingStyle: number;
+  lineSpacingFactor: number;
+  /** Nominal character height of the MTEXT. */
+  height: number;
+}
+
+/** Measure the unscaled advance width of `text` in `style`'s font and height. */
+export type MTextMeasure = (text: string, style: MTextStyle) => number;
+
+interface Piece {
+  kind: 'word' | 'space' | 'tab' | 'stack';
+  width: number;
+  item: MTextItem;
+  text: string;
+}
+
+interface PendingLine {
+  pieces: Piece[];
+  width: number;
+  height: number;
+  first: boolean;
+  last: boolean;
+  para: MTextParagraph;
+}
+
+/** Width of a text run including width factor and tracking. */
+export function runWidth(text: string, style: MTextStyle, measure: MTextMeasure): number {
+  return measure(text, style) * style.widthFactor * style.tracking;
+}
+
+/** Width of a stacked fraction. */
+export function stackWidth(
+  item: Extract<MTextItem, { type: 'stack' }>,
+  measure: MTextMeasure,
+): number {
+  const small = { ...item.style, height: item.style.height * STACK_SCALE };
+  const top = runWidth(item.top, small, measure);
+  const bottom = runWidth(item.bottom, small, measure);
+  if (item.kind === '#') return top + bottom + item.style.height * 0.5;
+  return Math.max(top, bottom) + item.style.height * 0.1;
+}
+
+/**
+ * Lay out MTEXT paragraphs: wrap to the reference width, apply indents,
+ * tabs and paragraph alignment, and position the block by its attachment point.
+ */
+export function layoutMText(
+  paragraphs: MTextParagraph[],
+  options: MTextLayoutOptions,
+  measure: MTextMeasure,
+): MTextLayout {
+  const pending: PendingLine[] = [];
+
+  for (const para of paragraphs) {
+    const pieces = splitPieces(para, measure);
+    const start = pending.length;
+    let line = newLine(para, true);
+
+    for (const piece of pieces) {
+      const lineLeft = para.left + (line.first ? para.indent : 0);
+      const available = options.width > 0 ? options.width - lineLeft - para.right : Infinity;
+
+      if (piece.kind === 'space') {
+        // Spaces never start a wrapped line
+        if (line.pieces.length === 0 && !line.first) continue;
+        addPiece(line, piece);
+        continue;
+      }
+
+      if (piece.kind === 'tab') {
+        const tabbed = nextTabStop(lineLeft + line.width, para, options.height) - lineLeft;
+        addPiece(line, { ...piece, width: Math.max(0, tabbed - line.width) });
+        continue;
+      }
+
+      if (line.width + piece.width > available && line.pieces.some(p => p.kind !== 'space')) {
+        trimTrailingSpaces(line);
+        pending.push(line);
+        line = newLine(para, false);
+      }
+      addPiece(line, piece);
+    }
+
+    trimTrailingSpaces(line);
+    pending.push(line);
+    pending[pending.length - 1]!.last = true;
+    // Empty paragraphs still take a line at the paragraph's height
+    for (let l = start; l < pending.length; l++) {
+      const pl = pending[l]!;
+      if (pl.height === 0) pl.height = lastStyleHeight(para) ?? options.height;
+    }
+  }
+
+  // Vertical positions: first baseline one character height below the top
+  const lines: MTextLine[] = [];
+  let maxWidth = 0;
+  let y = 0;
+  for (let l = 0; l < pending.length; l++) {
+    const pl = pending[l]!;
+    if (l === 0) {
+      y = pl.height;
+    } else {
+      const tallest = options.lineSpacingStyle === 2
+        ? options.height
+        : Math.max(pl.height, pending[l - 1]!.height);
+      y += tallest * LINE_SPACING * (options.lineSpacingFactor || 1);
+    }
+    const lineLeft = pl.para.left + (pl.first ? pl.para.indent : 0);
+    maxWidth = Math.max(maxWidth, lineLeft + pl.width + pl.para.right);
+    lines.push({ y, height: pl.height, fragments: [] });
+  }
+  const totalHeight = y;
+
+  // Horizontal: reference width, or the widest line for unwrapped text
+  const boxWidth = options.width > 0 ? options.width : maxWidth;
+  const col = (options.attachmentPoint - 1) % 3; // 0=left, 1=center, 2=right
+  const row = Math.floor((options.attachmentPoint - 1) / 3); // 0=top, 1=middle, 2=bottom
+  const boxLeft = col === 1 ? -boxWidth / 2 : col === 2 ? -boxWidth : 0;
+  const boxTop = row === 1 ? -totalHeight / 2 : row === 2 ? -totalHeight : 0;
+  const defaultAlign: MTextAlign = col === 1 ? 'center' : col === 2 ? 'right' : 'left';
+
+  for (let l = 0; l < pending.length; l++) {
+    const pl = pending[l]!;
+    const line = lines[l]!;
+    line.y += boxTop;
+
+    const lineLeft = pl.para.left + (pl.first ? pl.para.indent : 0);
+    const available = boxWidth - lineLeft - pl.para.right;
+    const align = pl.para.align ?? defaultAlign;
+    const slack = Math.max(0, available - pl.width);
+
+    let x = boxLeft + lineLeft;
+    let gapExtra = 0;
+    if (align === 'center') x += slack / 2;
+    else if (align === 'right') x += slack;
+    else if ((align === 'justify' && !pl.last) || align === 'distributed') {
+      const gaps = pl.pieces.filter(p => p.kind === 'space').length;
+      if (gaps > 0 && options.width > 0) gapExtra = slack / gaps;
+    }
+
+    for (const piece of pl.pieces) {
+      const width = piece.kind === 'space' ? piece.width + gapExtra : piece.width;
+      const item = piece.item;
+      if (item.type === 'stack') {
+        line.fragments.push({
+          type: 'stack', x, width, top: item.top, bottom: item.bottom, kind: item.kind, style: item.style,
+        });
+      } else if (piece.kind !== 'tab' && !(piece.kind === 'space' && gapExtra > 0)) {
+        // Merge consecutive pieces of the same run back into one fragment;
+        // justified spaces are left as gaps
+        const prev = line.fragments[line.fragments.length - 1];
+        if (prev?.type === 'text' && prev.style === item.style && Math.abs(prev.x + prev.width - x) < 1e-9) {
+          prev.text += piece.text;
+          prev.width += width;
+        } else {
+          line.fragments.push({ type: 'text', x, width, text: piece.text, style: item.style });
+        }
+      }
+      x += width;
+    }
+  }
+
+  return {
+    lines,
+    box: { minX: boxLeft, minY: boxTop, maxX: boxLeft + boxWidth, maxY: boxTop + totalHeight },
+  };
+}
+
+function newLine(para: MTextParagraph, first: boolean): PendingLine {
+  return { pieces: [], width: 0, height: 0, first, last: false, para };
+}
+
+function addPiece(line: PendingLine, piece: Piece): void {
+  line.pieces.push(piece);
+  line.width += piece.width;
+  if (piece.kind !== 'space' && piece.kind !== 'tab') {
+    line.height = Math.max(line.height, piece.item.style.height);
+  }
+}
+
+function trimTrailingSpaces(line: PendingLine): void {
+  while (line.pieces.length > 0 && line.pieces[line.pieces.length - 1]!.kind === 'space') {
+    line.width -= line.pieces.pop()!.width;
+  }
+}
+
+function lastStyleHeight(para: MTextParagraph): number | undefined {
+  return para.items[para.items.length - 1]?.style.height;
+}
+
+/** Next tab stop after `x` (measured from the paragraph's left edge at 0). */
+function nextTabStop(x: number, para: MTextParagraph, height: number): number {
+  for (const stop of para.tabs) {
+    if (stop > x + 1e-9) return stop;
+  }
+  const interval = DEFAULT_TAB * height;
+  const lastStop = para.tabs[para.tabs.length - 1] ?? 0;
+  const base = Math.max(lastStop, 0);
+  return base + (Math.floor((x - base) / interval + 1e-9) + 1) * interval;
+}
+
+/** Break paragraph items into words, spaces, tabs and stacks for wrapping. */
+function splitPieces(para: MTextParagraph, measure: MTextMeasure): Piece[] {
+  const pieces: Piece[] = [];
+  for (const item of para.items) {
+    if (item.type === 'tab') {
+      pieces.push({ kind: 'tab', width: 0, item, text: '' });
+    } else if (item.type === 'stack') {
+      pieces.push({ kind: 'stack', width: stackWidth(item, measure), item, text: '' });
+    } else {
+      for (const part of item.text.split(/( +)/)) {
+        if (!part) continue;
+        const kind = part[0] === ' ' ? 'space' : 'word';
+        pieces.push({ kind, width: runWidth(part, item.style, measure), item, text: part });
+      }
+    }
+  }
+  return pieces;
+}
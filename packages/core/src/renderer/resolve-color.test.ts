@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfEntityBase, DxfLayer } from '../parser/types.js';
+import { resolveEntityColor } from './resolve-color.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const LAYERS = new Map<string, DxfLayer>([
+  ['Walls', { name: 'Walls', color: 1, lineType: 'Continuous', flags: 0, lineWeight: -3, isOff: false, isFrozen: false, isLocked: false }],
+]);
+
+function makeEntity(overrides?: Partial<DxfEntityBase>): DxfEntityBase {
+  return {
+    type: 'LINE',
+    layer: 'Walls',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    ...overrides,
+  };
+}
+
+// ─── resolveEntityColor ─────────────────────────────────────────────
+
+describe('resolveEntityColor', () => {
+  it('resolves BYLAYER from the layer table', () => {
+    expect(resolveEntityColor(makeEntity(), LAYERS, 'dark')).toBe('#FF0000');
+  });
+
+  it('prefers a layer color override for BYLAYER entities', () => {
+    const overrides = new Map([['Walls', '#123456']]);
+    expect(resolveEntityColor(makeEntity(), LAYERS, 'dark', undefined, overrides)).toBe('#123456');
+  });
+
+  it('does not apply layer overrides to explicit colors', () => {
+    const overrides = new Map([['Walls', '#123456']]);
+    expect(resolveEntityColor(makeEntity({ color: 3 }), LAYERS, 'dark', undefined, overrides)).toBe('#00FF00');
+  });
+});
@@ -1,7 +1,9 @@
 import type { DxfEntityBase, DxfLayer } from '../parser/types.js';
 import type { Theme } from './theme.js';
+import type { BlockContext } from './block-context.js';
 import { THEMES } from './theme.js';
 import { aciToHex } from '../parser/colors.js';
+import { effectiveLayer } from './block-context.js';
 
 /**
  * Get display color for an ACI color index, handling color 7 theme swap.
@@ -21,16 +23,21 @@ export function getDisplayColor(aciColor: number, theme: Theme): string {
  * 2. Entity ACI color (code 62):
  *    - 1-255: use ACI color table
  *    - 0 (BYBLOCK): use parent INSERT color, or default if no parent
+ *      (`parent` is the INSERT's block context, or just its color string)
  *    - 256 (BYLAYER): use layer color
- * 3. Layer color (from LAYER table)
+ * 3. Layer color: a viewer override from `layerColors`, else the LAYER table.
+ *    Inside a block, entities on layer "0" use the parent INSERT's layer.
  * 4. Default theme color (fallback)
  */
 export function resolveEntityColor(
   entity: DxfEntityBase,
   layers: Map<string, DxfLayer>,
   theme: Theme,
-  parentColor?: string,
+  parent?: string | BlockContext,
+  layerColors?: ReadonlyMap<string, string>,
 ): string {
+  const context = typeof parent === 'string' ? undefined : parent;
+
   // 1. True color
   if (entity.trueColor !== undefined) {
     const r = (entity.trueColor >> 16) & 0xFF;
@@ -42,6 +49,7 @@ export function resolveEntityColor(
   // 2. ACI color
   if (entity.color === 0) {
     // BYBLOCK: use parent color or theme default
+    const parentColor = typeof parent === 'string' ? parent : parent?.color;
     return parentColor ?? THEMES[theme].defaultEntityColor;
   }
 
@@ -50,8 +58,12 @@ export function resolveEntityColor(
     return getDisplayColor(entity.color, theme);
   }
 
-  // 3. BYLAYER (256): resolve from layer
-  const layer = layers.get(entity.layer);
+  // 3. BYLAYER (256): resolve from layer override, then layer table
+  const layerName = effectiveLayer(entity, context);
+  const override = layerColors?.get(layerName);
+  if (override !== undefined) return override;
+
+  const layer = layers.get(layerName);
   if (layer) {
     if (layer.trueColor !== undefined) {
       const r = (layer.trueColor >> 16) & 0xFF;
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfLineType } from '../parser/types.js';
+import { resolveEntityLineType, computeLineDash, resolveEntityLineDash } from './resolve-linetype.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const HIDDEN: DxfLineType = {
+  name: 'HIDDEN',
+  description: '__ __ __',
+  pattern: [0.25, -0.125],
+  totalLength: 0.375,
+};
+
+const CENTER: DxfLineType = {
+  name: 'CENTER',
+  description: '____ _ ____',
+  pattern: [1.25, -0.25, 0.25, -0.25],
+  totalLength: 2,
+};
+
+function makeDoc(ltScale = 1): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1027', insUnits: 0, measurement: 0, ltScale },
+    layers: new Map([
+      ['0', { name: '0', color: 7, lineType: 'Continuous', flags: 0, lineWeight: -3, isOff: false, isFrozen: false, isLocked: false }],
+      ['Hidden', { name: 'Hidden', color: 1, lineType: 'HIDDEN', flags: 0, lineWeight: -3, isOff: false, isFrozen: false, isLocked: false }],
+    ]),
+    lineTypes: new Map([['HIDDEN', HIDDEN], ['CENTER', CENTER]]),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+  };
+}
+
+function makeEntity(overrides?: Partial<DxfEntityBase>): DxfEntityBase {
+  return {
+    type: 'LINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    ...overrides,
+  };
+}
+
+// ─── resolveEntityLineType ──────────────────────────────────────────
+
+describe('resolveEntityLineType', () => {
+  it('returns null for BYLAYER on a continuous layer', () => {
+    expect(resolveEntityLineType(makeEntity(), makeDoc())).toBeNull();
+  });
+
+  it('resolves BYLAYER from the layer line type', () => {
+    const lt = resolveEntityLineType(makeEntity({ layer: 'Hidden' }), makeDoc());
+    expect(lt).toBe(HIDDEN);
+  });
+
+  it('uses an explicit entity line type over the layer', () => {
+    const lt = resolveEntityLineType(makeEntity({ layer: 'Hidden', lineType: 'CENTER' }), makeDoc());
+    expect(lt).toBe(CENTER);
+  });
+
+  it('matches line type names case-insensitively', () => {
+    const lt = resolveEntityLineType(makeEntity({ lineType: 'hidden' }), makeDoc());
+    expect(lt).toBe(HIDDEN);
+  });
+
+  it('returns null for CONTINUOUS, BYBLOCK and unknown names', () => {
+    const doc = makeDoc();
+    expect(resolveEntityLineType(makeEntity({ lineType: 'CONTINUOUS' }), doc)).toBeNull();
+    expect(resolveEntityLineType(makeEntity({ lineType: 'BYBLOCK' }), doc)).toBeNull();
+    expect(resolveEntityLineType(makeEntity({ lineType: 'NOPE' }), doc)).toBeNull();
+  });
+});
+
+// ─── computeLineDash ────────────────────────────────────────────────
+
+describe('computeLineDash', () => {
+  it('returns an empty array for null line type', () => {
+    expect(computeLineDash(null, 1, 0.01)).toEqual([]);
+  });
+
+  it('converts signed pattern elements to dash/gap lengths', () => {
+    expect(computeLineDash(CENTER, 1, 0.01)).toEqual([1.25, 0.25, 0.25, 0.25]);
+  });
+
+  it('applies the combined scale', () => {
+    expect(computeLineDash(HIDDEN, 4, 0.01)).toEqual([1, 0.5]);
+  });
+
+  it('keeps zero-length dots', () => {
+    const dot: DxfLineType = { name: 'DOT', description: '', pattern: [0, -0.25], totalLength: 0.25 };
+    expect(computeLineDash(dot, 1, 0.01)).toEqual([0, 0.25]);
+  });
+
+  it('merges consecutive elements of the same kind', () => {
+    const lt: DxfLineType = { name: 'X', description: '', pattern: [0.5, 0.5, -0.25, -0.25], totalLength: 1.5 };
+    expect(computeLineDash(lt, 1, 0.01)).toEqual([1, 0.5]);
+  });
+
+  it('pads odd-length results so dashes and gaps never swap', () => {
+    const lt: DxfLineType = { name: 'X', description: '', pattern: [-0.25, 0.5], totalLength: 0.75 };
+    expect(computeLineDash(lt, 1, 0.01)).toEqual([0.5, 0.25]);
+  });
+
+  it('falls back to continuous when the pattern is denser than a few pixels', () => {
+    // 0.375 units per repetition at 1 px = 1 unit → sub-pixel pattern
+    expect(computeLineDash(HIDDEN, 1, 1)).toEqual([]);
+  });
+
+  it('derives the pattern length when totalLength is missing', () => {
+    const lt: DxfLineType = { ...HIDDEN, totalLength: 0 };
+    expect(computeLineDash(lt, 1, 0.01)).toEqual([0.25, 0.125]);
+  });
+});
+
+// ─── resolveEntityLineDash ──────────────────────────────────────────
+
+describe('resolveEntityLineDash', () => {
+  it('multiplies $LTSCALE by the entity line type scale', () => {
+    const dash = resolveEntityLineDash(makeEntity({ lineType: 'HIDDEN', lineTypeScale: 2 }), makeDoc(10), 0.01);
+    expect(dash).toEqual([5, 2.5]);
+  });
+
+  it('returns an empty array for continuous entities', () => {
+    expect(resolveEntityLineDash(makeEntity(), makeDoc(), 0.01)).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import type { DxfDocument, DxfEntityBase, DxfLineType } from '../parser/types.js';
+import type { BlockContext } from './block-context.js';
+import { effectiveLayer } from './block-context.js';
+
+/**
+ * Minimum on-screen length (in pixels) of one full pattern repetition.
+ * Denser patterns are drawn continuous, like AutoCAD does when zoomed far out.
+ */
+const MIN_PATTERN_SCREEN_LENGTH = 4;
+
+/** Shared empty dash array — continuous stroke. */
+const SOLID: number[] = [];
+
+/**
+ * Look up a line type by name. DXF table names are case-insensitive, so fall
+ * back to a case-insensitive scan when the exact key is missing.
+ */
+function findLineType(name: string, lineTypes: Map<string, DxfLineType>): DxfLineType | undefined {
+  const exact = lineTypes.get(name);
+  if (exact) return exact;
+  const upper = name.toUpperCase();
+  for (const [key, lt] of lineTypes) {
+    if (key.toUpperCase() === upper) return lt;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the effective line type for an entity.
+ *
+ * Resolution order:
+ * 1. Entity line type name (code 6)
+ * 2. BYLAYER: the layer's line type (the parent INSERT's layer for layer "0")
+ * 3. BYBLOCK: the parent INSERT's line type, or continuous at top level
+ *
+ * Returns null for CONTINUOUS, unknown names, and patterns without dashes —
+ * i.e. whenever the entity should be stroked as a solid line.
+ */
+export function resolveEntityLineType(
+  entity: DxfEntityBase,
+  doc: DxfDocument,
+  parent?: BlockContext,
+): DxfLineType | null {
+  let name = entity.lineType || 'BYLAYER';
+  let upper = name.toUpperCase();
+
+  if (upper === 'BYLAYER') {
+    name = doc.layers.get(effectiveLayer(entity, parent))?.lineType ?? 'CONTINUOUS';
+    upper = name.toUpperCase();
+  } else if (upper === 'BYBLOCK') {
+    name = parent?.lineType ?? 'CONTINUOUS';
+    upper = name.toUpperCase();
+  }
+  if (upper === 'BYBLOCK' || upper === 'CONTINUOUS' || upper === 'BYLAYER') return null;
+
+  const lineType = findLineType(name, doc.lineTypes);
+  if (!lineType || lineType.pattern.length < 2) return null;
+  return lineType;
+}
+
+/**
+ * Convert a DXF line type pattern into a canvas `setLineDash()` array.
+ *
+ * DXF pattern elements are signed lengths: positive = dash, negative = gap,
+ * zero = dot. Canvas expects alternating [dash, gap, ...] lengths, so
+ * consecutive elements of the same kind are merged, and the result is padded
+ * to an even length (odd arrays are repeated by canvas, which would swap
+ * dashes and gaps on every other repetition).
+ *
+ * Lengths are in the current path's coordinate space, which is world space in
+ * the render loop — zooming therefore scales the dashes naturally. When a full
+ * pattern repetition would be shorter than a few pixels, an empty array is
+ * returned and the entity is drawn continuous.
+ *
+ * @param scale Combined scale: `$LTSCALE × entity lineTypeScale`.
+ * @param pixelSize Size of one screen pixel in the current coordinate space.
+ */
+export function computeLineDash(
+  lineType: DxfLineType | null,
+  scale: number,
+  pixelSize: number,
+): number[] {
+  if (!lineType || !(scale > 0)) return SOLID;
+
+  let total = lineType.totalLength;
+  if (!(total > 0)) {
+    total = 0;
+    for (const len of lineType.pattern) total += Math.abs(len);
+  }
+  if (!(total > 0) || (total * scale) / pixelSize < MIN_PATTERN_SCREEN_LENGTH) return SOLID;
+
+  const dash: number[] = [];
+  let leadingGap = 0;
+  for (const element of lineType.pattern) {
+    const isGap = element < 0;
+    const len = Math.abs(element) * scale;
+    if (dash.length === 0) {
+      // A pattern must start with a dash — carry leading gaps to the end
+      if (isGap) { leadingGap += len; continue; }
+      dash.push(len);
+    } else if (isGap === (dash.length % 2 === 1)) {
+      // Alternates with the previous element: dash after gap or gap after dash
+      dash.push(len);
+    } else {
+      dash[dash.length - 1]! += len;
+    }
+  }
+
+  if (dash.length === 0) return SOLID;
+  if (dash.length % 2 === 1) dash.push(0);
+  dash[dash.length - 1]! += leadingGap;
+
+  // Zero-length dashes and gaps only: nothing meaningful to dash
+  if (dash.every(len => len === 0)) return SOLID;
+  return dash;
+}
+
+/**
+ * Resolve the canvas dash array for an entity, honouring `$LTSCALE`,
+ * the entity's own line type scale (code 48) and the current zoom.
+ */
+export function resolveEntityLineDash(
+  entity: DxfEntityBase,
+  doc: DxfDocument,
+  pixelSize: number,
+  parent?: BlockContext,
+): number[] {
+  const lineType = resolveEntityLineType(entity, doc, parent);
+  if (!lineType) return SOLID;
+  const scale = (doc.header.ltScale || 1) * (entity.lineTypeScale || 1);
+  return computeLineDash(lineType, scale, pixelSize);
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfDocument, DxfEntityBase, DxfHeader } from '../parser/types.js';
+import {
+  resolveEntityLineWeight,
+  lineWeightToPixels,
+  resolveEntityLineWidth,
+  mmPerDrawingUnit,
+} from './resolve-lineweight.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeHeader(overrides?: Partial<DxfHeader>): DxfHeader {
+  return { acadVersion: 'AC1027', insUnits: 4, measurement: 1, ltScale: 1, ...overrides };
+}
+
+function makeDoc(header?: Partial<DxfHeader>): DxfDocument {
+  return {
+    header: makeHeader(header),
+    layers: new Map([
+      ['0', { name: '0', color: 7, lineType: 'Continuous', flags: 0, lineWeight: -3, isOff: false, isFrozen: false, isLocked: false }],
+      ['Walls', { name: 'Walls', color: 1, lineType: 'Continuous', flags: 0, lineWeight: 70, isOff: false, isFrozen: false, isLocked: false }],
+    ]),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+  };
+}
+
+function makeEntity(overrides?: Partial<DxfEntityBase>): DxfEntityBase {
+  return {
+    type: 'LINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    ...overrides,
+  };
+}
+
+// ─── resolveEntityLineWeight ────────────────────────────────────────
+
+describe('resolveEntityLineWeight', () => {
+  it('uses an explicit entity lineweight', () => {
+    expect(resolveEntityLineWeight(makeEntity({ lineWeight: 50 }), makeDoc())).toBe(50);
+  });
+
+  it('resolves BYLAYER from the layer', () => {
+    expect(resolveEntityLineWeight(makeEntity({ layer: 'Walls' }), makeDoc())).toBe(70);
+  });
+
+  it('resolves DEFAULT from $LWDEFAULT', () => {
+    expect(resolveEntityLineWeight(makeEntity({ lineWeight: -3 }), makeDoc({ lwDefault: 35 }))).toBe(35);
+  });
+
+  it('falls back to 0.25 mm without $LWDEFAULT', () => {
+    expect(resolveEntityLineWeight(makeEntity(), makeDoc())).toBe(25);
+    expect(resolveEntityLineWeight(makeEntity({ lineWeight: -2 }), makeDoc())).toBe(25);
+  });
+});
+
+// ─── lineWeightToPixels ─────────────────────────────────────────────
+
+describe('lineWeightToPixels', () => {
+  const header = makeHeader();
+
+  it('returns 1px when lineweight display is off', () => {
+    expect(lineWeightToPixels(200, 'off', header, 1)).toBe(1);
+  });
+
+  it('never returns less than 1px', () => {
+    expect(lineWeightToPixels(5, 'screen', header, 1)).toBe(1);
+    expect(lineWeightToPixels(0, 'true', header, 1)).toBe(1);
+  });
+
+  it('scales screen widths independently of zoom', () => {
+    const px = lineWeightToPixels(100, 'screen', header, 1);
+    expect(px).toBeCloseTo(96 / 25.4);
+    expect(lineWeightToPixels(100, 'screen', header, 1000)).toBe(px);
+  });
+
+  it('converts true widths through drawing units and zoom', () => {
+    // 2 mm in a millimetre drawing at 10 px/unit → 20 px
+    expect(lineWeightToPixels(200, 'true', header, 10)).toBeCloseTo(20);
+    // 2.54 mm in an inch drawing at 100 px/unit → 10 px
+    expect(lineWeightToPixels(254, 'true', makeHeader({ insUnits: 1 }), 100)).toBeCloseTo(10);
+  });
+});
+
+// ─── mmPerDrawingUnit ───────────────────────────────────────────────
+
+describe('mmPerDrawingUnit', () => {
+  it('falls back on $MEASUREMENT for unitless drawings', () => {
+    expect(mmPerDrawingUnit(makeHeader({ insUnits: 0, measurement: 1 }))).toBe(1);
+    expect(mmPerDrawingUnit(makeHeader({ insUnits: 0, measurement: 0 }))).toBe(25.4);
+  });
+});
+
+// ─── resolveEntityLineWidth ─────────────────────────────────────────
+
+describe('resolveEntityLineWidth', () => {
+  it('returns the pixel size in off mode', () => {
+    expect(resolveEntityLineWidth(makeEntity({ layer: 'Walls' }), makeDoc(), 'off', 10, 0.1)).toBe(0.1);
+  });
+
+  it('multiplies the pixel width by the local pixel size', () => {
+    const width = resolveEntityLineWidth(makeEntity({ lineWeight: 200 }), makeDoc(), 'true', 10, 0.1);
+    expect(width).toBeCloseTo(2);
+  });
+});
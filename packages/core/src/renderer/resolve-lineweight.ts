@@ -0,0 +1,111 @@
+import type { DxfDocument, DxfEntityBase, DxfHeader } from '../parser/types.js';
+import type { BlockContext } from './block-context.js';
+import { effectiveLayer } from './block-context.js';
+
+/**
+ * How entity lineweights (code 370) are displayed.
+ *
+ * - `'off'`: every stroke is 1 screen pixel wide (LWDISPLAY off).
+ * - `'screen'`: lineweights are shown at a fixed on-screen size, independent
+ *   of zoom (AutoCAD model-space display).
+ * - `'true'`: lineweights are drawn at their plotted width in millimetres,
+ *   converted to drawing units via `$INSUNITS`, so they scale with zoom.
+ */
+export type LineWeightMode = 'off' | 'screen' | 'true';
+
+/** Lineweight special values (code 370). */
+const LW_BYLAYER = -1;
+const LW_BYBLOCK = -2;
+const LW_DEFAULT = -3;
+
+/** Fallback for `$LWDEFAULT` (0.25 mm). */
+const DEFAULT_LINEWEIGHT = 25;
+
+/** Screen pixels per millimetre of lineweight in `'screen'` mode (96 DPI). */
+const SCREEN_PX_PER_MM = 96 / 25.4;
+
+/** Millimetres per drawing unit, keyed by `$INSUNITS`. */
+const MM_PER_UNIT: Record<number, number> = {
+  1: 25.4,       // inches
+  2: 304.8,      // feet
+  3: 1609344,    // miles
+  4: 1,          // millimetres
+  5: 10,         // centimetres
+  6: 1000,       // metres
+  7: 1000000,    // kilometres
+  8: 0.0000254,  // microinches
+  9: 0.0254,     // mils
+  10: 914.4,     // yards
+  14: 100,       // decimetres
+};
+
+/**
+ * Millimetres per drawing unit. Unitless drawings fall back on `$MEASUREMENT`
+ * (metric → millimetres, imperial → inches).
+ */
+export function mmPerDrawingUnit(header: DxfHeader): number {
+  return MM_PER_UNIT[header.insUnits] ?? (header.measurement === 1 ? 1 : 25.4);
+}
+
+/**
+ * Resolve the effective lineweight for an entity, in hundredths of a millimetre.
+ *
+ * Resolution order:
+ * 1. Entity lineweight (code 370) when explicit (>= 0)
+ * 2. BYLAYER (-1): the layer's lineweight (the parent INSERT's layer for layer "0")
+ * 3. BYBLOCK (-2): the parent INSERT's lineweight, or DEFAULT at top level
+ * 4. DEFAULT (-3): `$LWDEFAULT`, or 0.25 mm
+ */
+export function resolveEntityLineWeight(
+  entity: DxfEntityBase,
+  doc: DxfDocument,
+  parent?: BlockContext,
+): number {
+  let lw = entity.lineWeight;
+  if (lw === LW_BYLAYER) {
+    lw = doc.layers.get(effectiveLayer(entity, parent))?.lineWeight ?? LW_DEFAULT;
+  } else if (lw === LW_BYBLOCK) {
+    lw = parent?.lineWeight ?? LW_DEFAULT;
+  }
+  if (lw >= 0) return lw;
+  const fallback = doc.header.lwDefault;
+  return fallback !== undefined && fallback >= 0 ? fallback : DEFAULT_LINEWEIGHT;
+}
+
+/**
+ * Convert a lineweight (hundredths of a millimetre) to a stroke width in
+ * screen pixels. Never returns less than 1 pixel.
+ *
+ * @param scale Current view scale (screen pixels per world unit), used by `'true'` mode.
+ */
+export function lineWeightToPixels(
+  lineWeight: number,
+  mode: LineWeightMode,
+  header: DxfHeader,
+  scale: number,
+): number {
+  if (mode === 'off' || lineWeight <= 0) return 1;
+  const mm = lineWeight / 100;
+  if (mode === 'screen') return Math.max(1, mm * SCREEN_PX_PER_MM);
+  return Math.max(1, (mm / mmPerDrawingUnit(header)) * scale);
+}
+
+/**
+ * Resolve the canvas `lineWidth` for an entity in the current coordinate space.
+ *
+ * @param scale Current view scale (screen pixels per world unit).
+ * @param pixelSize Size of one screen pixel in the current coordinate space
+ *   (block-local inside INSERTs, so block scale does not thicken lines).
+ */
+export function resolveEntityLineWidth(
+  entity: DxfEntityBase,
+  doc: DxfDocument,
+  mode: LineWeightMode,
+  scale: number,
+  pixelSize: number,
+  parent?: BlockContext,
+): number {
+  if (mode === 'off') return pixelSize;
+  const lw = resolveEntityLineWeight(entity, doc, parent);
+  return lineWeightToPixels(lw, mode, doc.header, scale) * pixelSize;
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import { layoutShxText, parseShxFont, strokeShxText } from './shx-font.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+interface FontInfo {
+  name: string;
+  above: number;
+  below: number;
+}
+
+const INFO: FontInfo = { name: 'TEST', above: 10, below: 2 };
+
+function concat(parts: number[][]): ArrayBuffer {
+  return new Uint8Array(parts.flat()).buffer;
+}
+
+function ascii(text: string): number[] {
+  return [...text].map(c => c.charCodeAt(0));
+}
+
+const u16 = (n: number): number[] => [n & 0xFF, (n >> 8) & 0xFF];
+const u32 = (n: number): number[] => [...u16(n & 0xFFFF), ...u16(n >>> 16)];
+
+/** Shape definition: NUL-terminated name, then the shape bytes. */
+function def(spec: number[]): number[] {
+  return [0, ...spec];
+}
+
+function infoDef(info: FontInfo): number[] {
+  return [...ascii(info.name), 0, info.above, info.below, 0, 0];
+}
+
+function buildShapes(shapes: Record<number, number[]>, info = INFO): ArrayBuffer {
+  const entries: [number, number[]][] = [[0, infoDef(info)], ...Object.entries(shapes).map(
+    ([code, spec]): [number, number[]] => [Number(code), def(spec)],
+  )];
+  return concat([
+    ascii('AutoCAD-86 shapes 1.0\r\n\x1a'),
+    u16(0), u16(255), u16(entries.length),
+    ...entries.map(([code, bytes]) => [...u16(code), ...u16(bytes.length)]),
+    ...entries.map(([, bytes]) => bytes),
+  ]);
+}
+
+function buildUnifont(shapes: Record<number, number[]>, info = INFO): ArrayBuffer {
+  const infoBytes = infoDef(info);
+  const entries = Object.entries(shapes);
+  return concat([
+    ascii('AutoCAD-86 unifont 1.0\r\n\x1a'),
+    u32(entries.length + 1), u16(infoBytes.length), infoBytes,
+    ...entries.map(([code, spec]) => [...u16(Number(code)), ...u16(def(spec).length), ...def(spec)]),
+  ]);
+}
+
+function buildBigFont(shapes: Record<number, number[]>, info = INFO): ArrayBuffer {
+  const entries: [number, number[]][] = [[0, infoDef(info)], ...Object.entries(shapes).map(
+    ([code, spec]): [number, number[]] => [Number(code), def(spec)],
+  )];
+  const header = ascii('AutoCAD-86 bigfont 1.0\r\n\x1a');
+  // Header fields, one escape range (0x81–0xFE), then 8-byte index entries
+  let offset = header.length + 6 + 4 + entries.length * 8;
+  const index = entries.map(([code, bytes]) => {
+    const entry = [...u16(code), ...u16(bytes.length), ...u32(offset)];
+    offset += bytes.length;
+    return entry;
+  });
+  return concat([
+    header,
+    u16(8), u16(entries.length), u16(1), u16(0x81), u16(0xFE),
+    ...index,
+    ...entries.map(([, bytes]) => bytes),
+  ]);
+}
+
+/** 'A': up 4, right 4, then 2 units of spacing with the pen up. */
+const GLYPH_A = [0x44, 0x40, 2, 0x20, 0];
+
+// ─── parseShxFont ───────────────────────────────────────────────────
+
+describe('parseShxFont', () => {
+  it('reads the font info of shape fonts', () => {
+    const font = parseShxFont(buildShapes({ 65: GLYPH_A }));
+    expect(font).toMatchObject({ type: 'shapes', name: 'TEST', above: 10, below: 2 });
+    expect(font.hasShape(65)).toBe(true);
+    expect(font.hasShape(66)).toBe(false);
+  });
+
+  it('reads Unicode fonts', () => {
+    const font = parseShxFont(buildUnifont({ 0x4E2D: GLYPH_A }, { name: 'UNI', above: 8, below: 1 }));
+    expect(font).toMatchObject({ type: 'unifont', name: 'UNI', above: 8 });
+    expect(font.getGlyph(0x4E2D)?.advance).toBe(6);
+  });
+
+  it('reads big fonts', () => {
+    const font = parseShxFont(buildBigFont({ 0xD6D0: GLYPH_A }));
+    expect(font.type).toBe('bigfont');
+    expect(font.hasShape(0xD6D0)).toBe(true);
+  });
+
+  it('rejects files without an SHX signature', () => {
+    expect(() => parseShxFont(concat([ascii('not a font')]))).toThrow(/signature/);
+  });
+
+  it('rejects truncated files', () => {
+    const bytes = new Uint8Array(buildShapes({ 65: GLYPH_A }));
+    expect(() => parseShxFont(bytes.slice(0, 30).buffer)).toThrow(/truncated/);
+  });
+});
+
+// ─── Shape bytes ────────────────────────────────────────────────────
+
+describe('ShxFont.getGlyph', () => {
+  function glyph(spec: number[], extra: Record<number, number[]> = {}) {
+    return parseShxFont(buildShapes({ 65: spec, ...extra })).getGlyph(65)!;
+  }
+
+  it('draws vectors while the pen is down', () => {
+    const g = glyph(GLYPH_A);
+    expect(g.strokes).toEqual([[{ x: 0, y: 0 }, { x: 0, y: 4 }, { x: 4, y: 4 }]]);
+    expect(g.advance).toBe(6);
+  });
+
+  it('uses half-unit steps for in-between directions', () => {
+    expect(glyph([0x21, 0]).strokes[0]![1]).toEqual({ x: 2, y: 1 });
+  });
+
+  it('scales vectors and restores pushed positions', () => {
+    const g = glyph([4, 2, 0x14, 3, 2, 5, 0x10, 6, 0x18, 0]);
+    // Up 2 (scaled), push, right 1, pop, left 1
+    expect(g.strokes).toEqual([
+      [{ x: 0, y: 0 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+      [{ x: 0, y: 2 }, { x: -1, y: 2 }],
+    ]);
+  });
+
+  it('reads signed XY displacements', () => {
+    const g = glyph([8, 3, 0xFE, 9, 1, 1, 0xFF, 0, 0, 0]);
+    expect(g.strokes[0]).toEqual([{ x: 0, y: 0 }, { x: 3, y: -2 }, { x: 4, y: -1 }, { x: 3, y: -1 }]);
+  });
+
+  it('draws octant arcs', () => {
+    // Radius 4, counter-clockwise from octant 0 through 4 octants
+    const g = glyph([10, 4, 0x04, 0]);
+    const points = g.strokes[0]!;
+    expect(points.at(-1)!.x).toBeCloseTo(-8);
+    expect(points.at(-1)!.y).toBeCloseTo(0);
+    expect(Math.max(...points.map(p => p.y))).toBeCloseTo(4);
+  });
+
+  it('draws clockwise octant arcs', () => {
+    const g = glyph([10, 4, 0xFC, 0]); // -(0x04)
+    expect(Math.min(...g.strokes[0]!.map(p => p.y))).toBeCloseTo(-4);
+  });
+
+  it('draws bulge arcs', () => {
+    // Chord of 8 to the right; bulge 127 is a counter-clockwise semicircle
+    const g = glyph([12, 8, 0, 127, 0]);
+    const points = g.strokes[0]!;
+    expect(points.at(-1)!.x).toBeCloseTo(8);
+    expect(Math.min(...points.map(p => p.y))).toBeCloseTo(-4);
+  });
+
+  it('skips vertical-only commands', () => {
+    const g = glyph([14, 8, 0, 5, 0x40, 0]);
+    expect(g.strokes).toEqual([[{ x: 0, y: 0 }, { x: 4, y: 0 }]]);
+  });
+
+  it('includes subshapes', () => {
+    const g = parseShxFont(buildShapes({ 65: GLYPH_A, 66: [7, 65, 1, 0x40, 0] })).getGlyph(66)!;
+    expect(g.strokes).toHaveLength(2);
+    expect(g.advance).toBe(10);
+  });
+
+  it('stops at self-referencing subshapes', () => {
+    const g = glyph([0x10, 7, 65, 0]);
+    // The glyph itself plus eight nested levels
+    expect(g.advance).toBe(9);
+  });
+});
+
+// ─── Text ───────────────────────────────────────────────────────────
+
+describe('layoutShxText', () => {
+  const font = parseShxFont(buildShapes({ 65: GLYPH_A, 63: [2, 0x80, 0], 127: [2, 0x30, 0] }));
+
+  it('advances glyphs in text heights', () => {
+    const run = layoutShxText('AA', font);
+    expect(run.glyphs[1]!.x).toBeCloseTo(0.6);
+    expect(run.width).toBeCloseTo(1.2);
+  });
+
+  it('substitutes special shapes and ? for missing characters', () => {
+    expect(layoutShxText('°', font).width).toBeCloseTo(0.3);
+    expect(layoutShxText('Z', font).width).toBeCloseTo(0.8);
+  });
+
+  it('takes CJK characters from the big font', () => {
+    const bigFont = parseShxFont(buildBigFont({ 0xD6D0: [0x80, 0] }, { name: 'BIG', above: 20, below: 0 }));
+    expect(bigFont.codeForChar('中', 'gbk')).toBe(0xD6D0);
+    // Unknown code page: CJK code pages are tried in turn
+    expect(bigFont.codeForChar('中')).toBe(0xD6D0);
+
+    const run = layoutShxText('A中', font, bigFont, 'gbk');
+    expect(run.glyphs[1]!.scale).toBe(1 / 20);
+    expect(run.width).toBeCloseTo(0.6 + 0.4);
+  });
+});
+
+describe('strokeShxText', () => {
+  it('maps run coordinates through the matrix', () => {
+    const ctx = { beginPath: vi.fn(), moveTo: vi.fn(), lineTo: vi.fn(), stroke: vi.fn() };
+    const font = parseShxFont(buildShapes({ 65: GLYPH_A }));
+    strokeShxText(ctx as unknown as CanvasRenderingContext2D, layoutShxText('A', font), [10, 0, 0, 20, 1, 2]);
+    expect(ctx.moveTo).toHaveBeenCalledWith(1, 2);
+    expect(ctx.lineTo).toHaveBeenLastCalledWith(5, 10);
+    expect(ctx.stroke).toHaveBeenCalledOnce();
+  });
+});
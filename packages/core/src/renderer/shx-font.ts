@@ -0,0 +1,465 @@
+import type { Point2D } from '../parser/types.js';
+import type { Matrix2D } from '../utils/ocs.js';
+import { bulgeToArc } from '../utils/math.js';
+
+export type ShxFontType = 'shapes' | 'unifont' | 'bigfont';
+
+/** A glyph as polylines in font units; `advance` is where the pen ends up. */
+export interface ShxGlyph {
+  strokes: Point2D[][];
+  advance: number;
+}
+
+/** Glyphs of a string placed along the baseline, in units of the text height. */
+export interface ShxTextRun {
+  glyphs: { glyph: ShxGlyph; x: number; scale: number }[];
+  width: number;
+}
+
+/** Vector directions for shape bytes 0xLD (length L, direction D). */
+const DIRECTIONS: readonly (readonly [number, number])[] = [
+  [1, 0], [1, 0.5], [1, 1], [0.5, 1], [0, 1], [-0.5, 1], [-1, 1], [-1, 0.5],
+  [-1, 0], [-1, -0.5], [-1, -1], [-0.5, -1], [0, -1], [0.5, -1], [1, -1], [1, -0.5],
+];
+
+/** Angular step used to flatten shape arcs (radians). */
+const ARC_STEP = Math.PI / 24;
+
+/** Subshape nesting limit, guarding against self-referencing shapes. */
+const MAX_SUBSHAPE_DEPTH = 8;
+
+/** Code pages big fonts are compiled for, tried in order when the drawing's is unknown. */
+const DOUBLE_BYTE_ENCODINGS = ['gbk', 'shift_jis', 'big5', 'euc-kr'];
+
+/** Shape numbers AutoCAD text fonts use for %%d, %%p and %%c. */
+const SPECIAL_SHAPES: Record<number, number> = {
+  0x00B0: 127, // °
+  0x00B1: 128, // ±
+  0x2300: 129, // ⌀
+};
+
+interface PenState {
+  x: number;
+  y: number;
+  scale: number;
+  down: boolean;
+  stack: Point2D[];
+  strokes: Point2D[][];
+  stroke: Point2D[] | null;
+}
+
+/**
+ * A compiled AutoCAD shape font (.shx): a regular shape font, a Unicode
+ * font or a big font. Glyphs are decoded from their shape bytes on first use.
+ */
+export class ShxFont {
+  readonly type: ShxFontType;
+  readonly name: string;
+  /** Height of capitals above the baseline, in font units. */
+  readonly above: number;
+  /** Depth of descenders below the baseline, in font units. */
+  readonly below: number;
+  private shapes: Map<number, Uint8Array>;
+  private glyphs = new Map<number, ShxGlyph | null>();
+  private charCodes = new Map<string, Map<string, number>>();
+
+  constructor(type: ShxFontType, name: string, above: number, below: number, shapes: Map<number, Uint8Array>) {
+    this.type = type;
+    this.name = name;
+    this.above = above > 0 ? above : 1;
+    this.below = below;
+    this.shapes = shapes;
+  }
+
+  hasShape(code: number): boolean {
+    return this.shapes.has(code);
+  }
+
+  getGlyph(code: number): ShxGlyph | undefined {
+    let glyph = this.glyphs.get(code);
+    if (glyph === undefined) {
+      const spec = this.shapes.get(code);
+      glyph = spec ? this.decodeGlyph(spec) : null;
+      this.glyphs.set(code, glyph);
+    }
+    return glyph ?? undefined;
+  }
+
+  /**
+   * Shape number of a character in a big font. Big fonts are indexed by
+   * double-byte code page codes, so the character is looked up in `encoding`
+   * (a TextDecoder label), or in each CJK code page when that is unknown.
+   */
+  codeForChar(ch: string, encoding?: string): number | undefined {
+    const encodings = encoding && DOUBLE_BYTE_ENCODINGS.includes(encoding) ? [encoding] : DOUBLE_BYTE_ENCODINGS;
+    for (const enc of encodings) {
+      const code = this.getCharCodes(enc).get(ch);
+      if (code !== undefined) return code;
+    }
+    return undefined;
+  }
+
+  private getCharCodes(encoding: string): Map<string, number> {
+    let codes = this.charCodes.get(encoding);
+    if (codes) return codes;
+
+    codes = new Map();
+    this.charCodes.set(encoding, codes);
+    let decoder: TextDecoder;
+    try {
+      decoder = new TextDecoder(encoding, { fatal: true });
+    } catch {
+      return codes; // code page not supported by this runtime
+    }
+    for (const code of this.shapes.keys()) {
+      if (code < 0x100) continue;
+      try {
+        const ch = decoder.decode(new Uint8Array([code >> 8, code & 0xFF]));
+        if (ch.length === 1 && !codes.has(ch)) codes.set(ch, code);
+      } catch {
+        // not a valid character in this code page
+      }
+    }
+    return codes;
+  }
+
+  private decodeGlyph(spec: Uint8Array): ShxGlyph {
+    const state: PenState = { x: 0, y: 0, scale: 1, down: true, stack: [], strokes: [], stroke: null };
+    this.runShape(spec, state, 0);
+    return { strokes: state.strokes.filter(s => s.length > 1), advance: state.x };
+  }
+
+  /** Execute shape bytes, appending pen-down movements to `state.strokes`. */
+  private runShape(spec: Uint8Array, state: PenState, depth: number): void {
+    let i = 0;
+    while (i < spec.length) {
+      const code = spec[i]!;
+      const arg = (k: number): number => spec[i + k] ?? 0;
+      const signedArg = (k: number): number => (arg(k) << 24) >> 24;
+
+      if (code >= 0x10) {
+        // Vector: length in the high nibble, direction in the low nibble
+        const [dx, dy] = DIRECTIONS[code & 0x0F]!;
+        const length = (code >> 4) * state.scale;
+        penTo(state, state.x + dx * length, state.y + dy * length);
+        i++;
+        continue;
+      }
+
+      switch (code) {
+        case 0: return;
+        case 1: state.down = true; break;
+        case 2: state.down = false; state.stroke = null; break;
+        case 3: if (arg(1)) state.scale /= arg(1); break;
+        case 4: state.scale *= arg(1); break;
+        case 5: state.stack.push({ x: state.x, y: state.y }); break;
+        case 6: {
+          const p = state.stack.pop();
+          if (p) {
+            state.x = p.x;
+            state.y = p.y;
+            state.stroke = null;
+          }
+          break;
+        }
+        case 7: this.runSubshape(spec, i, state, depth); break;
+        case 8:
+          penTo(state, state.x + signedArg(1) * state.scale, state.y + signedArg(2) * state.scale);
+          break;
+        case 9:
+          for (let j = i + 1; j + 1 < spec.length && (spec[j] || spec[j + 1]); j += 2) {
+            const dx = (spec[j]! << 24) >> 24;
+            const dy = (spec[j + 1]! << 24) >> 24;
+            penTo(state, state.x + dx * state.scale, state.y + dy * state.scale);
+          }
+          break;
+        case 10: {
+          // Octant arc: radius, then (-)0SC = direction, start octant, octant count
+          const octants = signedArg(2);
+          const dir = octants < 0 ? -1 : 1;
+          const start = ((Math.abs(octants) >> 4) & 7) * Math.PI / 4;
+          const count = (Math.abs(octants) & 7) || 8;
+          arcFrom(state, arg(1) * state.scale, start, dir * count * Math.PI / 4);
+          break;
+        }
+        case 11: {
+          // Fractional arc: start and end offsets in 1/256 of an octant
+          const octants = signedArg(5);
+          const dir = octants < 0 ? -1 : 1;
+          const startOctant = (Math.abs(octants) >> 4) & 7;
+          const count = Math.abs(octants) & 7;
+          const start = (startOctant + dir * arg(1) / 256) * Math.PI / 4;
+          const end = (startOctant + dir * count + dir * arg(2) / 256) * Math.PI / 4;
+          let sweep = end - start;
+          if (dir > 0 && sweep <= 0) sweep += 2 * Math.PI;
+          if (dir < 0 && sweep >= 0) sweep -= 2 * Math.PI;
+          arcFrom(state, (arg(3) * 256 + arg(4)) * state.scale, start, sweep);
+          break;
+        }
+        case 12:
+          bulgeTo(state, signedArg(1), signedArg(2), signedArg(3));
+          break;
+        case 13:
+          for (let j = i + 1; j + 1 < spec.length && (spec[j] || spec[j + 1]); j += 3) {
+            bulgeTo(state, (spec[j]! << 24) >> 24, (spec[j + 1]! << 24) >> 24, ((spec[j + 2] ?? 0) << 24) >> 24);
+          }
+          break;
+        case 14:
+          // The next command only applies to vertical text
+          i += 1 + this.commandLength(spec, i + 1);
+          continue;
+      }
+
+      i += this.commandLength(spec, i);
+    }
+  }
+
+  /** Code 7: draw another shape from the same font at the current position. */
+  private runSubshape(spec: Uint8Array, i: number, state: PenState, depth: number): void {
+    if (depth >= MAX_SUBSHAPE_DEPTH) return;
+
+    if (this.type === 'bigfont' && spec[i + 1] === 0) {
+      // Extended big font: 7,0,shape(2),origin x,origin y,width,height
+      const sub = this.shapes.get(((spec[i + 2] ?? 0) << 8) | (spec[i + 3] ?? 0));
+      if (!sub) return;
+      const { x, y, scale, down } = state;
+      state.x += (spec[i + 4] ?? 0) * scale;
+      state.y += (spec[i + 5] ?? 0) * scale;
+      state.stroke = null;
+      state.scale = scale * (spec[i + 7] ?? this.above) / this.above;
+      this.runShape(sub, state, depth + 1);
+      state.x = x + (spec[i + 6] ?? 0) * scale;
+      state.y = y;
+      state.scale = scale;
+      state.down = down;
+      state.stroke = null;
+      return;
+    }
+
+    const number = this.type === 'shapes'
+      ? spec[i + 1] ?? 0
+      : ((spec[i + 1] ?? 0) << 8) | (spec[i + 2] ?? 0);
+    const sub = this.shapes.get(number);
+    if (sub) this.runShape(sub, state, depth + 1);
+  }
+
+  /** Number of bytes taken by the command at `i`, including its arguments. */
+  private commandLength(spec: Uint8Array, i: number): number {
+    switch (spec[i]) {
+      case 3: case 4: return 2;
+      case 7:
+        if (this.type === 'shapes') return 2;
+        if (this.type === 'bigfont' && spec[i + 1] === 0) return 8;
+        return 3;
+      case 8: return 3;
+      case 9: {
+        let j = i + 1;
+        while (j + 1 < spec.length && (spec[j] || spec[j + 1])) j += 2;
+        return j + 2 - i;
+      }
+      case 10: return 3;
+      case 11: return 6;
+      case 12: return 4;
+      case 13: {
+        let j = i + 1;
+        while (j + 1 < spec.length && (spec[j] || spec[j + 1])) j += 3;
+        return j + 2 - i;
+      }
+      default: return 1;
+    }
+  }
+}
+
+function penTo(state: PenState, x: number, y: number): void {
+  if (state.down) {
+    if (!state.stroke) {
+      state.stroke = [{ x: state.x, y: state.y }];
+      state.strokes.push(state.stroke);
+    }
+    state.stroke.push({ x, y });
+  }
+  state.x = x;
+  state.y = y;
+}
+
+/** Arc starting at the pen, with the pen at angle `start` on the circle. */
+function arcFrom(state: PenState, radius: number, start: number, sweep: number): void {
+  const cx = state.x - radius * Math.cos(start);
+  const cy = state.y - radius * Math.sin(start);
+  const segments = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  for (let k = 1; k <= segments; k++) {
+    const a = start + sweep * k / segments;
+    penTo(state, cx + radius * Math.cos(a), cy + radius * Math.sin(a));
+  }
+}
+
+/** Codes 12/13: move by (dx, dy) along an arc; bulge ±127 is a semicircle. */
+function bulgeTo(state: PenState, dx: number, dy: number, bulge: number): void {
+  const x = state.x + dx * state.scale;
+  const y = state.y + dy * state.scale;
+  if (bulge === 0) {
+    penTo(state, x, y);
+    return;
+  }
+  const b = bulge / 127;
+  const arc = bulgeToArc(state.x, state.y, x, y, b);
+  if (arc.radius < 1e-10) return;
+  arcFrom(state, arc.radius, Math.atan2(state.y - arc.cy, state.x - arc.cx), 4 * Math.atan(b));
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────
+
+/**
+ * Parse a compiled .shx font. Supports the `AutoCAD-86 shapes`, `unifont`
+ * and `bigfont` formats; throws on anything else.
+ */
+export function parseShxFont(buffer: ArrayBuffer): ShxFont {
+  const bytes = new Uint8Array(buffer);
+  const end = bytes.subarray(0, 64).indexOf(0x1A);
+  const signature = end > 0 ? new TextDecoder('ascii').decode(bytes.subarray(0, end)) : '';
+  if (!signature.startsWith('AutoCAD-86')) {
+    throw new Error('Invalid SHX font: missing AutoCAD-86 signature.');
+  }
+
+  const view = new DataView(buffer);
+  try {
+    if (signature.includes('unifont')) return parseUnifont(bytes, view, end + 1);
+    if (signature.includes('bigfont')) return parseBigFont(bytes, view, end + 1);
+    if (signature.includes('shapes')) return parseShapes(bytes, view, end + 1);
+  } catch (err) {
+    if (err instanceof RangeError) throw new Error('Invalid SHX font: file is truncated.');
+    throw err;
+  }
+  throw new Error(`Unsupported SHX font type: ${signature.trim()}`);
+}
+
+function parseShapes(bytes: Uint8Array, view: DataView, pos: number): ShxFont {
+  // First and last shape numbers, then the shape count
+  const count = view.getUint16(pos + 4, true);
+  pos += 6;
+
+  const index: { code: number; length: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    index.push({ code: view.getUint16(pos, true), length: view.getUint16(pos + 2, true) });
+    pos += 4;
+  }
+
+  const shapes = new Map<number, Uint8Array>();
+  let info: Uint8Array | undefined;
+  for (const { code, length } of index) {
+    const def = bytes.subarray(pos, pos + length);
+    pos += length;
+    if (code === 0) info = def;
+    else shapes.set(code, shapeBytes(def));
+  }
+  return createFont('shapes', info, shapes);
+}
+
+function parseUnifont(bytes: Uint8Array, view: DataView, pos: number): ShxFont {
+  const count = view.getUint32(pos, true);
+  const infoLength = view.getUint16(pos + 4, true);
+  pos += 6;
+  const info = bytes.subarray(pos, pos + infoLength);
+  pos += infoLength;
+
+  const shapes = new Map<number, Uint8Array>();
+  for (let i = 1; i < count && pos + 4 <= bytes.length; i++) {
+    const code = view.getUint16(pos, true);
+    const length = view.getUint16(pos + 2, true);
+    pos += 4;
+    shapes.set(code, shapeBytes(bytes.subarray(pos, pos + length)));
+    pos += length;
+  }
+  return createFont('unifont', info, shapes);
+}
+
+function parseBigFont(bytes: Uint8Array, view: DataView, pos: number): ShxFont {
+  // Header size, index entry count and escape-byte range count; the ranges
+  // only matter for decoding byte strings, so they are skipped
+  const count = view.getUint16(pos + 2, true);
+  const ranges = view.getUint16(pos + 4, true);
+  pos += 6 + ranges * 4;
+
+  const shapes = new Map<number, Uint8Array>();
+  let info: Uint8Array | undefined;
+  for (let i = 0; i < count; i++) {
+    const code = view.getUint16(pos, true);
+    const length = view.getUint16(pos + 2, true);
+    const offset = view.getUint32(pos + 4, true);
+    pos += 8;
+    if (length === 0) continue;
+    const def = bytes.subarray(offset, offset + length);
+    if (code === 0) info = def;
+    else shapes.set(code, shapeBytes(def));
+  }
+  return createFont('bigfont', info, shapes);
+}
+
+/** Shape definitions start with a NUL-terminated name. */
+function shapeBytes(def: Uint8Array): Uint8Array {
+  return def.subarray(def.indexOf(0) + 1);
+}
+
+/** Build the font from its info shape: name, then above, below and mode bytes. */
+function createFont(type: ShxFontType, info: Uint8Array | undefined, shapes: Map<number, Uint8Array>): ShxFont {
+  if (!info) return new ShxFont(type, '', 0, 0, shapes);
+  const nameEnd = Math.max(0, info.indexOf(0));
+  const name = new TextDecoder('latin1').decode(info.subarray(0, nameEnd));
+  return new ShxFont(type, name, info[nameEnd + 1] ?? 0, info[nameEnd + 2] ?? 0, shapes);
+}
+
+// ─── Text ───────────────────────────────────────────────────────────
+
+/**
+ * Place the glyphs of `text` along the baseline, scaled so the font's
+ * capital height is 1. Characters missing from `font` are taken from the
+ * big font (CJK text), then drawn as `?`.
+ */
+export function layoutShxText(text: string, font: ShxFont, bigFont?: ShxFont, encoding?: string): ShxTextRun {
+  const glyphs: ShxTextRun['glyphs'] = [];
+  let x = 0;
+
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    let source = font;
+    let glyph = font.type === 'unifont' || cp <= 0xFF ? font.getGlyph(cp) : undefined;
+
+    if (!glyph && bigFont && cp > 0x7F) {
+      const code = bigFont.codeForChar(ch, encoding);
+      glyph = code !== undefined ? bigFont.getGlyph(code) : undefined;
+      if (glyph) source = bigFont;
+    }
+    const special = SPECIAL_SHAPES[cp];
+    if (!glyph && special) glyph = font.getGlyph(special);
+    glyph ??= font.getGlyph(0x3F);
+    if (!glyph) continue;
+
+    const scale = 1 / source.above;
+    glyphs.push({ glyph, x, scale });
+    x += glyph.advance * scale;
+  }
+
+  return { glyphs, width: x };
+}
+
+/**
+ * Stroke a laid-out run. `m` maps run coordinates (x along the baseline,
+ * y up, in text heights) into the current canvas space, like `ctx.transform`.
+ * Points are mapped before stroking so the line width is unaffected.
+ */
+export function strokeShxText(ctx: CanvasRenderingContext2D, run: ShxTextRun, m: Matrix2D): void {
+  ctx.beginPath();
+  for (const { glyph, x, scale } of run.glyphs) {
+    for (const stroke of glyph.strokes) {
+      for (let i = 0; i < stroke.length; i++) {
+        const u = x + stroke[i]!.x * scale;
+        const v = stroke[i]!.y * scale;
+        const px = m[0] * u + m[2] * v + m[4];
+        const py = m[1] * u + m[3] * v + m[5];
+        if (i === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+    }
+  }
+  ctx.stroke();
+}
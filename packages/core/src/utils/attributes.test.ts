@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfAttdef, DxfAttrib, DxfDocument, DxfInsertEntity } from '../parser/types.js';
+import { attributeTextEntity, constantAttributeDefinitions, getBlockAttributes, isAttributeVisible } from './attributes.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeAttrib(overrides?: Partial<DxfAttrib>): DxfAttrib {
+  return {
+    tag: 'TAG',
+    text: '',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    height: 1,
+    rotation: 0,
+    widthFactor: 1,
+    obliqueAngle: 0,
+    style: 'STANDARD',
+    hAlign: 0,
+    vAlign: 0,
+    generationFlags: 0,
+    flags: 0,
+    layer: '0',
+    color: 256,
+    ...overrides,
+  };
+}
+
+function makeAttdef(overrides?: Partial<DxfAttdef>): DxfAttdef {
+  return { ...makeAttrib(), prompt: '', ...overrides };
+}
+
+function makeDoc(attributeDefinitions: DxfAttdef[]): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement: 1, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map([['TITLE', {
+      name: 'TITLE', basePoint: { x: 0, y: 0, z: 0 }, flags: 2, entities: [], attributeDefinitions,
+    }]]),
+    entities: [],
+  };
+}
+
+function makeInsert(attribs: DxfAttrib[]): DxfInsertEntity {
+  return {
+    type: 'INSERT',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    blockName: 'TITLE',
+    insertionPoint: { x: 0, y: 0, z: 0 },
+    scaleX: 1, scaleY: 1, scaleZ: 1, rotation: 0,
+    columnCount: 1, rowCount: 1, columnSpacing: 0, rowSpacing: 0,
+    attribs,
+  };
+}
+
+// ─── getBlockAttributes ─────────────────────────────────────────────
+
+describe('getBlockAttributes', () => {
+  it('merges ATTDEF defaults with ATTRIB values in definition order', () => {
+    const doc = makeDoc([
+      makeAttdef({ tag: 'SHEET', prompt: 'Sheet number', text: '1' }),
+      makeAttdef({ tag: 'REV', prompt: 'Revision', text: 'A' }),
+    ]);
+    const insert = makeInsert([makeAttrib({ tag: 'rev', text: 'C' })]);
+    expect(getBlockAttributes(insert, doc)).toEqual([
+      { tag: 'SHEET', value: '1', prompt: 'Sheet number', defaultValue: '1', invisible: false, constant: false },
+      { tag: 'REV', value: 'C', prompt: 'Revision', defaultValue: 'A', invisible: false, constant: false },
+    ]);
+  });
+
+  it('keeps constant values and appends ATTRIBs without a definition', () => {
+    const doc = makeDoc([makeAttdef({ tag: 'FIRM', text: 'ACME', flags: 2 })]);
+    const insert = makeInsert([
+      makeAttrib({ tag: 'FIRM', text: 'Other' }),
+      makeAttrib({ tag: 'DRAWN', text: 'J%%pK', flags: 1 }),
+    ]);
+    const attributes = getBlockAttributes(insert, doc);
+    expect(attributes[0]).toMatchObject({ tag: 'FIRM', value: 'ACME', constant: true });
+    expect(attributes[1]).toMatchObject({ tag: 'DRAWN', value: 'J±K', prompt: '', invisible: true });
+  });
+
+  it('lists ATTRIBs of an INSERT whose block is missing', () => {
+    const insert = { ...makeInsert([makeAttrib({ text: 'X' })]), blockName: 'NONE' };
+    expect(getBlockAttributes(insert, makeDoc([])).map(a => a.value)).toEqual(['X']);
+  });
+});
+
+// ─── Drawing helpers ────────────────────────────────────────────────
+
+describe('attribute drawing helpers', () => {
+  it('converts an attribute to TEXT with its style and alignment', () => {
+    const attrib = makeAttrib({
+      text: 'A1', style: 'TITLE', hAlign: 1, vAlign: 2, alignmentPoint: { x: 5, y: 5, z: 0 }, color: 3,
+    });
+    const text = attributeTextEntity(attrib);
+    expect(text).toMatchObject({
+      type: 'TEXT', text: 'A1', style: 'TITLE', hAlign: 1, vAlign: 2, alignmentPoint: { x: 5, y: 5, z: 0 }, color: 3,
+    });
+    expect(attributeTextEntity(attrib)).toBe(text);
+  });
+
+  it('reads the invisible and constant flags', () => {
+    expect(isAttributeVisible(makeAttrib({ flags: 8 }))).toBe(true);
+    expect(isAttributeVisible(makeAttrib({ flags: 9 }))).toBe(false);
+    const constant = makeAttdef({ flags: 2 });
+    expect(constantAttributeDefinitions([makeAttdef(), constant, makeAttdef({ flags: 3 })])).toEqual([constant]);
+    expect(constantAttributeDefinitions(undefined)).toEqual([]);
+  });
+});
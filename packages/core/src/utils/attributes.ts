@@ -0,0 +1,104 @@
+import type { DxfAttdef, DxfAttrib, DxfDocument, DxfInsertEntity, DxfTextEntity } from '../parser/types.js';
+import { decodeSpecialChars } from '../renderer/mtext.js';
+
+/** Attribute flag (code 70): not displayed. */
+export const ATTRIBUTE_INVISIBLE = 1;
+/** Attribute flag (code 70): fixed value from the ATTDEF; the INSERT has no ATTRIB for it. */
+export const ATTRIBUTE_CONSTANT = 2;
+
+/** One attribute of a block reference, merged from its ATTDEF and ATTRIB. */
+export interface BlockAttribute {
+  tag: string;
+  /** Plain-text value: the INSERT's ATTRIB value, else the ATTDEF default. */
+  value: string;
+  /** ATTDEF prompt ('' without a definition). */
+  prompt: string;
+  /** ATTDEF default value ('' without a definition). */
+  defaultValue: string;
+  invisible: boolean;
+  constant: boolean;
+}
+
+// TEXT stand-ins by attribute, built once rather than on every draw and
+// extents pass over the INSERTs that carry them.
+const textCache = new WeakMap<DxfAttrib, DxfTextEntity>();
+
+/** True unless the attribute's invisible flag is set. */
+export function isAttributeVisible(attrib: DxfAttrib): boolean {
+  return (attrib.flags & ATTRIBUTE_INVISIBLE) === 0;
+}
+
+/** An ATTRIB or ATTDEF as a TEXT entity, for drawing and extents. Cached per attribute. */
+export function attributeTextEntity(attrib: DxfAttrib): DxfTextEntity {
+  const cached = textCache.get(attrib);
+  if (cached) return cached;
+
+  const text: DxfTextEntity = {
+    type: 'TEXT',
+    layer: attrib.layer,
+    color: attrib.color,
+    trueColor: attrib.trueColor,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    text: attrib.text,
+    insertionPoint: attrib.insertionPoint,
+    alignmentPoint: attrib.alignmentPoint,
+    height: attrib.height,
+    rotation: attrib.rotation,
+    widthFactor: attrib.widthFactor,
+    obliqueAngle: attrib.obliqueAngle,
+    style: attrib.style,
+    hAlign: attrib.hAlign,
+    vAlign: attrib.vAlign,
+    generationFlags: attrib.generationFlags,
+  };
+  textCache.set(attrib, text);
+  return text;
+}
+
+/** Constant, visible ATTDEFs of a block: drawn with the block since no ATTRIB carries them. */
+export function constantAttributeDefinitions(attdefs: DxfAttdef[] | undefined): DxfAttdef[] {
+  return attdefs?.filter(a => (a.flags & ATTRIBUTE_CONSTANT) !== 0 && isAttributeVisible(a)) ?? [];
+}
+
+/**
+ * Attributes of a block reference in ATTDEF order, each with the INSERT's
+ * ATTRIB value or the definition's default (tags match case-insensitively).
+ * ATTRIBs without a matching definition follow at the end.
+ */
+export function getBlockAttributes(entity: DxfInsertEntity, doc: DxfDocument): BlockAttribute[] {
+  const attdefs = doc.blocks.get(entity.blockName)?.attributeDefinitions ?? [];
+  const values = new Map<string, DxfAttrib>();
+  for (const attrib of entity.attribs) values.set(attrib.tag.toUpperCase(), attrib);
+
+  const result: BlockAttribute[] = [];
+  for (const attdef of attdefs) {
+    const key = attdef.tag.toUpperCase();
+    const constant = (attdef.flags & ATTRIBUTE_CONSTANT) !== 0;
+    const attrib = constant ? undefined : values.get(key);
+    values.delete(key);
+    result.push({
+      tag: attdef.tag,
+      value: decodeSpecialChars(attrib ? attrib.text : attdef.text),
+      prompt: attdef.prompt,
+      defaultValue: decodeSpecialChars(attdef.text),
+      invisible: !isAttributeVisible(attrib ?? attdef),
+      constant,
+    });
+  }
+
+  for (const attrib of values.values()) {
+    result.push({
+      tag: attrib.tag,
+      value: decodeSpecialChars(attrib.text),
+      prompt: '',
+      defaultValue: '',
+      invisible: !isAttributeVisible(attrib),
+      constant: false,
+    });
+  }
+  return result;
+}
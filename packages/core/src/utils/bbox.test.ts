@@ -88,6 +88,67 @@ describe('computeEntityBBox', () => {
     const bbox = computeEntityBBox(insert);
     expect(bbox).toEqual({ minX: 10, minY: 20, maxX: 10, maxY: 20 });
   });
+
+  it('maps mirrored (extrusion 0,0,-1) geometry from OCS to WCS', () => {
+    const circle: DxfEntity = {
+      ...BASE_ENTITY,
+      type: 'CIRCLE',
+      center: { x: 10, y: 5, z: 0 },
+      radius: 2,
+      extrusion: { x: 0, y: 0, z: -1 },
+    };
+    expect(computeEntityBBox(circle)).toEqual({ minX: -12, minY: 3, maxX: -8, maxY: 7 });
+  });
+
+  it('includes ellipse and spline hatch edges', () => {
+    const hatch: DxfEntity = {
+      ...BASE_ENTITY,
+      type: 'HATCH',
+      patternName: 'SOLID',
+      solidFill: true,
+      associative: false,
+      hatchStyle: 0,
+      patternType: 1,
+      patternAngle: 0,
+      patternScale: 1,
+      elevation: 0,
+      patternLines: [],
+      boundaryPaths: [
+        {
+          type: 'edges',
+          flags: 0,
+          edges: [{
+            type: 'ellipse', center: { x: 0, y: 0 }, majorAxis: { x: 3, y: 0 },
+            minorRatio: 0.5, startAngle: 0, endAngle: 360, ccw: true,
+          }],
+        },
+        {
+          type: 'edges',
+          flags: 0,
+          edges: [{
+            type: 'spline', degree: 2, knots: [0, 0, 0, 1, 1, 1],
+            controlPoints: [{ x: 2, y: 0 }, { x: 6, y: 8 }, { x: 10, y: 0 }],
+          }],
+        },
+      ],
+    };
+    expect(computeEntityBBox(hatch)).toEqual({ minX: -3, minY: -3, maxX: 10, maxY: 8 });
+  });
+
+  it('pads wide polylines by half their width', () => {
+    const polyline: DxfEntity = {
+      ...BASE_ENTITY,
+      type: 'LWPOLYLINE',
+      vertices: [
+        { x: 0, y: 0, bulge: 0, startWidth: 0, endWidth: 4 },
+        { x: 10, y: 0, bulge: 0, startWidth: 0, endWidth: 0 },
+      ],
+      closed: false,
+      constantWidth: 0,
+      elevation: 0,
+    };
+    expect(computeEntityBBox(polyline)).toEqual({ minX: -2, minY: -2, maxX: 12, maxY: 2 });
+  });
 });
 
 // ─── computeBlockContentsBBox ───────────────────────────────────────
@@ -157,6 +218,32 @@ describe('computeBlockContentsBBox', () => {
 // ─── computeInsertBBox ──────────────────────────────────────────────
 
 describe('computeInsertBBox', () => {
+  it('includes visible ATTRIBs', () => {
+    const block = makeBlock('A', [makeLine(0, 0, 100, 50)]);
+    const doc = makeDoc([], [block]);
+    const attrib = {
+      tag: 'T', text: 'AB', insertionPoint: { x: 200, y: 360, z: 0 }, height: 10, rotation: 0,
+      widthFactor: 1, obliqueAngle: 0, style: 'STANDARD', hAlign: 0, vAlign: 0, generationFlags: 0,
+      flags: 0, layer: '0', color: 256,
+    };
+    const insert = {
+      ...makeInsert('A', 200, 300),
+      attribs: [attrib, { ...attrib, insertionPoint: { x: 0, y: 0, z: 0 }, flags: 1 }],
+    };
+    expect(computeInsertBBox(insert, doc, new Map())).toEqual({ minX: 200, minY: 300, maxX: 300, maxY: 370 });
+  });
+
+  it('maps a mirrored INSERT from OCS to WCS', () => {
+    const block = makeBlock('A', [makeLine(0, 0, 100, 50)]);
+    const doc = makeDoc([], [block]);
+    const cache = new Map<string, BBox | null>();
+
+    const insert = { ...makeInsert('A', 200, 300), extrusion: { x: 0, y: 0, z: -1 } };
+    const bbox = computeInsertBBox(insert, doc, cache);
+    // OCS [200,300]-[300,350] with X negated in WCS
+    expect(bbox).toEqual({ minX: -300, minY: 300, maxX: -200, maxY: 350 });
+  });
+
   it('computes bounds of a simple INSERT (no scale, no rotation)', () => {
     const block = makeBlock('A', [makeLine(0, 0, 100, 50)]);
     const doc = makeDoc([], [block]);
@@ -1,4 +1,13 @@
-import type { DxfEntity, DxfDocument, DxfInsertEntity } from '../parser/types.js';
+import type { DxfEntity, DxfDocument, DxfInsertEntity, DxfHatchEntity, DxfMLeaderEntity, Point2D } from '../parser/types.js';
+import { getEntityOcsMatrix, transformBBox } from './ocs.js';
+import { maxPolylineWidth } from './polyline-width.js';
+import { mleaderBlockInsert, mleaderLandings, mleaderLines } from './leader.js';
+import { imageOutline } from './image.js';
+import { tableOutline } from './table.js';
+import { mlineGeometry } from './mline.js';
+import { viewportOutline } from './layout.js';
+import { dimensionEntities } from './dimension.js';
+import { attributeTextEntity, constantAttributeDefinitions, isAttributeVisible } from './attributes.js';
 
 export interface BBox {
   minX: number;
@@ -38,10 +47,18 @@ export function computeBlockContentsBBox(
   let maxX = -Infinity, maxY = -Infinity;
   let hasAny = false;
 
-  for (const entity of block.entities) {
+  // Constant attribute definitions are drawn as part of the block
+  const entities: DxfEntity[] = [
+    ...block.entities,
+    ...constantAttributeDefinitions(block.attributeDefinitions).map(attributeTextEntity),
+  ];
+
+  for (const entity of entities) {
     let bbox: BBox | null;
     if (entity.type === 'INSERT') {
       bbox = computeInsertBBox(entity as DxfInsertEntity, doc, cache, depth + 1);
+    } else if (entity.type === 'MULTILEADER') {
+      bbox = computeMLeaderBBox(entity, doc, cache, depth + 1);
     } else {
       bbox = computeEntityBBox(entity);
     }
@@ -68,12 +85,32 @@ export function computeBlockContentsBBox(
  * 4. Rotating the 4 corners and taking the AABB
  * 5. Translating to insertionPoint
  * 6. Expanding for MINSERT grid
+ * 7. Mapping from the INSERT's OCS to WCS (non-default extrusion)
+ * 8. Adding the visible ATTRIBs, which are already placed in the INSERT's parent space
  */
 export function computeInsertBBox(
   entity: DxfInsertEntity,
   doc: DxfDocument,
   cache: Map<string, BBox | null>,
   depth: number = 0,
+): BBox | null {
+  const ocsBBox = computeInsertOcsBBox(entity, doc, cache, depth);
+  const ocs = getEntityOcsMatrix(entity);
+  let bbox = ocsBBox && ocs ? transformBBox(ocsBBox, ocs) : ocsBBox;
+
+  for (const attrib of entity.attribs) {
+    if (!isAttributeVisible(attrib) || !attrib.text) continue;
+    const textBBox = computeEntityBBox(attributeTextEntity(attrib));
+    if (textBBox) bbox = bbox ? unionBBox(bbox, textBBox) : textBBox;
+  }
+  return bbox;
+}
+
+function computeInsertOcsBBox(
+  entity: DxfInsertEntity,
+  doc: DxfDocument,
+  cache: Map<string, BBox | null>,
+  depth: number,
 ): BBox | null {
   const contentBBox = computeBlockContentsBBox(entity.blockName, doc, cache, depth);
   if (!contentBBox) return null;
@@ -212,14 +249,23 @@ export function computeEntityBBoxWithDoc(
   if (entity.type === 'INSERT') {
     return computeInsertBBox(entity as DxfInsertEntity, doc, cache);
   }
-  // DIMENSION entities also reference blocks — use definition points for now
-  // (block-based bbox would be more accurate but requires parsing dimension blocks)
+  if (entity.type === 'MULTILEADER') {
+    return computeMLeaderBBox(entity, doc, cache);
+  }
+  // DIMENSION entities with a geometry block use their definition points;
+  // regenerated ones are bounded by their generated parts
+  if (entity.type === 'DIMENSION' && !(entity.blockName && doc.blocks.has(entity.blockName))) {
+    const parts = dimensionEntities(entity, doc);
+    if (parts.length > 0) return computeEntitiesBounds(parts, doc);
+  }
   return computeEntityBBox(entity);
 }
 
 // ─── Block Entity BBox Cache ─────────────────────────────────────────
 // Pre-computed bboxes for block sub-entities, keyed by block name.
-// Eliminates per-frame recomputation in draw-insert.ts.
+// Eliminates per-frame recomputation in draw-insert.ts. Entries hold geometry
+// only: BYBLOCK and layer "0" inheritance change how block contents are styled,
+// not their extents, so one entry serves every INSERT of the block.
 
 let _blockEntityBBoxCache: Map<string, (BBox | null)[]> | null = null;
 
@@ -264,8 +310,19 @@ export function getBlockEntityBBox(blockName: string, index: number): BBox | nul
  * Compute entity bbox without document context.
  * INSERT entities return a zero-size bbox at their insertion point.
  * For proper INSERT bounds, use computeEntityBBoxWithDoc() instead.
+ *
+ * Entities with a non-default extrusion are measured in their OCS and the
+ * result is mapped to WCS, so mirrored geometry is bounded where it is drawn.
  */
 export function computeEntityBBox(entity: DxfEntity): BBox | null {
+  const bbox = computeOcsBBox(entity);
+  if (!bbox) return null;
+  const ocs = getEntityOcsMatrix(entity);
+  return ocs ? transformBBox(bbox, ocs) : bbox;
+}
+
+/** Entity bbox in the entity's own coordinate system (OCS for planar types). */
+function computeOcsBBox(entity: DxfEntity): BBox | null {
   switch (entity.type) {
     case 'LINE':
       return {
@@ -300,7 +357,9 @@ export function computeEntityBBox(entity: DxfEntity): BBox | null {
         pMaxX = Math.max(pMaxX, v.x);
         pMaxY = Math.max(pMaxY, v.y);
       }
-      return { minX: pMinX, minY: pMinY, maxX: pMaxX, maxY: pMaxY };
+      // Wide segments extend half their width beyond the vertices
+      const half = maxPolylineWidth(entity) / 2;
+      return { minX: pMinX - half, minY: pMinY - half, maxX: pMaxX + half, maxY: pMaxY + half };
     }
     case 'ELLIPSE': {
       const majorLen = Math.sqrt(entity.majorAxis.x ** 2 + entity.majorAxis.y ** 2);
@@ -312,6 +371,15 @@ export function computeEntityBBox(entity: DxfEntity): BBox | null {
       };
     }
     case 'TEXT':
+      // ALIGNED (3) and FIT (5) text is stretched between its two points
+      if ((entity.hAlign === 3 || entity.hAlign === 5) && entity.alignmentPoint) {
+        return {
+          minX: Math.min(entity.insertionPoint.x, entity.alignmentPoint.x),
+          minY: Math.min(entity.insertionPoint.y, entity.alignmentPoint.y),
+          maxX: Math.max(entity.insertionPoint.x, entity.alignmentPoint.x),
+          maxY: Math.max(entity.insertionPoint.y, entity.alignmentPoint.y) + entity.height,
+        };
+      }
       return {
         minX: entity.insertionPoint.x,
         minY: entity.insertionPoint.y,
@@ -362,23 +430,114 @@ export function computeEntityBBox(entity: DxfEntity): BBox | null {
         };
       }
       return null;
-    case 'HATCH': {
-      let hMinX = Infinity, hMinY = Infinity, hMaxX = -Infinity, hMaxY = -Infinity;
-      let hasPoints = false;
-      for (const path of entity.boundaryPaths) {
-        if (path.vertices) {
-          for (const v of path.vertices) {
-            hasPoints = true;
-            hMinX = Math.min(hMinX, v.x);
-            hMinY = Math.min(hMinY, v.y);
-            hMaxX = Math.max(hMaxX, v.x);
-            hMaxY = Math.max(hMaxY, v.y);
-          }
-        }
-      }
-      return hasPoints ? { minX: hMinX, minY: hMinY, maxX: hMaxX, maxY: hMaxY } : null;
+    case 'HATCH':
+      return computeHatchBBox(entity);
+    case 'LEADER':
+      return pointsBBox(entity.vertices);
+    case 'MLINE':
+      return pointsBBox(mlineGeometry(entity).elements.flat(2));
+    case 'MULTILEADER': {
+      // Block content is bounded by its position; see computeMLeaderBBox for the block extents
+      const points: Point2D[] = mleaderLines(entity).flat();
+      for (const landing of mleaderLandings(entity)) points.push(...landing);
+      if (entity.block) points.push(entity.block.position);
+      const lines = pointsBBox(points);
+      const text = entity.mtext ? computeEntityBBox(entity.mtext) : null;
+      return lines && text ? unionBBox(lines, text) : lines ?? text;
+    }
+    case 'XLINE':
+    case 'RAY':
+      // Infinite: kept out of extents (SpatialIndex treats them as unbounded)
+      return null;
+    case 'SOLID':
+    case 'TRACE':
+    case '3DFACE': {
+      const xs = entity.points.map(p => p.x);
+      const ys = entity.points.map(p => p.y);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
     }
+    case 'IMAGE':
+    case 'WIPEOUT':
+      return pointsBBox(imageOutline(entity));
+    case 'ACAD_TABLE':
+      return pointsBBox(tableOutline(entity));
+    case 'VIEWPORT':
+      return pointsBBox(viewportOutline(entity));
     default:
       return null;
   }
 }
+
+/** MULTILEADER bounds including the extents of its block content. */
+function computeMLeaderBBox(
+  entity: DxfMLeaderEntity,
+  doc: DxfDocument,
+  cache: Map<string, BBox | null>,
+  depth: number = 0,
+): BBox | null {
+  const bbox = computeEntityBBox(entity);
+  const insert = mleaderBlockInsert(entity);
+  const blockBBox = insert ? computeInsertBBox(insert, doc, cache, depth) : null;
+  return bbox && blockBBox ? unionBBox(bbox, blockBBox) : bbox ?? blockBBox;
+}
+
+function pointsBBox(points: Point2D[]): BBox | null {
+  if (points.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function unionBBox(a: BBox, b: BBox): BBox {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
+
+/**
+ * Bounds of a hatch's boundary paths in its OCS.
+ * Arc and ellipse edges use their full circle, spline edges their control
+ * points (both conservative).
+ */
+export function computeHatchBBox(entity: DxfHatchEntity): BBox | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const add = (x: number, y: number): void => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  for (const path of entity.boundaryPaths) {
+    if (path.vertices) {
+      for (const v of path.vertices) add(v.x, v.y);
+    }
+    if (path.edges) {
+      for (const edge of path.edges) {
+        if (edge.type === 'line') {
+          add(edge.start.x, edge.start.y);
+          add(edge.end.x, edge.end.y);
+        } else if (edge.type === 'arc') {
+          add(edge.center.x - edge.radius, edge.center.y - edge.radius);
+          add(edge.center.x + edge.radius, edge.center.y + edge.radius);
+        } else if (edge.type === 'ellipse') {
+          const majorLen = Math.hypot(edge.majorAxis.x, edge.majorAxis.y);
+          add(edge.center.x - majorLen, edge.center.y - majorLen);
+          add(edge.center.x + majorLen, edge.center.y + majorLen);
+        } else {
+          for (const p of edge.controlPoints) add(p.x, p.y);
+        }
+      }
+    }
+  }
+
+  return minX <= maxX ? { minX, minY, maxX, maxY } : null;
+}
@@ -0,0 +1,48 @@
+import type { DxfEntity, DxfRayEntity, DxfXLineEntity, Point2D } from '../parser/types.js';
+import type { BBox } from './bbox.js';
+
+/** True for XLINE and RAY, which extend infinitely and have no bounding box. */
+export function isConstructionLine(entity: DxfEntity): boolean {
+  return entity.type === 'XLINE' || entity.type === 'RAY';
+}
+
+/**
+ * Clip a construction line to a rectangle (Liang–Barsky). XLINEs run both
+ * ways from the base point, RAYs only along their direction. Returns the
+ * visible segment, or null when the line misses the rectangle.
+ */
+export function clipConstructionLine(
+  entity: DxfXLineEntity | DxfRayEntity,
+  bounds: BBox,
+): [Point2D, Point2D] | null {
+  const { x, y } = entity.basePoint;
+  const dx = entity.direction.x;
+  const dy = entity.direction.y;
+  if (Math.abs(dx) < 1e-12 && Math.abs(dy) < 1e-12) return null;
+
+  let t0 = entity.type === 'RAY' ? 0 : -Infinity;
+  let t1 = Infinity;
+
+  // Each pair is (-p, q) for one slab boundary: the line is inside where p·t ≤ q
+  const edges: [number, number][] = [
+    [-dx, x - bounds.minX],
+    [dx, bounds.maxX - x],
+    [-dy, y - bounds.minY],
+    [dy, bounds.maxY - y],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null; // parallel and outside
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+  }
+  if (t0 > t1 || !Number.isFinite(t0) || !Number.isFinite(t1)) return null;
+
+  return [
+    { x: x + dx * t0, y: y + dy * t0 },
+    { x: x + dx * t1, y: y + dy * t1 },
+  ];
+}
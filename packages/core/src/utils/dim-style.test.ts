@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfDimensionEntity, DxfDimStyle, DxfDimStyleSettings, DxfDocument } from '../parser/types.js';
+import {
+  dimensionText,
+  findDimStyle,
+  formatAngularMeasurement,
+  formatLinearMeasurement,
+  resolveDimStyle,
+} from './dim-style.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeDoc(measurement: number, dimStyles: DxfDimStyle[] = []): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map(),
+    entities: [],
+    dimStyles: new Map(dimStyles.map(style => [style.name, style])),
+  };
+}
+
+function makeDimension(overrides?: Partial<DxfDimensionEntity>): DxfDimensionEntity {
+  return {
+    type: 'DIMENSION',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    blockName: '',
+    dimStyle: 'Standard',
+    dimType: 0,
+    defPoint: { x: 0, y: 0, z: 0 },
+    textMidpoint: { x: 0, y: 0, z: 0 },
+    textOverride: '',
+    rotation: 0,
+    textRotation: 0,
+    leaderLength: 0,
+    ...overrides,
+  };
+}
+
+const imperial = resolveDimStyle(makeDoc(0), makeDimension());
+const metric = resolveDimStyle(makeDoc(1), makeDimension());
+
+function style(overrides: Partial<DxfDimStyleSettings>): DxfDimStyleSettings {
+  return { ...imperial, ...overrides };
+}
+
+// ─── Style resolution ───────────────────────────────────────────────
+
+describe('resolveDimStyle', () => {
+  it('starts from imperial or metric defaults per $MEASUREMENT', () => {
+    expect(imperial).toMatchObject({ arrowSize: 0.18, decimalPlaces: 4, textAbove: 0, decimalSeparator: '.' });
+    expect(metric).toMatchObject({ arrowSize: 2.5, decimalPlaces: 2, textAbove: 1, decimalSeparator: ',' });
+  });
+
+  it('applies the named DIMSTYLE, then the entity overrides', () => {
+    const doc = makeDoc(0, [{ name: 'Arch', arrowSize: 0.25, textHeight: 0.125 }]);
+    const resolved = resolveDimStyle(doc, makeDimension({ dimStyle: 'ARCH', styleOverrides: { textHeight: 0.5 } }));
+    expect(resolved.arrowSize).toBe(0.25);
+    expect(resolved.textHeight).toBe(0.5);
+    expect(resolved.extensionOffset).toBe(0.0625);
+  });
+
+  it('finds styles by exact name before case-insensitive matches', () => {
+    const exact = { name: 'iso' };
+    const doc = makeDoc(0, [{ name: 'ISO' }, exact]);
+    expect(findDimStyle(doc, 'iso')).toBe(exact);
+    expect(findDimStyle(doc, 'Iso')!.name).toBe('ISO');
+    expect(findDimStyle(doc, 'Missing')).toBeUndefined();
+  });
+});
+
+// ─── Linear formatting ──────────────────────────────────────────────
+
+describe('formatLinearMeasurement', () => {
+  it('formats decimals with DIMDEC, DIMZIN and DIMDSEP', () => {
+    expect(formatLinearMeasurement(12.5, imperial)).toBe('12.5000');
+    expect(formatLinearMeasurement(12.5, metric)).toBe('12,5');
+    expect(formatLinearMeasurement(0.5, style({ zeroSuppression: 4 }))).toBe('.5000');
+  });
+
+  it('applies DIMLFAC before DIMRND', () => {
+    expect(formatLinearMeasurement(3.3, style({ linearFactor: 2, rounding: 0.5, decimalPlaces: 1 }))).toBe('6.5');
+  });
+
+  it('formats scientific, fractional and architectural units', () => {
+    expect(formatLinearMeasurement(1234.5, style({ linearUnit: 1, decimalPlaces: 2 }))).toBe('1.23E+03');
+    expect(formatLinearMeasurement(2.375, style({ linearUnit: 5, decimalPlaces: 3 }))).toBe('2 3/8');
+    expect(formatLinearMeasurement(15.5, style({ linearUnit: 4, decimalPlaces: 4 }))).toBe('1\'-3 1/2"');
+    expect(formatLinearMeasurement(30, style({ linearUnit: 3, decimalPlaces: 1 }))).toBe('2\'-6.0"');
+  });
+});
+
+// ─── Angular formatting ─────────────────────────────────────────────
+
+describe('formatAngularMeasurement', () => {
+  it('formats degrees, DMS, grads and radians', () => {
+    expect(formatAngularMeasurement(Math.PI / 2, imperial)).toBe('90°');
+    expect(formatAngularMeasurement(30.5 * Math.PI / 180, style({ angularUnit: 1, angularDecimalPlaces: 2 }))).toBe('30°30\'');
+    expect(formatAngularMeasurement(Math.PI / 2, style({ angularUnit: 2 }))).toBe('100g');
+    expect(formatAngularMeasurement(1, style({ angularUnit: 3, angularDecimalPlaces: 2 }))).toBe('1.00r');
+  });
+
+  it('falls back to DIMDEC when DIMADEC is -1', () => {
+    expect(formatAngularMeasurement(Math.PI / 4, style({ angularDecimalPlaces: -1, decimalPlaces: 1 }))).toBe('45.0°');
+  });
+});
+
+// ─── Text ───────────────────────────────────────────────────────────
+
+describe('dimensionText', () => {
+  const withPost = style({ textPost: '<> mm' });
+
+  it('applies the prefix and DIMPOST', () => {
+    expect(dimensionText(makeDimension(), '20', withPost, '%%c')).toBe('%%c20 mm');
+    expect(dimensionText(makeDimension(), '20', style({ textPost: '"' }))).toBe('20"');
+  });
+
+  it('substitutes the measurement into a text override', () => {
+    expect(dimensionText(makeDimension({ textOverride: 'Approx. <>' }), '20', withPost)).toBe('Approx. 20 mm');
+    expect(dimensionText(makeDimension({ textOverride: 'TYP' }), '20', withPost)).toBe('TYP');
+    expect(dimensionText(makeDimension({ textOverride: ' ' }), '20', withPost)).toBe('');
+  });
+});
@@ -0,0 +1,184 @@
+import type { DxfDimensionEntity, DxfDimStyle, DxfDimStyleSettings, DxfDocument } from '../parser/types.js';
+
+/** AutoCAD's imperial STANDARD dimension style (acad.dwt). */
+const IMPERIAL_DIM_STYLE: DxfDimStyleSettings = {
+  scale: 1,
+  arrowSize: 0.18,
+  extensionOffset: 0.0625,
+  extensionExtension: 0.18,
+  rounding: 0,
+  dimLineExtension: 0,
+  textHeight: 0.18,
+  centerMark: 0.09,
+  tickSize: 0,
+  linearFactor: 1,
+  textGap: 0.09,
+  textInsideHorizontal: true,
+  textOutsideHorizontal: true,
+  suppressExtension1: false,
+  suppressExtension2: false,
+  textAbove: 0,
+  zeroSuppression: 0,
+  separateArrows: false,
+  dimLineColor: 0,
+  extLineColor: 0,
+  textColor: 0,
+  angularDecimalPlaces: 0,
+  decimalPlaces: 4,
+  angularUnit: 0,
+  linearUnit: 2,
+  decimalSeparator: '.',
+  suppressDimLine1: false,
+  suppressDimLine2: false,
+  textPost: '',
+  arrowBlock: '',
+  arrowBlock1: '',
+  arrowBlock2: '',
+  textStyle: 'Standard',
+  dimLineWeight: -2,
+  extLineWeight: -2,
+};
+
+/** AutoCAD's metric ISO-25 dimension style (acadiso.dwt). */
+const METRIC_DIM_STYLE: DxfDimStyleSettings = {
+  ...IMPERIAL_DIM_STYLE,
+  arrowSize: 2.5,
+  extensionOffset: 0.625,
+  extensionExtension: 1.25,
+  textHeight: 2.5,
+  centerMark: 2.5,
+  textGap: 0.625,
+  textInsideHorizontal: false,
+  textOutsideHorizontal: false,
+  textAbove: 1,
+  zeroSuppression: 8,
+  decimalPlaces: 2,
+  decimalSeparator: ',',
+};
+
+/** The DIMSTYLE an entity names, matched exactly, then case-insensitively. */
+export function findDimStyle(doc: DxfDocument, name: string): DxfDimStyle | undefined {
+  const styles = doc.dimStyles;
+  if (!styles) return undefined;
+  const exact = styles.get(name);
+  if (exact) return exact;
+  const upper = name.toUpperCase();
+  for (const style of styles.values()) {
+    if (style.name.toUpperCase() === upper) return style;
+  }
+  return undefined;
+}
+
+/**
+ * Effective dimension variables of a DIMENSION: the drawing's defaults
+ * (metric when `$MEASUREMENT` is 1), then its DIMSTYLE entry, then its own
+ * XDATA overrides.
+ */
+export function resolveDimStyle(doc: DxfDocument, entity: DxfDimensionEntity): DxfDimStyleSettings {
+  const defaults = doc.header.measurement === 1 ? METRIC_DIM_STYLE : IMPERIAL_DIM_STYLE;
+  return { ...defaults, ...findDimStyle(doc, entity.dimStyle), ...entity.styleOverrides };
+}
+
+/** A number with `places` decimals, DIMZIN zero suppression and the style's separator. */
+function formatDecimal(value: number, places: number, style: DxfDimStyleSettings): string {
+  let text = value.toFixed(Math.max(0, Math.min(places, 8)));
+  if (style.zeroSuppression & 8 && text.includes('.')) text = text.replace(/\.?0+$/, '');
+  if (style.zeroSuppression & 4) text = text.replace(/^(-?)0\./, '$1.');
+  return text.replace('.', style.decimalSeparator);
+}
+
+/** A value as a whole number and a fraction with denominator 2^places, e.g. `3 1/2`. */
+function formatFraction(value: number, places: number): string {
+  const denominator = 2 ** Math.max(0, Math.min(places, 8));
+  const total = Math.round(value * denominator);
+  const whole = Math.trunc(total / denominator);
+  let numerator = Math.abs(total % denominator);
+  let den = denominator;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    den /= 2;
+  }
+  if (numerator === 0) return String(whole);
+  const sign = total < 0 && whole === 0 ? '-' : '';
+  return whole === 0 ? `${sign}${numerator}/${den}` : `${whole} ${numerator}/${den}`;
+}
+
+/** Feet and inches from a value in inches: `inches` formats the inch part. */
+function formatFeetInches(value: number, inches: (value: number) => string): string {
+  const feet = Math.floor(value / 12);
+  const rest = value - feet * 12;
+  return feet === 0 ? `${inches(rest)}"` : `${feet}'-${inches(rest)}"`;
+}
+
+/**
+ * A linear measurement formatted per DIMLFAC, DIMRND, DIMLUNIT, DIMDEC,
+ * DIMZIN and DIMDSEP. Engineering and architectural units read the value as
+ * inches.
+ */
+export function formatLinearMeasurement(value: number, style: DxfDimStyleSettings): string {
+  let v = value * style.linearFactor;
+  if (style.rounding > 0) v = Math.round(v / style.rounding) * style.rounding;
+  const places = style.decimalPlaces;
+
+  switch (style.linearUnit) {
+    case 1: {
+      const [mantissa, exponent] = v.toExponential(Math.max(0, Math.min(places, 8))).split('e') as [string, string];
+      const sign = exponent.startsWith('-') ? '-' : '+';
+      return `${mantissa.replace('.', style.decimalSeparator)}E${sign}${exponent.replace(/^[-+]/, '').padStart(2, '0')}`;
+    }
+    case 3:
+      return formatFeetInches(v, inches => formatDecimal(inches, places, style));
+    case 4:
+      return formatFeetInches(v, inches => formatFraction(inches, places));
+    case 5:
+      return formatFraction(v, places);
+    default:
+      return formatDecimal(v, places, style);
+  }
+}
+
+/** An angle in radians formatted per DIMAUNIT and DIMADEC (or DIMDEC when DIMADEC is -1). */
+export function formatAngularMeasurement(radians: number, style: DxfDimStyleSettings): string {
+  const places = style.angularDecimalPlaces < 0 ? style.decimalPlaces : style.angularDecimalPlaces;
+  const degrees = radians * 180 / Math.PI;
+
+  switch (style.angularUnit) {
+    case 1: {
+      // Precision 0 shows degrees, 1–2 adds minutes, 3 and up adds seconds
+      if (places <= 0) return `${Math.round(degrees)}°`;
+      if (places <= 2) {
+        const totalMinutes = Math.round(degrees * 60);
+        return `${Math.floor(totalMinutes / 60)}°${totalMinutes % 60}'`;
+      }
+      const totalSeconds = Math.round(degrees * 3600);
+      const d = Math.floor(totalSeconds / 3600);
+      const m = Math.floor((totalSeconds % 3600) / 60);
+      return `${d}°${m}'${totalSeconds % 60}"`;
+    }
+    case 2:
+      return `${formatDecimal(radians * 200 / Math.PI, places, style)}g`;
+    case 3:
+      return `${formatDecimal(radians, places, style)}r`;
+    default:
+      return `${formatDecimal(degrees, places, style)}°`;
+  }
+}
+
+/**
+ * Displayed text of a dimension: the measurement with its prefix and DIMPOST
+ * applied, or the entity's text override, where `<>` stands for that
+ * measurement and a single space suppresses the text.
+ */
+export function dimensionText(
+  entity: DxfDimensionEntity,
+  measurement: string,
+  style: DxfDimStyleSettings,
+  prefix: string = '',
+): string {
+  const post = style.textPost;
+  const value = post.includes('<>') ? post.replace('<>', prefix + measurement) : prefix + measurement + post;
+  const override = entity.textOverride;
+  if (override === ' ') return '';
+  if (override === '' || override === '<>') return value;
+  return override.replace('<>', value);
+}
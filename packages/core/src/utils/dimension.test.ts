@@ -0,0 +1,294 @@
+import { describe, it, expect } from 'vitest';
+import type {
+  DxfDimensionEntity,
+  DxfDocument,
+  DxfEntity,
+  DxfLineEntity,
+  DxfMTextEntity,
+} from '../parser/types.js';
+import { dimensionEntities } from './dimension.js';
+import { computeEntityBBoxWithDoc } from './bbox.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeDoc(measurement = 1): DxfDocument {
+  return {
+    header: { acadVersion: 'AC1032', insUnits: 0, measurement, ltScale: 1 },
+    layers: new Map(),
+    lineTypes: new Map(),
+    styles: new Map(),
+    blocks: new Map([['Arrow1', { name: 'Arrow1', basePoint: { x: 0, y: 0, z: 0 }, flags: 0, entities: [] }]]),
+    entities: [],
+    dimStyles: new Map(),
+  };
+}
+
+function makeDimension(overrides?: Partial<DxfDimensionEntity>): DxfDimensionEntity {
+  return {
+    type: 'DIMENSION',
+    layer: 'Dims',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    blockName: '',
+    dimStyle: 'Standard',
+    dimType: 0,
+    defPoint: { x: 0, y: 5, z: 0 },
+    textMidpoint: { x: 0, y: 0, z: 0 },
+    defPoint2: { x: 0, y: 0, z: 0 },
+    defPoint3: { x: 10, y: 0, z: 0 },
+    textOverride: '',
+    rotation: 0,
+    textRotation: 0,
+    leaderLength: 0,
+    ...overrides,
+  };
+}
+
+function lines(parts: DxfEntity[]): [number, number, number, number][] {
+  return parts
+    .filter((e): e is DxfLineEntity => e.type === 'LINE')
+    .map(e => [e.start.x, e.start.y, e.end.x, e.end.y]);
+}
+
+function text(parts: DxfEntity[]): DxfMTextEntity {
+  return parts.find((e): e is DxfMTextEntity => e.type === 'MTEXT')!;
+}
+
+function expectClose(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i]!));
+}
+
+// ─── Linear and aligned ─────────────────────────────────────────────
+
+describe('linear dimensions', () => {
+  it('draws extension lines, dimension line, arrows and text above the line', () => {
+    const parts = dimensionEntities(makeDimension(), makeDoc());
+    expect(parts.map(e => e.type)).toEqual(['LINE', 'LINE', 'MTEXT', 'LINE', 'SOLID', 'LINE', 'SOLID']);
+    expect(lines(parts)).toEqual([
+      [0, 0.625, 0, 6.25],
+      [10, 0.625, 10, 6.25],
+      [0, 5, 5, 5],
+      [5, 5, 10, 5],
+    ]);
+    expect(text(parts)).toMatchObject({
+      text: '10',
+      insertionPoint: { x: 5, y: 6.875, z: 0 },
+      height: 2.5,
+      attachmentPoint: 5,
+      rotation: 0,
+      layer: '0',
+      color: 0,
+    });
+    const arrow = parts[4]!;
+    expect(arrow).toMatchObject({ type: 'SOLID', lineWeight: -2 });
+    if (arrow.type === 'SOLID') expect(arrow.points[0]).toEqual({ x: 0, y: 5, z: 0 });
+  });
+
+  it('breaks the dimension line around centered horizontal text', () => {
+    const entity = makeDimension({
+      rotation: 90,
+      defPoint: { x: 5, y: 0, z: 0 },
+      defPoint3: { x: 3, y: 10, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc(0));
+    expect(text(parts)).toMatchObject({ text: '10.0000', insertionPoint: { x: 5, y: 5, z: 0 }, rotation: 0 });
+    const dimLines = lines(parts).filter(l => Math.abs(l[0] - 5) < 1e-9 && Math.abs(l[2] - 5) < 1e-9);
+    expect(dimLines).toHaveLength(2);
+    expectClose(dimLines[0]!, [5, 0, 5, 4.82]);
+    expectClose(dimLines[1]!, [5, 5.18, 5, 10]);
+  });
+
+  it('measures aligned dimensions along their points and keeps text readable', () => {
+    const entity = makeDimension({
+      dimType: 1,
+      defPoint: { x: -4, y: 3, z: 0 },
+      defPoint2: { x: 0, y: 0, z: 0 },
+      defPoint3: { x: -3, y: -4, z: 0 },
+    });
+    const mtext = text(dimensionEntities(entity, makeDoc()));
+    expect(mtext.text).toBe('5');
+    expect(mtext.rotation).toBeCloseTo(Math.atan2(4, 3) * 180 / Math.PI);
+  });
+
+  it('honors the text override, code 53 text rotation and suppressed extension lines', () => {
+    const entity = makeDimension({
+      textOverride: '<> TYP',
+      textRotation: 30,
+      textMidpoint: { x: 5, y: 8, z: 0 },
+      styleOverrides: { suppressExtension1: true },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts)).toMatchObject({ text: '10 TYP', insertionPoint: { x: 5, y: 8, z: 0 } });
+    expect(text(parts).rotation).toBeCloseTo(30);
+    expect(lines(parts)[0]).toEqual([10, 0.625, 10, 6.25]);
+  });
+
+  it('caches the generated parts per entity', () => {
+    const entity = makeDimension();
+    const doc = makeDoc();
+    expect(dimensionEntities(entity, doc)).toBe(dimensionEntities(entity, doc));
+  });
+});
+
+// ─── Arrowheads ─────────────────────────────────────────────────────
+
+describe('dimension arrowheads', () => {
+  it('inserts an arrow block of the file, scaled by DIMASZ and turned outward', () => {
+    const parts = dimensionEntities(makeDimension({ styleOverrides: { arrowBlock: 'Arrow1' } }), makeDoc());
+    const inserts = parts.filter(e => e.type === 'INSERT');
+    expect(inserts).toHaveLength(2);
+    expect(inserts[0]).toMatchObject({ blockName: 'Arrow1', insertionPoint: { x: 0, y: 5, z: 0 }, scaleX: 2.5 });
+    if (inserts[0]?.type === 'INSERT') expect(Math.abs(inserts[0].rotation)).toBe(180);
+    expect(inserts[1]).toMatchObject({ insertionPoint: { x: 10, y: 5, z: 0 }, rotation: 0 });
+  });
+
+  it('draws DIMTSZ ticks and extends the dimension line by DIMDLE', () => {
+    const entity = makeDimension({ styleOverrides: { tickSize: 1, dimLineExtension: 1 } });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(parts.some(e => e.type === 'SOLID')).toBe(false);
+    const all = lines(parts);
+    expect(all).toContainEqual([-1, 5, 5, 5]);
+    expectClose(all[3]!, [0.5, 5.5, -0.5, 4.5]);
+  });
+
+  it('draws nothing for _None and flips arrows outside a short dimension', () => {
+    const none = dimensionEntities(makeDimension({ styleOverrides: { arrowBlock: '_NONE' } }), makeDoc());
+    expect(none.map(e => e.type)).toEqual(['LINE', 'LINE', 'MTEXT', 'LINE', 'LINE']);
+
+    const short = dimensionEntities(makeDimension({ defPoint3: { x: 3, y: 0, z: 0 } }), makeDoc());
+    expect(lines(short)).toContainEqual([0, 5, -5, 5]);
+    const arrow = short.find(e => e.type === 'SOLID');
+    if (arrow?.type === 'SOLID') expect(arrow.points[1].x).toBeCloseTo(-2.5);
+  });
+});
+
+// ─── Radial ─────────────────────────────────────────────────────────
+
+describe('radial dimensions', () => {
+  it('draws a radius with center mark, line from the center and R prefix', () => {
+    const entity = makeDimension({
+      dimType: 4,
+      defPoint: { x: 0, y: 0, z: 0 },
+      defPoint4: { x: 10, y: 0, z: 0 },
+      textMidpoint: { x: 5, y: 2, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts).text).toBe('R10');
+    expect(lines(parts)).toEqual([[-2.5, 0, 2.5, 0], [0, -2.5, 0, 2.5], [0, 0, 10, 0]]);
+    const arrow = parts.at(-1)!;
+    expect(arrow.type).toBe('SOLID');
+    if (arrow.type === 'SOLID') expect(arrow.points[0]).toEqual({ x: 10, y: 0, z: 0 });
+  });
+
+  it('leads text outside the curve back to it with an inward arrow', () => {
+    const entity = makeDimension({
+      dimType: 4,
+      defPoint: { x: 0, y: 0, z: 0 },
+      defPoint4: { x: 10, y: 0, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts).insertionPoint).toEqual({ x: 15, y: 0, z: 0 });
+    expectClose(lines(parts)[2]!, [10, 0, 12.125, 0]);
+    const arrow = parts.at(-1)!;
+    if (arrow.type === 'SOLID') expect(arrow.points[1].x).toBeCloseTo(12.5);
+  });
+
+  it('draws a diameter across the circle with a diameter sign', () => {
+    const entity = makeDimension({
+      dimType: 3,
+      defPoint: { x: -10, y: 0, z: 0 },
+      defPoint4: { x: 10, y: 0, z: 0 },
+      textMidpoint: { x: 0, y: 3, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts).text).toBe('%%c20');
+    expect(lines(parts)).toContainEqual([-10, 0, 0, 0]);
+    expect(parts.filter(e => e.type === 'SOLID')).toHaveLength(2);
+  });
+});
+
+// ─── Angular ────────────────────────────────────────────────────────
+
+describe('angular dimensions', () => {
+  it('measures the sector between two lines that holds the arc point', () => {
+    const entity = makeDimension({
+      dimType: 2,
+      defPoint2: { x: 0, y: 0, z: 0 },
+      defPoint3: { x: 10, y: 0, z: 0 },
+      defPoint: { x: 0, y: 0, z: 0 },
+      defPoint4: { x: 0, y: 10, z: 0 },
+      defPoint5: { x: 5, y: 5, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(parts.map(e => e.type)).toEqual(['MTEXT', 'ARC', 'SOLID', 'SOLID']);
+    expect(text(parts).text).toBe('90°');
+    const arc = parts[1]!;
+    expect(arc).toMatchObject({ center: { x: 0, y: 0, z: 0 }, startAngle: 0, endAngle: 90 });
+    if (arc.type === 'ARC') expect(arc.radius).toBeCloseTo(Math.SQRT2 * 5);
+  });
+
+  it('measures a reflex three-point angle and extends lines to the arc', () => {
+    const entity = makeDimension({
+      dimType: 5,
+      defPoint4: { x: 0, y: 0, z: 0 },
+      defPoint2: { x: 10, y: 0, z: 0 },
+      defPoint3: { x: 0, y: 10, z: 0 },
+      defPoint: { x: -5, y: -5, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts).text).toBe('270°');
+    const arc = parts.find(e => e.type === 'ARC');
+    expect(arc).toMatchObject({ startAngle: 90, endAngle: 360 });
+    const r = Math.SQRT2 * 5;
+    expectClose(lines(parts)[0]!, [9.375, 0, r - 1.25, 0]);
+  });
+});
+
+// ─── Ordinate ───────────────────────────────────────────────────────
+
+describe('ordinate dimensions', () => {
+  it('labels the X distance with vertical text at the leader end', () => {
+    const entity = makeDimension({
+      dimType: 6 | 64,
+      defPoint: { x: 0, y: 0, z: 0 },
+      defPoint2: { x: 30, y: 10, z: 0 },
+      defPoint3: { x: 30, y: 20, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts)).toMatchObject({ text: '30', rotation: 90, insertionPoint: { x: 30, y: 22.125, z: 0 } });
+    expect(lines(parts)).toEqual([[30, 10.625, 30, 20]]);
+  });
+
+  it('jogs the leader when the leader end is offset', () => {
+    const entity = makeDimension({
+      dimType: 6,
+      defPoint: { x: 0, y: 0, z: 0 },
+      defPoint2: { x: 10, y: 30, z: 0 },
+      defPoint3: { x: 40, y: 40, z: 0 },
+    });
+    const parts = dimensionEntities(entity, makeDoc());
+    expect(text(parts).text).toBe('30');
+    expect(lines(parts)).toEqual([
+      [10.625, 30, 30, 30],
+      [30, 30, 35, 40],
+      [35, 40, 40, 40],
+    ]);
+  });
+});
+
+// ─── Extents ────────────────────────────────────────────────────────
+
+describe('regenerated dimension extents', () => {
+  it('bounds the generated parts instead of the definition points', () => {
+    const bbox = computeEntityBBoxWithDoc(makeDimension(), makeDoc(), new Map())!;
+    expect(bbox.minX).toBeCloseTo(0);
+    expect(bbox.maxX).toBeGreaterThanOrEqual(10);
+    expect(bbox.minY).toBeCloseTo(0.625);
+    expect(bbox.maxY).toBeGreaterThan(6.875);
+  });
+});
@@ -0,0 +1,705 @@
+import type {
+  DxfDimensionEntity,
+  DxfDimStyleSettings,
+  DxfDocument,
+  DxfEntity,
+  DxfEntityBase,
+  Point2D,
+  Point3D,
+} from '../parser/types.js';
+import { mtextToPlainText } from '../renderer/mtext.js';
+import {
+  dimensionText,
+  formatAngularMeasurement,
+  formatLinearMeasurement,
+  resolveDimStyle,
+} from './dim-style.js';
+import { arrowheadCorners } from './leader.js';
+
+/** DIMENSION type (code 70, low three bits). */
+const DIM_LINEAR = 0;
+const DIM_ALIGNED = 1;
+const DIM_ANGULAR = 2;
+const DIM_DIAMETER = 3;
+const DIM_RADIUS = 4;
+const DIM_ANGULAR_3POINT = 5;
+const DIM_ORDINATE = 6;
+/** DIMENSION type flag: ordinate dimension measures X (else Y). */
+const DIM_ORDINATE_X = 64;
+
+/** Average character width relative to text height, used to break lines around text. */
+const TEXT_WIDTH_RATIO = 0.6;
+
+const EPSILON = 1e-9;
+
+/** Rotated rectangle around dimension text, gap included. */
+interface TextBox {
+  center: Point2D;
+  angle: number;
+  halfWidth: number;
+  halfHeight: number;
+}
+
+/** State shared while generating the parts of one dimension. */
+interface DimensionBuilder {
+  doc: DxfDocument;
+  entity: DxfDimensionEntity;
+  style: DxfDimStyleSettings;
+  /** DIMSCALE, applied to every size (0, "scale to layout", counts as 1). */
+  scale: number;
+  parts: DxfEntity[];
+}
+
+// Regenerated parts by DIMENSION. Resolving the style and building the parts
+// happens once, and the text part keeps its measured MTEXT layout across frames.
+const partsCache = new WeakMap<DxfDimensionEntity, DxfEntity[]>();
+
+/**
+ * Dimension graphics regenerated from the definition points and the
+ * effective dimension style, for DIMENSIONs whose `*D` geometry block is
+ * missing. Parts are styled like the contents of a dimension block: layer
+ * 0, BYBLOCK unless DIMCLRD/DIMCLRE/DIMCLRT or DIMLWD/DIMLWE say otherwise.
+ * Cached per entity.
+ */
+export function dimensionEntities(entity: DxfDimensionEntity, doc: DxfDocument): DxfEntity[] {
+  const cached = partsCache.get(entity);
+  if (cached) return cached;
+
+  const style = resolveDimStyle(doc, entity);
+  const b: DimensionBuilder = { doc, entity, style, scale: style.scale > 0 ? style.scale : 1, parts: [] };
+  switch (entity.dimType & 7) {
+    case DIM_LINEAR:          addLinearParts(b, false); break;
+    case DIM_ALIGNED:         addLinearParts(b, true); break;
+    case DIM_ANGULAR:         addAngularParts(b); break;
+    case DIM_ANGULAR_3POINT:  addAngular3PointParts(b); break;
+    case DIM_DIAMETER:        addDiameterParts(b); break;
+    case DIM_RADIUS:          addRadiusParts(b); break;
+    case DIM_ORDINATE:        addOrdinateParts(b); break;
+  }
+  partsCache.set(entity, b.parts);
+  return b.parts;
+}
+
+// ─── Linear and aligned ─────────────────────────────────────────────
+
+/**
+ * Linear (rotated, code 50) or aligned dimension: extension lines from the
+ * points 13 and 14 to the dimension line through point 10.
+ */
+function addLinearParts(b: DimensionBuilder, aligned: boolean): void {
+  const { entity, style } = b;
+  if (!entity.defPoint2 || !entity.defPoint3) return;
+  const p1 = entity.defPoint2;
+  const p2 = entity.defPoint3;
+  const rotation = entity.rotation * Math.PI / 180;
+  const d = aligned
+    ? unit(sub(p2, p1)) ?? { x: 1, y: 0 }
+    : { x: Math.cos(rotation), y: Math.sin(rotation) };
+
+  const q1 = project(entity.defPoint, d, p1);
+  const q2 = project(entity.defPoint, d, p2);
+  if (!style.suppressExtension1) addExtensionLine(b, p1, q1);
+  if (!style.suppressExtension2) addExtensionLine(b, p2, q2);
+
+  const measurement = Math.abs(dot(sub(p2, p1), d));
+  const text = dimensionText(entity, formatLinearMeasurement(measurement, style), style);
+  const normal = unit(sub(q1, p1)) ?? unit(sub(q2, p2)) ?? { x: -d.y, y: d.x };
+  const box = addText(
+    b,
+    text,
+    textPosition(b, () => offsetFromLine(b, midpoint(q1, q2), normal)),
+    style.textInsideHorizontal ? 0 : readableAngle(Math.atan2(d.y, d.x)),
+  );
+  addDimensionLine(b, q1, q2, box);
+}
+
+// ─── Radial ─────────────────────────────────────────────────────────
+
+/** Diameter dimension: a line across the circle between points 15 and 10. */
+function addDiameterParts(b: DimensionBuilder): void {
+  const { entity, style } = b;
+  if (!entity.defPoint4) return;
+  const p = entity.defPoint4;
+  const q = entity.defPoint;
+  const center = midpoint(p, q);
+  const radius = dist(p, q) / 2;
+  if (radius < EPSILON) return;
+
+  addCenterMark(b, center);
+  const direction = unit(sub(p, q))!;
+  const text = dimensionText(entity, formatLinearMeasurement(radius * 2, style), style, '%%c');
+  const position = textPosition(b, () => along(p, direction, b.scale * (style.arrowSize + style.textHeight)));
+  const outside = dist(position, center) > radius;
+  const box = addText(b, text, position, radialTextAngle(b, direction, outside));
+  addDimensionLine(b, q, p, box);
+  if (outside && box) {
+    const near = dist(p, position) <= dist(q, position) ? p : q;
+    addBrokenLine(b, near, position, box);
+  }
+}
+
+/** Radius dimension: center 10, point 15 on the curve. */
+function addRadiusParts(b: DimensionBuilder): void {
+  const { entity, style } = b;
+  if (!entity.defPoint4) return;
+  const center = entity.defPoint;
+  const p = entity.defPoint4;
+  const radius = dist(center, p);
+  if (radius < EPSILON) return;
+
+  addCenterMark(b, center);
+  const direction = unit(sub(p, center))!;
+  const text = dimensionText(entity, formatLinearMeasurement(radius, style), style, 'R');
+  const position = textPosition(b, () => along(p, direction, b.scale * (style.arrowSize + style.textHeight)));
+  const outside = dist(position, center) > radius;
+  const box = addText(b, text, position, radialTextAngle(b, direction, outside));
+  if (outside) {
+    // Leader from the text to the curve, arrow pointing in
+    addBrokenLine(b, p, position, box);
+    addArrow(b, p, unit(sub(p, position)) ?? scale(direction, -1), arrowNames(style)[1]);
+  } else {
+    addBrokenLine(b, center, p, box);
+    addArrow(b, p, direction, arrowNames(style)[1]);
+  }
+}
+
+/** Text angle of a radial dimension: horizontal per DIMTIH/DIMTOH, else along the radius. */
+function radialTextAngle(b: DimensionBuilder, direction: Point2D, outside: boolean): number {
+  const horizontal = outside ? b.style.textOutsideHorizontal : b.style.textInsideHorizontal;
+  return horizontal ? 0 : readableAngle(Math.atan2(direction.y, direction.x));
+}
+
+/** DIMCEN center mark: a cross of half-size |DIMCEN|; nothing when DIMCEN is 0. */
+function addCenterMark(b: DimensionBuilder, center: Point2D): void {
+  const size = Math.abs(b.style.centerMark) * b.scale;
+  if (size < EPSILON) return;
+  addLine(b, { x: center.x - size, y: center.y }, { x: center.x + size, y: center.y }, 'dim');
+  addLine(b, { x: center.x, y: center.y - size }, { x: center.x, y: center.y + size }, 'dim');
+}
+
+// ─── Angular ────────────────────────────────────────────────────────
+
+/**
+ * Two-line angular dimension: lines 13→14 and 10→15, arc through point 16.
+ * The measured angle is the sector between the lines that holds the arc point.
+ */
+function addAngularParts(b: DimensionBuilder): void {
+  const { entity } = b;
+  const { defPoint2: a1, defPoint3: a2, defPoint4: b2, defPoint5: arcPoint } = entity;
+  if (!a1 || !a2 || !b2 || !arcPoint) return;
+  const b1 = entity.defPoint;
+  const u1 = unit(sub(a2, a1));
+  const u2 = unit(sub(b2, b1));
+  if (!u1 || !u2) return;
+  const center = intersectLines(a1, u1, b1, u2);
+  if (!center) return;
+
+  // Pick the ray of each line bounding the sector around the arc point
+  const w = sub(arcPoint, center);
+  const det = cross(u1, u2);
+  const s1 = cross(w, u2) / det < 0 ? -1 : 1;
+  const s2 = cross(u1, w) / det < 0 ? -1 : 1;
+  addAngularArc(b, center, scale(u1, s1), [a1, a2], scale(u2, s2), [b1, b2], arcPoint);
+}
+
+/** Three-point angular dimension: vertex 15, points 13 and 14, arc through point 10. */
+function addAngular3PointParts(b: DimensionBuilder): void {
+  const { entity } = b;
+  const { defPoint2: p1, defPoint3: p2, defPoint4: vertex } = entity;
+  if (!p1 || !p2 || !vertex) return;
+  const r1 = unit(sub(p1, vertex));
+  const r2 = unit(sub(p2, vertex));
+  if (!r1 || !r2) return;
+  addAngularArc(b, vertex, r1, [p1], r2, [p2], entity.defPoint);
+}
+
+/**
+ * Arc, arrows, extension lines and text of an angular dimension between two
+ * rays from `center`. The arc runs through `arcPoint`; each ray gets an
+ * extension line from its nearest feature point when the arc misses it.
+ */
+function addAngularArc(
+  b: DimensionBuilder,
+  center: Point2D,
+  ray1: Point2D,
+  features1: Point2D[],
+  ray2: Point2D,
+  features2: Point2D[],
+  arcPoint: Point2D,
+): void {
+  const { entity, style } = b;
+  const radius = dist(center, arcPoint);
+  if (radius < EPSILON) return;
+
+  const angle1 = Math.atan2(ray1.y, ray1.x);
+  const angle2 = Math.atan2(ray2.y, ray2.x);
+  let start = angle1;
+  let sweep = normalizeAngle(angle2 - angle1);
+  if (normalizeAngle(Math.atan2(arcPoint.y - center.y, arcPoint.x - center.x) - start) > sweep) {
+    start = angle2;
+    sweep = 2 * Math.PI - sweep;
+  }
+  const end = start + sweep;
+
+  if (!style.suppressExtension1) addAngularExtensionLine(b, center, ray1, features1, radius);
+  if (!style.suppressExtension2) addAngularExtensionLine(b, center, ray2, features2, radius);
+
+  const mid = start + sweep / 2;
+  const midDirection = { x: Math.cos(mid), y: Math.sin(mid) };
+  const text = dimensionText(entity, formatAngularMeasurement(sweep, style), style);
+  const box = addText(
+    b,
+    text,
+    textPosition(b, () => offsetFromLine(b, along(center, midDirection, radius), midDirection)),
+    style.textInsideHorizontal ? 0 : readableAngle(mid + Math.PI / 2),
+  );
+
+  // Break the arc where the text sits on it
+  let gapStart = end;
+  let gapEnd = end;
+  if (box) {
+    const offset = dist(box.center, center) - radius;
+    if (Math.abs(offset) < box.halfHeight) {
+      const textAngle = start + normalizeAngle(Math.atan2(box.center.y - center.y, box.center.x - center.x) - start);
+      const half = box.halfWidth / radius;
+      if (textAngle - half < end && textAngle + half > start) {
+        gapStart = Math.max(start, textAngle - half);
+        gapEnd = Math.min(end, textAngle + half);
+      }
+    }
+  }
+  addArc(b, center, radius, start, gapStart);
+  addArc(b, center, radius, gapEnd, end);
+
+  const [arrow1, arrow2] = arrowNames(style);
+  addArrow(b, along(center, { x: Math.cos(start), y: Math.sin(start) }, radius), { x: Math.sin(start), y: -Math.cos(start) }, arrow1);
+  addArrow(b, along(center, { x: Math.cos(end), y: Math.sin(end) }, radius), { x: -Math.sin(end), y: Math.cos(end) }, arrow2);
+}
+
+/** Extension line along a ray, from its nearest feature point to the arc. */
+function addAngularExtensionLine(
+  b: DimensionBuilder,
+  center: Point2D,
+  ray: Point2D,
+  features: Point2D[],
+  radius: number,
+): void {
+  const distances = features.map(p => dot(sub(p, center), ray));
+  const inner = Math.min(...distances);
+  const outer = Math.max(...distances);
+  if (radius >= inner && radius <= outer) return;
+  addExtensionLine(b, along(center, ray, radius > outer ? outer : inner), along(center, ray, radius));
+}
+
+// ─── Ordinate ───────────────────────────────────────────────────────
+
+/**
+ * Ordinate dimension: the X or Y distance of feature point 13 from origin
+ * 10, with a leader to point 14 that jogs when the two are not aligned.
+ */
+function addOrdinateParts(b: DimensionBuilder): void {
+  const { entity, style } = b;
+  const f = entity.defPoint2;
+  const e = entity.defPoint3;
+  if (!f || !e) return;
+  const isX = (entity.dimType & DIM_ORDINATE_X) !== 0;
+  // Leader axis: vertical for X ordinates, horizontal for Y ordinates
+  const axis = isX ? { x: 0, y: 1 } : { x: 1, y: 0 };
+  const side = dot(sub(e, f), axis) < 0 ? -1 : 1;
+  const leader = scale(axis, side);
+
+  const measurement = isX ? Math.abs(f.x - entity.defPoint.x) : Math.abs(f.y - entity.defPoint.y);
+  const text = dimensionText(entity, formatLinearMeasurement(measurement, style), style);
+  const gap = Math.abs(style.textGap) * b.scale;
+  const halfWidth = estimateTextWidth(text, style.textHeight * b.scale) / 2;
+  const box = addText(
+    b,
+    text,
+    textPosition(b, () => along(e, leader, gap + halfWidth)),
+    isX ? Math.PI / 2 : 0,
+  );
+
+  const start = along(f, leader, style.extensionOffset * b.scale);
+  const offset = dot(sub(e, f), { x: axis.y, y: axis.x });
+  if (Math.abs(offset) < EPSILON) {
+    addBrokenLine(b, start, e, box, 'ext');
+    return;
+  }
+  // Jog: along the leader axis, across to the leader end's line, then on to the end
+  const jog = 2 * style.arrowSize * b.scale;
+  const jogStart = along(e, leader, -2 * jog);
+  const jogEnd = along(e, leader, -jog);
+  const corner1 = isX ? { x: f.x, y: jogStart.y } : { x: jogStart.x, y: f.y };
+  addLine(b, start, corner1, 'ext');
+  addLine(b, corner1, jogEnd, 'ext');
+  addBrokenLine(b, jogEnd, e, box, 'ext');
+}
+
+// ─── Shared parts ───────────────────────────────────────────────────
+
+/**
+ * Dimension line between two arrow tips, broken around the text. Arrows
+ * point outward from inside the line, or inward with short tails when the
+ * line is too short to hold them. DIMSD1/DIMSD2 suppress each half.
+ */
+function addDimensionLine(b: DimensionBuilder, q1: Point2D, q2: Point2D, box: TextBox | null): void {
+  const { style } = b;
+  const u = unit(sub(q2, q1));
+  if (!u) return;
+  const [arrow1, arrow2] = arrowNames(style);
+  const size = style.arrowSize * b.scale;
+  const ticks = style.tickSize > 0 || (isTick(arrow1) && isTick(arrow2));
+  const extension = ticks ? style.dimLineExtension * b.scale : 0;
+  const inside = ticks || dist(q1, q2) >= 2 * size;
+  const mid = midpoint(q1, q2);
+
+  if (!style.suppressDimLine1) {
+    addBrokenLine(b, along(q1, u, -extension), mid, box);
+    if (!inside) addLine(b, q1, along(q1, u, -2 * size), 'dim');
+    addArrow(b, q1, scale(u, inside ? -1 : 1), arrow1);
+  }
+  if (!style.suppressDimLine2) {
+    addBrokenLine(b, mid, along(q2, u, extension), box);
+    if (!inside) addLine(b, q2, along(q2, u, 2 * size), 'dim');
+    addArrow(b, q2, scale(u, inside ? 1 : -1), arrow2);
+  }
+}
+
+/** Extension line from a feature point towards `to`, offset by DIMEXO and extended by DIMEXE. */
+function addExtensionLine(b: DimensionBuilder, from: Point2D, to: Point2D): void {
+  const u = unit(sub(to, from));
+  if (!u) return;
+  addLine(
+    b,
+    along(from, u, b.style.extensionOffset * b.scale),
+    along(to, u, b.style.extensionExtension * b.scale),
+    'ext',
+  );
+}
+
+/** First and second arrowhead block names (DIMBLK1/DIMBLK2 when DIMSAH is set). */
+function arrowNames(style: DxfDimStyleSettings): [string, string] {
+  return style.separateArrows ? [style.arrowBlock1, style.arrowBlock2] : [style.arrowBlock, style.arrowBlock];
+}
+
+function isTick(name: string): boolean {
+  const upper = name.replace(/^_/, '').toUpperCase();
+  return upper === 'ARCHTICK' || upper === 'OBLIQUE';
+}
+
+/**
+ * Arrowhead with its tip at `tip` pointing along `direction`. DIMTSZ draws
+ * oblique ticks instead; a block of the arrow's name is inserted when the
+ * file has one, else the built-in shape of that name is drawn.
+ */
+function addArrow(b: DimensionBuilder, tip: Point2D, direction: Point2D, name: string): void {
+  const { style } = b;
+  if (style.tickSize > 0) {
+    addTick(b, tip, direction, style.tickSize * b.scale);
+    return;
+  }
+  const size = style.arrowSize * b.scale;
+  if (size < EPSILON) return;
+
+  if (name && b.doc.blocks.has(name)) {
+    b.parts.push({
+      ...partBase(style.dimLineColor, -2),
+      type: 'INSERT',
+      blockName: name,
+      insertionPoint: point3(tip),
+      scaleX: size,
+      scaleY: size,
+      scaleZ: size,
+      rotation: Math.atan2(direction.y, direction.x) * 180 / Math.PI,
+      columnCount: 1,
+      rowCount: 1,
+      columnSpacing: 0,
+      rowSpacing: 0,
+      attribs: [],
+    });
+    return;
+  }
+
+  switch (name.replace(/^_/, '').toUpperCase()) {
+    case 'NONE':
+      return;
+    case 'ARCHTICK':
+    case 'OBLIQUE':
+      addTick(b, tip, direction, size);
+      return;
+    case 'OPEN':
+    case 'OPEN90':
+    case 'OPEN30': {
+      const upper = name.toUpperCase();
+      const half = upper.endsWith('90') ? size : upper.endsWith('30') ? size * Math.tan(Math.PI / 12) : undefined;
+      const [left, right] = arrowheadCorners(tip, direction, size, half);
+      addLine(b, left, tip, 'dim');
+      addLine(b, right, tip, 'dim');
+      return;
+    }
+    case 'CLOSED':
+    case 'CLOSEDBLANK': {
+      const [left, right] = arrowheadCorners(tip, direction, size);
+      addLine(b, tip, left, 'dim');
+      addLine(b, left, right, 'dim');
+      addLine(b, right, tip, 'dim');
+      return;
+    }
+    case 'DOT':
+      addDot(b, tip, size / 2, true);
+      return;
+    case 'DOTSMALL':
+      addDot(b, tip, size / 8, true);
+      return;
+    case 'DOTBLANK':
+    case 'ORIGIN':
+    case 'SMALL':
+      addDot(b, tip, name.toUpperCase().endsWith('SMALL') ? size / 8 : size / 2, false);
+      return;
+    default: {
+      const [left, right] = arrowheadCorners(tip, direction, size);
+      b.parts.push({
+        ...partBase(style.dimLineColor, -2),
+        type: 'SOLID',
+        points: [point3(tip), point3(left), point3(right), point3(right)],
+      });
+    }
+  }
+}
+
+/** Oblique stroke through `tip` at 45° to the dimension line. */
+function addTick(b: DimensionBuilder, tip: Point2D, direction: Point2D, size: number): void {
+  const c = Math.SQRT1_2;
+  const diagonal = { x: (direction.x - direction.y) * c, y: (direction.x + direction.y) * c };
+  const half = size * Math.SQRT1_2;
+  addLine(b, along(tip, diagonal, -half), along(tip, diagonal, half), 'dim');
+}
+
+/** Dot arrowhead: a filled disk (a full-width donut polyline) or a circle. */
+function addDot(b: DimensionBuilder, center: Point2D, radius: number, filled: boolean): void {
+  const base = partBase(b.style.dimLineColor, -2);
+  if (!filled) {
+    b.parts.push({ ...base, type: 'CIRCLE', center: point3(center), radius });
+    return;
+  }
+  const half = radius / 2;
+  b.parts.push({
+    ...base,
+    type: 'LWPOLYLINE',
+    vertices: [
+      { x: center.x - half, y: center.y, bulge: 1, startWidth: 0, endWidth: 0 },
+      { x: center.x + half, y: center.y, bulge: 1, startWidth: 0, endWidth: 0 },
+    ],
+    closed: true,
+    constantWidth: radius,
+    elevation: 0,
+  });
+}
+
+/**
+ * Measurement text centered on `position` (MTEXT attachment 5), rotated by
+ * code 53 when set, else by `angle`. Returns its box for breaking lines, or
+ * null when the text is suppressed.
+ */
+function addText(b: DimensionBuilder, text: string, position: Point2D, angle: number): TextBox | null {
+  const { entity, style } = b;
+  if (!text) return null;
+  const height = style.textHeight * b.scale;
+  const rotation = entity.textRotation !== 0 ? entity.textRotation * Math.PI / 180 : angle;
+  b.parts.push({
+    ...partBase(style.textColor, -2),
+    type: 'MTEXT',
+    text,
+    insertionPoint: point3(position),
+    height,
+    width: 0,
+    attachmentPoint: 5,
+    drawingDirection: 1,
+    rotation: rotation * 180 / Math.PI,
+    lineSpacingStyle: 1,
+    lineSpacingFactor: 1,
+    style: style.textStyle,
+    bgFill: 0,
+    bgFillScale: 1.5,
+  });
+  const gap = Math.abs(style.textGap) * b.scale;
+  const lines = mtextToPlainText(text).split('\n').length;
+  return {
+    center: position,
+    angle: rotation,
+    halfWidth: estimateTextWidth(text, height) / 2 + gap,
+    halfHeight: height * lines / 2 + gap,
+  };
+}
+
+/**
+ * Text position: the entity's text midpoint (code 11), or `fallback` when
+ * the exporter left it at the origin.
+ */
+function textPosition(b: DimensionBuilder, fallback: () => Point2D): Point2D {
+  const p = b.entity.textMidpoint;
+  return p.x === 0 && p.y === 0 && p.z === 0 ? fallback() : p;
+}
+
+/** Default text center on a line at `point`: on it, or above it (along `normal`) when DIMTAD is set. */
+function offsetFromLine(b: DimensionBuilder, point: Point2D, normal: Point2D): Point2D {
+  if (b.style.textAbove === 0) return point;
+  const offset = (Math.abs(b.style.textGap) + b.style.textHeight / 2) * b.scale;
+  return along(point, normal, offset);
+}
+
+function estimateTextWidth(text: string, height: number): number {
+  const longest = Math.max(...mtextToPlainText(text).split('\n').map(line => line.length));
+  return longest * height * TEXT_WIDTH_RATIO;
+}
+
+/** A dimension or extension line, with the pieces inside the text box left out. */
+function addBrokenLine(
+  b: DimensionBuilder,
+  from: Point2D,
+  to: Point2D,
+  box: TextBox | null,
+  kind: 'dim' | 'ext' = 'dim',
+): void {
+  for (const [start, end] of outsideBox(from, to, box)) addLine(b, start, end, kind);
+}
+
+function addLine(b: DimensionBuilder, start: Point2D, end: Point2D, kind: 'dim' | 'ext'): void {
+  if (dist(start, end) < EPSILON) return;
+  const { style } = b;
+  const base = kind === 'dim'
+    ? partBase(style.dimLineColor, style.dimLineWeight)
+    : partBase(style.extLineColor, style.extLineWeight);
+  b.parts.push({ ...base, type: 'LINE', start: point3(start), end: point3(end) });
+}
+
+/** Counter-clockwise arc between two angles in radians; nothing when they meet. */
+function addArc(b: DimensionBuilder, center: Point2D, radius: number, start: number, end: number): void {
+  if (end - start < EPSILON) return;
+  b.parts.push({
+    ...partBase(b.style.dimLineColor, b.style.dimLineWeight),
+    type: 'ARC',
+    center: point3(center),
+    radius,
+    startAngle: start * 180 / Math.PI,
+    endAngle: end * 180 / Math.PI,
+  });
+}
+
+function partBase(color: number, lineWeight: number): Omit<DxfEntityBase, 'type'> {
+  return {
+    layer: '0',
+    color,
+    lineType: 'BYBLOCK',
+    lineTypeScale: 1,
+    lineWeight,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+  };
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────
+
+/** Pieces of the segment a→b outside a text box (Liang–Barsky clip in box space). */
+function outsideBox(a: Point2D, b: Point2D, box: TextBox | null): [Point2D, Point2D][] {
+  if (!box) return [[a, b]];
+  const cos = Math.cos(box.angle);
+  const sin = Math.sin(box.angle);
+  const toBox = (p: Point2D): Point2D => {
+    const dx = p.x - box.center.x;
+    const dy = p.y - box.center.y;
+    return { x: dx * cos + dy * sin, y: -dx * sin + dy * cos };
+  };
+  const la = toBox(a);
+  const lb = toBox(b);
+  const dx = lb.x - la.x;
+  const dy = lb.y - la.y;
+  let t0 = 0;
+  let t1 = 1;
+  const clip = (p: number, q: number): boolean => {
+    if (Math.abs(p) < EPSILON) return q > EPSILON;
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      t0 = Math.max(t0, r);
+    } else {
+      if (r < t0) return false;
+      t1 = Math.min(t1, r);
+    }
+    return true;
+  };
+  const hit = clip(-dx, la.x + box.halfWidth) && clip(dx, box.halfWidth - la.x)
+    && clip(-dy, la.y + box.halfHeight) && clip(dy, box.halfHeight - la.y);
+  if (!hit || t1 - t0 < EPSILON) return [[a, b]];
+
+  const pieces: [Point2D, Point2D][] = [];
+  if (t0 > EPSILON) pieces.push([a, lerp(a, b, t0)]);
+  if (t1 < 1 - EPSILON) pieces.push([lerp(a, b, t1), b]);
+  return pieces;
+}
+
+/** Intersection of two lines given by a point and a direction; null when parallel. */
+function intersectLines(p: Point2D, u: Point2D, q: Point2D, v: Point2D): Point2D | null {
+  const det = cross(u, v);
+  if (Math.abs(det) < EPSILON) return null;
+  return along(p, u, cross(sub(q, p), v) / det);
+}
+
+/** Foot of `p` on the line through `origin` along unit `d`. */
+function project(origin: Point2D, d: Point2D, p: Point2D): Point2D {
+  return along(origin, d, dot(sub(p, origin), d));
+}
+
+/** Angle in [0, 2π). */
+function normalizeAngle(angle: number): number {
+  const twoPi = 2 * Math.PI;
+  return ((angle % twoPi) + twoPi) % twoPi;
+}
+
+/** Text angle turned so it never reads upside down: within (-90°, 90°]. */
+function readableAngle(angle: number): number {
+  const a = normalizeAngle(angle);
+  if (a > Math.PI / 2 + EPSILON && a <= 3 * Math.PI / 2 + EPSILON) return a - Math.PI;
+  return a > Math.PI ? a - 2 * Math.PI : a;
+}
+
+function sub(a: Point2D, b: Point2D): Point2D {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point2D, s: number): Point2D {
+  return { x: v.x * s, y: v.y * s };
+}
+
+function along(p: Point2D, d: Point2D, t: number): Point2D {
+  return { x: p.x + d.x * t, y: p.y + d.y * t };
+}
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function midpoint(a: Point2D, b: Point2D): Point2D {
+  return lerp(a, b, 0.5);
+}
+
+function dot(a: Point2D, b: Point2D): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function cross(a: Point2D, b: Point2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dist(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function unit(v: Point2D): Point2D | null {
+  const length = Math.hypot(v.x, v.y);
+  return length < EPSILON ? null : { x: v.x / length, y: v.y / length };
+}
+
+function point3(p: Point2D): Point3D {
+  return { x: p.x, y: p.y, z: 0 };
+}
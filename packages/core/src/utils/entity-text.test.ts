@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfEntity, DxfEntityBase } from '../parser/types.js';
+import { getEntityText } from './entity-text.js';
+
+const BASE_ENTITY: DxfEntityBase = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+  extrusion: { x: 0, y: 0, z: 1 },
+};
+
+const MTEXT = {
+  ...BASE_ENTITY,
+  type: 'MTEXT',
+  text: '{\\fArial|b1;Detail}\\PSee \\S1/2; sheet',
+  insertionPoint: { x: 0, y: 0, z: 0 },
+  height: 1,
+  width: 0,
+  attachmentPoint: 1,
+  drawingDirection: 1,
+  rotation: 0,
+  lineSpacingStyle: 1,
+  lineSpacingFactor: 1,
+  style: 'Standard',
+  bgFill: 0,
+  bgFillScale: 1.5,
+} as const;
+
+describe('getEntityText', () => {
+  it('decodes TEXT special characters', () => {
+    const text: DxfEntity = {
+      ...BASE_ENTITY, type: 'TEXT', text: '%%c50', insertionPoint: { x: 0, y: 0, z: 0 },
+      height: 1, rotation: 0, style: 'Standard', hAlign: 0, vAlign: 0, widthFactor: 1, obliqueAngle: 0,
+      generationFlags: 0,
+    };
+    expect(getEntityText(text)).toBe('⌀50');
+  });
+
+  it('strips MTEXT formatting', () => {
+    expect(getEntityText(MTEXT)).toBe('Detail\nSee 1/2 sheet');
+  });
+
+  it('returns MULTILEADER text content', () => {
+    const mleader: DxfEntity = {
+      ...BASE_ENTITY, type: 'MULTILEADER', contentType: 2, leaderLineType: 1,
+      enableLanding: true, enableDogleg: true, arrowheadSize: 1, scale: 1, leaders: [], mtext: MTEXT,
+    };
+    expect(getEntityText(mleader)).toBe('Detail\nSee 1/2 sheet');
+    expect(getEntityText({ ...mleader, mtext: undefined })).toBeUndefined();
+  });
+
+  it('returns undefined for entities without text', () => {
+    expect(getEntityText({ ...BASE_ENTITY, type: 'POINT', position: { x: 0, y: 0, z: 0 } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,31 @@
+import type { DxfEntity, DxfTableEntity } from '../parser/types.js';
+import { decodeSpecialChars, mtextToPlainText } from '../renderer/mtext.js';
+
+/**
+ * Text content of an entity for search and selection, with special
+ * characters decoded and MTEXT formatting removed. Covers TEXT, MTEXT,
+ * MULTILEADER text content and ACAD_TABLE cells (tab-separated columns, one
+ * line per row); undefined for entities without text.
+ */
+export function getEntityText(entity: DxfEntity): string | undefined {
+  switch (entity.type) {
+    case 'TEXT':
+      return decodeSpecialChars(entity.text);
+    case 'MTEXT':
+      return mtextToPlainText(entity.text);
+    case 'MULTILEADER':
+      return entity.mtext ? mtextToPlainText(entity.mtext.text) : undefined;
+    case 'ACAD_TABLE':
+      return getTableCells(entity).map(row => row.join('\t')).join('\n');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plain text of every table cell by row, then column. Cells inside a merged
+ * range are empty; the range's text is in its top-left cell.
+ */
+export function getTableCells(entity: DxfTableEntity): string[][] {
+  return entity.cells.map(row => row.map(cell => (cell.merged ? '' : mtextToPlainText(cell.text))));
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfHatchBoundaryPath, DxfHatchEntity } from '../parser/types.js';
+import { distanceToEntity } from '../viewer/selection.js';
+import {
+  ellipseEdgeParams,
+  isPointInPolygons,
+  tessellateHatchBoundary,
+  tessellateHatchEdge,
+} from './hatch-boundary.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function makeHatch(boundaryPaths: DxfHatchBoundaryPath[]): DxfHatchEntity {
+  return {
+    type: 'HATCH',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    patternName: 'SOLID',
+    solidFill: true,
+    associative: false,
+    hatchStyle: 0,
+    patternType: 1,
+    patternAngle: 0,
+    patternScale: 1,
+    elevation: 0,
+    boundaryPaths,
+    patternLines: [],
+  };
+}
+
+/** Closed region: a half-ellipse on top of a straight line. */
+const HALF_ELLIPSE: DxfHatchBoundaryPath = {
+  type: 'edges',
+  flags: 1,
+  edges: [
+    { type: 'line', start: { x: -4, y: 0 }, end: { x: 4, y: 0 } },
+    {
+      type: 'ellipse', center: { x: 0, y: 0 }, majorAxis: { x: 4, y: 0 },
+      minorRatio: 0.5, startAngle: 0, endAngle: 180, ccw: true,
+    },
+  ],
+};
+
+/** Closed region: a parabola-like spline closed by a line. */
+const SPLINE_CAP: DxfHatchBoundaryPath = {
+  type: 'edges',
+  flags: 1,
+  edges: [
+    {
+      type: 'spline', degree: 2, knots: [0, 0, 0, 1, 1, 1],
+      controlPoints: [{ x: 0, y: 0 }, { x: 5, y: 10 }, { x: 10, y: 0 }],
+    },
+    { type: 'line', start: { x: 10, y: 0 }, end: { x: 0, y: 0 } },
+  ],
+};
+
+// ─── ellipseEdgeParams ──────────────────────────────────────────────
+
+describe('ellipseEdgeParams', () => {
+  it('converts edge angles to ellipse parameters', () => {
+    const { start, end } = ellipseEdgeParams({
+      type: 'ellipse', center: { x: 0, y: 0 }, majorAxis: { x: 2, y: 0 },
+      minorRatio: 0.5, startAngle: 45, endAngle: 360, ccw: true,
+    });
+    // The point at 45° on a 2×1 ellipse has parameter atan(2)
+    expect(start).toBeCloseTo(Math.atan(2));
+    expect(end).toBeCloseTo(2 * Math.PI);
+  });
+});
+
+// ─── tessellateHatchEdge ────────────────────────────────────────────
+
+describe('tessellateHatchEdge', () => {
+  it('samples ellipse edges from start to end', () => {
+    const points = tessellateHatchEdge(HALF_ELLIPSE.edges![1]!, 1);
+    expect(points[0]!.x).toBeCloseTo(4);
+    expect(points[0]!.y).toBeCloseTo(0);
+    expect(points[points.length - 1]!.x).toBeCloseTo(-4);
+    expect(Math.max(...points.map(p => p.y))).toBeCloseTo(2);
+  });
+
+  it('samples clockwise arcs the short way round', () => {
+    const points = tessellateHatchEdge({
+      type: 'arc', center: { x: 0, y: 0 }, radius: 1, startAngle: 90, endAngle: 0, ccw: false,
+    }, 1);
+    for (const p of points) {
+      expect(p.x).toBeGreaterThanOrEqual(-1e-9);
+      expect(p.y).toBeGreaterThanOrEqual(-1e-9);
+    }
+  });
+
+  it('evaluates spline edges through their end control points', () => {
+    const points = tessellateHatchEdge(SPLINE_CAP.edges![0]!, 0.01);
+    expect(points[0]).toEqual({ x: 0, y: 0 });
+    expect(points[points.length - 1]!.x).toBeCloseTo(10);
+    // Quadratic Bézier apex is half way to the middle control point
+    expect(Math.max(...points.map(p => p.y))).toBeCloseTo(5);
+  });
+});
+
+// ─── tessellateHatchBoundary / hit testing ──────────────────────────
+
+describe('tessellateHatchBoundary', () => {
+  it('closes curved regions without gaps', () => {
+    const [polygon] = tessellateHatchBoundary(makeHatch([HALF_ELLIPSE]), 1);
+    expect(isPointInPolygons(0, 1, [polygon!])).toBe(true);
+    expect(isPointInPolygons(0, 2.5, [polygon!])).toBe(false);
+    expect(isPointInPolygons(3.9, 1.5, [polygon!])).toBe(false);
+  });
+
+  it('flattens bulged polyline paths', () => {
+    // Semicircle of radius 1 above the x axis
+    const [polygon] = tessellateHatchBoundary(makeHatch([{
+      type: 'polyline', flags: 3, isClosed: true,
+      vertices: [{ x: 1, y: 0 }, { x: -1, y: 0 }],
+      bulges: [1, 0],
+    }]), 1);
+    expect(Math.max(...polygon!.map(p => p.y))).toBeCloseTo(1);
+    expect(isPointInPolygons(0, 0.5, [polygon!])).toBe(true);
+  });
+});
+
+describe('HATCH hit testing', () => {
+  it('hits inside curved boundaries and measures distance outside', () => {
+    const hatch = makeHatch([SPLINE_CAP]);
+    expect(distanceToEntity(5, 2, hatch)).toBe(0);
+    expect(distanceToEntity(5, 7, hatch)).toBeCloseTo(2, 1);
+  });
+
+  it('treats holes as outside (even-odd)', () => {
+    const outer: DxfHatchBoundaryPath = {
+      type: 'polyline', flags: 1, isClosed: true,
+      vertices: [{ x: -10, y: -10 }, { x: 10, y: -10 }, { x: 10, y: 10 }, { x: -10, y: 10 }],
+    };
+    const hatch = makeHatch([outer, HALF_ELLIPSE]);
+    expect(distanceToEntity(0, 1, hatch)).toBeGreaterThan(0);
+    expect(distanceToEntity(0, -5, hatch)).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+import type { DxfHatchEdge, DxfHatchEntity, Point2D } from '../parser/types.js';
+import { bulgeToArc } from './math.js';
+import { evaluateBSpline } from './spline.js';
+
+/** Angular step used to flatten arc and ellipse edges (radians). */
+const CURVE_STEP = Math.PI / 36;
+
+type EllipseEdge = Extract<DxfHatchEdge, { type: 'ellipse' }>;
+type SplineEdge = Extract<DxfHatchEdge, { type: 'spline' }>;
+
+/**
+ * Start and end parameters (radians) of an ellipse edge.
+ * Codes 50/51 hold angles in degrees; convert them to ellipse parameters.
+ */
+export function ellipseEdgeParams(edge: EllipseEdge): { start: number; end: number } {
+  const toParam = (deg: number): number => {
+    // Keep full turns exact so 0–360 stays a closed ellipse
+    if (Math.abs(deg % 90) < 1e-10) return deg * Math.PI / 180;
+    const rad = deg * Math.PI / 180;
+    const param = Math.atan2(Math.sin(rad), edge.minorRatio * Math.cos(rad));
+    // atan2 wraps to (-π, π]; restore the turn the angle was in
+    return param + Math.round((rad - param) / (2 * Math.PI)) * 2 * Math.PI;
+  };
+  return { start: toParam(edge.startAngle), end: toParam(edge.endAngle) };
+}
+
+/** Control points of a spline edge sampled into a polyline (control polygon if invalid). */
+export function tessellateSplineEdge(edge: SplineEdge, pixelSize: number): Point2D[] {
+  const points = evaluateBSpline(
+    edge.degree,
+    edge.controlPoints.map(p => ({ x: p.x, y: p.y, z: 0 })),
+    edge.knots,
+    edge.weights,
+    pixelSize,
+  );
+  return points.length > 0 ? points : edge.controlPoints.map(p => ({ x: p.x, y: p.y }));
+}
+
+/** Flatten one boundary edge into points, in path order. */
+export function tessellateHatchEdge(edge: DxfHatchEdge, pixelSize: number): Point2D[] {
+  switch (edge.type) {
+    case 'line':
+      return [edge.start, edge.end];
+    case 'arc': {
+      const start = edge.startAngle * Math.PI / 180;
+      const end = edge.endAngle * Math.PI / 180;
+      return sampleEllipse(edge.center, edge.radius, edge.radius, 0, start, end, edge.ccw);
+    }
+    case 'ellipse': {
+      const a = Math.hypot(edge.majorAxis.x, edge.majorAxis.y);
+      const rotation = Math.atan2(edge.majorAxis.y, edge.majorAxis.x);
+      const { start, end } = ellipseEdgeParams(edge);
+      return sampleEllipse(edge.center, a, a * edge.minorRatio, rotation, start, end, edge.ccw);
+    }
+    case 'spline':
+      return tessellateSplineEdge(edge, pixelSize);
+  }
+}
+
+/**
+ * Flatten every boundary path of a hatch into a closed polygon (OCS).
+ * Bulges, arcs and ellipses are sampled at a fixed angular step; splines
+ * at `pixelSize` resolution.
+ */
+export function tessellateHatchBoundary(entity: DxfHatchEntity, pixelSize: number): Point2D[][] {
+  const polygons: Point2D[][] = [];
+
+  for (const path of entity.boundaryPaths) {
+    const polygon: Point2D[] = [];
+
+    if (path.type === 'polyline' && path.vertices) {
+      const verts = path.vertices;
+      for (let i = 0; i < verts.length; i++) {
+        const curr = verts[i]!;
+        polygon.push(curr);
+        const next = verts[i + 1] ?? (path.isClosed ? verts[0] : undefined);
+        const bulge = path.bulges?.[i] ?? 0;
+        if (!next || Math.abs(bulge) < 1e-10) continue;
+
+        const arc = bulgeToArc(curr.x, curr.y, next.x, next.y, bulge);
+        if (arc.radius < 1e-10) continue;
+        const start = Math.atan2(curr.y - arc.cy, curr.x - arc.cx);
+        const sweep = 4 * Math.atan(bulge);
+        const arcPoints = sampleEllipse(
+          { x: arc.cx, y: arc.cy }, arc.radius, arc.radius, 0, start, start + sweep, bulge > 0,
+        );
+        // Drop the endpoints, which are the polyline vertices themselves
+        polygon.push(...arcPoints.slice(1, -1));
+      }
+    } else if (path.type === 'edges' && path.edges) {
+      for (const edge of path.edges) {
+        const points = tessellateHatchEdge(edge, pixelSize);
+        const last = polygon[polygon.length - 1];
+        const first = points[0];
+        // Edges normally share endpoints; skip the duplicate
+        const skip = last && first && Math.hypot(last.x - first.x, last.y - first.y) < 1e-9 ? 1 : 0;
+        for (let i = skip; i < points.length; i++) polygon.push(points[i]!);
+      }
+    }
+
+    if (polygon.length > 0) polygons.push(polygon);
+  }
+
+  return polygons;
+}
+
+/**
+ * Even-odd point-in-polygon test over all boundary polygons, matching the
+ * canvas `'evenodd'` fill rule used to draw hatches.
+ */
+export function isPointInPolygons(x: number, y: number, polygons: Point2D[][]): boolean {
+  let inside = false;
+  for (const polygon of polygons) {
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i]!;
+      const b = polygon[j]!;
+      if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Sample an elliptical arc from `start` to `end` (parameters, radians),
+ * counter-clockwise when `ccw` is true, clockwise otherwise.
+ */
+function sampleEllipse(
+  center: Point2D,
+  a: number,
+  b: number,
+  rotation: number,
+  start: number,
+  end: number,
+  ccw: boolean,
+): Point2D[] {
+  const TAU = 2 * Math.PI;
+  let sweep = ccw ? end - start : start - end;
+  sweep = ((sweep % TAU) + TAU) % TAU;
+  // Equal start and end (e.g. 0–360) is a full turn
+  if (sweep < 1e-10) sweep = TAU;
+  const dir = ccw ? 1 : -1;
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const segments = Math.max(2, Math.ceil(sweep / CURVE_STEP));
+  const points: Point2D[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = start + dir * sweep * (i / segments);
+    const lx = a * Math.cos(t);
+    const ly = b * Math.sin(t);
+    points.push({ x: center.x + lx * cos - ly * sin, y: center.y + lx * sin + ly * cos });
+  }
+  return points;
+}
@@ -0,0 +1,56 @@
+import type { DxfDocument, DxfEntity, DxfImageGeometry, Point2D } from '../parser/types.js';
+import type { Matrix2D } from './ocs.js';
+
+/**
+ * Transform from image space (origin at the image's top-left corner, y down,
+ * one unit per pixel) to world space, for `ctx.transform`.
+ */
+export function imageMatrix(entity: DxfImageGeometry): Matrix2D {
+  const { insertionPoint: p, uVector: u, vVector: v } = entity;
+  const height = entity.imageSize.y;
+  return [u.x, u.y, -v.x, -v.y, p.x + v.x * height, p.y + v.y * height];
+}
+
+/**
+ * Visible region of an image in image space: the clip boundary when clipping
+ * is on, else the whole image. Clip vertices are stored relative to the
+ * center of the top-left pixel and are shifted by half a pixel here.
+ */
+export function imageClipPolygon(entity: DxfImageGeometry): Point2D[] {
+  const boundary = entity.clipBoundary.map(p => ({ x: p.x + 0.5, y: p.y + 0.5 }));
+  if (!entity.clipping || boundary.length < 2) return imageRect(entity);
+  if (boundary.length === 2) {
+    const [a, b] = boundary as [Point2D, Point2D];
+    return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+  }
+  return boundary;
+}
+
+/** Corners of the whole image in image space. */
+export function imageRect(entity: DxfImageGeometry): Point2D[] {
+  const { x: w, y: h } = entity.imageSize;
+  return [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h }];
+}
+
+/**
+ * World-space outline of an image or wipeout: its clip boundary, or the
+ * whole image when clipping is off or inverted.
+ */
+export function imageOutline(entity: DxfImageGeometry): Point2D[] {
+  const polygon = entity.clipping && !entity.clipInverted ? imageClipPolygon(entity) : imageRect(entity);
+  const [a, b, c, d, e, f] = imageMatrix(entity);
+  return polygon.map(p => ({ x: a * p.x + c * p.y + e, y: b * p.x + d * p.y + f }));
+}
+
+/** Handles of the IMAGEDEF objects referenced by IMAGE entities in the drawing or its blocks. */
+export function getReferencedImageDefs(doc: DxfDocument): Set<string> {
+  const handles = new Set<string>();
+  const collect = (entities: DxfEntity[]): void => {
+    for (const entity of entities) {
+      if (entity.type === 'IMAGE' && entity.imageDefHandle) handles.add(entity.imageDefHandle);
+    }
+  };
+  collect(doc.entities);
+  for (const block of doc.blocks.values()) collect(block.entities);
+  return handles;
+}
@@ -0,0 +1,85 @@
+import type { DxfDocument, DxfEntity, DxfLayout, DxfViewportEntity, Point2D } from '../parser/types.js';
+import type { BBox } from './bbox.js';
+import type { Matrix2D } from './ocs.js';
+import { invertMatrix, transformPoint } from './ocs.js';
+
+/** Name of the model space layout. */
+export const MODEL_LAYOUT = 'Model';
+
+/** VIEWPORT flag (code 90): clipped by the entity in clipBoundaryHandle. */
+export const VIEWPORT_NON_RECTANGULAR_CLIPPING = 0x10000;
+
+/** True for the model space layout. */
+export function isModelLayout(layout: DxfLayout): boolean {
+  return layout.name.toUpperCase() === MODEL_LAYOUT.toUpperCase();
+}
+
+/** Layouts of the drawing in tab order, Model first. */
+export function getSortedLayouts(doc: DxfDocument): DxfLayout[] {
+  const layouts = [...(doc.layouts?.values() ?? [])];
+  return layouts.sort((a, b) =>
+    Number(isModelLayout(b)) - Number(isModelLayout(a)) || a.tabOrder - b.tabOrder);
+}
+
+/** Paper space entities of a layout (empty for Model and for layouts without a block). */
+export function getLayoutEntities(doc: DxfDocument, layout: DxfLayout): DxfEntity[] {
+  return layout.blockName ? doc.blocks.get(layout.blockName)?.entities ?? [] : [];
+}
+
+/**
+ * True for a viewport that shows model space: switched on, not the overall
+ * paper space view (ID 1) and with a non-empty window and view.
+ */
+export function isViewportWindow(entity: DxfViewportEntity): boolean {
+  return entity.status !== 0 && entity.id !== 1
+    && entity.width > 0 && entity.height > 0 && entity.viewHeight > 0;
+}
+
+/** Paper units per model unit. */
+export function viewportScale(entity: DxfViewportEntity): number {
+  return entity.height / entity.viewHeight;
+}
+
+/**
+ * Transform from model space to paper space, for `ctx.transform`: the view
+ * target is rotated by the twist angle about the origin of display
+ * coordinates, then the view center is scaled onto the window center.
+ */
+export function viewportMatrix(entity: DxfViewportEntity): Matrix2D {
+  const s = viewportScale(entity);
+  const angle = entity.twistAngle * Math.PI / 180;
+  const a = s * Math.cos(angle);
+  const b = s * Math.sin(angle);
+  const { x: tx, y: ty } = entity.viewTarget;
+  const e = entity.center.x - s * entity.viewCenter.x - (a * tx - b * ty);
+  const f = entity.center.y - s * entity.viewCenter.y - (b * tx + a * ty);
+  return [a, b, -b, a, e, f];
+}
+
+/** Corners of the viewport window in paper space. */
+export function viewportRect(entity: DxfViewportEntity): Point2D[] {
+  const { x, y } = entity.center;
+  const w = entity.width / 2;
+  const h = entity.height / 2;
+  return [{ x: x - w, y: y - h }, { x: x + w, y: y - h }, { x: x + w, y: y + h }, { x: x - w, y: y + h }];
+}
+
+/** Paper space outline that clips the viewport: its clip boundary, else its window. */
+export function viewportOutline(entity: DxfViewportEntity): Point2D[] {
+  return entity.clipBoundary && entity.clipBoundary.length >= 3 ? entity.clipBoundary : viewportRect(entity);
+}
+
+/** Model space area visible through the viewport window. */
+export function viewportModelBounds(entity: DxfViewportEntity): BBox {
+  const inverse = invertMatrix(viewportMatrix(entity));
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  if (!inverse) return { minX, minY, maxX, maxY };
+  for (const p of viewportRect(entity)) {
+    const [x, y] = transformPoint(inverse, p.x, p.y);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return { minX, minY, maxX, maxY };
+}
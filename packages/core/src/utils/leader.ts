@@ -0,0 +1,111 @@
+import type {
+  DxfHeader,
+  DxfInsertEntity,
+  DxfMLeaderEntity,
+  Point2D,
+} from '../parser/types.js';
+
+/** AutoCAD defaults for $DIMASZ and $DIMSCALE. */
+const DEFAULT_DIMASZ = 0.18;
+const DEFAULT_DIMSCALE = 1;
+
+/** Width of a closed arrowhead relative to its length, as in AutoCAD's _ClosedFilled block. */
+const ARROW_WIDTH_RATIO = 1 / 3;
+
+/**
+ * Back corners of an arrowhead of length `size` whose tip is at `tip` and
+ * which points along the unit vector `direction`: left, then right of it.
+ * `halfWidth` defaults to the closed arrowhead's.
+ */
+export function arrowheadCorners(
+  tip: Point2D,
+  direction: Point2D,
+  size: number,
+  halfWidth: number = size * ARROW_WIDTH_RATIO / 2,
+): [Point2D, Point2D] {
+  const bx = tip.x - direction.x * size;
+  const by = tip.y - direction.y * size;
+  return [
+    { x: bx - direction.y * halfWidth, y: by + direction.x * halfWidth },
+    { x: bx + direction.y * halfWidth, y: by - direction.x * halfWidth },
+  ];
+}
+
+/**
+ * Arrowhead size for LEADER entities: $DIMASZ × $DIMSCALE from the header.
+ * A DIMSCALE of 0 (scale to layout) is treated as 1.
+ */
+export function leaderArrowSize(header: DxfHeader): number {
+  const size = parseFloat(String(header['$DIMASZ'] ?? ''));
+  const scale = parseFloat(String(header['$DIMSCALE'] ?? ''));
+  return (Number.isFinite(size) ? size : DEFAULT_DIMASZ)
+    * (Number.isFinite(scale) && scale > 0 ? scale : DEFAULT_DIMSCALE);
+}
+
+/**
+ * Leader lines of a MULTILEADER as polylines: each line's vertices followed
+ * by the branch's last leader point, where the landing starts.
+ */
+export function mleaderLines(entity: DxfMLeaderEntity): Point2D[][] {
+  if (entity.leaderLineType === 0) return [];
+  const lines: Point2D[][] = [];
+  for (const branch of entity.leaders) {
+    for (const line of branch.lines) {
+      const last = line[line.length - 1];
+      const end = branch.lastLeaderPoint;
+      const path: Point2D[] = [...line];
+      if (!last || last.x !== end.x || last.y !== end.y) path.push(end);
+      if (path.length >= 2) lines.push(path);
+    }
+  }
+  return lines;
+}
+
+/** Landing (dogleg) segments of a MULTILEADER's branches. */
+export function mleaderLandings(entity: DxfMLeaderEntity): [Point2D, Point2D][] {
+  if (!entity.enableDogleg) return [];
+  const landings: [Point2D, Point2D][] = [];
+  for (const branch of entity.leaders) {
+    if (branch.doglegLength <= 0 || branch.lines.length === 0) continue;
+    const start = branch.lastLeaderPoint;
+    const v = branch.doglegVector;
+    landings.push([
+      start,
+      { x: start.x + v.x * branch.doglegLength, y: start.y + v.y * branch.doglegLength },
+    ]);
+  }
+  return landings;
+}
+
+/**
+ * The block content of a MULTILEADER as an INSERT carrying the multileader's
+ * layer and color, or null when it has no (resolved) block.
+ */
+export function mleaderBlockInsert(entity: DxfMLeaderEntity): DxfInsertEntity | null {
+  const block = entity.block;
+  if (!block?.blockName) return null;
+  return {
+    type: 'INSERT',
+    handle: entity.handle,
+    layer: entity.layer,
+    color: entity.color,
+    trueColor: entity.trueColor,
+    lineType: entity.lineType,
+    lineTypeScale: entity.lineTypeScale,
+    lineWeight: entity.lineWeight,
+    visible: entity.visible,
+    extrusion: { x: 0, y: 0, z: 1 },
+    blockName: block.blockName,
+    insertionPoint: block.position,
+    scaleX: block.scale.x,
+    scaleY: block.scale.y,
+    scaleZ: block.scale.z,
+    rotation: block.rotation,
+    columnCount: 1,
+    rowCount: 1,
+    columnSpacing: 0,
+    rowSpacing: 0,
+    attribs: [],
+  };
+}
+
@@ -0,0 +1,207 @@
+import type { DxfDocument, DxfMLineEntity, DxfMLineStyle, DxfMLineVertex, Point2D } from '../parser/types.js';
+
+/** MLINESTYLE flag: fill the area between the outermost elements. */
+export const MLINE_STYLE_FILL = 1;
+/** MLINESTYLE flag: draw a line across the elements at each inner vertex. */
+export const MLINE_STYLE_JOINTS = 2;
+
+/** Angular step used to flatten round caps (radians). */
+const ARC_STEP = Math.PI / 36;
+
+/** AutoCAD's built-in STANDARD style: two lines half a unit either side, no fill or caps. */
+const STANDARD_STYLE: DxfMLineStyle = {
+  handle: '',
+  name: 'STANDARD',
+  flags: 0,
+  fillColor: 256,
+  elements: [
+    { offset: 0.5, color: 256, lineType: 'BYLAYER' },
+    { offset: -0.5, color: 256, lineType: 'BYLAYER' },
+  ],
+};
+
+/** Drawn element lines of an MLINE and the area between its outermost elements. */
+export interface MLineGeometry {
+  /** Drawn pieces of each element, indexed like the style's elements. */
+  elements: Point2D[][][];
+  /** Area between the outermost elements, as rings for an even-odd fill. */
+  fill: Point2D[][];
+}
+
+const geometryCache = new WeakMap<DxfMLineEntity, MLineGeometry>();
+
+/** The MLINESTYLE of an MLINE, by handle, then by name; STANDARD when the file has none. */
+export function findMLineStyle(doc: DxfDocument, entity: DxfMLineEntity): DxfMLineStyle {
+  const styles = doc.mlineStyles;
+  if (styles) {
+    const byHandle = entity.styleHandle ? styles.get(entity.styleHandle) : undefined;
+    if (byHandle) return byHandle;
+    const name = entity.styleName.toUpperCase();
+    for (const style of styles.values()) {
+      if (style.name.toUpperCase() === name) return style;
+    }
+  }
+  return STANDARD_STYLE;
+}
+
+/** Point of element `j` at a vertex: offset along the vertex's miter. */
+function elementPoint(vertex: DxfMLineVertex, j: number): Point2D {
+  const offset = vertex.elementParams[j]?.[0] ?? 0;
+  return {
+    x: vertex.position.x + vertex.miter.x * offset,
+    y: vertex.position.y + vertex.miter.y * offset,
+  };
+}
+
+/**
+ * Drawn distance ranges along a segment of length `length`. Parameters after
+ * the miter offset come in start/end pairs; a trailing start runs to the end
+ * of the segment, and no parameters draw the whole segment.
+ */
+function drawnRanges(params: number[] | undefined, length: number): [number, number][] {
+  const breaks = params?.slice(1) ?? [];
+  if (breaks.length === 0) return [[0, length]];
+  const ranges: [number, number][] = [];
+  for (let k = 0; k < breaks.length; k += 2) {
+    const start = Math.min(Math.max(breaks[k]!, 0), length);
+    const end = Math.min(Math.max(breaks[k + 1] ?? length, start), length);
+    if (end > start) ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+/** Element indices from the largest offset to the smallest, read at the first vertex. */
+function elementOrder(entity: DxfMLineEntity): number[] {
+  const first = entity.vertices[0];
+  if (!first) return [];
+  const offsets = first.elementParams.map(params => params[0] ?? 0);
+  return offsets.map((_, j) => j).sort((a, b) => offsets[b]! - offsets[a]!);
+}
+
+/**
+ * Element lines of an MLINE, offset along each vertex's miter, with the
+ * pieces between segment parameters, and the outline for its fill. Closed
+ * MLINEs also run from the last vertex back to the first. Cached per entity.
+ */
+export function mlineGeometry(entity: DxfMLineEntity): MLineGeometry {
+  const cached = geometryCache.get(entity);
+  if (cached) return cached;
+
+  const verts = entity.vertices;
+  const closed = (entity.flags & 2) !== 0;
+  const segmentCount = verts.length < 2 ? 0 : closed ? verts.length : verts.length - 1;
+  const order = elementOrder(entity);
+  const elements: Point2D[][][] = [];
+
+  for (let j = 0; j < order.length; j++) {
+    const pieces: Point2D[][] = [];
+    let run: Point2D[] | null = null;
+
+    for (let i = 0; i < segmentCount; i++) {
+      const vertex = verts[i]!;
+      const start = elementPoint(vertex, j);
+      const end = elementPoint(verts[(i + 1) % verts.length]!, j);
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      if (length < 1e-12) continue;
+      const ux = (end.x - start.x) / length;
+      const uy = (end.y - start.y) / length;
+
+      for (const [a, b] of drawnRanges(vertex.elementParams[j], length)) {
+        const p = { x: start.x + ux * a, y: start.y + uy * a };
+        const q = { x: start.x + ux * b, y: start.y + uy * b };
+        const last: Point2D | undefined = run?.[run.length - 1];
+        if (run && last && Math.hypot(last.x - p.x, last.y - p.y) < 1e-9) {
+          run.push(q);
+        } else {
+          run = [p, q];
+          pieces.push(run);
+        }
+      }
+    }
+    elements.push(pieces);
+  }
+
+  const fill: Point2D[][] = [];
+  if (segmentCount > 0 && order.length > 0) {
+    const outer = verts.map(v => elementPoint(v, order[0]!));
+    const inner = verts.map(v => elementPoint(v, order[order.length - 1]!));
+    if (closed) fill.push(outer, inner);
+    else fill.push([...outer, ...inner.reverse()]);
+  }
+
+  const geometry = { elements, fill };
+  geometryCache.set(entity, geometry);
+  return geometry;
+}
+
+/**
+ * Half circle from `a` to `b` bulging towards `outward`, flattened to a
+ * polyline.
+ */
+function capArc(a: Point2D, b: Point2D, outward: Point2D): Point2D[] {
+  const cx = (a.x + b.x) / 2;
+  const cy = (a.y + b.y) / 2;
+  const radius = Math.hypot(a.x - cx, a.y - cy);
+  if (radius < 1e-12) return [];
+  const start = Math.atan2(a.y - cy, a.x - cx);
+  // Sweep counter-clockwise when outward lies counter-clockwise of center → a
+  const sweep = (a.x - cx) * outward.y - (a.y - cy) * outward.x > 0 ? Math.PI : -Math.PI;
+  const steps = Math.ceil(Math.PI / ARC_STEP);
+  const points: Point2D[] = [];
+  for (let k = 0; k <= steps; k++) {
+    const angle = start + sweep * k / steps;
+    points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+  }
+  return points;
+}
+
+/** Caps at one end: `flags` holds the style's square (1), inner arc (2) and round (4) bits for that end. */
+function endCaps(vertex: DxfMLineVertex, order: number[], flags: number, outward: Point2D): Point2D[][] {
+  const caps: Point2D[][] = [];
+  const outer = elementPoint(vertex, order[0]!);
+  const inner = elementPoint(vertex, order[order.length - 1]!);
+  if (flags & 1) caps.push([outer, inner]);
+  if (flags & 4) caps.push(capArc(outer, inner, outward));
+  if (flags & 2) {
+    for (let k = 1; k < order.length - 1 - k; k++) {
+      caps.push(capArc(elementPoint(vertex, order[k]!), elementPoint(vertex, order[order.length - 1 - k]!), outward));
+    }
+  }
+  return caps.filter(cap => cap.length > 1);
+}
+
+/**
+ * End caps (square, round and inner arcs, unless the MLINE suppresses them)
+ * and joint lines of an MLINE, as polylines, per its style flags. Closed
+ * MLINEs have no caps.
+ */
+export function mlineCaps(entity: DxfMLineEntity, style: DxfMLineStyle): Point2D[][] {
+  const verts = entity.vertices;
+  const order = elementOrder(entity);
+  if (verts.length < 2 || order.length === 0) return [];
+
+  const closed = (entity.flags & 2) !== 0;
+  const caps: Point2D[][] = [];
+
+  if (style.flags & MLINE_STYLE_JOINTS) {
+    const from = closed ? 0 : 1;
+    const to = closed ? verts.length : verts.length - 1;
+    for (let i = from; i < to; i++) {
+      caps.push([elementPoint(verts[i]!, order[0]!), elementPoint(verts[i]!, order[order.length - 1]!)]);
+    }
+  }
+
+  if (!closed) {
+    const first = verts[0]!;
+    const last = verts[verts.length - 1]!;
+    const startDir = first.direction;
+    const endDir = verts[verts.length - 2]!.direction;
+    if (!(entity.flags & 4)) {
+      caps.push(...endCaps(first, order, (style.flags >> 4) & 7, { x: -startDir.x, y: -startDir.y }));
+    }
+    if (!(entity.flags & 8)) {
+      caps.push(...endCaps(last, order, (style.flags >> 8) & 7, endDir));
+    }
+  }
+  return caps;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfArcEntity, DxfLineEntity, DxfLwPolylineEntity } from '../parser/types.js';
+import {
+  isDefaultExtrusion,
+  ocsMatrix,
+  getEntityOcsMatrix,
+  transformPoint,
+  invertMatrix,
+  type Matrix2D,
+} from './ocs.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const BASE_ENTITY = {
+  layer: '0',
+  color: 256,
+  lineType: 'BYLAYER',
+  lineTypeScale: 1,
+  lineWeight: -1,
+  visible: true,
+} as const;
+
+const MIRRORED = { x: 0, y: 0, z: -1 };
+
+function makeArc(extrusion = MIRRORED): DxfArcEntity {
+  return {
+    ...BASE_ENTITY,
+    type: 'ARC',
+    extrusion,
+    center: { x: 10, y: 0, z: 0 },
+    radius: 5,
+    startAngle: 0,
+    endAngle: 90,
+  };
+}
+
+function expectPoint(actual: [number, number], x: number, y: number): void {
+  expect(actual[0]).toBeCloseTo(x);
+  expect(actual[1]).toBeCloseTo(y);
+}
+
+// ─── isDefaultExtrusion ─────────────────────────────────────────────
+
+describe('isDefaultExtrusion', () => {
+  it('accepts the world Z axis at any length', () => {
+    expect(isDefaultExtrusion({ x: 0, y: 0, z: 1 })).toBe(true);
+    expect(isDefaultExtrusion({ x: 0, y: 0, z: 2 })).toBe(true);
+  });
+
+  it('rejects mirrored and tilted extrusions', () => {
+    expect(isDefaultExtrusion(MIRRORED)).toBe(false);
+    expect(isDefaultExtrusion({ x: 1, y: 0, z: 0 })).toBe(false);
+  });
+});
+
+// ─── ocsMatrix ──────────────────────────────────────────────────────
+
+describe('ocsMatrix', () => {
+  it('negates X for extrusion (0,0,-1)', () => {
+    const m = ocsMatrix(MIRRORED);
+    expectPoint(transformPoint(m, 3, 4), -3, 4);
+  });
+
+  it('projects a vertical plane onto the world XY plane', () => {
+    // Extrusion +X: OCS X = world Y, OCS Y = world Z (collapses in plan view)
+    const m = ocsMatrix({ x: 1, y: 0, z: 0 }, 7);
+    expectPoint(transformPoint(m, 2, 3), 7, 2);
+  });
+});
+
+// ─── invertMatrix ───────────────────────────────────────────────────
+
+describe('invertMatrix', () => {
+  it('round-trips a point', () => {
+    const m: Matrix2D = [2, 1, -1, 3, 5, -4];
+    const inverse = invertMatrix(m)!;
+    expectPoint(transformPoint(inverse, ...transformPoint(m, 1.5, -2)), 1.5, -2);
+  });
+
+  it('returns null for a plane seen edge-on', () => {
+    expect(invertMatrix(ocsMatrix({ x: 1, y: 0, z: 0 }))).toBeNull();
+  });
+});
+
+// ─── getEntityOcsMatrix ─────────────────────────────────────────────
+
+describe('getEntityOcsMatrix', () => {
+  it('returns null for default extrusion', () => {
+    expect(getEntityOcsMatrix(makeArc({ x: 0, y: 0, z: 1 }))).toBeNull();
+  });
+
+  it('returns a matrix for planar entity types', () => {
+    expect(getEntityOcsMatrix(makeArc())).not.toBeNull();
+    const poly: DxfLwPolylineEntity = {
+      ...BASE_ENTITY,
+      type: 'LWPOLYLINE',
+      extrusion: MIRRORED,
+      vertices: [],
+      closed: false,
+      constantWidth: 0,
+      elevation: 0,
+    };
+    expect(getEntityOcsMatrix(poly)).not.toBeNull();
+  });
+
+  it('ignores extrusion on WCS entity types', () => {
+    const line: DxfLineEntity = {
+      ...BASE_ENTITY,
+      type: 'LINE',
+      extrusion: MIRRORED,
+      start: { x: 0, y: 0, z: 0 },
+      end: { x: 1, y: 0, z: 0 },
+    };
+    expect(getEntityOcsMatrix(line)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import type { DxfEntity, Point3D } from '../parser/types.js';
+import type { BBox } from './bbox.js';
+import { arbitraryAxisAlgorithm } from './math.js';
+
+/**
+ * 2D affine matrix in canvas `transform(a, b, c, d, e, f)` order:
+ * x' = a·x + c·y + e, y' = b·x + d·y + f.
+ */
+export type Matrix2D = [number, number, number, number, number, number];
+
+const EXTRUSION_EPSILON = 1e-10;
+
+/** Returns true when the extrusion is the world Z axis, i.e. OCS equals WCS. */
+export function isDefaultExtrusion(extrusion: Point3D): boolean {
+  return Math.abs(extrusion.x) < EXTRUSION_EPSILON
+    && Math.abs(extrusion.y) < EXTRUSION_EPSILON
+    && extrusion.z > 0;
+}
+
+/**
+ * Matrix mapping OCS X/Y coordinates to WCS X/Y (plan view projection).
+ *
+ * @param elevation OCS Z of the entity's plane. Only contributes when the
+ *   plane is tilted away from the world Z axis.
+ */
+export function ocsMatrix(extrusion: Point3D, elevation: number = 0): Matrix2D {
+  const { ax, ay, az } = arbitraryAxisAlgorithm(extrusion);
+  return [ax.x, ax.y, ay.x, ay.y, az.x * elevation, az.y * elevation];
+}
+
+/**
+ * OCS → WCS matrix for an entity, or null when its coordinates are already
+ * in WCS (default extrusion, or a type that is always defined in WCS such as
+ * LINE, ELLIPSE, SPLINE, MTEXT, 3DFACE and 3D polylines).
+ */
+export function getEntityOcsMatrix(entity: DxfEntity): Matrix2D | null {
+  if (isDefaultExtrusion(entity.extrusion)) return null;
+
+  switch (entity.type) {
+    case 'ARC':
+    case 'CIRCLE':
+      return ocsMatrix(entity.extrusion, entity.center.z);
+    case 'LWPOLYLINE':
+      return ocsMatrix(entity.extrusion, entity.elevation);
+    case 'POLYLINE':
+      return entity.is3d ? null : ocsMatrix(entity.extrusion);
+    case 'TEXT':
+    case 'INSERT':
+      return ocsMatrix(entity.extrusion, entity.insertionPoint.z);
+    case 'HATCH':
+      return ocsMatrix(entity.extrusion, entity.elevation);
+    case 'SOLID':
+    case 'TRACE':
+      // All corners share the elevation of the first
+      return ocsMatrix(entity.extrusion, entity.points[0].z);
+    default:
+      return null;
+  }
+}
+
+/** Apply a matrix to a point. */
+export function transformPoint(m: Matrix2D, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/** Matrix applying `b` first, then `a` (as `ctx.transform(...a)` followed by `ctx.transform(...b)`). */
+export function multiplyMatrix(a: Matrix2D, b: Matrix2D): Matrix2D {
+  return [
+    a[0] * b[0] + a[2] * b[1],
+    a[1] * b[0] + a[3] * b[1],
+    a[0] * b[2] + a[2] * b[3],
+    a[1] * b[2] + a[3] * b[3],
+    a[0] * b[4] + a[2] * b[5] + a[4],
+    a[1] * b[4] + a[3] * b[5] + a[5],
+  ];
+}
+
+/** Inverse of a matrix, or null if it is degenerate (plane seen edge-on). */
+export function invertMatrix(m: Matrix2D): Matrix2D | null {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (Math.abs(det) < EXTRUSION_EPSILON) return null;
+  return [
+    d / det, -b / det,
+    -c / det, a / det,
+    (c * f - d * e) / det, (b * e - a * f) / det,
+  ];
+}
+
+/** Axis-aligned bounds of a bbox after transformation (all 4 corners). */
+export function transformBBox(bbox: BBox, m: Matrix2D): BBox {
+  let minX = Infinity, minY = Infinity;
+  let maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of [
+    [bbox.minX, bbox.minY],
+    [bbox.maxX, bbox.minY],
+    [bbox.maxX, bbox.maxY],
+    [bbox.minX, bbox.maxY],
+  ] as const) {
+    const [tx, ty] = transformPoint(m, x, y);
+    minX = Math.min(minX, tx);
+    minY = Math.min(minY, ty);
+    maxX = Math.max(maxX, tx);
+    maxY = Math.max(maxY, ty);
+  }
+  return { minX, minY, maxX, maxY };
+}
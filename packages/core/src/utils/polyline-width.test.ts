@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfLwPolylineEntity, DxfLwPolylineVertex, DxfPolylineEntity } from '../parser/types.js';
+import { buildWidePolyline, isWidePolyline, maxPolylineWidth, segmentWidths } from './polyline-width.js';
+import { distanceToEntity } from '../viewer/selection.js';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function vertex(x: number, y: number, overrides?: Partial<DxfLwPolylineVertex>): DxfLwPolylineVertex {
+  return { x, y, bulge: 0, startWidth: 0, endWidth: 0, ...overrides };
+}
+
+function makeLwPolyline(vertices: DxfLwPolylineVertex[], overrides?: Partial<DxfLwPolylineEntity>): DxfLwPolylineEntity {
+  return {
+    type: 'LWPOLYLINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    vertices,
+    closed: false,
+    constantWidth: 0,
+    elevation: 0,
+    ...overrides,
+  };
+}
+
+function round(points: { x: number; y: number }[]): { x: number; y: number }[] {
+  return points.map(p => ({ x: Math.round(p.x * 1e6) / 1e6 + 0, y: Math.round(p.y * 1e6) / 1e6 + 0 }));
+}
+
+// ─── Widths ─────────────────────────────────────────────────────────
+
+describe('segment widths', () => {
+  it('uses the constant width for every LWPOLYLINE segment', () => {
+    const entity = makeLwPolyline([vertex(0, 0, { startWidth: 1 }), vertex(10, 0)], { constantWidth: 3 });
+    expect(segmentWidths(entity, 0)).toEqual([3, 3]);
+    expect(maxPolylineWidth(entity)).toBe(3);
+  });
+
+  it('detects wide polylines', () => {
+    expect(isWidePolyline(makeLwPolyline([vertex(0, 0), vertex(10, 0)]))).toBe(false);
+    expect(isWidePolyline(makeLwPolyline([vertex(0, 0, { endWidth: 0.5 }), vertex(10, 0)]))).toBe(true);
+  });
+
+  it('ignores widths on 3D polylines', () => {
+    const entity: DxfPolylineEntity = {
+      ...makeLwPolyline([vertex(0, 0, { startWidth: 2 }), vertex(10, 0)]),
+      type: 'POLYLINE',
+      is3d: true,
+    };
+    expect(isWidePolyline(entity)).toBe(false);
+  });
+});
+
+// ─── buildWidePolyline ──────────────────────────────────────────────
+
+describe('buildWidePolyline', () => {
+  it('outlines straight segments as quads', () => {
+    const { outlines } = buildWidePolyline(makeLwPolyline([vertex(0, 0), vertex(10, 0)], { constantWidth: 2 }));
+    expect(round(outlines[0]!)).toEqual([{ x: 0, y: 1 }, { x: 10, y: 1 }, { x: 10, y: -1 }, { x: 0, y: -1 }]);
+  });
+
+  it('tapers between start and end widths', () => {
+    const { outlines } = buildWidePolyline(makeLwPolyline([vertex(0, 0, { startWidth: 4 }), vertex(10, 0)]));
+    expect(round(outlines[0]!)).toEqual([{ x: 0, y: 2 }, { x: 10, y: 0 }, { x: 10, y: 0 }, { x: 0, y: -2 }]);
+  });
+
+  it('miters joins between wide segments', () => {
+    const { outlines } = buildWidePolyline(makeLwPolyline(
+      [vertex(0, 0), vertex(10, 0), vertex(10, 10)],
+      { constantWidth: 2 },
+    ));
+    const [first, second] = outlines.map(o => round(o));
+    // Outer corner at (11, -1), inner corner at (9, 1), shared by both segments
+    expect(first).toEqual([{ x: 0, y: 1 }, { x: 9, y: 1 }, { x: 11, y: -1 }, { x: 0, y: -1 }]);
+    expect(second![0]).toEqual({ x: 9, y: 1 });
+    expect(second!.at(-1)).toEqual({ x: 11, y: -1 });
+  });
+
+  it('bands bulge arcs with interpolated widths', () => {
+    // Counter-clockwise semicircle below the chord, centered on (5, 0)
+    const { outlines } = buildWidePolyline(makeLwPolyline(
+      [vertex(0, 0, { bulge: 1, startWidth: 2, endWidth: 4 }), vertex(10, 0)],
+    ));
+    const outline = outlines[0]!;
+    const radii = outline.map(p => Math.hypot(p.x - 5, p.y));
+    const half = outline.length / 2;
+    // Left (inner) edge narrows from 4 to 3; right (outer) edge widens from 6 to 7
+    expect(radii[0]).toBeCloseTo(4);
+    expect(radii[half - 1]).toBeCloseTo(3);
+    expect(radii[half]).toBeCloseTo(7);
+    expect(radii.at(-1)).toBeCloseTo(6);
+    expect(Math.min(...outline.map(p => p.y))).toBeCloseTo(-6.5, 1);
+  });
+
+  it('reports zero-width segments for stroking', () => {
+    const { outlines, thinSegments } = buildWidePolyline(makeLwPolyline([
+      vertex(0, 0, { startWidth: 1, endWidth: 1 }), vertex(10, 0), vertex(10, 10),
+    ]));
+    expect(outlines).toHaveLength(1);
+    expect(thinSegments).toEqual([1]);
+  });
+});
+
+// ─── Hit testing ────────────────────────────────────────────────────
+
+describe('distanceToEntity on wide polylines', () => {
+  it('hits anywhere inside the width', () => {
+    const entity = makeLwPolyline([vertex(0, 0), vertex(10, 0)], { constantWidth: 2 });
+    expect(distanceToEntity(5, 0.9, entity)).toBe(0);
+    expect(distanceToEntity(5, 3, entity)).toBeCloseTo(2);
+  });
+
+  it('follows tapered widths', () => {
+    const entity = makeLwPolyline([vertex(0, 0, { startWidth: 4 }), vertex(10, 0)]);
+    expect(distanceToEntity(0, 1.5, entity)).toBe(0);
+    expect(distanceToEntity(10, 1.5, entity)).toBeCloseTo(1.5);
+  });
+
+  it('measures bulge segments along the arc', () => {
+    const entity = makeLwPolyline([vertex(0, 0, { bulge: 1 }), vertex(10, 0)]);
+    // The semicircle passes through (5, -5)
+    expect(distanceToEntity(5, -5, entity)).toBeCloseTo(0);
+  });
+});
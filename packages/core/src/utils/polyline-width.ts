@@ -0,0 +1,156 @@
+import type { DxfEntity, DxfLwPolylineEntity, DxfPolylineEntity, Point2D } from '../parser/types.js';
+import { bulgeToArc } from './math.js';
+
+type Polyline = DxfLwPolylineEntity | DxfPolylineEntity;
+
+/** Angular step used to flatten wide arc segments (radians). */
+const ARC_STEP = Math.PI / 36;
+
+/** Joins whose miter reaches further than this many half-widths are left unmitered. */
+const MITER_LIMIT = 10;
+
+/** Filled outlines of the wide segments, and the indices of zero-width segments. */
+export interface WidePolylineGeometry {
+  outlines: Point2D[][];
+  thinSegments: number[];
+}
+
+interface SegmentEdges {
+  left: Point2D[];
+  right: Point2D[];
+  /** Unit tangents at the segment's start and end. */
+  startTangent: Point2D;
+  endTangent: Point2D;
+}
+
+/** Start and end width of segment `i`. LWPOLYLINE constant width (43) applies to every segment. */
+export function segmentWidths(entity: Polyline, i: number): [number, number] {
+  if (entity.type === 'LWPOLYLINE' && entity.constantWidth > 0) {
+    return [entity.constantWidth, entity.constantWidth];
+  }
+  const v = entity.vertices[i]!;
+  return [v.startWidth, v.endWidth];
+}
+
+/** Largest segment width of a polyline (0 for hairline polylines). */
+export function maxPolylineWidth(entity: Polyline): number {
+  if (entity.type === 'POLYLINE' && entity.is3d) return 0;
+  if (entity.type === 'LWPOLYLINE' && entity.constantWidth > 0) return entity.constantWidth;
+  let max = 0;
+  for (const v of entity.vertices) max = Math.max(max, v.startWidth, v.endWidth);
+  return max;
+}
+
+/** True for 2D polylines with at least one segment wider than a hairline. */
+export function isWidePolyline(entity: DxfEntity): boolean {
+  return (entity.type === 'LWPOLYLINE' || entity.type === 'POLYLINE') && maxPolylineWidth(entity) > 0;
+}
+
+/**
+ * Outline wide polyline segments as closed polygons (OCS): quads for
+ * straight segments and bands for bulge arcs, with widths interpolated
+ * along each segment. Adjacent wide segments are mitered at their shared
+ * vertex; open ends are square. Zero-width segments are returned by index
+ * so they can be stroked as hairlines.
+ */
+export function buildWidePolyline(entity: Polyline): WidePolylineGeometry {
+  const verts = entity.vertices;
+  const count = entity.closed ? verts.length : verts.length - 1;
+  const edges: (SegmentEdges | null)[] = [];
+  const thinSegments: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [w0, w1] = segmentWidths(entity, i);
+    const a = verts[i]!;
+    const b = verts[(i + 1) % verts.length]!;
+    const segment = w0 > 0 || w1 > 0 ? segmentEdges(a, b, a.bulge ?? 0, w0, w1) : null;
+    if (!segment) thinSegments.push(i);
+    edges.push(segment);
+  }
+
+  // Miter each join between two wide segments
+  for (let i = 0; i < count; i++) {
+    const next = i + 1 < count ? i + 1 : entity.closed ? 0 : -1;
+    const prev = edges[i];
+    const curr = next >= 0 ? edges[next] : null;
+    if (!prev || !curr || prev === curr) continue;
+    const halfWidth = Math.max(segmentWidths(entity, i)[1], segmentWidths(entity, next)[0]) / 2;
+    miter(prev.left, curr.left, prev.endTangent, curr.startTangent, halfWidth);
+    miter(prev.right, curr.right, prev.endTangent, curr.startTangent, halfWidth);
+  }
+
+  const outlines: Point2D[][] = [];
+  for (const segment of edges) {
+    if (segment) outlines.push([...segment.left, ...segment.right.reverse()]);
+  }
+  return { outlines, thinSegments };
+}
+
+function segmentEdges(a: Point2D, b: Point2D, bulge: number, w0: number, w1: number): SegmentEdges | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length < 1e-10) return null;
+
+  if (Math.abs(bulge) < 1e-10) {
+    const t = { x: dx / length, y: dy / length };
+    // Left normal
+    const nx = -t.y;
+    const ny = t.x;
+    return {
+      left: [{ x: a.x + nx * w0 / 2, y: a.y + ny * w0 / 2 }, { x: b.x + nx * w1 / 2, y: b.y + ny * w1 / 2 }],
+      right: [{ x: a.x - nx * w0 / 2, y: a.y - ny * w0 / 2 }, { x: b.x - nx * w1 / 2, y: b.y - ny * w1 / 2 }],
+      startTangent: t,
+      endTangent: t,
+    };
+  }
+
+  const arc = bulgeToArc(a.x, a.y, b.x, b.y, bulge);
+  const sweep = 4 * Math.atan(bulge);
+  const start = Math.atan2(a.y - arc.cy, a.x - arc.cx);
+  // The left side of a counter-clockwise arc faces the center
+  const dir = sweep > 0 ? 1 : -1;
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  const left: Point2D[] = [];
+  const right: Point2D[] = [];
+
+  for (let k = 0; k <= segments; k++) {
+    const f = k / segments;
+    const angle = start + sweep * f;
+    const half = (w0 + (w1 - w0) * f) / 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const inner = Math.max(0, arc.radius - half);
+    const outer = arc.radius + half;
+    const l = dir > 0 ? inner : outer;
+    const r = dir > 0 ? outer : inner;
+    left.push({ x: arc.cx + l * cos, y: arc.cy + l * sin });
+    right.push({ x: arc.cx + r * cos, y: arc.cy + r * sin });
+  }
+
+  const end = start + sweep;
+  return {
+    left,
+    right,
+    startTangent: { x: -Math.sin(start) * dir, y: Math.cos(start) * dir },
+    endTangent: { x: -Math.sin(end) * dir, y: Math.cos(end) * dir },
+  };
+}
+
+/**
+ * Move the end of edge `a` and the start of edge `b` to the intersection of
+ * their tangent lines, closing the wedge between two segments.
+ */
+function miter(a: Point2D[], b: Point2D[], ta: Point2D, tb: Point2D, halfWidth: number): void {
+  const p = a[a.length - 1]!;
+  const q = b[0]!;
+  const cross = ta.x * tb.y - ta.y * tb.x;
+  if (Math.abs(cross) < 1e-9) return; // collinear: edges already meet
+
+  const s = ((q.x - p.x) * tb.y - (q.y - p.y) * tb.x) / cross;
+  const m = { x: p.x + ta.x * s, y: p.y + ta.y * s };
+  if (Math.hypot(m.x - p.x, m.y - p.y) > MITER_LIMIT * halfWidth) return;
+
+  a[a.length - 1] = m;
+  b[0] = m;
+}
@@ -113,29 +113,47 @@ export function evaluateSpline(entity: DxfSplineEntity, pixelSize: number): Poin
     return fitPointsToPolyline(entity.fitPoints);
   }
 
+  return evaluateBSpline(
+    entity.degree,
+    entity.controlPoints,
+    entity.knots,
+    entity.weights.length > 0 ? entity.weights : undefined,
+    pixelSize,
+  );
+}
+
+/**
+ * Sample a B-spline (NURBS when `weights` is given) over its full parameter
+ * range. Returns an empty array if the knot vector doesn't match the control points.
+ */
+export function evaluateBSpline(
+  degree: number,
+  controlPoints: Point3D[],
+  knots: number[],
+  weights: number[] | undefined,
+  pixelSize: number,
+): Point2D[] {
   // Validate: need at least degree+1 control points and proper knot vector
-  if (entity.controlPoints.length < entity.degree + 1) return [];
-  if (entity.knots.length < entity.controlPoints.length + entity.degree + 1) return [];
+  if (degree < 1 || controlPoints.length < degree + 1) return [];
+  if (knots.length < controlPoints.length + degree + 1) return [];
 
   const points: Point2D[] = [];
   // Knot indices guaranteed valid by length guard above
-  const tMin = entity.knots[entity.degree]!;
-  const tMax = entity.knots[entity.knots.length - entity.degree - 1]!;
+  const tMin = knots[degree]!;
+  const tMax = knots[knots.length - degree - 1]!;
 
   if (tMax <= tMin) return [];
 
   // Adaptive: more points for longer/more complex splines
   const numPoints = Math.max(
-    entity.controlPoints.length * 10,
+    controlPoints.length * 10,
     Math.ceil((tMax - tMin) / pixelSize),
   );
   const cappedPoints = Math.min(numPoints, 5000); // upper bound
 
-  const weights = entity.weights.length > 0 ? entity.weights : undefined;
-
   for (let i = 0; i <= cappedPoints; i++) {
     const t = tMin + (tMax - tMin) * (i / cappedPoints);
-    const p = deBoor(entity.degree, entity.controlPoints, entity.knots, t, weights);
+    const p = deBoor(degree, controlPoints, knots, t, weights);
     points.push({ x: p.x, y: p.y });
   }
 
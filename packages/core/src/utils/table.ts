@@ -0,0 +1,208 @@
+import type {
+  DxfInsertEntity,
+  DxfMTextEntity,
+  DxfTableCell,
+  DxfTableEntity,
+  Point2D,
+} from '../parser/types.js';
+
+/** A drawn (not merged-away) table cell in world coordinates. */
+export interface TableCellLayout {
+  row: number;
+  column: number;
+  cell: DxfTableCell;
+  /** Corners clockwise from the top-left. */
+  corners: [Point2D, Point2D, Point2D, Point2D];
+  /** Cell text as MTEXT placed by the cell's alignment and margins. */
+  mtext?: DxfMTextEntity;
+  /** Block of a block cell, centered in the cell. */
+  insert?: DxfInsertEntity;
+}
+
+// Cell layouts by table. Each cell keeps the same MTEXT object from frame to
+// frame, so drawMText finds its measured layout again instead of redoing it.
+const layoutCache = new WeakMap<DxfTableEntity, TableCellLayout[]>();
+
+/** Unit row direction and the perpendicular pointing up the table. */
+function tableAxes(entity: DxfTableEntity): { ux: number; uy: number; vx: number; vy: number } {
+  const { x, y } = entity.horizontalDirection;
+  const length = Math.hypot(x, y);
+  const ux = length > 1e-12 ? x / length : 1;
+  const uy = length > 1e-12 ? y / length : 0;
+  return { ux, uy, vx: -uy, vy: ux };
+}
+
+/** Map table-local coordinates (x right, y up from the top-left corner) to world space. */
+function tableToWorld(entity: DxfTableEntity, x: number, y: number): Point2D {
+  const { ux, uy, vx, vy } = tableAxes(entity);
+  const p = entity.insertionPoint;
+  return { x: p.x + ux * x + vx * y, y: p.y + uy * x + vy * y };
+}
+
+function sum(values: number[], from: number, to: number): number {
+  let total = 0;
+  for (let i = from; i < to; i++) total += values[i] ?? 0;
+  return total;
+}
+
+/** World-space corners of the whole table, clockwise from the top-left. */
+export function tableOutline(entity: DxfTableEntity): Point2D[] {
+  const width = sum(entity.columnWidths, 0, entity.columnCount);
+  const height = sum(entity.rowHeights, 0, entity.rowCount);
+  return [
+    tableToWorld(entity, 0, 0),
+    tableToWorld(entity, width, 0),
+    tableToWorld(entity, width, -height),
+    tableToWorld(entity, 0, -height),
+  ];
+}
+
+/** World-space corners of every grid line crossing, for snapping. */
+export function tableGridPoints(entity: DxfTableEntity): Point2D[] {
+  const points: Point2D[] = [];
+  for (let r = 0; r <= entity.rowCount; r++) {
+    const y = -sum(entity.rowHeights, 0, r);
+    for (let c = 0; c <= entity.columnCount; c++) {
+      points.push(tableToWorld(entity, sum(entity.columnWidths, 0, c), y));
+    }
+  }
+  return points;
+}
+
+/**
+ * Lay out the drawn cells of a table: merged ranges become one cell, text
+ * becomes MTEXT anchored by the cell alignment inside the cell margins, and
+ * block cells become INSERTs at the cell center. Cached per entity.
+ */
+export function tableCellLayout(entity: DxfTableEntity): TableCellLayout[] {
+  const cached = layoutCache.get(entity);
+  if (cached) return cached;
+
+  const { ux, uy } = tableAxes(entity);
+  const rotation = Math.atan2(uy, ux) * 180 / Math.PI;
+  const layout: TableCellLayout[] = [];
+
+  for (let r = 0; r < entity.rowCount; r++) {
+    for (let c = 0; c < entity.columnCount; c++) {
+      const cell = entity.cells[r]?.[c];
+      if (!cell || cell.merged) continue;
+
+      const rowEnd = Math.min(r + cell.rowSpan, entity.rowCount);
+      const columnEnd = Math.min(c + cell.columnSpan, entity.columnCount);
+      const left = sum(entity.columnWidths, 0, c);
+      const right = left + sum(entity.columnWidths, c, columnEnd);
+      const top = -sum(entity.rowHeights, 0, r);
+      const bottom = top - sum(entity.rowHeights, r, rowEnd);
+
+      const item: TableCellLayout = {
+        row: r,
+        column: c,
+        cell,
+        corners: [
+          tableToWorld(entity, left, top),
+          tableToWorld(entity, right, top),
+          tableToWorld(entity, right, bottom),
+          tableToWorld(entity, left, bottom),
+        ],
+      };
+
+      if (cell.text) {
+        const align = Math.min(Math.max(cell.alignment, 1), 9) - 1;
+        const hm = entity.horizontalMargin;
+        const vm = entity.verticalMargin;
+        const x = [left + hm, (left + right) / 2, right - hm][align % 3]!;
+        const y = [top - vm, (top + bottom) / 2, bottom + vm][Math.floor(align / 3)]!;
+        // Without a TABLESTYLE, size text to half the row's inner height
+        const height = cell.textHeight || Math.max((top - bottom - 2 * vm) / 2, (top - bottom) / 4);
+        const anchor = tableToWorld(entity, x, y);
+        item.mtext = {
+          type: 'MTEXT',
+          layer: entity.layer,
+          color: cell.textColor ?? entity.color,
+          trueColor: cell.textColor === undefined ? entity.trueColor : undefined,
+          lineType: entity.lineType,
+          lineTypeScale: entity.lineTypeScale,
+          lineWeight: entity.lineWeight,
+          visible: entity.visible,
+          extrusion: { x: 0, y: 0, z: 1 },
+          text: cell.text,
+          insertionPoint: { x: anchor.x, y: anchor.y, z: 0 },
+          height,
+          width: Math.max(right - left - 2 * hm, 0),
+          attachmentPoint: align + 1,
+          drawingDirection: 1,
+          rotation,
+          lineSpacingStyle: 1,
+          lineSpacingFactor: 1,
+          style: cell.textStyle || 'Standard',
+          bgFill: 0,
+          bgFillScale: 1,
+        };
+      }
+
+      if (cell.blockName) {
+        const center = tableToWorld(entity, (left + right) / 2, (top + bottom) / 2);
+        const scale = cell.blockScale || 1;
+        item.insert = {
+          type: 'INSERT',
+          layer: entity.layer,
+          color: entity.color,
+          trueColor: entity.trueColor,
+          lineType: entity.lineType,
+          lineTypeScale: entity.lineTypeScale,
+          lineWeight: entity.lineWeight,
+          visible: entity.visible,
+          extrusion: { x: 0, y: 0, z: 1 },
+          blockName: cell.blockName,
+          insertionPoint: { x: center.x, y: center.y, z: 0 },
+          scaleX: scale,
+          scaleY: scale,
+          scaleZ: scale,
+          rotation,
+          columnCount: 1,
+          rowCount: 1,
+          columnSpacing: 0,
+          rowSpacing: 0,
+          attribs: [],
+        };
+      }
+
+      layout.push(item);
+    }
+  }
+
+  layoutCache.set(entity, layout);
+  return layout;
+}
+
+/**
+ * The table's anonymous `*T` block as an INSERT at the table's insertion
+ * point, carrying the table's layer and color. The table is a block
+ * reference without a rotation code, so its direction is already part of
+ * the block geometry.
+ */
+export function tableBlockInsert(entity: DxfTableEntity): DxfInsertEntity {
+  return {
+    type: 'INSERT',
+    handle: entity.handle,
+    layer: entity.layer,
+    color: entity.color,
+    trueColor: entity.trueColor,
+    lineType: entity.lineType,
+    lineTypeScale: entity.lineTypeScale,
+    lineWeight: entity.lineWeight,
+    visible: entity.visible,
+    extrusion: entity.extrusion,
+    blockName: entity.blockName,
+    insertionPoint: entity.insertionPoint,
+    scaleX: 1,
+    scaleY: 1,
+    scaleZ: 1,
+    rotation: 0,
+    columnCount: 1,
+    rowCount: 1,
+    columnSpacing: 0,
+    rowSpacing: 0,
+    attribs: [],
+  };
+}
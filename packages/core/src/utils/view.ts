@@ -0,0 +1,81 @@
+import type { DxfDocument, DxfView, DxfVPort, Point2D, Point3D } from '../parser/types.js';
+
+const EPSILON = 1e-9;
+
+/** Area of the drawing a saved view shows, in world coordinates. */
+export interface ViewWindow {
+  center: Point2D;
+  width: number;
+  height: number;
+  /** View twist in radians (counter-clockwise). */
+  rotation: number;
+}
+
+/** The current model space viewport: the first `*ACTIVE` VPORT entry, matched case-insensitively. */
+export function activeVPort(doc: DxfDocument): DxfVPort | undefined {
+  const vports = doc.vports;
+  if (!vports) return undefined;
+  const exact = vports.get('*ACTIVE');
+  if (exact) return exact;
+  for (const vport of vports.values()) {
+    if (vport.name.toUpperCase() === '*ACTIVE') return vport;
+  }
+  return undefined;
+}
+
+/** A named VIEW, matched exactly, then case-insensitively. */
+export function findView(doc: DxfDocument, name: string): DxfView | undefined {
+  const views = doc.views;
+  if (!views) return undefined;
+  const exact = views.get(name);
+  if (exact) return exact;
+  const upper = name.toUpperCase();
+  for (const view of views.values()) {
+    if (view.name.toUpperCase() === upper) return view;
+  }
+  return undefined;
+}
+
+/** Window of a VPORT's saved view: its height by height × aspect ratio. Null when it cannot be shown. */
+export function vportViewWindow(vport: DxfVPort): ViewWindow | null {
+  return viewWindow(
+    vport.center, vport.viewTarget, vport.viewDirection,
+    vport.height * vport.aspectRatio, vport.height, vport.twistAngle,
+  );
+}
+
+/** Window of a named VIEW. Null when it cannot be shown. */
+export function namedViewWindow(view: DxfView): ViewWindow | null {
+  return viewWindow(view.center, view.viewTarget, view.viewDirection, view.width, view.height, view.twistAngle);
+}
+
+/**
+ * World window of a view whose center is in display coordinates: relative
+ * to the target and turned by the twist angle. Only plan views, looking
+ * down the Z axis, map onto the 2D canvas; 3D views give null, as do views
+ * without a height.
+ */
+function viewWindow(
+  center: Point2D,
+  target: Point3D,
+  direction: Point3D,
+  width: number,
+  height: number,
+  twistAngle: number,
+): ViewWindow | null {
+  if (!(height > 0)) return null;
+  if (Math.abs(direction.x) > EPSILON || Math.abs(direction.y) > EPSILON || direction.z <= 0) return null;
+
+  const rotation = twistAngle * Math.PI / 180;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return {
+    center: {
+      x: target.x + center.x * cos + center.y * sin,
+      y: target.y - center.x * sin + center.y * cos,
+    },
+    width,
+    height,
+    rotation,
+  };
+}
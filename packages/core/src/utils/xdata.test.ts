@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { DxfEntityBase, XDataValue } from '../parser/types.js';
+import { getXData, xdataContains } from './xdata.js';
+
+const VALUES: XDataValue[] = [
+  { type: 'string', code: 1000, value: 'Pump P-101' },
+  { type: 'handle', code: 1005, value: '3A' },
+  { type: 'point', code: 1010, value: { x: 1, y: 2, z: 0 } },
+  { type: 'list', code: 1002, value: [{ type: 'int', code: 1070, value: 4711 }] },
+];
+
+function makeEntity(xdata?: Record<string, XDataValue[]>): DxfEntityBase {
+  return {
+    type: 'LINE',
+    layer: '0',
+    color: 256,
+    lineType: 'BYLAYER',
+    lineTypeScale: 1,
+    lineWeight: -1,
+    visible: true,
+    extrusion: { x: 0, y: 0, z: 1 },
+    xdata,
+  };
+}
+
+// ─── getXData ───────────────────────────────────────────────────────
+
+describe('getXData', () => {
+  it('finds applications by exact name before case-insensitive matches', () => {
+    const exact: XDataValue[] = [];
+    const entity = makeEntity({ ACME_BIM: VALUES, acme_bim: exact });
+    expect(getXData(entity, 'acme_bim')).toBe(exact);
+    expect(getXData(entity, 'Acme_Bim')).toBe(VALUES);
+  });
+
+  it('returns undefined for missing applications and entities without XDATA', () => {
+    expect(getXData(makeEntity({ ACME_BIM: VALUES }), 'OTHER')).toBeUndefined();
+    expect(getXData(makeEntity(), 'ACME_BIM')).toBeUndefined();
+  });
+});
+
+// ─── xdataContains ──────────────────────────────────────────────────
+
+describe('xdataContains', () => {
+  it('matches strings, handles case-insensitively and numbers in nested lists', () => {
+    expect(xdataContains(VALUES, 'Pump P-101')).toBe(true);
+    expect(xdataContains(VALUES, '3a')).toBe(true);
+    expect(xdataContains(VALUES, 4711)).toBe(true);
+  });
+
+  it('does not match across types or against points', () => {
+    expect(xdataContains(VALUES, 'pump p-101')).toBe(false);
+    expect(xdataContains(VALUES, '4711')).toBe(false);
+    expect(xdataContains(VALUES, 1)).toBe(false);
+  });
+});
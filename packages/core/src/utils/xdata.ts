@@ -0,0 +1,36 @@
+import type { DxfEntityBase, XDataValue } from '../parser/types.js';
+
+/** An entity's extended data for a registered application, matched exactly, then case-insensitively. */
+export function getXData(entity: DxfEntityBase, appName: string): XDataValue[] | undefined {
+  const xdata = entity.xdata;
+  if (!xdata) return undefined;
+  const exact = xdata[appName];
+  if (exact) return exact;
+  const upper = appName.toUpperCase();
+  for (const [name, values] of Object.entries(xdata)) {
+    if (name.toUpperCase() === upper) return values;
+  }
+  return undefined;
+}
+
+/**
+ * Whether any of the values, including those in nested lists, equals
+ * `value`: strings compare with strings and handles, numbers with reals and
+ * integers. Handles compare case-insensitively, as they are hexadecimal.
+ */
+export function xdataContains(values: XDataValue[], value: string | number): boolean {
+  return values.some(item => {
+    switch (item.type) {
+      case 'list':
+        return xdataContains(item.value, value);
+      case 'handle':
+        return typeof value === 'string' && item.value.toUpperCase() === value.toUpperCase();
+      case 'string':
+      case 'real':
+      case 'int':
+        return item.value === value;
+      default:
+        return false;
+    }
+  });
+}
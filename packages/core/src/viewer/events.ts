@@ -6,6 +6,10 @@ export interface SelectEvent {
   entityIndex: number;
   worldPoint: Point2D;
   screenPoint: Point2D;
+  /** Plain text content of TEXT, MTEXT and MULTILEADER entities (see getEntityText). */
+  text?: string;
+  /** Plain text of an ACAD_TABLE's cells by row, then column (see getTableCells). */
+  cells?: string[][];
 }
 
 export interface MeasureEvent {
@@ -16,10 +20,20 @@ export interface MeasureEvent {
   points: [Point2D, Point2D];
 }
 
+export interface LayerChangeEvent {
+  /** Name of the changed layer, or null when all layer overrides were reset. */
+  layer: string | null;
+  /** Visibility of the layer after the change (absent on reset). */
+  visible?: boolean;
+  /** Color override of the layer after the change; absent when it uses its DXF color. */
+  color?: string;
+}
+
 export interface CadViewerEventMap {
   select: SelectEvent;
   measure: MeasureEvent;
   viewchange: ViewTransform;
+  layerchange: LayerChangeEvent;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
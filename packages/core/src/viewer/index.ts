@@ -1,6 +1,6 @@
 export { CadViewer } from './viewer.js';
-export type { CadViewerOptions, Tool, FormatConverter, DebugOptions, DebugStats, RenderStats } from './viewer.js';
-export type { SelectEvent, MeasureEvent, CadViewerEventMap } from './events.js';
+export type { CadViewerOptions, Tool, FormatConverter, DebugOptions, DebugStats, RenderStats, LineWeightMode } from './viewer.js';
+export type { SelectEvent, MeasureEvent, LayerChangeEvent, CadViewerEventMap } from './events.js';
 export { EventEmitter } from './events.js';
 export { LayerManager } from './layers.js';
 export { SpatialIndex, hitTest, distanceToEntity, distPointToSegment } from './selection.js';
@@ -9,6 +9,11 @@ export class LayerManager {
   setLayers(layers: Map<string, DxfLayer>): void {
     // Defensive copy — avoid shared mutation with DxfDocument
     this.layers = new Map(layers);
+    this.resetOverrides();
+  }
+
+  /** Restore every layer's visibility from the DXF and drop all color overrides. */
+  resetOverrides(): void {
     this.visibility.clear();
     this.colorOverrides.clear();
     this.visibleCache = null;
@@ -38,6 +43,15 @@ export class LayerManager {
     return this.colorOverrides.get(name);
   }
 
+  clearColorOverride(name: string): void {
+    this.colorOverrides.delete(name);
+  }
+
+  /** All color overrides, keyed by layer name. */
+  getColorOverrides(): ReadonlyMap<string, string> {
+    return this.colorOverrides;
+  }
+
   getVisibleLayerNames(): Set<string> {
     if (this.visibleCache) return this.visibleCache;
 
@@ -5,6 +5,12 @@ import type { MeasureEvent } from './events.js';
 import type { SpatialIndex } from './selection.js';
 import { THEMES } from '../renderer/theme.js';
 import { worldToScreen, screenToWorld } from '../renderer/camera.js';
+import { getEntityOcsMatrix, invertMatrix, transformPoint } from '../utils/ocs.js';
+import { mleaderLandings, mleaderLines } from '../utils/leader.js';
+import { imageOutline } from '../utils/image.js';
+import { tableGridPoints } from '../utils/table.js';
+import { mlineGeometry } from '../utils/mline.js';
+import { viewportOutline } from '../utils/layout.js';
 
 export type SnapType = 'endpoint' | 'midpoint' | 'center' | 'nearest';
 
@@ -103,29 +109,40 @@ export function findSnaps(
     if (!entity) continue;
     const idx = item.entityIndex;
 
+    // Planar entities with a non-default extrusion: snap in their OCS using the
+    // query point mapped into the entity's plane, then map the hits back to WCS.
+    const ocs = getEntityOcsMatrix(entity);
+    let qx = wx, qy = wy;
+    if (ocs) {
+      const inverse = invertMatrix(ocs);
+      if (!inverse) continue;
+      [qx, qy] = transformPoint(inverse, wx, wy);
+    }
+    const firstResult = results.length;
+
     switch (entity.type) {
       case 'LINE': {
         if (snapTypes.has('endpoint')) {
-          addIfClose(results, entity.start.x, entity.start.y, 'endpoint', idx, wx, wy, tolerance);
-          addIfClose(results, entity.end.x, entity.end.y, 'endpoint', idx, wx, wy, tolerance);
+          addIfClose(results, entity.start.x, entity.start.y, 'endpoint', idx, qx, qy, tolerance);
+          addIfClose(results, entity.end.x, entity.end.y, 'endpoint', idx, qx, qy, tolerance);
         }
         if (snapTypes.has('midpoint')) {
           const mx = (entity.start.x + entity.end.x) / 2;
           const my = (entity.start.y + entity.end.y) / 2;
-          addIfClose(results, mx, my, 'midpoint', idx, wx, wy, tolerance);
+          addIfClose(results, mx, my, 'midpoint', idx, qx, qy, tolerance);
         }
         break;
       }
 
       case 'CIRCLE': {
         if (snapTypes.has('center')) {
-          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, wx, wy, tolerance);
+          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, qx, qy, tolerance);
         }
         if (snapTypes.has('endpoint')) {
           for (const angle of [0, Math.PI / 2, Math.PI, 3 * Math.PI / 2]) {
-            const qx = entity.center.x + entity.radius * Math.cos(angle);
-            const qy = entity.center.y + entity.radius * Math.sin(angle);
-            addIfClose(results, qx, qy, 'endpoint', idx, wx, wy, tolerance);
+            const px = entity.center.x + entity.radius * Math.cos(angle);
+            const py = entity.center.y + entity.radius * Math.sin(angle);
+            addIfClose(results, px, py, 'endpoint', idx, qx, qy, tolerance);
           }
         }
         break;
@@ -133,13 +150,13 @@ export function findSnaps(
 
       case 'ARC': {
         if (snapTypes.has('center')) {
-          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, wx, wy, tolerance);
+          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, qx, qy, tolerance);
         }
         if (snapTypes.has('endpoint')) {
           const startRad = entity.startAngle * Math.PI / 180;
           const endRad = entity.endAngle * Math.PI / 180;
-          addIfClose(results, entity.center.x + entity.radius * Math.cos(startRad), entity.center.y + entity.radius * Math.sin(startRad), 'endpoint', idx, wx, wy, tolerance);
-          addIfClose(results, entity.center.x + entity.radius * Math.cos(endRad), entity.center.y + entity.radius * Math.sin(endRad), 'endpoint', idx, wx, wy, tolerance);
+          addIfClose(results, entity.center.x + entity.radius * Math.cos(startRad), entity.center.y + entity.radius * Math.sin(startRad), 'endpoint', idx, qx, qy, tolerance);
+          addIfClose(results, entity.center.x + entity.radius * Math.cos(endRad), entity.center.y + entity.radius * Math.sin(endRad), 'endpoint', idx, qx, qy, tolerance);
         }
         break;
       }
@@ -148,14 +165,14 @@ export function findSnaps(
       case 'POLYLINE': {
         if (snapTypes.has('endpoint')) {
           for (const v of entity.vertices) {
-            addIfClose(results, v.x, v.y, 'endpoint', idx, wx, wy, tolerance);
+            addIfClose(results, v.x, v.y, 'endpoint', idx, qx, qy, tolerance);
           }
         }
         if (snapTypes.has('midpoint')) {
           for (let i = 0; i < entity.vertices.length - 1; i++) {
             const a = entity.vertices[i]!;
             const b = entity.vertices[i + 1]!;
-            addIfClose(results, (a.x + b.x) / 2, (a.y + b.y) / 2, 'midpoint', idx, wx, wy, tolerance);
+            addIfClose(results, (a.x + b.x) / 2, (a.y + b.y) / 2, 'midpoint', idx, qx, qy, tolerance);
           }
         }
         break;
@@ -163,24 +180,125 @@ export function findSnaps(
 
       case 'ELLIPSE': {
         if (snapTypes.has('center')) {
-          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, wx, wy, tolerance);
+          addIfClose(results, entity.center.x, entity.center.y, 'center', idx, qx, qy, tolerance);
         }
         break;
       }
 
       case 'TEXT': {
         if (snapTypes.has('endpoint')) {
-          addIfClose(results, entity.insertionPoint.x, entity.insertionPoint.y, 'endpoint', idx, wx, wy, tolerance);
+          addIfClose(results, entity.insertionPoint.x, entity.insertionPoint.y, 'endpoint', idx, qx, qy, tolerance);
         }
         break;
       }
       case 'MTEXT': {
         if (snapTypes.has('endpoint')) {
-          addIfClose(results, entity.insertionPoint.x, entity.insertionPoint.y, 'endpoint', idx, wx, wy, tolerance);
+          addIfClose(results, entity.insertionPoint.x, entity.insertionPoint.y, 'endpoint', idx, qx, qy, tolerance);
+        }
+        break;
+      }
+
+      case 'LEADER': {
+        if (snapTypes.has('endpoint')) {
+          for (const v of entity.vertices) {
+            addIfClose(results, v.x, v.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+        }
+        break;
+      }
+
+      case 'XLINE': {
+        // The base point is the XLINE's midpoint
+        if (snapTypes.has('midpoint')) {
+          addIfClose(results, entity.basePoint.x, entity.basePoint.y, 'midpoint', idx, qx, qy, tolerance);
+        }
+        break;
+      }
+
+      case 'RAY': {
+        if (snapTypes.has('endpoint')) {
+          addIfClose(results, entity.basePoint.x, entity.basePoint.y, 'endpoint', idx, qx, qy, tolerance);
+        }
+        break;
+      }
+
+      case 'MLINE': {
+        // Element corners and ends
+        if (snapTypes.has('endpoint')) {
+          for (const p of mlineGeometry(entity).elements.flat(2)) {
+            addIfClose(results, p.x, p.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+        }
+        break;
+      }
+
+      case 'MULTILEADER': {
+        if (snapTypes.has('endpoint')) {
+          // Arrow tips and landing ends
+          for (const line of mleaderLines(entity)) {
+            addIfClose(results, line[0]!.x, line[0]!.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+          for (const [, end] of mleaderLandings(entity)) {
+            addIfClose(results, end.x, end.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+        }
+        break;
+      }
+
+      case 'SOLID':
+      case 'TRACE':
+      case '3DFACE': {
+        const [p1, p2, p3, p4] = entity.points;
+        if (snapTypes.has('endpoint')) {
+          for (const p of entity.points) {
+            addIfClose(results, p.x, p.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+        }
+        if (snapTypes.has('midpoint')) {
+          // SOLID/TRACE outlines run 1-2-4-3; 3DFACE edges run 1-2-3-4 and may be hidden
+          const outline = entity.type === '3DFACE' ? [p1, p2, p3, p4] : [p1, p2, p4, p3];
+          for (let i = 0; i < 4; i++) {
+            if (entity.type === '3DFACE' && entity.invisibleEdges & (1 << i)) continue;
+            const a = outline[i]!;
+            const b = outline[(i + 1) % 4]!;
+            if (a.x === b.x && a.y === b.y) continue; // collapsed corner of a triangle
+            addIfClose(results, (a.x + b.x) / 2, (a.y + b.y) / 2, 'midpoint', idx, qx, qy, tolerance);
+          }
+        }
+        break;
+      }
+
+      case 'IMAGE':
+      case 'WIPEOUT':
+      case 'VIEWPORT': {
+        // Corners of the image, viewport window or its clip boundary
+        if (snapTypes.has('endpoint')) {
+          const outline = entity.type === 'VIEWPORT' ? viewportOutline(entity) : imageOutline(entity);
+          for (const p of outline) {
+            addIfClose(results, p.x, p.y, 'endpoint', idx, qx, qy, tolerance);
+          }
+        }
+        break;
+      }
+
+      case 'ACAD_TABLE': {
+        // Grid line crossings
+        if (snapTypes.has('endpoint')) {
+          for (const p of tableGridPoints(entity)) {
+            addIfClose(results, p.x, p.y, 'endpoint', idx, qx, qy, tolerance);
+          }
         }
         break;
       }
     }
+
+    if (ocs) {
+      for (let r = firstResult; r < results.length; r++) {
+        const snap = results[r]!;
+        const [x, y] = transformPoint(ocs, snap.point.x, snap.point.y);
+        snap.point = { x, y };
+      }
+    }
   }
 
   results.sort((a, b) =>
@@ -1,7 +1,17 @@
 import RBush from 'rbush';
-import type { DxfEntity, DxfDocument, Point3D } from '../parser/types.js';
+import type { DxfEntity, DxfDocument, Point2D, Point3D } from '../parser/types.js';
 import type { BBox } from '../utils/bbox.js';
-import { computeEntityBBox, computeEntityBBoxWithDoc } from '../utils/bbox.js';
+import { computeEntityBBox, computeEntityBBoxWithDoc, computeHatchBBox } from '../utils/bbox.js';
+import { isPointInPolygons, tessellateHatchBoundary } from '../utils/hatch-boundary.js';
+import { getEntityOcsMatrix, invertMatrix, transformPoint } from '../utils/ocs.js';
+import { bulgeToArc } from '../utils/math.js';
+import { isWidePolyline, segmentWidths } from '../utils/polyline-width.js';
+import { mleaderLandings, mleaderLines } from '../utils/leader.js';
+import { isConstructionLine } from '../utils/construction-line.js';
+import { imageOutline } from '../utils/image.js';
+import { tableOutline } from '../utils/table.js';
+import { mlineGeometry } from '../utils/mline.js';
+import { viewportOutline } from '../utils/layout.js';
 
 export interface SpatialItem {
   minX: number;
@@ -18,6 +28,8 @@ export class SpatialIndex {
   private items: SpatialItem[] = [];
   /** Pre-computed bboxes parallel to the entity array (null if no bbox). */
   private entityBBoxes: (BBox | null)[] = [];
+  /** XLINE and RAY entities: unbounded, so they match every search. */
+  private unbounded: SpatialItem[] = [];
 
   /**
    * Build the spatial index from entities.
@@ -26,12 +38,17 @@ export class SpatialIndex {
    */
   build(entities: DxfEntity[], doc?: DxfDocument): void {
     this.items = [];
+    this.unbounded = [];
     this.entityBBoxes = new Array(entities.length).fill(null);
 
     const cache = doc ? new Map<string, BBox | null>() : undefined;
 
     for (let i = 0; i < entities.length; i++) {
       const entity = entities[i]!;
+      if (isConstructionLine(entity)) {
+        this.unbounded.push({ minX: -Infinity, minY: -Infinity, maxX: Infinity, maxY: Infinity, entityIndex: i });
+        continue;
+      }
       const bbox = doc && cache
         ? computeEntityBBoxWithDoc(entity, doc, cache)
         : computeEntityBBox(entity);
@@ -47,7 +64,8 @@ export class SpatialIndex {
   }
 
   search(minX: number, minY: number, maxX: number, maxY: number): SpatialItem[] {
-    return this.tree.search({ minX, minY, maxX, maxY });
+    const hits = this.tree.search({ minX, minY, maxX, maxY });
+    return this.unbounded.length > 0 ? hits.concat(this.unbounded) : hits;
   }
 
   /** Get pre-computed bbox for an entity by index. */
@@ -63,6 +81,7 @@ export class SpatialIndex {
   clear(): void {
     this.tree.clear();
     this.items = [];
+    this.unbounded = [];
     this.entityBBoxes = [];
   }
 }
@@ -108,6 +127,17 @@ export function hitTest(
 }
 
 export function distanceToEntity(wx: number, wy: number, entity: DxfEntity): number {
+  // Measure planar entities in their OCS: map the query point into the entity's
+  // plane. TEXT is tested against its bbox, which is already in WCS.
+  if (entity.type !== 'TEXT') {
+    const ocs = getEntityOcsMatrix(entity);
+    if (ocs) {
+      const inverse = invertMatrix(ocs);
+      if (!inverse) return Infinity;
+      [wx, wy] = transformPoint(inverse, wx, wy);
+    }
+  }
+
   switch (entity.type) {
     case 'LINE':
       return distPointToSegment(wx, wy, entity.start.x, entity.start.y, entity.end.x, entity.end.y);
@@ -129,11 +159,14 @@ export function distanceToEntity(wx: number, wy: number, entity: DxfEntity): num
       let minDist = Infinity;
       const verts = entity.vertices;
       const count = entity.closed ? verts.length : verts.length - 1;
+      const wide = isWidePolyline(entity);
       for (let i = 0; i < count; i++) {
         const a = verts[i]!;
         const b = verts[(i + 1) % verts.length]!;
-        const d = distPointToSegment(wx, wy, a.x, a.y, b.x, b.y);
-        minDist = Math.min(minDist, d);
+        const [d, t] = distPointToPolylineSegment(wx, wy, a.x, a.y, b.x, b.y, a.bulge);
+        // Wide segments: inside the band counts as a hit
+        const [w0, w1] = wide ? segmentWidths(entity, i) : [0, 0];
+        minDist = Math.min(minDist, Math.max(0, d - (w0 + (w1 - w0) * t) / 2));
       }
       return minDist;
     }
@@ -165,6 +198,119 @@ export function distanceToEntity(wx: number, wy: number, entity: DxfEntity): num
       return minDist;
     }
 
+    case 'HATCH': {
+      const bbox = computeHatchBBox(entity);
+      if (!bbox) return Infinity;
+      // Spline edges sampled relative to the hatch size
+      const resolution = Math.max(bbox.maxX - bbox.minX, bbox.maxY - bbox.minY) / 512;
+      const polygons = tessellateHatchBoundary(entity, resolution || 1);
+      // Clicks inside the filled area hit the hatch
+      if (isPointInPolygons(wx, wy, polygons)) return 0;
+      let minDist = Infinity;
+      for (const polygon of polygons) {
+        for (let i = 0; i < polygon.length; i++) {
+          const a = polygon[i]!;
+          const b = polygon[(i + 1) % polygon.length]!;
+          minDist = Math.min(minDist, distPointToSegment(wx, wy, a.x, a.y, b.x, b.y));
+        }
+      }
+      return minDist;
+    }
+
+    case 'SOLID':
+    case 'TRACE': {
+      const [p1, p2, p3, p4] = entity.points;
+      const outline = [p1, p2, p4, p3];
+      if (isPointInPolygons(wx, wy, [outline])) return 0;
+      let minDist = Infinity;
+      for (let i = 0; i < 4; i++) {
+        const a = outline[i]!;
+        const b = outline[(i + 1) % 4]!;
+        minDist = Math.min(minDist, distPointToSegment(wx, wy, a.x, a.y, b.x, b.y));
+      }
+      return minDist;
+    }
+
+    case 'LEADER':
+      return distPointToPath(wx, wy, entity.vertices);
+
+    case 'XLINE':
+    case 'RAY': {
+      const { x, y } = entity.basePoint;
+      const len = Math.hypot(entity.direction.x, entity.direction.y);
+      if (len < 1e-12) return Math.hypot(wx - x, wy - y);
+      const ux = entity.direction.x / len;
+      const uy = entity.direction.y / len;
+      const t = (wx - x) * ux + (wy - y) * uy;
+      // Behind a ray's start, the start point is nearest
+      if (entity.type === 'RAY' && t < 0) return Math.hypot(wx - x, wy - y);
+      return Math.abs((wx - x) * uy - (wy - y) * ux);
+    }
+
+    case 'MLINE': {
+      // Anywhere between the outermost elements hits the MLINE
+      const geometry = mlineGeometry(entity);
+      if (geometry.fill.length > 0 && isPointInPolygons(wx, wy, geometry.fill)) return 0;
+      let minDist = Infinity;
+      for (const piece of geometry.elements.flat()) {
+        minDist = Math.min(minDist, distPointToPath(wx, wy, piece));
+      }
+      return minDist;
+    }
+
+    case 'MULTILEADER': {
+      let minDist = Infinity;
+      for (const line of mleaderLines(entity)) {
+        minDist = Math.min(minDist, distPointToPath(wx, wy, line));
+      }
+      for (const landing of mleaderLandings(entity)) {
+        minDist = Math.min(minDist, distPointToPath(wx, wy, landing));
+      }
+      if (entity.mtext) minDist = Math.min(minDist, distanceToEntity(wx, wy, entity.mtext));
+      if (entity.block) {
+        minDist = Math.min(minDist, Math.hypot(wx - entity.block.position.x, wy - entity.block.position.y));
+      }
+      return minDist;
+    }
+
+    case 'IMAGE':
+    case 'WIPEOUT':
+    case 'ACAD_TABLE': {
+      const outline = entity.type === 'ACAD_TABLE' ? tableOutline(entity) : imageOutline(entity);
+      if (isPointInPolygons(wx, wy, [outline])) return 0;
+      let minDist = Infinity;
+      for (let i = 0; i < outline.length; i++) {
+        const a = outline[i]!;
+        const b = outline[(i + 1) % outline.length]!;
+        minDist = Math.min(minDist, distPointToSegment(wx, wy, a.x, a.y, b.x, b.y));
+      }
+      return minDist;
+    }
+
+    case '3DFACE': {
+      // Only visible edges can be picked
+      let minDist = Infinity;
+      for (let i = 0; i < 4; i++) {
+        if (entity.invisibleEdges & (1 << i)) continue;
+        const a = entity.points[i]!;
+        const b = entity.points[(i + 1) % 4]!;
+        minDist = Math.min(minDist, distPointToSegment(wx, wy, a.x, a.y, b.x, b.y));
+      }
+      return minDist;
+    }
+
+    case 'VIEWPORT': {
+      // Only the frame: paper space entities drawn over the window stay pickable
+      const outline = viewportOutline(entity);
+      let minDist = Infinity;
+      for (let i = 0; i < outline.length; i++) {
+        const a = outline[i]!;
+        const b = outline[(i + 1) % outline.length]!;
+        minDist = Math.min(minDist, distPointToSegment(wx, wy, a.x, a.y, b.x, b.y));
+      }
+      return minDist;
+    }
+
     default:
       return Infinity;
   }
@@ -191,6 +337,17 @@ export function distPointToSegment(
   return Math.hypot(px - projX, py - projY);
 }
 
+/** Distance from a point to an open path of straight segments. */
+function distPointToPath(px: number, py: number, points: Point2D[]): number {
+  let minDist = Infinity;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i]!;
+    const b = points[i + 1]!;
+    minDist = Math.min(minDist, distPointToSegment(px, py, a.x, a.y, b.x, b.y));
+  }
+  return minDist;
+}
+
 export function distPointToCircle(
   px: number, py: number,
   cx: number, cy: number,
@@ -199,6 +356,40 @@ export function distPointToCircle(
   return Math.abs(Math.hypot(px - cx, py - cy) - radius);
 }
 
+/**
+ * Distance from a point to a polyline segment (straight or bulge arc), and
+ * the closest position along the segment as a 0–1 fraction.
+ */
+function distPointToPolylineSegment(
+  px: number, py: number,
+  x1: number, y1: number,
+  x2: number, y2: number,
+  bulge: number,
+): [number, number] {
+  if (Math.abs(bulge) < 1e-10) {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lenSq)) : 0;
+    return [distPointToSegment(px, py, x1, y1, x2, y2), t];
+  }
+
+  const arc = bulgeToArc(x1, y1, x2, y2, bulge);
+  const start = Math.atan2(y1 - arc.cy, x1 - arc.cx);
+  const sweep = 4 * Math.atan(bulge);
+  const d = sweep > 0
+    ? distPointToArc(px, py, arc.cx, arc.cy, arc.radius, start, start + sweep)
+    : distPointToArc(px, py, arc.cx, arc.cy, arc.radius, start + sweep, start);
+
+  // Angle travelled from the start, in the arc's direction
+  const TAU = 2 * Math.PI;
+  const travelled = ((Math.sign(sweep) * (Math.atan2(py - arc.cy, px - arc.cx) - start)) % TAU + TAU) % TAU;
+  const span = Math.abs(sweep);
+  // Beyond the end: snap to whichever end is angularly closer
+  const t = travelled <= span ? travelled / span : travelled - span < TAU - travelled ? 1 : 0;
+  return [d, t];
+}
+
 export function distPointToArc(
   px: number, py: number,
   cx: number, cy: number,
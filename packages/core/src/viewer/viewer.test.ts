@@ -8,6 +8,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { FormatConverter } from './viewer.js';
 import type { DxfDocument } from '../parser/types.js';
+import { worldToScreen } from '../renderer/camera.js';
 
 // ============================================================
 // Browser API mocks
@@ -509,6 +510,376 @@ describe('CadViewer', () => {
     });
   });
 
+  // ----------------------------------------------------------
+  // getBlockAttributes
+  // ----------------------------------------------------------
+
+  describe('getBlockAttributes', () => {
+    const TITLE_DXF = [
+      '0', 'SECTION', '2', 'BLOCKS',
+      '0', 'BLOCK', '2', 'TITLE', '70', '2', '10', '0', '20', '0',
+      '0', 'ATTDEF', '10', '0', '20', '0', '1', '1', '3', 'Sheet number', '2', 'SHEET', '70', '0',
+      '0', 'ATTDEF', '10', '0', '20', '2', '1', '-', '3', 'Drawn by', '2', 'DRAWN', '70', '0',
+      '0', 'ENDBLK',
+      '0', 'ENDSEC',
+      '0', 'SECTION', '2', 'ENTITIES',
+      '0', 'LINE', '8', '0', '10', '0', '20', '0', '11', '1', '21', '1',
+      '0', 'INSERT', '8', '0', '2', 'TITLE', '10', '0', '20', '0', '66', '1',
+      '0', 'ATTRIB', '10', '0', '20', '2', '1', 'JK', '2', 'DRAWN', '70', '0',
+      '0', 'SEQEND',
+      '0', 'ENDSEC',
+      '0', 'EOF',
+    ].join('\n');
+
+    it('merges ATTDEF defaults with the INSERT\'s ATTRIB values', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(TITLE_DXF);
+
+      expect(viewer.getBlockAttributes(1).map(a => [a.tag, a.prompt, a.value])).toEqual([
+        ['SHEET', 'Sheet number', '1'],
+        ['DRAWN', 'Drawn by', 'JK'],
+      ]);
+      expect(viewer.getBlockAttributes(0)).toEqual([]);
+      expect(viewer.getBlockAttributes(5)).toEqual([]);
+      viewer.destroy();
+    });
+  });
+
+  // ----------------------------------------------------------
+  // Layouts
+  // ----------------------------------------------------------
+
+  describe('layouts', () => {
+    const LAYOUT_DXF = [
+      '0', 'SECTION', '2', 'BLOCKS',
+      '0', 'BLOCK', '330', '1E', '2', '*Paper_Space', '70', '0', '10', '0', '20', '0',
+      '0', 'ENDBLK',
+      '0', 'ENDSEC',
+      '0', 'SECTION', '2', 'ENTITIES',
+      '0', 'LINE', '8', '0', '10', '0', '20', '0', '11', '10', '21', '10',
+      '0', 'VIEWPORT', '67', '1', '8', '0', '10', '100', '20', '100', '40', '50', '41', '50',
+      '68', '1', '69', '2', '12', '5', '22', '5', '45', '10',
+      '0', 'TEXT', '67', '1', '8', '0', '10', '10', '20', '10', '40', '5', '1', 'Title',
+      '0', 'ENDSEC',
+      '0', 'SECTION', '2', 'OBJECTS',
+      '0', 'LAYOUT', '5', '50', '100', 'AcDbLayout', '1', 'Sheet', '71', '1',
+      '10', '0', '20', '0', '11', '200', '21', '150', '330', '1E',
+      '0', 'LAYOUT', '5', '51', '100', 'AcDbLayout', '1', 'Model', '71', '0', '330', '1A',
+      '0', 'ENDSEC',
+      '0', 'EOF',
+    ].join('\n');
+
+    function addLayoutMocks(canvas: HTMLCanvasElement) {
+      return Object.assign(canvas.getContext('2d') as any, {
+        transform: vi.fn(),
+        closePath: vi.fn(),
+        clip: vi.fn(),
+      });
+    }
+
+    it('lists layouts in tab order and starts in model space', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(LAYOUT_DXF);
+
+      expect(viewer.getLayouts().map(l => l.name)).toEqual(['Model', 'Sheet']);
+      expect(viewer.getActiveLayout()).toBe('Model');
+      expect(viewer.getEntities().map(e => e.type)).toEqual(['LINE']);
+      viewer.destroy();
+    });
+
+    it('renders the sheet with model space scaled into each viewport', () => {
+      const canvas = createMockCanvas();
+      const ctx = addLayoutMocks(canvas);
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(LAYOUT_DXF);
+      const onViewChange = vi.fn();
+      viewer.on('viewchange', onViewChange);
+
+      viewer.setActiveLayout('Sheet');
+
+      expect(viewer.getActiveLayout()).toBe('Sheet');
+      expect(viewer.getEntities().map(e => e.type)).toEqual(['VIEWPORT', 'TEXT']);
+      expect(ctx.strokeRect).toHaveBeenCalledWith(0, 0, 200, 150);
+      expect(ctx.clip).toHaveBeenCalled();
+      // 10 model units fill the 50 unit high window centered on (100, 100)
+      const matrix = ctx.transform.mock.calls[0] as number[];
+      [5, 0, 0, 5, 75, 75].forEach((value, i) => expect(matrix[i]).toBeCloseTo(value));
+      expect(ctx.fillText).toHaveBeenCalledWith('Title', expect.any(Number), expect.any(Number));
+      // Fitted to the sheet limits
+      expect(onViewChange).toHaveBeenCalled();
+      viewer.destroy();
+    });
+
+    it('switches back to model space and rejects unknown layouts', () => {
+      const canvas = createMockCanvas();
+      addLayoutMocks(canvas);
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(LAYOUT_DXF);
+
+      viewer.setActiveLayout('Sheet');
+      viewer.setActiveLayout('Model');
+      expect(viewer.getEntities().map(e => e.type)).toEqual(['LINE']);
+      expect(() => viewer.setActiveLayout('Missing')).toThrow('unknown layout "Missing"');
+      viewer.destroy();
+    });
+  });
+
+  // ----------------------------------------------------------
+  // Saved and named views
+  // ----------------------------------------------------------
+
+  describe('saved views', () => {
+    function viewsDxf(vport: string[], ...views: string[][]): string {
+      return [
+        '0', 'SECTION', '2', 'HEADER', '9', '$EXTMIN', '10', '0', '20', '0', '9', '$EXTMAX', '10', '10', '20', '10', '0', 'ENDSEC',
+        '0', 'SECTION', '2', 'TABLES',
+        '0', 'TABLE', '2', 'VPORT', '0', 'VPORT', '2', '*ACTIVE', ...vport, '0', 'ENDTAB',
+        '0', 'TABLE', '2', 'VIEW', ...views.flatMap(view => ['0', 'VIEW', ...view]), '0', 'ENDTAB',
+        '0', 'ENDSEC',
+        '0', 'SECTION', '2', 'ENTITIES', '0', 'LINE', '8', '0', '10', '0', '20', '0', '11', '10', '21', '10', '0', 'ENDSEC',
+        '0', 'EOF',
+      ].join('\n');
+    }
+
+    // 200 × 100 window centered on (50, 25)
+    const SAVED = ['12', '50', '22', '25', '40', '100', '41', '2'];
+    const DETAIL = ['2', 'Detail', '10', '10', '20', '10', '40', '30', '41', '40'];
+    const ISO = ['2', 'Iso', '11', '1', '21', '-1', '31', '1', '40', '30', '41', '40'];
+
+    it('fits extents by default', () => {
+      const viewer = new CadViewer(createMockCanvas());
+      viewer.loadString(viewsDxf(SAVED));
+      expect(viewer.getViewTransform().scale).not.toBe(4);
+      viewer.destroy();
+    });
+
+    it('restores the *ACTIVE viewport with initialView "saved"', () => {
+      const viewer = new CadViewer(createMockCanvas(), { initialView: 'saved' });
+      viewer.loadString(viewsDxf(SAVED));
+      expect(viewer.getViewTransform()).toEqual({ scale: 4, offsetX: 200, offsetY: 400 });
+      viewer.destroy();
+    });
+
+    it('turns the saved view by its twist angle about the target', () => {
+      const viewer = new CadViewer(createMockCanvas(), { initialView: 'saved' });
+      viewer.loadString(viewsDxf(['17', '10', '27', '20', '37', '0', '40', '100', '41', '2', '51', '90']));
+      const vt = viewer.getViewTransform();
+      expect(vt.rotation).toBeCloseTo(Math.PI / 2);
+      const [cx, cy] = worldToScreen(vt, 10, 20);
+      expect(cx).toBeCloseTo(400);
+      expect(cy).toBeCloseTo(300);
+      // World +X points up the screen
+      const [px, py] = worldToScreen(vt, 11, 20);
+      expect(px).toBeCloseTo(400);
+      expect(py).toBeCloseTo(296);
+      viewer.destroy();
+    });
+
+    it('falls back to extents for a 3D saved view and applies a given transform', () => {
+      const fallback = new CadViewer(createMockCanvas(), { initialView: 'saved' });
+      fallback.loadString(viewsDxf([...SAVED, '16', '1', '26', '1', '36', '1']));
+      expect(fallback.getViewTransform().scale).not.toBe(4);
+      fallback.destroy();
+
+      const given = new CadViewer(createMockCanvas(), { initialView: { scale: 2, offsetX: 10, offsetY: 20 } });
+      given.loadString(viewsDxf(SAVED));
+      expect(given.getViewTransform()).toEqual({ scale: 2, offsetX: 10, offsetY: 20 });
+      given.destroy();
+    });
+
+    it('lists named views and jumps to them', () => {
+      const viewer = new CadViewer(createMockCanvas());
+      viewer.loadString(viewsDxf(SAVED, DETAIL, ISO));
+      const onViewChange = vi.fn();
+      viewer.on('viewchange', onViewChange);
+
+      expect(viewer.getViews().map(v => v.name)).toEqual(['Detail', 'Iso']);
+      viewer.setView('detail');
+      expect(viewer.getViewTransform()).toEqual({ scale: 20, offsetX: 200, offsetY: 500 });
+      expect(onViewChange).toHaveBeenCalledOnce();
+      expect(() => viewer.setView('Missing')).toThrow('unknown view "Missing"');
+      expect(() => viewer.setView('Iso')).toThrow('"Iso" is not a plan view');
+      viewer.destroy();
+    });
+  });
+
+  // ----------------------------------------------------------
+  // Extended data
+  // ----------------------------------------------------------
+
+  describe('extended data', () => {
+    const XDATA_DXF = [
+      '0', 'SECTION', '2', 'ENTITIES',
+      '0', 'LINE', '5', '2A', '330', '1F', '8', '0', '10', '0', '20', '0', '11', '10', '21', '0',
+      '1001', 'ACME_BIM', '1000', 'P-101', '1002', '{', '1070', '7', '1002', '}',
+      '0', 'LINE', '5', '2B', '8', '0', '10', '0', '20', '5', '11', '10', '21', '5',
+      '1001', 'ACME_BIM', '1000', 'P-102',
+      '0', 'LINE', '5', '2C', '8', '0', '10', '0', '20', '9', '11', '10', '21', '9',
+      '0', 'ENDSEC',
+      '0', 'EOF',
+    ].join('\n');
+
+    it('keeps XDATA and the owner handle on parsed entities', () => {
+      const viewer = new CadViewer(createMockCanvas());
+      viewer.loadString(XDATA_DXF);
+      const [first] = viewer.getEntities();
+      expect(first!.ownerHandle).toBe('1F');
+      expect(first!.xdata?.ACME_BIM?.[0]).toEqual({ type: 'string', code: 1000, value: 'P-101' });
+      viewer.destroy();
+    });
+
+    it('finds entities by application and value', () => {
+      const viewer = new CadViewer(createMockCanvas());
+      viewer.loadString(XDATA_DXF);
+      expect(viewer.findEntitiesByXData('acme_bim')).toEqual([0, 1]);
+      expect(viewer.findEntitiesByXData('ACME_BIM', 'P-102')).toEqual([1]);
+      expect(viewer.findEntitiesByXData('ACME_BIM', 7)).toEqual([0]);
+      expect(viewer.findEntitiesByXData('OTHER')).toEqual([]);
+      viewer.destroy();
+    });
+  });
+
+  // ----------------------------------------------------------
+  // Raster images
+  // ----------------------------------------------------------
+
+  describe('resolveImage', () => {
+    function createImageDocument(): DxfDocument {
+      const doc = createMinimalDxfDocument();
+      doc.imageDefs = new Map([['2A', { handle: '2A', fileName: 'aerial.png', imageSize: { x: 10, y: 10 } }]]);
+      doc.entities = [
+        {
+          type: 'IMAGE', layer: '0', color: 256, lineType: 'BYLAYER', lineTypeScale: 1, lineWeight: -1,
+          visible: true, extrusion: { x: 0, y: 0, z: 1 },
+          insertionPoint: { x: 0, y: 0, z: 0 }, uVector: { x: 1, y: 0, z: 0 }, vVector: { x: 0, y: 1, z: 0 },
+          imageSize: { x: 10, y: 10 }, imageDefHandle: '2A', displayFlags: 7,
+          clipping: false, clipInverted: false, brightness: 50, contrast: 50, fade: 0, clipBoundary: [],
+        },
+        {
+          type: 'LINE', layer: '0', color: 256, lineType: 'BYLAYER', lineTypeScale: 1, lineWeight: -1,
+          visible: true, extrusion: { x: 0, y: 0, z: 1 },
+          start: { x: 0, y: 0, z: 0 }, end: { x: 10, y: 10, z: 0 },
+        },
+      ];
+      return doc;
+    }
+
+    function addImageMocks(canvas: HTMLCanvasElement) {
+      return Object.assign(canvas.getContext('2d') as any, {
+        transform: vi.fn(),
+        closePath: vi.fn(),
+        clip: vi.fn(),
+        drawImage: vi.fn(),
+        globalAlpha: 1,
+      });
+    }
+
+    it('resolves image files and draws them underneath vector content', async () => {
+      const canvas = createMockCanvas();
+      const ctx = addImageMocks(canvas);
+      const bitmap = { width: 10, height: 10 };
+      const resolveImage = vi.fn().mockResolvedValue(bitmap);
+      const viewer = new CadViewer(canvas, { resolveImage });
+
+      viewer.loadDocument(createImageDocument());
+      expect(ctx.drawImage).not.toHaveBeenCalled();
+
+      await new Promise(r => setTimeout(r, 0));
+      expect(resolveImage).toHaveBeenCalledWith('aerial.png');
+      expect(ctx.drawImage).toHaveBeenCalledWith(bitmap, 0, 0, 10, 10);
+      // The line is stroked after the image
+      const imageOrder = ctx.drawImage.mock.invocationCallOrder[0]!;
+      expect(ctx.lineTo.mock.invocationCallOrder.at(-1)!).toBeGreaterThan(imageOrder);
+      viewer.destroy();
+    });
+
+    it('discards images resolved for a cleared document', async () => {
+      const canvas = createMockCanvas();
+      const ctx = addImageMocks(canvas);
+      const viewer = new CadViewer(canvas, { resolveImage: vi.fn().mockResolvedValue({}) });
+
+      viewer.loadDocument(createImageDocument());
+      viewer.clearDocument();
+      viewer.loadDocument(createMinimalDxfDocument());
+      await new Promise(r => setTimeout(r, 0));
+      expect(ctx.drawImage).not.toHaveBeenCalled();
+      viewer.destroy();
+    });
+
+    it('closes the bitmaps it decoded when the images are replaced or the viewer is destroyed', async () => {
+      const bitmaps: { close: ReturnType<typeof vi.fn> }[] = [];
+      vi.stubGlobal('createImageBitmap', vi.fn(async () => {
+        const bitmap = { width: 10, height: 10, close: vi.fn() };
+        bitmaps.push(bitmap);
+        return bitmap;
+      }));
+      try {
+        const canvas = createMockCanvas();
+        addImageMocks(canvas);
+        const viewer = new CadViewer(canvas, { resolveImage: vi.fn().mockResolvedValue(new Blob()) });
+
+        viewer.loadDocument(createImageDocument());
+        await new Promise(r => setTimeout(r, 0));
+        expect(bitmaps).toHaveLength(1);
+        expect(bitmaps[0]!.close).not.toHaveBeenCalled();
+
+        viewer.loadDocument(createImageDocument());
+        expect(bitmaps[0]!.close).toHaveBeenCalledOnce();
+        await new Promise(r => setTimeout(r, 0));
+
+        viewer.destroy();
+        expect(bitmaps[1]!.close).toHaveBeenCalledOnce();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('closes bitmaps decoded for a superseded document', async () => {
+      const close = vi.fn();
+      vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 10, height: 10, close })));
+      try {
+        const canvas = createMockCanvas();
+        const ctx = addImageMocks(canvas);
+        const viewer = new CadViewer(canvas, { resolveImage: vi.fn().mockResolvedValue(new Blob()) });
+
+        viewer.loadDocument(createImageDocument());
+        viewer.clearDocument();
+        await new Promise(r => setTimeout(r, 0));
+        expect(close).toHaveBeenCalledOnce();
+        expect(ctx.drawImage).not.toHaveBeenCalled();
+        viewer.destroy();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('does not close bitmaps returned by resolveImage', async () => {
+      const canvas = createMockCanvas();
+      addImageMocks(canvas);
+      const bitmap = { width: 10, height: 10, close: vi.fn() };
+      const viewer = new CadViewer(canvas, { resolveImage: vi.fn().mockResolvedValue(bitmap) });
+
+      viewer.loadDocument(createImageDocument());
+      await new Promise(r => setTimeout(r, 0));
+      viewer.destroy();
+      expect(bitmap.close).not.toHaveBeenCalled();
+    });
+
+    it('keeps drawing the frame when resolving fails', async () => {
+      const canvas = createMockCanvas();
+      const ctx = addImageMocks(canvas);
+      const viewer = new CadViewer(canvas, { resolveImage: vi.fn().mockRejectedValue(new Error('404')) });
+
+      viewer.loadDocument(createImageDocument());
+      await new Promise(r => setTimeout(r, 0));
+      expect(ctx.drawImage).not.toHaveBeenCalled();
+      expect(ctx.closePath).toHaveBeenCalled();
+      viewer.destroy();
+    });
+  });
+
   // ----------------------------------------------------------
   // FormatConverter — loadBuffer
   // ----------------------------------------------------------
@@ -760,6 +1131,106 @@ describe('CadViewer', () => {
     });
   });
 
+  // ----------------------------------------------------------
+  // Lineweight display mode
+  // ----------------------------------------------------------
+
+  describe('lineweight mode', () => {
+    it('defaults to screen', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      expect(viewer.getLineWeightMode()).toBe('screen');
+      viewer.destroy();
+    });
+
+    it('accepts lineWeightMode in options and setLineWeightMode at runtime', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas, { lineWeightMode: 'off' });
+      expect(viewer.getLineWeightMode()).toBe('off');
+
+      viewer.loadString(DXF_WITH_EXTENTS);
+      viewer.setLineWeightMode('true');
+      expect(viewer.getLineWeightMode()).toBe('true');
+      viewer.destroy();
+    });
+
+    it('throws on setLineWeightMode after destroy', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.destroy();
+      expect(() => viewer.setLineWeightMode('off')).toThrow(
+        'CadViewer: cannot call methods on a destroyed instance.',
+      );
+    });
+  });
+
+  // ----------------------------------------------------------
+  // Layer overrides
+  // ----------------------------------------------------------
+
+  describe('layer overrides', () => {
+    it('sets and clears a layer color override', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(MINIMAL_DXF);
+
+      viewer.setLayerColor('0', '#ff0000');
+      expect(viewer.getLayerColor('0')).toBe('#ff0000');
+
+      viewer.clearLayerColor('0');
+      expect(viewer.getLayerColor('0')).toBeUndefined();
+      viewer.destroy();
+    });
+
+    it('emits layerchange with the layer state', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(MINIMAL_DXF);
+      const events: unknown[] = [];
+      viewer.on('layerchange', (e) => events.push(e));
+
+      viewer.setLayerColor('0', '#ff0000');
+      viewer.setLayerVisible('0', false);
+      viewer.clearLayerColor('0');
+
+      expect(events).toEqual([
+        { layer: '0', visible: true, color: '#ff0000' },
+        { layer: '0', visible: false, color: '#ff0000' },
+        { layer: '0', visible: false, color: undefined },
+      ]);
+      viewer.destroy();
+    });
+
+    it('resetLayerOverrides restores DXF visibility and colors', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.loadString(MINIMAL_DXF);
+      const listener = vi.fn();
+      viewer.on('layerchange', listener);
+
+      viewer.setLayerVisible('0', false);
+      viewer.setLayerColor('0', '#00ff00');
+      viewer.resetLayerOverrides();
+
+      expect(viewer.isLayerVisible('0')).toBe(true);
+      expect(viewer.getLayerColor('0')).toBeUndefined();
+      expect(listener).toHaveBeenLastCalledWith({ layer: null });
+      viewer.destroy();
+    });
+
+    it('throws on clearLayerColor and resetLayerOverrides after destroy', () => {
+      const canvas = createMockCanvas();
+      const viewer = new CadViewer(canvas);
+      viewer.destroy();
+      expect(() => viewer.clearLayerColor('0')).toThrow(
+        'CadViewer: cannot call methods on a destroyed instance.',
+      );
+      expect(() => viewer.resetLayerOverrides()).toThrow(
+        'CadViewer: cannot call methods on a destroyed instance.',
+      );
+    });
+  });
+
   // ----------------------------------------------------------
   // Debug Mode
   // ----------------------------------------------------------
@@ -1,20 +1,35 @@
-import type { DxfDocument, DxfEntity, DxfLayer } from '../parser/types.js';
+import type { DxfDocument, DxfEntity, DxfLayer, DxfLayout, DxfView } from '../parser/types.js';
 import type { ViewTransform } from '../renderer/camera.js';
 import type { Theme } from '../renderer/theme.js';
+import type { LineWeightMode } from '../renderer/resolve-lineweight.js';
 import type { CadViewerEventMap } from './events.js';
 import type { RenderStats, DebugStats } from '../renderer/debug-overlay.js';
+import type { ShxFont } from '../renderer/shx-font.js';
+import type { FontMappings } from '../renderer/fonts.js';
+import type { BlockAttribute } from '../utils/attributes.js';
+import type { BBox } from '../utils/bbox.js';
 import { parseDxf } from '../parser/index.js';
 import { CanvasRenderer } from '../renderer/canvas-renderer.js';
-import { Camera, fitToView, screenToWorld } from '../renderer/camera.js';
+import { Camera, fitToView, fitViewWindow, screenToWorld, worldToScreen } from '../renderer/camera.js';
 import { LayerManager } from './layers.js';
 import { EventEmitter } from './events.js';
 import { InputHandler } from './input-handler.js';
 import { SpatialIndex, hitTest } from './selection.js';
 import { MeasureTool, findSnaps, renderMeasureOverlay } from './measure.js';
 import { computeEntitiesBounds, buildBlockEntityBBoxCache, setBlockEntityBBoxCache, clearBlockEntityBBoxCache } from '../utils/bbox.js';
+import { getEntityText, getTableCells } from '../utils/entity-text.js';
+import { getReferencedImageDefs } from '../utils/image.js';
+import { getBlockAttributes } from '../utils/attributes.js';
+import { getXData, xdataContains } from '../utils/xdata.js';
+import { MODEL_LAYOUT, getLayoutEntities, getSortedLayouts, isModelLayout } from '../utils/layout.js';
+import type { ViewWindow } from '../utils/view.js';
+import { activeVPort, findView, namedViewWindow, vportViewWindow } from '../utils/view.js';
 import { renderDebugOverlay, resolveDebugOptions } from '../renderer/debug-overlay.js';
 import { WorkerManager } from '../worker/worker-manager.js';
+import { parseShxFont } from '../renderer/shx-font.js';
+import { createFontMappings, shxFontKey } from '../renderer/fonts.js';
 export type { DebugOptions, DebugStats, RenderStats } from '../renderer/debug-overlay.js';
+export type { LineWeightMode } from '../renderer/resolve-lineweight.js';
 
 export type Tool = 'pan' | 'select' | 'measure';
 
@@ -46,8 +61,44 @@ export interface CadViewerOptions {
   maxZoom?: number;
   zoomSpeed?: number;
   initialTool?: Tool;
+  /**
+   * How entity lineweights (code 370) are displayed:
+   * `'off'` draws every stroke 1px wide, `'screen'` uses a fixed on-screen
+   * width per lineweight, `'true'` draws the plotted width in drawing units.
+   * @default 'screen'
+   */
+  lineWeightMode?: LineWeightMode;
+  /**
+   * View shown when a document loads: `'extents'` fits the drawing,
+   * `'saved'` restores the view saved in the drawing's `*ACTIVE` viewport
+   * (falling back to extents for 3D or missing views), and a ViewTransform
+   * is applied as given.
+   * @default 'extents'
+   */
+  initialView?: 'extents' | 'saved' | ViewTransform;
   /** Format converters for non-DXF file formats (e.g. DWG via @cadview/dwg). */
   formatConverters?: FormatConverter[];
+  /**
+   * Compiled SHX fonts by file name (e.g. `{ 'romans.shx': buffer }`).
+   * Text whose STYLE uses one of these fonts, or its big font, is drawn
+   * with the font's vector strokes. Other fonts are mapped to CSS fonts.
+   */
+  fonts?: Record<string, ArrayBuffer>;
+  /**
+   * CSS font families for CAD font files, style names or MTEXT font families
+   * (e.g. `{ 'romans.shx': '"Roboto Mono", monospace' }`), matched
+   * case-insensitively before the built-in table.
+   */
+  fontMappings?: Record<string, string>;
+  /**
+   * Load the raster file of an IMAGE entity from the path stored in its
+   * IMAGEDEF (e.g. by fetching it relative to the drawing). Images are drawn
+   * underneath the vector content once resolved; until then, or if the
+   * promise rejects, only their frame is drawn. Bitmaps the viewer decodes
+   * from returned Blobs are closed when the document is replaced; returned
+   * ImageBitmaps are left for the caller to close.
+   */
+  resolveImage?: (path: string) => Promise<ImageBitmap | Blob>;
   /**
    * Enable a debug overlay showing FPS, render stats, document info, timing, and camera data.
    * Pass `true` for defaults, or an object for granular control.
@@ -71,6 +122,8 @@ interface ResolvedOptions {
   maxZoom: number;
   zoomSpeed: number;
   initialTool: Tool;
+  lineWeightMode: LineWeightMode;
+  initialView: 'extents' | 'saved' | ViewTransform;
 }
 
 export class CadViewer {
@@ -87,8 +140,19 @@ export class CadViewer {
   private inputHandler: InputHandler;
   private resizeObserver: ResizeObserver;
   private formatConverters: FormatConverter[];
+  private shxFonts: Map<string, ShxFont> = new Map();
+  private fontMappings: FontMappings;
+  private resolveImage: ((path: string) => Promise<ImageBitmap | Blob>) | undefined;
+  /** Resolved IMAGE bitmaps, keyed by IMAGEDEF handle. */
+  private images: Map<string, CanvasImageSource> = new Map();
+  /** Bitmaps the viewer decoded from resolved Blobs; closed when the images are released. */
+  private decodedBitmaps: Set<ImageBitmap> = new Set();
   private workerManager: WorkerManager | null = null;
   private selectedEntityIndex: number = -1;
+  /** Paper space layout being shown; null for model space. */
+  private activeLayout: DxfLayout | null = null;
+  /** Model space entity bboxes, kept for viewport culling while a layout is shown. */
+  private modelBBoxes: (BBox | null)[] = [];
   private renderPending: boolean = false;
   private destroyed: boolean = false;
   private loadGeneration: number = 0;
@@ -119,9 +183,17 @@ export class CadViewer {
       maxZoom: options?.maxZoom ?? 100000,
       zoomSpeed: options?.zoomSpeed ?? 1.1,
       initialTool: options?.initialTool ?? 'pan',
+      lineWeightMode: options?.lineWeightMode ?? 'screen',
+      initialView: options?.initialView ?? 'extents',
     };
 
     this.formatConverters = options?.formatConverters ?? [];
+    this.resolveImage = options?.resolveImage;
+
+    this.fontMappings = createFontMappings(options?.fontMappings ?? {});
+    for (const [name, buffer] of Object.entries(options?.fonts ?? {})) {
+      this.shxFonts.set(shxFontKey(name), parseShxFont(buffer));
+    }
 
     // Worker for off-main-thread parsing
     if (options?.worker) {
@@ -324,7 +396,10 @@ export class CadViewer {
     this.guardDestroyed();
     ++this.loadGeneration;
     this.doc = null;
+    this.releaseImages();
     this.selectedEntityIndex = -1;
+    this.activeLayout = null;
+    this.modelBBoxes = [];
     this.spatialIndex.clear();
     clearBlockEntityBBoxCache();
     this.layerManager.clear();
@@ -340,7 +415,9 @@ export class CadViewer {
 
     // Build spatial index and block entity bbox cache (timed for debug stats)
     const t0 = performance.now();
+    this.activeLayout = null;
     this.spatialIndex.build(this.doc.entities, this.doc);
+    this.modelBBoxes = this.spatialIndex.getEntityBBoxes();
     setBlockEntityBBoxCache(buildBlockEntityBBoxCache(this.doc));
     this.spatialIndexBuildTime = performance.now() - t0;
 
@@ -351,8 +428,73 @@ export class CadViewer {
       this.measureTool.activate();
     }
 
-    // Fit to view
-    this.fitToView();
+    this.applyInitialView();
+
+    this.loadImages();
+  }
+
+  /**
+   * Resolve the files of the document's IMAGE entities through the
+   * `resolveImage` option, re-rendering as each one arrives. Results for a
+   * superseded document are discarded.
+   */
+  private loadImages(): void {
+    this.releaseImages();
+    const resolveImage = this.resolveImage;
+    const imageDefs = this.doc?.imageDefs;
+    if (!resolveImage || !imageDefs || imageDefs.size === 0) return;
+
+    const generation = this.loadGeneration;
+    for (const handle of getReferencedImageDefs(this.doc!)) {
+      const def = imageDefs.get(handle);
+      if (!def?.fileName) continue;
+
+      Promise.resolve()
+        .then(() => resolveImage(def.fileName))
+        .then(async result => (
+          result instanceof Blob
+            ? { bitmap: await createImageBitmap(result), decoded: true }
+            : { bitmap: result, decoded: false }
+        ))
+        .then(
+          ({ bitmap, decoded }) => {
+            if (this.destroyed || generation !== this.loadGeneration) {
+              if (decoded) bitmap.close();
+              return;
+            }
+            if (decoded) this.decodedBitmaps.add(bitmap);
+            // Replace the map so the change is picked up like a font load
+            this.images = new Map(this.images).set(handle, bitmap);
+            this.requestRender();
+          },
+          () => {
+            // Unresolved images keep being drawn as frames
+          },
+        );
+    }
+  }
+
+  /** Drop the resolved images, closing the bitmaps the viewer decoded itself. */
+  private releaseImages(): void {
+    for (const bitmap of this.decodedBitmaps) bitmap.close();
+    this.decodedBitmaps.clear();
+    this.images = new Map();
+  }
+
+  /** Show the view chosen by the `initialView` option. */
+  private applyInitialView(): void {
+    const initialView = this.options.initialView;
+    if (typeof initialView === 'object') {
+      this.setViewTransform(initialView);
+      return;
+    }
+    const vport = initialView === 'saved' && this.doc ? activeVPort(this.doc) : undefined;
+    const saved = vport ? vportViewWindow(vport) : null;
+    if (saved) {
+      this.showViewWindow(saved);
+    } else {
+      this.fitToView();
+    }
   }
 
   // === Camera Controls ===
@@ -386,9 +528,7 @@ export class CadViewer {
   panTo(worldX: number, worldY: number): void {
     this.guardDestroyed();
     const rect = this.canvas.getBoundingClientRect();
-    const vt = this.camera.getTransform();
-    const currentSX = worldX * vt.scale + vt.offsetX;
-    const currentSY = -worldY * vt.scale + vt.offsetY;
+    const [currentSX, currentSY] = worldToScreen(this.camera.getTransform(), worldX, worldY);
     const dx = rect.width / 2 - currentSX;
     const dy = rect.height / 2 - currentSY;
     this.camera.pan(dx, dy);
@@ -400,6 +540,44 @@ export class CadViewer {
     return { ...this.camera.getTransform() };
   }
 
+  setViewTransform(vt: ViewTransform): void {
+    this.guardDestroyed();
+    this.camera.setTransform({ ...vt });
+    this.requestRender();
+    this.emitter.emit('viewchange', this.camera.getTransform());
+  }
+
+  /** Named views saved in the drawing (VIEW table), in table order. */
+  getViews(): DxfView[] {
+    return this.doc?.views ? [...this.doc.views.values()] : [];
+  }
+
+  /**
+   * Show a named view: its center, size and twist. Paper space views (flag 1)
+   * are in paper units and belong with a layout shown by `setActiveLayout`.
+   */
+  setView(name: string): void {
+    this.guardDestroyed();
+    if (!this.doc) return;
+
+    const view = findView(this.doc, name);
+    if (!view) {
+      throw new Error(`CadViewer: unknown view "${name}".`);
+    }
+    const viewWindow = namedViewWindow(view);
+    if (!viewWindow) {
+      throw new Error(`CadViewer: view "${view.name}" is not a plan view.`);
+    }
+    this.showViewWindow(viewWindow);
+  }
+
+  private showViewWindow(view: ViewWindow): void {
+    const rect = this.canvas.getBoundingClientRect();
+    this.setViewTransform(fitViewWindow(
+      rect.width, rect.height, view.center.x, view.center.y, view.width, view.height, view.rotation,
+    ));
+  }
+
   /** @internal */
   getZoomSpeed(): number {
     return this.options.zoomSpeed;
@@ -414,15 +592,51 @@ export class CadViewer {
   setLayerVisible(name: string, visible: boolean): void {
     this.guardDestroyed();
     this.layerManager.setVisible(name, visible);
+    this.emitLayerChange(name);
     this.requestRender();
   }
 
+  isLayerVisible(name: string): boolean {
+    return this.layerManager.isVisible(name);
+  }
+
+  /** Override the display color of a layer's BYLAYER entities (any CSS color). */
   setLayerColor(name: string, color: string): void {
     this.guardDestroyed();
     this.layerManager.setColorOverride(name, color);
+    this.emitLayerChange(name);
     this.requestRender();
   }
 
+  /** Color override of a layer, or undefined when it uses its DXF color. */
+  getLayerColor(name: string): string | undefined {
+    return this.layerManager.getColorOverride(name);
+  }
+
+  /** Remove a layer's color override so it uses its DXF color again. */
+  clearLayerColor(name: string): void {
+    this.guardDestroyed();
+    this.layerManager.clearColorOverride(name);
+    this.emitLayerChange(name);
+    this.requestRender();
+  }
+
+  /** Drop all layer color overrides and restore layer visibility from the DXF. */
+  resetLayerOverrides(): void {
+    this.guardDestroyed();
+    this.layerManager.resetOverrides();
+    this.emitter.emit('layerchange', { layer: null });
+    this.requestRender();
+  }
+
+  private emitLayerChange(name: string): void {
+    this.emitter.emit('layerchange', {
+      layer: name,
+      visible: this.layerManager.isVisible(name),
+      color: this.layerManager.getColorOverride(name),
+    });
+  }
+
   // === Theme ===
 
   setTheme(theme: Theme): void {
@@ -441,6 +655,43 @@ export class CadViewer {
     this.requestRender();
   }
 
+  // === Lineweights ===
+
+  setLineWeightMode(mode: LineWeightMode): void {
+    this.guardDestroyed();
+    this.options.lineWeightMode = mode;
+    this.requestRender();
+  }
+
+  getLineWeightMode(): LineWeightMode {
+    return this.options.lineWeightMode;
+  }
+
+  // === Fonts ===
+
+  /**
+   * Load a compiled SHX font (shape, Unicode or big font) under its file
+   * name, as referenced by the drawing's text styles. Throws if the buffer
+   * is not an SHX font.
+   */
+  loadFont(name: string, buffer: ArrayBuffer): void {
+    this.guardDestroyed();
+    const font = parseShxFont(buffer);
+    // Replace the map so cached text layouts see the change
+    this.shxFonts = new Map(this.shxFonts).set(shxFontKey(name), font);
+    this.requestRender();
+  }
+
+  /**
+   * Replace the viewer's CSS font mappings (see `fontMappings` option).
+   * Text is laid out again with the new fonts.
+   */
+  setFontMappings(mapping: Record<string, string>): void {
+    this.guardDestroyed();
+    this.fontMappings = createFontMappings(mapping);
+    this.requestRender();
+  }
+
   // === Tools ===
 
   setTool(tool: Tool): void {
@@ -494,8 +745,72 @@ export class CadViewer {
     return this.doc;
   }
 
+  /** Entities of the active layout: model space, or the paper space entities of a layout. */
   getEntities(): DxfEntity[] {
-    return this.doc?.entities ?? [];
+    if (!this.doc) return [];
+    return this.activeLayout ? getLayoutEntities(this.doc, this.activeLayout) : this.doc.entities;
+  }
+
+  /**
+   * Attributes of the INSERT at `entityIndex`: each ATTDEF of its block with
+   * the INSERT's ATTRIB value or the definition's default, followed by any
+   * ATTRIBs without a definition. Empty for other entities.
+   */
+  getBlockAttributes(entityIndex: number): BlockAttribute[] {
+    const entity = this.getEntities()[entityIndex];
+    if (!this.doc || entity?.type !== 'INSERT') return [];
+    return getBlockAttributes(entity, this.doc);
+  }
+
+  /**
+   * Indices of the active layout's entities with extended data for
+   * `appName`, or, when `value` is given, with that value among it (see
+   * xdataContains). Indices match the select event's `entityIndex`.
+   */
+  findEntitiesByXData(appName: string, value?: string | number): number[] {
+    const indices: number[] = [];
+    this.getEntities().forEach((entity, index) => {
+      const values = getXData(entity, appName);
+      if (values && (value === undefined || xdataContains(values, value))) indices.push(index);
+    });
+    return indices;
+  }
+
+  // === Layouts ===
+
+  /** Layouts of the drawing in tab order, Model first. Empty for drawings without layouts. */
+  getLayouts(): DxfLayout[] {
+    return this.doc ? getSortedLayouts(this.doc) : [];
+  }
+
+  /** Name of the layout being shown ('Model' for model space). */
+  getActiveLayout(): string {
+    return this.activeLayout?.name ?? MODEL_LAYOUT;
+  }
+
+  /**
+   * Show a layout: 'Model' for model space, or a paper space layout whose
+   * sheet is drawn with each viewport showing model space at its scale.
+   * Selection, measurement and entity indices then refer to the layout's
+   * entities. Fits the view to the layout.
+   */
+  setActiveLayout(name: string): void {
+    this.guardDestroyed();
+    if (!this.doc) return;
+
+    const layout = this.doc.layouts?.get(name);
+    if (!layout && name.toUpperCase() !== MODEL_LAYOUT.toUpperCase()) {
+      throw new Error(`CadViewer: unknown layout "${name}".`);
+    }
+    this.activeLayout = layout && !isModelLayout(layout) ? layout : null;
+
+    this.spatialIndex.build(this.getEntities(), this.doc);
+    this.selectedEntityIndex = -1;
+    this.measureTool.deactivate();
+    if (this.currentTool === 'measure') {
+      this.measureTool.activate();
+    }
+    this.fitToView();
   }
 
   // === Lifecycle ===
@@ -518,6 +833,9 @@ export class CadViewer {
     this.workerManager?.terminate();
     this.workerManager = null;
     this.doc = null;
+    this.releaseImages();
+    this.activeLayout = null;
+    this.modelBBoxes = [];
   }
 
   // === Internal (called by InputHandler) ===
@@ -558,15 +876,37 @@ export class CadViewer {
     }
 
     const renderStart = performance.now();
-    const stats = this.renderer.render(
-      this.doc,
-      vt,
-      this.options.theme,
-      this.layerManager.getVisibleLayerNames(),
-      this.selectedEntityIndex,
-      visibleIndices,
-      this.spatialIndex.getEntityBBoxes(),
-    );
+    const drawOptions = {
+      lineWeightMode: this.options.lineWeightMode,
+      layerColors: this.layerManager.getColorOverrides(),
+      shxFonts: this.shxFonts,
+      fontMappings: this.fontMappings,
+      viewBounds: vb,
+      images: this.images,
+    };
+    const stats = this.activeLayout
+      ? this.renderer.renderLayout(
+        this.doc,
+        this.activeLayout,
+        vt,
+        this.options.theme,
+        this.layerManager.getVisibleLayerNames(),
+        this.selectedEntityIndex,
+        visibleIndices,
+        this.spatialIndex.getEntityBBoxes(),
+        this.modelBBoxes,
+        drawOptions,
+      )
+      : this.renderer.render(
+        this.doc,
+        vt,
+        this.options.theme,
+        this.layerManager.getVisibleLayerNames(),
+        this.selectedEntityIndex,
+        visibleIndices,
+        this.spatialIndex.getEntityBBoxes(),
+        drawOptions,
+      );
     this.lastFrameTime = performance.now() - renderStart;
     this.lastRenderStats = stats;
 
@@ -697,13 +1037,15 @@ export class CadViewer {
     w: number,
     h: number,
   ): { minX: number; minY: number; maxX: number; maxY: number } {
-    const [x1, y1] = screenToWorld(vt, 0, h);
-    const [x2, y2] = screenToWorld(vt, w, 0);
+    // All four corners, since a twisted view is not axis-aligned in the world
+    const corners = [screenToWorld(vt, 0, 0), screenToWorld(vt, w, 0), screenToWorld(vt, w, h), screenToWorld(vt, 0, h)];
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
     return {
-      minX: Math.min(x1, x2),
-      minY: Math.min(y1, y2),
-      maxX: Math.max(x1, x2),
-      maxY: Math.max(y1, y2),
+      minX: Math.min(...xs),
+      minY: Math.min(...ys),
+      maxX: Math.max(...xs),
+      maxY: Math.max(...ys),
     };
   }
 
@@ -734,7 +1076,7 @@ export class CadViewer {
         this.handleSelect(wx, wy, screenX, screenY);
         break;
       case 'measure': {
-        const snaps = findSnaps(wx, wy, this.doc.entities, this.spatialIndex, vt.scale);
+        const snaps = findSnaps(wx, wy, this.getEntities(), this.spatialIndex, vt.scale);
         const snap = snaps.length > 0 ? snaps[0]! : null;
         const result = this.measureTool.handleClick(wx, wy, snap);
         this.requestRender();
@@ -754,7 +1096,7 @@ export class CadViewer {
     if (this.currentTool === 'measure' && this.doc) {
       const vt = this.camera.getTransform();
       const [wx, wy] = screenToWorld(vt, screenX, screenY);
-      const snaps = findSnaps(wx, wy, this.doc.entities, this.spatialIndex, vt.scale);
+      const snaps = findSnaps(wx, wy, this.getEntities(), this.spatialIndex, vt.scale);
       this.measureTool.handleMove(snaps[0] ?? null);
       this.requestRender();
     }
@@ -764,7 +1106,7 @@ export class CadViewer {
     if (!this.doc) return;
     const index = hitTest(
       wx, wy,
-      this.doc.entities,
+      this.getEntities(),
       this.spatialIndex,
       this.layerManager.getVisibleLayerNames(),
       this.camera.getTransform().scale,
@@ -773,13 +1115,15 @@ export class CadViewer {
     this.requestRender();
 
     if (index >= 0 && this.doc) {
-      const entity = this.doc.entities[index];
+      const entity = this.getEntities()[index];
       if (entity) {
         this.emitter.emit('select', {
           entity,
           entityIndex: index,
           worldPoint: { x: wx, y: wy },
           screenPoint: { x: sx, y: sy },
+          text: getEntityText(entity),
+          cells: entity.type === 'ACAD_TABLE' ? getTableCells(entity) : undefined,
         });
       }
     }
@@ -788,6 +1132,15 @@ export class CadViewer {
   private computeDocumentBounds(): { minX: number; minY: number; maxX: number; maxY: number } | null {
     if (!this.doc) return null;
 
+    if (this.activeLayout) {
+      // The sheet when its limits are set, else the paper space entities
+      const { limitsMin: min, limitsMax: max } = this.activeLayout;
+      if (max.x > min.x && max.y > min.y) {
+        return { minX: min.x, minY: min.y, maxX: max.x, maxY: max.y };
+      }
+      return computeEntitiesBounds(this.getEntities(), this.doc);
+    }
+
     if (this.doc.header.extMin && this.doc.header.extMax) {
       return {
         minX: this.doc.header.extMin.x,
@@ -149,6 +149,15 @@ export class WorkerManager {
       lineTypes: this.ensureMap(doc.lineTypes),
       styles: this.ensureMap(doc.styles),
       blocks: this.ensureMap(doc.blocks),
+      imageDefs: this.ensureMap(doc.imageDefs),
+      mlineStyles: this.ensureMap(doc.mlineStyles),
+      layouts: this.ensureMap(doc.layouts),
+      dimStyles: this.ensureMap(doc.dimStyles),
+      vports: this.ensureMap(doc.vports),
+      views: this.ensureMap(doc.views),
+      ucs: this.ensureMap(doc.ucs),
+      appIds: this.ensureMap(doc.appIds),
+      blockRecords: this.ensureMap(doc.blockRecords),
     };
   }
 
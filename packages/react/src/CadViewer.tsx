@@ -13,6 +13,7 @@ import {
   type DxfLayer,
   type SelectEvent,
   type MeasureEvent,
+  type LayerChangeEvent,
   type ViewTransform,
   type Tool,
   type Theme,
@@ -34,6 +35,7 @@ export interface CadViewerProps {
   onSelect?: (event: SelectEvent) => void;
   onMeasure?: (event: MeasureEvent) => void;
   onViewChange?: (transform: ViewTransform) => void;
+  onLayerChange?: (event: LayerChangeEvent) => void;
   onLayersLoaded?: (layers: DxfLayer[]) => void;
 }
 
@@ -59,6 +61,7 @@ export const CadViewer = forwardRef<CadViewerRef, CadViewerProps>(
       onSelect,
       onMeasure,
       onViewChange,
+      onLayerChange,
       onLayersLoaded,
     } = props;
 
@@ -147,9 +150,13 @@ export const CadViewer = forwardRef<CadViewerRef, CadViewerProps>(
         viewer.on('viewchange', onViewChange);
         handlers.push(() => viewer.off('viewchange', onViewChange));
       }
+      if (onLayerChange) {
+        viewer.on('layerchange', onLayerChange);
+        handlers.push(() => viewer.off('layerchange', onLayerChange));
+      }
 
       return () => { handlers.forEach((h) => { h(); }); };
-    }, [onSelect, onMeasure, onViewChange]);
+    }, [onSelect, onMeasure, onViewChange, onLayerChange]);
 
     useImperativeHandle(ref, () => ({
       getViewer: () => viewerRef.current,
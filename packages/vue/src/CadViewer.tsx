@@ -15,6 +15,7 @@ import {
   type DxfLayer,
   type SelectEvent,
   type MeasureEvent,
+  type LayerChangeEvent,
   type ViewTransform,
   type Tool,
   type Theme,
@@ -54,7 +55,7 @@ export const CadViewer = defineComponent({
     },
   },
 
-  emits: ['select', 'measure', 'viewchange', 'layers-loaded'],
+  emits: ['select', 'measure', 'viewchange', 'layerchange', 'layers-loaded'],
 
   setup(props, { emit, expose }) {
     const canvasRef = ref<HTMLCanvasElement | null>(null);
@@ -76,6 +77,7 @@ export const CadViewer = defineComponent({
       viewer.on('select', (e: SelectEvent) => emit('select', e));
       viewer.on('measure', (e: MeasureEvent) => emit('measure', e));
       viewer.on('viewchange', (vt: ViewTransform) => emit('viewchange', vt));
+      viewer.on('layerchange', (e: LayerChangeEvent) => emit('layerchange', e));
     });
 
     onUnmounted(() => {